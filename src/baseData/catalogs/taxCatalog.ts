@@ -0,0 +1,248 @@
+/**
+ * @file src/baseData/catalogs/taxCatalog.ts
+ * @description Catálogo tipado de las tablas de impuestos del SRI (Ficha Técnica 2.31): tarifas de IVA
+ * con su vigencia, códigos de ICE, IRBPNR y conceptos de retención, junto con funciones de búsqueda
+ * y validación de los impuestos de un comprobante según su fecha de emisión.
+ */
+
+import { CodigoImpuesto, TotalTax } from '../invoice/taxInfo';
+import { Tax } from '../invoice/details';
+import { CodigoImpuestoRetencion } from '../retentionVoucher/supportingDocuments';
+import { parseSriDate } from '../../utils/utils';
+import { ValidationError, ValidationIssue } from '../../services/errors';
+
+// Códigos de porcentaje de IVA según Tabla 17 de la Ficha Técnica SRI 2.31.
+export type CodigoPorcentajeIva =
+  | '0' // 0%
+  | '2' // 12%
+  | '3' // 14%
+  | '4' // 15%
+  | '5' // 5%
+  | '6' // No objeto de impuesto
+  | '7' // Exento de IVA
+  | '8' // IVA diferenciado
+  | '10' // 13%
+;
+
+/**
+ * Representa una tarifa del catálogo de impuestos.
+ */
+export interface TaxRateEntry {
+  /** Código del impuesto. */
+  codigo: CodigoImpuesto;
+  /** Código del porcentaje. */
+  codigoPorcentaje: string;
+  /** Descripción oficial de la tarifa. */
+  descripcion: string;
+  /**
+   * Tarifa asociada. Para IVA es un porcentaje, para IRBPNR el valor por unidad.
+   * Se omite cuando la tarifa la fija el contribuyente (ICE ad valorem o específico).
+   */
+  tarifa?: number;
+  /** (Opcional) Fecha desde la que rige la tarifa (dd/mm/aaaa). */
+  vigenteDesde?: string;
+  /** (Opcional) Fecha hasta la que rige la tarifa (dd/mm/aaaa). */
+  vigenteHasta?: string;
+}
+
+/**
+ * Representa un concepto de retención del catálogo.
+ */
+export interface RetentionConceptEntry {
+  /** Código del impuesto retenido. */
+  codigo: CodigoImpuestoRetencion;
+  /** Código del concepto de retención. */
+  codigoRetencion: string;
+  /** Descripción del concepto. */
+  descripcion: string;
+  /** Porcentaje de retención. */
+  porcentaje: number;
+}
+
+/** Tarifas de IVA (Tabla 17). */
+export const IVA_RATES: readonly TaxRateEntry[] = [
+  { codigo: '2', codigoPorcentaje: '0', descripcion: '0%', tarifa: 0 },
+  { codigo: '2', codigoPorcentaje: '2', descripcion: '12%', tarifa: 12, vigenteHasta: '31/03/2024' },
+  { codigo: '2', codigoPorcentaje: '3', descripcion: '14%', tarifa: 14, vigenteDesde: '01/06/2016', vigenteHasta: '31/05/2017' },
+  { codigo: '2', codigoPorcentaje: '4', descripcion: '15%', tarifa: 15, vigenteDesde: '01/04/2024' },
+  { codigo: '2', codigoPorcentaje: '5', descripcion: '5%', tarifa: 5, vigenteDesde: '01/04/2024' },
+  { codigo: '2', codigoPorcentaje: '6', descripcion: 'No objeto de impuesto', tarifa: 0 },
+  { codigo: '2', codigoPorcentaje: '7', descripcion: 'Exento de IVA', tarifa: 0 },
+  { codigo: '2', codigoPorcentaje: '8', descripcion: 'IVA diferenciado', tarifa: 8 },
+  { codigo: '2', codigoPorcentaje: '10', descripcion: '13%', tarifa: 13, vigenteDesde: '01/04/2024' },
+];
+
+/** Códigos de ICE más usados (Tabla 18). La tarifa depende del producto y la fija el contribuyente. */
+export const ICE_RATES: readonly TaxRateEntry[] = [
+  { codigo: '3', codigoPorcentaje: '3011', descripcion: 'Cigarrillos rubios' },
+  { codigo: '3', codigoPorcentaje: '3021', descripcion: 'Cigarrillos negros' },
+  { codigo: '3', codigoPorcentaje: '3023', descripcion: 'Productos del tabaco y sucedáneos del tabaco excepto cigarrillos' },
+  { codigo: '3', codigoPorcentaje: '3031', descripcion: 'Bebidas alcohólicas distintas a la cerveza' },
+  { codigo: '3', codigoPorcentaje: '3041', descripcion: 'Cerveza industrial' },
+  { codigo: '3', codigoPorcentaje: '3043', descripcion: 'Cerveza artesanal' },
+  { codigo: '3', codigoPorcentaje: '3053', descripcion: 'Bebidas gaseosas con alto contenido de azúcar' },
+  { codigo: '3', codigoPorcentaje: '3054', descripcion: 'Bebidas gaseosas con bajo contenido de azúcar' },
+  { codigo: '3', codigoPorcentaje: '3073', descripcion: 'Vehículos motorizados cuyo PVP sea hasta de 20000 USD' },
+  { codigo: '3', codigoPorcentaje: '3075', descripcion: 'Vehículos motorizados cuyo PVP supere los 30000 USD hasta 40000 USD' },
+  { codigo: '3', codigoPorcentaje: '3081', descripcion: 'Aviones, avionetas y helicópteros excepto aquellas destinadas al transporte comercial' },
+  { codigo: '3', codigoPorcentaje: '3092', descripcion: 'Servicios de televisión pagada' },
+  { codigo: '3', codigoPorcentaje: '3610', descripcion: 'Perfumes y aguas de tocador' },
+  { codigo: '3', codigoPorcentaje: '3620', descripcion: 'Videojuegos' },
+  { codigo: '3', codigoPorcentaje: '3630', descripcion: 'Armas de fuego, armas deportivas y municiones' },
+  { codigo: '3', codigoPorcentaje: '3640', descripcion: 'Focos incandescentes' },
+  { codigo: '3', codigoPorcentaje: '3660', descripcion: 'Cuotas, membresías, afiliaciones, acciones y similares' },
+];
+
+/** Tarifas del Impuesto Redimible a las Botellas Plásticas no Retornables (Tabla 19). */
+export const IRBPNR_RATES: readonly TaxRateEntry[] = [
+  { codigo: '5', codigoPorcentaje: '5001', descripcion: 'Botellas plásticas no retornables', tarifa: 0.02 },
+];
+
+/** Conceptos de retención más usados (Tabla 3 y 4 de retenciones). */
+export const RETENTION_CONCEPTS: readonly RetentionConceptEntry[] = [
+  { codigo: '1', codigoRetencion: '303', descripcion: 'Honorarios profesionales y demás pagos por servicios relacionados con el título profesional', porcentaje: 10 },
+  { codigo: '1', codigoRetencion: '304', descripcion: 'Servicios predomina el intelecto no relacionados con el título profesional', porcentaje: 8 },
+  { codigo: '1', codigoRetencion: '307', descripcion: 'Servicios predomina la mano de obra', porcentaje: 2 },
+  { codigo: '1', codigoRetencion: '309', descripcion: 'Servicios prestados por medios de comunicación y agencias de publicidad', porcentaje: 1.75 },
+  { codigo: '1', codigoRetencion: '310', descripcion: 'Servicio de transporte privado de pasajeros o transporte público o privado de carga', porcentaje: 1 },
+  { codigo: '1', codigoRetencion: '312', descripcion: 'Transferencia de bienes muebles de naturaleza corporal', porcentaje: 1.75 },
+  { codigo: '1', codigoRetencion: '320', descripcion: 'Arrendamiento de bienes inmuebles', porcentaje: 10 },
+  { codigo: '1', codigoRetencion: '322', descripcion: 'Seguros y reaseguros (primas y cesiones)', porcentaje: 1.75 },
+  { codigo: '1', codigoRetencion: '332', descripcion: 'Otras compras de bienes y servicios no sujetas a retención', porcentaje: 0 },
+  { codigo: '1', codigoRetencion: '3440', descripcion: 'Otras retenciones aplicables el 2,75%', porcentaje: 2.75 },
+  { codigo: '2', codigoRetencion: '7', descripcion: 'Retención en cero', porcentaje: 0 },
+  { codigo: '2', codigoRetencion: '9', descripcion: 'Retención del 10% del IVA', porcentaje: 10 },
+  { codigo: '2', codigoRetencion: '10', descripcion: 'Retención del 20% del IVA', porcentaje: 20 },
+  { codigo: '2', codigoRetencion: '1', descripcion: 'Retención del 30% del IVA', porcentaje: 30 },
+  { codigo: '2', codigoRetencion: '11', descripcion: 'Retención del 50% del IVA', porcentaje: 50 },
+  { codigo: '2', codigoRetencion: '2', descripcion: 'Retención del 70% del IVA', porcentaje: 70 },
+  { codigo: '2', codigoRetencion: '3', descripcion: 'Retención del 100% del IVA', porcentaje: 100 },
+  { codigo: '6', codigoRetencion: '4580', descripcion: 'Impuesto a la Salida de Divisas', porcentaje: 5 },
+];
+
+const RATES_BY_TAX: Record<CodigoImpuesto, readonly TaxRateEntry[]> = {
+  '2': IVA_RATES,
+  '3': ICE_RATES,
+  '5': IRBPNR_RATES,
+};
+
+/**
+ * Indica si una tarifa del catálogo está vigente en la fecha indicada.
+ */
+function isInForce(entry: TaxRateEntry, date: Date): boolean {
+  if (entry.vigenteDesde && date < parseSriDate(entry.vigenteDesde)) return false;
+  if (entry.vigenteHasta && date > parseSriDate(entry.vigenteHasta)) return false;
+  return true;
+}
+
+/**
+ * Busca una tarifa del catálogo por código de impuesto y código de porcentaje.
+ *
+ * @param codigo El código del impuesto ('2', '3' o '5').
+ * @param codigoPorcentaje El código del porcentaje.
+ * @returns La tarifa del catálogo, o `undefined` si no existe.
+ */
+export function findTaxRate(codigo: string, codigoPorcentaje: string): TaxRateEntry | undefined {
+  const rates = RATES_BY_TAX[codigo as CodigoImpuesto];
+  return rates?.find((entry) => entry.codigoPorcentaje === codigoPorcentaje);
+}
+
+/**
+ * Resuelve la tarifa de IVA vigente para un código de porcentaje en una fecha de emisión.
+ *
+ * @param codigoPorcentaje El código de porcentaje de IVA (ej: '4').
+ * @param fechaEmision La fecha de emisión del comprobante (dd/mm/aaaa).
+ * @returns La tarifa de IVA (ej: 15).
+ * @throws Un error si el código no existe o no está vigente en esa fecha.
+ */
+export function resolveIvaRate(codigoPorcentaje: string, fechaEmision: string): number {
+  const entry = findTaxRate('2', codigoPorcentaje);
+  if (!entry || entry.tarifa === undefined) {
+    throw new ValidationError(`El código de porcentaje de IVA ${codigoPorcentaje} no existe en el catálogo del SRI.`);
+  }
+  if (!isInForce(entry, parseSriDate(fechaEmision))) {
+    throw new ValidationError(`El código de porcentaje de IVA ${codigoPorcentaje} (${entry.descripcion}) no está vigente al ${fechaEmision}.`);
+  }
+  return entry.tarifa;
+}
+
+/**
+ * Obtiene el código de porcentaje de IVA vigente para una tarifa en una fecha de emisión.
+ * Las tarifas de 0% devuelven el código '0'; para "no objeto" o "exento" use los códigos '6' y '7'.
+ *
+ * @param tarifa La tarifa de IVA (ej: 15).
+ * @param fechaEmision La fecha de emisión del comprobante (dd/mm/aaaa).
+ * @returns El código de porcentaje (ej: '4').
+ * @throws Un error si no hay un código vigente para esa tarifa.
+ */
+export function getIvaCodeForRate(tarifa: number, fechaEmision: string): CodigoPorcentajeIva {
+  const date = parseSriDate(fechaEmision);
+  const entry = IVA_RATES.find((rate) => rate.tarifa === tarifa && isInForce(rate, date));
+  if (!entry) {
+    throw new ValidationError(`No existe un código de IVA vigente al ${fechaEmision} para la tarifa ${tarifa}%.`);
+  }
+  return entry.codigoPorcentaje as CodigoPorcentajeIva;
+}
+
+/**
+ * Busca un concepto de retención del catálogo.
+ *
+ * @param codigo El código del impuesto retenido ('1' Renta, '2' IVA, '6' ISD).
+ * @param codigoRetencion El código del concepto de retención.
+ * @returns El concepto, o `undefined` si no está en el catálogo.
+ */
+export function findRetentionConcept(codigo: string, codigoRetencion: string): RetentionConceptEntry | undefined {
+  return RETENTION_CONCEPTS.find((entry) => entry.codigo === codigo && entry.codigoRetencion === codigoRetencion);
+}
+
+/**
+ * Revisa que los impuestos de un comprobante existan en el catálogo, estén vigentes en la fecha
+ * de emisión y, cuando el catálogo fija la tarifa, que la tarifa declarada coincida.
+ *
+ * @param taxes Los impuestos a revisar (de un detalle o del bloque <totalConImpuestos>).
+ * @param fechaEmision La fecha de emisión del comprobante (dd/mm/aaaa).
+ * @param path La ruta del campo para los mensajes (ej: 'detalles[0].impuestos').
+ * @returns Una falla por cada impuesto inválido (vacío si todos son válidos).
+ * @throws Un error si la fecha de emisión no tiene el formato dd/mm/aaaa.
+ */
+export function findTaxCatalogIssues(taxes: (Tax | TotalTax)[], fechaEmision: string, path: string): ValidationIssue[] {
+  const date = parseSriDate(fechaEmision);
+  const issues: ValidationIssue[] = [];
+  taxes.forEach((tax, index) => {
+    const field = `${path}[${index}]`;
+    if (!RATES_BY_TAX[tax.codigo]) {
+      issues.push({ path: field, message: `el código de impuesto ${tax.codigo} no existe en el catálogo del SRI.` });
+      return;
+    }
+    const entry = findTaxRate(tax.codigo, tax.codigoPorcentaje);
+    // El catálogo de ICE es parcial: solo se validan los códigos de IVA e IRBPNR.
+    if (!entry) {
+      if (tax.codigo !== '3') {
+        issues.push({ path: field, message: `el código de porcentaje ${tax.codigoPorcentaje} no existe para el impuesto ${tax.codigo}.` });
+      }
+      return;
+    }
+    if (!isInForce(entry, date)) {
+      issues.push({ path: field, message: `el código de porcentaje ${tax.codigoPorcentaje} (${entry.descripcion}) no está vigente al ${fechaEmision}.` });
+    } else if ('tarifa' in tax && entry.tarifa !== undefined && tax.tarifa !== entry.tarifa) {
+      issues.push({ path: field, message: `la tarifa ${tax.tarifa} no corresponde al código de porcentaje ${tax.codigoPorcentaje} (tarifa ${entry.tarifa}).` });
+    }
+  });
+  return issues;
+}
+
+/**
+ * Verifica que los impuestos de un comprobante existan en el catálogo, estén vigentes en la fecha
+ * de emisión y, cuando el catálogo fija la tarifa, que la tarifa declarada coincida.
+ *
+ * @param taxes Los impuestos a verificar (de un detalle o del bloque <totalConImpuestos>).
+ * @param fechaEmision La fecha de emisión del comprobante (dd/mm/aaaa).
+ * @param path La ruta del campo para los mensajes de error (ej: 'detalles[0].impuestos').
+ * @throws Un error que indica el campo y el motivo del primer impuesto inválido.
+ */
+export function assertTaxesInCatalog(taxes: (Tax | TotalTax)[], fechaEmision: string, path: string): void {
+  const [issue] = findTaxCatalogIssues(taxes, fechaEmision, path);
+  if (issue) {
+    throw ValidationError.forField(issue.path, issue.message);
+  }
+}
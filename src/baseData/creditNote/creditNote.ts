@@ -0,0 +1,36 @@
+/**
+ * @file src/baseData/creditNote/creditNote.ts
+ * @description Define la estructura principal de una nota de crédito electrónica (codDoc 04).
+ */
+
+import { AdditionalInfo } from '../invoice/additionalInfo';
+import { TaxInfo } from '../invoice/taxInfo';
+import { CreditNoteInfo } from './creditNoteInfo';
+import { CreditNoteDetail } from './details';
+
+// Versiones de esquema de nota de crédito soportadas según la Ficha Técnica.
+export type CreditNoteVersion = '1.0.0' | '1.1.0';
+
+/**
+ * Representa el objeto completo de una nota de crédito electrónica.
+ */
+export interface CreditNote {
+  /**
+   * Versión del formato del comprobante electrónico.
+   * - '1.0.0': Versión base.
+   * - '1.1.0': Admite hasta 6 decimales en cantidad y precio unitario, y el bloque <compensaciones>.
+   */
+  version: CreditNoteVersion;
+
+  /** Bloque <infoTributaria>: Información tributaria del emisor (codDoc '04'). */
+  infoTributaria: TaxInfo;
+
+  /** Bloque <infoNotaCredito>: Datos del comprador, documento modificado, totales y motivo. */
+  infoNotaCredito: CreditNoteInfo;
+
+  /** Bloque <detalles>: Lista de ítems devueltos o descontados. */
+  detalles: CreditNoteDetail[];
+
+  /** Bloque <infoAdicional>: Campos adicionales para información extra. */
+  infoAdicional?: AdditionalInfo;
+}
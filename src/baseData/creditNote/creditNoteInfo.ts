@@ -0,0 +1,64 @@
+/**
+ * @file src/baseData/creditNote/creditNoteInfo.ts
+ * @description Define la interfaz para el bloque <infoNotaCredito>, que contiene los datos del
+ * comprador, el documento modificado, los totales y el motivo de la nota de crédito.
+ */
+
+import { TipoIdentificacionComprador } from '../invoice/invoiceInfo';
+import { TotalTax } from '../invoice/taxInfo';
+import { Amount } from '../../utils/decimal';
+
+/**
+ * Representa una compensación aplicada en la nota de crédito (versión 1.1.0),
+ * por ejemplo la compensación solidaria del 2% de IVA.
+ */
+export interface Compensacion {
+  /** Código del tipo de compensación. */
+  codigo: string;
+  /** Tarifa de la compensación. */
+  tarifa: number;
+  /** Valor de la compensación. */
+  valor: Amount;
+}
+
+/**
+ * Representa el bloque <infoNotaCredito> del XML.
+ */
+export interface CreditNoteInfo {
+  /** Fecha de emisión de la nota de crédito (formato dd/mm/aaaa). */
+  fechaEmision: string;
+  /** Dirección del establecimiento emisor. */
+  dirEstablecimiento?: string;
+  /** Tipo de identificación del comprador. */
+  tipoIdentificacionComprador: TipoIdentificacionComprador;
+  /** Razón social o nombres y apellidos del comprador. */
+  razonSocialComprador: string;
+  /** Número de identificación del comprador. */
+  identificacionComprador: string;
+  /** Número de resolución de Contribuyente Especial (si aplica). */
+  contribuyenteEspecial?: string;
+  /** Indica si el emisor está obligado a llevar contabilidad ('SI' o 'NO'). */
+  obligadoContabilidad?: 'SI' | 'NO';
+  /** Leyenda RISE (si aplica). */
+  rise?: string;
+  /** Código del tipo de documento modificado (ej: '01' para factura). */
+  codDocModificado: string;
+  /** Número del documento modificado (formato 001-001-000000001). */
+  numDocModificado: string;
+  /** Fecha de emisión del documento modificado (formato dd/mm/aaaa). */
+  fechaEmisionDocSustento: string;
+  /** Suma de todos los `precioTotalSinImpuesto` de los detalles. */
+  totalSinImpuestos: Amount;
+  /** (Opcional) Bloque <compensaciones> (versión 1.1.0). */
+  compensaciones?: {
+    compensacion: Compensacion[];
+  };
+  /** Valor total de la modificación (total sin impuestos más impuestos). */
+  valorModificacion: Amount;
+  /** Moneda de la transacción (ej: 'DOLAR'). */
+  moneda?: string;
+  /** Bloque <totalConImpuestos>: Lista con la totalización de cada tipo de impuesto. */
+  totalConImpuestos: TotalTax[];
+  /** Motivo de la nota de crédito (ej: 'DEVOLUCIÓN DE MERCADERÍA'). */
+  motivo: string;
+}
@@ -0,0 +1,23 @@
+/**
+ * @file src/baseData/creditNote/details.ts
+ * @description Define la interfaz para la sección de detalles de una nota de crédito.
+ * A diferencia de la factura, los códigos del ítem se llaman codigoInterno y codigoAdicional.
+ */
+
+import { AdditionalDetail, Tax } from '../invoice/details';
+import { Amount } from '../../utils/decimal';
+
+/**
+ * Define la estructura completa para un detalle (ítem) de la nota de crédito.
+ */
+export interface CreditNoteDetail {
+  codigoInterno?: string;
+  codigoAdicional?: string;
+  descripcion: string;
+  cantidad: Amount;
+  precioUnitario: Amount;
+  descuento?: Amount;
+  precioTotalSinImpuesto: Amount;
+  detallesAdicionales?: AdditionalDetail[];
+  impuestos: Tax[];
+}
@@ -0,0 +1,31 @@
+/**
+ * @file src/baseData/debitNote/debitNote.ts
+ * @description Define la estructura principal de una nota de débito electrónica (codDoc 05).
+ */
+
+import { AdditionalInfo } from '../invoice/additionalInfo';
+import { TaxInfo } from '../invoice/taxInfo';
+import { DebitNoteInfo, Motivo } from './debitNoteInfo';
+
+// Versiones de esquema de nota de débito soportadas según la Ficha Técnica.
+export type DebitNoteVersion = '1.0.0';
+
+/**
+ * Representa el objeto completo de una nota de débito electrónica.
+ */
+export interface DebitNote {
+  /** Versión del formato del comprobante electrónico. */
+  version: DebitNoteVersion;
+
+  /** Bloque <infoTributaria>: Información tributaria del emisor (codDoc '05'). */
+  infoTributaria: TaxInfo;
+
+  /** Bloque <infoNotaDebito>: Datos del comprador, documento modificado, impuestos, totales y pagos. */
+  infoNotaDebito: DebitNoteInfo;
+
+  /** Bloque <motivos>: Lista de cargos que originan la nota de débito. */
+  motivos: Motivo[];
+
+  /** Bloque <infoAdicional>: Campos adicionales para información extra. */
+  infoAdicional?: AdditionalInfo;
+}
@@ -0,0 +1,55 @@
+/**
+ * @file src/baseData/debitNote/debitNoteInfo.ts
+ * @description Define las interfaces para el bloque <infoNotaDebito> y la lista de <motivos>
+ * de una nota de débito.
+ */
+
+import { Tax } from '../invoice/details';
+import { Pago, TipoIdentificacionComprador } from '../invoice/invoiceInfo';
+import { Amount } from '../../utils/decimal';
+
+/**
+ * Representa un motivo (cargo) de la nota de débito, ej. intereses por mora.
+ */
+export interface Motivo {
+  /** Razón del cargo. */
+  razon: string;
+  /** Valor del cargo sin impuestos. */
+  valor: Amount;
+}
+
+/**
+ * Representa el bloque <infoNotaDebito> del XML.
+ */
+export interface DebitNoteInfo {
+  /** Fecha de emisión de la nota de débito (formato dd/mm/aaaa). */
+  fechaEmision: string;
+  /** Dirección del establecimiento emisor. */
+  dirEstablecimiento?: string;
+  /** Tipo de identificación del comprador. */
+  tipoIdentificacionComprador: TipoIdentificacionComprador;
+  /** Razón social o nombres y apellidos del comprador. */
+  razonSocialComprador: string;
+  /** Número de identificación del comprador. */
+  identificacionComprador: string;
+  /** Número de resolución de Contribuyente Especial (si aplica). */
+  contribuyenteEspecial?: string;
+  /** Indica si el emisor está obligado a llevar contabilidad ('SI' o 'NO'). */
+  obligadoContabilidad?: 'SI' | 'NO';
+  /** Leyenda RISE (si aplica). */
+  rise?: string;
+  /** Código del tipo de documento modificado (ej: '01' para factura). */
+  codDocModificado: string;
+  /** Número del documento modificado (formato 001-001-000000001). */
+  numDocModificado: string;
+  /** Fecha de emisión del documento modificado (formato dd/mm/aaaa). */
+  fechaEmisionDocSustento: string;
+  /** Suma de los valores de todos los motivos. */
+  totalSinImpuestos: Amount;
+  /** Bloque <impuestos>: Impuestos aplicados sobre los motivos. */
+  impuestos: Tax[];
+  /** Valor total de la nota de débito (total sin impuestos más impuestos). */
+  valorTotal: Amount;
+  /** (Opcional) Bloque <pagos>: Lista de las formas de pago utilizadas. */
+  pagos?: Pago[];
+}
@@ -4,6 +4,9 @@
  * VERSIÓN CORREGIDA: Se estandarizan los nombres de las interfaces al inglés para consistencia.
  */
 
+import { CodigoImpuesto } from './taxInfo';
+import { Amount } from '../../utils/decimal';
+
 /**
  * Define la estructura para un campo de información adicional dentro de un detalle.
  */
@@ -16,11 +19,11 @@ export interface AdditionalDetail {
  * Define la estructura para un impuesto aplicado a un detalle específico de la factura.
  */
 export interface Tax {
-  codigo: string;
+  codigo: CodigoImpuesto;
   codigoPorcentaje: string;
   tarifa: number;
-  baseImponible: number;
-  valor: number;
+  baseImponible: Amount;
+  valor: Amount;
 }
 
 /**
@@ -30,11 +33,12 @@ export interface Detail {
   codigoPrincipal: string;
   codigoAuxiliar?: string;
   descripcion: string;
-  cantidad: number;
-  precioUnitario: number;
-  precioSinSubsidio?: number;
-  descuento: number;
-  precioTotalSinImpuesto: number;
+  unidadMedida?: string;
+  cantidad: Amount;
+  precioUnitario: Amount;
+  precioSinSubsidio?: Amount;
+  descuento: Amount;
+  precioTotalSinImpuesto: Amount;
   detallesAdicionales?: AdditionalDetail[];
   impuestos: Tax[];
 }
\ No newline at end of file
@@ -14,23 +14,18 @@ import { RetentionInInvoice } from './retentions'; // <--- IMPORTADO
 import { TaxInfo } from './taxInfo';
 
 // Definimos las versiones de esquema de factura soportadas según la Ficha Técnica.
-export type InvoiceVersion = '1.0.0' | '1.1.0' | '2.0.0' | '2.1.0';
+/** Versiones 1.x: sin bloques de rubros de terceros ni de factura sustitutiva. */
+export type InvoiceV1Version = '1.0.0' | '1.1.0';
+/** Versiones 2.x: admiten <infoSustitutivaGuiaRemision> y <otrosRubrosTerceros>. */
+export type InvoiceV2Version = '2.0.0' | '2.1.0';
+export type InvoiceVersion = InvoiceV1Version | InvoiceV2Version;
 
 /**
- * Representa el objeto completo de una factura electrónica.
+ * Campos comunes a todas las versiones de la factura.
  * Esta estructura está diseñada para ser completa y flexible, cubriendo todos los
  * escenarios descritos en la Ficha Técnica del SRI.
  */
-export interface Invoice {
-  /**
-   * Versión del formato del comprobante electrónico. Determina los campos y estructura del XML.
-   * - '1.0.0': Versión base.
-   * - '1.1.0': Admite hasta 6 decimales en cantidad y precio unitario.
-   * - '2.0.0': Introduce campos para "Rubros de Terceros" y "Factura Sustitutiva".
-   * - '2.1.0': Admite 6 decimales y los nuevos campos de la v2.0.0.
-   */
-  version: InvoiceVersion;
-
+export interface InvoiceBase {
   /** Bloque <infoTributaria>: Información tributaria del emisor. */
   infoTributaria: TaxInfo;
 
@@ -53,12 +48,53 @@ export interface Invoice {
     reembolsoDetalle: ReimbursementDetail[];
   };
 
-  /** Bloque <infoSustitutivaGuiaRemision>: Información para facturas que sustituyen a una guía de remisión (versiones >= 2.0.0, Anexo 9). */
+  /** Bloque <infoAdicional>: Campos adicionales para información extra en la factura. */
+  infoAdicional?: AdditionalInfo;
+}
+
+/**
+ * Factura de las versiones 1.x. Usar los bloques de la versión 2 es un error de tipos.
+ * - '1.0.0': Versión base.
+ * - '1.1.0': Admite hasta 6 decimales en cantidad y precio unitario.
+ */
+export interface InvoiceV1<V extends InvoiceV1Version = InvoiceV1Version> extends InvoiceBase {
+  /** Versión del formato del comprobante electrónico. Determina los campos y estructura del XML. */
+  version: V;
+  infoSustitutivaGuiaRemision?: never;
+  otrosRubrosTerceros?: never;
+}
+
+/**
+ * Factura de las versiones 2.x.
+ * - '2.0.0': Introduce campos para "Rubros de Terceros" y "Factura Sustitutiva".
+ * - '2.1.0': Admite 6 decimales y los nuevos campos de la v2.0.0.
+ */
+export interface InvoiceV2<V extends InvoiceV2Version = InvoiceV2Version> extends InvoiceBase {
+  /** Versión del formato del comprobante electrónico. Determina los campos y estructura del XML. */
+  version: V;
+
+  /** Bloque <infoSustitutivaGuiaRemision>: Información para facturas que sustituyen a una guía de remisión (Anexo 9). */
   infoSustitutivaGuiaRemision?: RemissionGuideSustitutiveInfo;
 
-  /** Bloque <otrosRubrosTerceros>: Rubros correspondientes a valores de terceros (versiones >= 2.0.0, Anexo 8). */
+  /** Bloque <otrosRubrosTerceros>: Rubros correspondientes a valores de terceros (Anexo 8). */
   otrosRubrosTerceros?: OtherThirdPartyValues;
-
-  /** Bloque <infoAdicional>: Campos adicionales para información extra en la factura. */
-  infoAdicional?: AdditionalInfo;
 }
+
+/**
+ * Factura de una versión concreta (ej: `InvoiceOf<'2.1.0'>`).
+ */
+export type InvoiceOf<V extends InvoiceVersion> = V extends InvoiceV2Version
+  ? InvoiceV2<V>
+  : V extends InvoiceV1Version ? InvoiceV1<V> : never;
+
+/**
+ * Representa el objeto completo de una factura electrónica: una unión discriminada por `version`.
+ * Al comprobar `invoice.version` TypeScript acota los bloques disponibles.
+ */
+export type Invoice = InvoiceV1 | InvoiceV2;
+
+/**
+ * Factura sin versión, con todos los bloques que admite alguna versión.
+ * Es la entrada de `selectInvoiceVersion` y `withMinimumInvoiceVersion`.
+ */
+export type InvoiceContent = Omit<InvoiceV2, 'version'>;
@@ -5,6 +5,7 @@
  */
 
 import { TotalTax } from './taxInfo';
+import { Amount } from '../../utils/decimal';
 
 // Códigos de tipo de identificación del comprador según Tabla 6 de la Ficha Técnica SRI 2.31.
 export type TipoIdentificacionComprador =
@@ -40,7 +41,7 @@ export interface Pago {
   /** Código de la forma de pago. */
   formaPago: FormaPago;
   /** Monto total pagado con esta forma. */
-  total: number;
+  total: Amount;
   /** Plazo para el pago (si aplica). */
   plazo?: number;
   /** Unidad de tiempo para el plazo (ej: 'dias'). */
@@ -68,31 +69,31 @@ export interface InvoiceInfo {
   /** Dirección del comprador (obligatorio para Factura Comercial Negociable). */
   direccionComprador?: string;
   /** Suma de todos los `precioTotalSinImpuesto` de los detalles. */
-  totalSinImpuestos: number;
+  totalSinImpuestos: Amount;
   /** Suma de todos los `descuento` de los detalles. */
-  totalDescuento: number;
+  totalDescuento: Amount;
   /**
    * (Opcional) Suma de los subsidios aplicados.
    * Requerido para facturas con subsidios (Anexo 6).
    */
-  totalSubsidio?: number;
+  totalSubsidio?: Amount;
   /**
    * (Opcional) Código del documento de reembolso ('41').
    * Requerido para facturas de reembolso (Anexo 5).
    */
   codDocReembolso?: string;
   /** (Opcional) Suma total de los comprobantes de reembolso. */
-  totalComprobantesReembolso?: number;
+  totalComprobantesReembolso?: Amount;
   /** (Opcional) Suma de las bases imponibles de los comprobantes de reembolso. */
-  totalBaseImponibleReembolso?: number;
+  totalBaseImponibleReembolso?: Amount;
   /** (Opcional) Suma de los impuestos de los comprobantes de reembolso. */
-  totalImpuestoReembolso?: number;
+  totalImpuestoReembolso?: Amount;
   /** Bloque <totalConImpuestos>: Lista con la totalización de cada tipo de impuesto. */
   totalConImpuestos: TotalTax[];
   /** Propina (si aplica). */
-  propina: number;
+  propina: Amount;
   /** Valor total de la factura. */
-  importeTotal: number;
+  importeTotal: Amount;
   /** Moneda de la transacción (ej: 'DOLAR'). */
   moneda: string;
   /**
@@ -4,6 +4,8 @@
  * según el Anexo 8 de la Ficha Técnica del SRI.
  */
 
+import { Amount } from '../../utils/decimal';
+
 /**
  * Representa un rubro individual que corresponde a un valor de un tercero.
  */
@@ -11,7 +13,7 @@ export interface Rubro {
   /** Descripción del concepto del rubro. */
   concepto: string;
   /** Valor total del rubro. */
-  total: number;
+  total: Amount;
 }
 
 /**
@@ -4,6 +4,8 @@
  * según el Anexo 5 de la Ficha Técnica del SRI.
  */
 
+import { Amount } from '../../utils/decimal';
+
 /**
  * Representa el detalle de un impuesto dentro de un comprobante de reembolso.
  */
@@ -15,9 +17,9 @@ interface DetalleImpuestoReembolso {
   /** Tarifa del impuesto. */
   tarifa: number;
   /** Base imponible para el cálculo del impuesto del reembolso. */
-  baseImponibleReembolso: number;
+  baseImponibleReembolso: Amount;
   /** Valor del impuesto del reembolso. */
-  impuestoReembolso: number;
+  impuestoReembolso: Amount;
 }
 
 // Códigos de país de pago al proveedor según Tabla 25 SRI 2.31 (ejemplo: 'ECU' para Ecuador, 'COL' para Colombia, etc.)
@@ -5,6 +5,8 @@
  * según la Ficha Técnica del SRI (Anexo 3, versión 1.1.0).
  */
 
+import { Amount } from '../../utils/decimal';
+
 /**
  * Código del impuesto a retener dentro de una factura.
  * Según la Ficha Técnica, para retenciones presuntivas en facturas de combustibles, se usa el código '4'.
@@ -23,5 +25,5 @@ export interface RetentionInInvoice {
   /** El valor porcentual de la retención (ej: 0.20). */
   tarifa: number;
   /** Monto de la retención calculada. */
-  valor: number;
+  valor: Amount;
 }
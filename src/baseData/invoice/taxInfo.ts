@@ -4,6 +4,8 @@
  * VERSIÓN CORREGIDA: Se añade la interfaz 'TotalTax' que faltaba para resolver el error de compilación.
  */
 
+import { Amount } from '../../utils/decimal';
+
 // Tipos para los códigos de ambiente y tipo de emisión según Tablas 4 y 2 de la Ficha Técnica.
 export type Ambiente = '1' | '2'; // 1 = Pruebas, 2 = Producción
 export type TipoEmision = '1'; // 1 = Emisión Normal (única para Offline)
@@ -19,10 +21,13 @@ export type TipoComprobante =
   // Agrega aquí otros códigos si la ficha técnica 2.31 los incluye
 ;
 
-// Códigos de impuestos según Tablas 18, 19, 20 de la Ficha Técnica SRI 2.31.
-// Ejemplo:
-// '2' = IVA, '3' = ICE, '5' = IRBPNR
-// Códigos de porcentaje: '0', '2', '3', '6', '7', '8', '9', '10', '12', '14', '15', '16', '17', '18', '19', '20', '21', '22', '23', '24', '25', '26', '27', '28', '30', '35', '40', '41', '42', '43', '44', '45', '46', '47', '48', '49', '50', '51', '52', '53', '54', '55', '56', '57', '58', '59', '60', '61', '62', '63', '64', '65', '66', '67', '68', '69', '70', '71', '72', '73', '74', '75', '76', '77', '78', '79', '80', '81', '82', '83', '84', '85', '86', '87', '88', '89', '90', '91', '92', '93', '94', '95', '96', '97', '98', '99'
+// Códigos de impuestos según Tabla 16 de la Ficha Técnica SRI 2.31.
+// Los códigos de porcentaje y sus tarifas están en src/baseData/catalogs/taxCatalog.ts.
+export type CodigoImpuesto =
+  | '2' // IVA
+  | '3' // ICE
+  | '5' // IRBPNR
+;
 
 /**
  * Representa el bloque <infoTributaria> del XML.
@@ -69,8 +74,8 @@ export interface TaxInfo {
  * Representa un nodo <totalImpuesto> dentro de <totalConImpuestos>.
  */
 export interface TotalTax {
-  codigo: string;
+  codigo: CodigoImpuesto;
   codigoPorcentaje: string;
-  baseImponible: number;
-  valor: number;
+  baseImponible: Amount;
+  valor: Amount;
 }
\ No newline at end of file
@@ -0,0 +1,43 @@
+/**
+ * @file src/baseData/purchaseSettlement/purchaseSettlement.ts
+ * @description Define la estructura principal de una liquidación de compra de bienes y prestación
+ * de servicios (codDoc 03), emitida por el comprador cuando el proveedor no puede emitir factura.
+ */
+
+import { AdditionalInfo } from '../invoice/additionalInfo';
+import { Detail } from '../invoice/details';
+import { ReimbursementDetail } from '../invoice/reimbursements';
+import { TaxInfo } from '../invoice/taxInfo';
+import { PurchaseSettlementInfo } from './purchaseSettlementInfo';
+
+// Versiones de esquema de liquidación de compra soportadas según la Ficha Técnica.
+export type PurchaseSettlementVersion = '1.0.0' | '1.1.0';
+
+/**
+ * Representa el objeto completo de una liquidación de compra electrónica.
+ */
+export interface PurchaseSettlement {
+  /**
+   * Versión del formato del comprobante electrónico.
+   * - '1.0.0': Versión base.
+   * - '1.1.0': Admite hasta 6 decimales en cantidad y precio unitario.
+   */
+  version: PurchaseSettlementVersion;
+
+  /** Bloque <infoTributaria>: Información tributaria del emisor (codDoc '03'). */
+  infoTributaria: TaxInfo;
+
+  /** Bloque <infoLiquidacionCompra>: Datos del proveedor, totales y pagos. */
+  infoLiquidacionCompra: PurchaseSettlementInfo;
+
+  /** Bloque <detalles>: Lista de bienes o servicios adquiridos. */
+  detalles: Detail[];
+
+  /** Bloque <reembolsos>: Información sobre reembolsos de gastos (si aplica). */
+  reembolsos?: {
+    reembolsoDetalle: ReimbursementDetail[];
+  };
+
+  /** Bloque <infoAdicional>: Campos adicionales para información extra. */
+  infoAdicional?: AdditionalInfo;
+}
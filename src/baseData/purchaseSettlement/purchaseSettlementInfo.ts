@@ -0,0 +1,62 @@
+/**
+ * @file src/baseData/purchaseSettlement/purchaseSettlementInfo.ts
+ * @description Define la interfaz para el bloque <infoLiquidacionCompra>, que contiene los
+ * datos del proveedor, los totales y las formas de pago de la liquidación de compra.
+ */
+
+import { Pago } from '../invoice/invoiceInfo';
+import { TotalTax } from '../invoice/taxInfo';
+import { Amount } from '../../utils/decimal';
+
+// Códigos de tipo de identificación del proveedor según la Ficha Técnica.
+export type TipoIdentificacionProveedor =
+  | '04' // RUC
+  | '05' // Cédula
+  | '06' // Pasaporte
+  | '08' // Identificación del Exterior
+;
+
+/**
+ * Representa el bloque <infoLiquidacionCompra> del XML.
+ */
+export interface PurchaseSettlementInfo {
+  /** Fecha de emisión del comprobante (formato dd/mm/aaaa). */
+  fechaEmision: string;
+  /** Dirección del establecimiento emisor. */
+  dirEstablecimiento?: string;
+  /** Número de resolución de Contribuyente Especial (si aplica). */
+  contribuyenteEspecial?: string;
+  /** Indica si el emisor está obligado a llevar contabilidad ('SI' o 'NO'). */
+  obligadoContabilidad?: 'SI' | 'NO';
+  /** Tipo de identificación del proveedor. */
+  tipoIdentificacionProveedor: TipoIdentificacionProveedor;
+  /** Razón social o nombres y apellidos del proveedor. */
+  razonSocialProveedor: string;
+  /** Número de identificación del proveedor. */
+  identificacionProveedor: string;
+  /** Dirección del proveedor. */
+  direccionProveedor?: string;
+  /** Suma de todos los `precioTotalSinImpuesto` de los detalles. */
+  totalSinImpuestos: Amount;
+  /** Suma de todos los `descuento` de los detalles. */
+  totalDescuento: Amount;
+  /**
+   * (Opcional) Código del documento de reembolso ('41').
+   * Requerido para liquidaciones de reembolso.
+   */
+  codDocReembolso?: string;
+  /** (Opcional) Suma total de los comprobantes de reembolso. */
+  totalComprobantesReembolso?: Amount;
+  /** (Opcional) Suma de las bases imponibles de los comprobantes de reembolso. */
+  totalBaseImponibleReembolso?: Amount;
+  /** (Opcional) Suma de los impuestos de los comprobantes de reembolso. */
+  totalImpuestoReembolso?: Amount;
+  /** Bloque <totalConImpuestos>: Lista con la totalización de cada tipo de impuesto. */
+  totalConImpuestos: TotalTax[];
+  /** Valor total de la liquidación de compra. */
+  importeTotal: Amount;
+  /** Moneda de la transacción (ej: 'DOLAR'). */
+  moneda?: string;
+  /** Bloque <pagos>: Lista de las formas de pago utilizadas. */
+  pagos: Pago[];
+}
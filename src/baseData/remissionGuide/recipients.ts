@@ -0,0 +1,43 @@
+/**
+ * @file src/baseData/remissionGuide/recipients.ts
+ * @description Define las interfaces para el bloque <destinatarios> de la guía de remisión,
+ * donde cada destinatario lleva sus propios detalles de mercadería trasladada.
+ */
+
+import { AdditionalDetail } from '../invoice/details';
+import { Destino } from '../invoice/remissionGuidesSustitutiveInfo';
+import { Amount } from '../../utils/decimal';
+
+/**
+ * Representa un ítem trasladado a un destinatario (nodo <detalle>).
+ */
+export interface RemissionGuideDetail {
+  codigoInterno?: string;
+  codigoAdicional?: string;
+  descripcion: string;
+  cantidad: Amount;
+  detallesAdicionales?: AdditionalDetail[];
+}
+
+/**
+ * Representa un destinatario de la guía de remisión (nodo <destinatario>).
+ * Comparte el motivo, documento aduanero, establecimiento y ruta con el `Destino` de la factura sustitutiva.
+ */
+export interface Recipient extends Pick<Destino, 'motivoTraslado' | 'docAduaneroUnico'>, Partial<Pick<Destino, 'codEstabDestino' | 'ruta'>> {
+  /** Número de identificación del destinatario (RUC, cédula, pasaporte o identificación del exterior). */
+  identificacionDestinatario: string;
+  /** Razón social o nombres y apellidos del destinatario. */
+  razonSocialDestinatario: string;
+  /** Dirección del destinatario. */
+  dirDestinatario: string;
+  /** (Opcional) Código del tipo de documento sustento (ej: '01' para factura). */
+  codDocSustento?: string;
+  /** (Opcional) Número del documento sustento (formato 001-001-000000001). */
+  numDocSustento?: string;
+  /** (Opcional) Número de autorización del documento sustento. */
+  numAutDocSustento?: string;
+  /** (Opcional) Fecha de emisión del documento sustento (formato dd/mm/aaaa). */
+  fechaEmisionDocSustento?: string;
+  /** Bloque <detalles>: Mercadería trasladada a este destinatario. */
+  detalles: RemissionGuideDetail[];
+}
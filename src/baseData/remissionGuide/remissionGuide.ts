@@ -0,0 +1,36 @@
+/**
+ * @file src/baseData/remissionGuide/remissionGuide.ts
+ * @description Define la estructura principal de una guía de remisión electrónica (codDoc 06).
+ */
+
+import { AdditionalInfo } from '../invoice/additionalInfo';
+import { TaxInfo } from '../invoice/taxInfo';
+import { Recipient } from './recipients';
+import { RemissionGuideInfo } from './remissionGuideInfo';
+
+// Versiones de esquema de guía de remisión soportadas según la Ficha Técnica.
+export type RemissionGuideVersion = '1.0.0' | '1.1.0';
+
+/**
+ * Representa el objeto completo de una guía de remisión electrónica.
+ */
+export interface RemissionGuide {
+  /**
+   * Versión del formato del comprobante electrónico.
+   * - '1.0.0': Versión base.
+   * - '1.1.0': Admite hasta 6 decimales en la cantidad de los detalles.
+   */
+  version: RemissionGuideVersion;
+
+  /** Bloque <infoTributaria>: Información tributaria del emisor (codDoc '06'). */
+  infoTributaria: TaxInfo;
+
+  /** Bloque <infoGuiaRemision>: Datos del transporte. */
+  infoGuiaRemision: RemissionGuideInfo;
+
+  /** Bloque <destinatarios>: Destinatarios de la mercadería, cada uno con sus detalles. */
+  destinatarios: Recipient[];
+
+  /** Bloque <infoAdicional>: Campos adicionales para información extra. */
+  infoAdicional?: AdditionalInfo;
+}
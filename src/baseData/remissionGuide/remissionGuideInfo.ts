@@ -0,0 +1,35 @@
+/**
+ * @file src/baseData/remissionGuide/remissionGuideInfo.ts
+ * @description Define la interfaz para el bloque <infoGuiaRemision>, que contiene los datos del
+ * transporte. Reutiliza los campos de transporte de la guía de remisión sustitutiva de la factura.
+ */
+
+import { RemissionGuideSustitutiveInfo } from '../invoice/remissionGuidesSustitutiveInfo';
+
+/**
+ * Campos de transporte comunes con el bloque <infoSustitutivaGuiaRemision> de la factura.
+ */
+type TransportInfo = Pick<
+  RemissionGuideSustitutiveInfo,
+  | 'dirPartida'
+  | 'razonSocialTransportista'
+  | 'tipoIdentificacionTransportista'
+  | 'rucTransportista'
+  | 'fechaIniTransporte'
+  | 'fechaFinTransporte'
+  | 'placa'
+>;
+
+/**
+ * Representa el bloque <infoGuiaRemision> del XML.
+ */
+export interface RemissionGuideInfo extends TransportInfo {
+  /** Dirección del establecimiento emisor. */
+  dirEstablecimiento?: string;
+  /** Leyenda RISE del transportista (si aplica). */
+  rise?: string;
+  /** Indica si el emisor está obligado a llevar contabilidad ('SI' o 'NO'). */
+  obligadoContabilidad?: 'SI' | 'NO';
+  /** Número de resolución de Contribuyente Especial (si aplica). */
+  contribuyenteEspecial?: string;
+}
@@ -0,0 +1,33 @@
+/**
+ * @file src/baseData/retentionVoucher/retentionVoucher.ts
+ * @description Define la estructura principal de un comprobante de retención electrónico (codDoc 07)
+ * en su versión 2.0.0, alineada con el Anexo Transaccional Simplificado (ATS).
+ */
+
+import { AdditionalInfo } from '../invoice/additionalInfo';
+import { TaxInfo } from '../invoice/taxInfo';
+import { RetentionVoucherInfo } from './retentionVoucherInfo';
+import { SupportingDocument } from './supportingDocuments';
+
+// Versiones de esquema de comprobante de retención soportadas.
+export type RetentionVoucherVersion = '2.0.0';
+
+/**
+ * Representa el objeto completo de un comprobante de retención electrónico.
+ */
+export interface RetentionVoucher {
+  /** Versión del formato del comprobante electrónico. */
+  version: RetentionVoucherVersion;
+
+  /** Bloque <infoTributaria>: Información tributaria del agente de retención (codDoc '07'). */
+  infoTributaria: TaxInfo;
+
+  /** Bloque <infoCompRetencion>: Datos del sujeto retenido y período fiscal. */
+  infoCompRetencion: RetentionVoucherInfo;
+
+  /** Bloque <docsSustento>: Documentos de compra que sustentan las retenciones. */
+  docsSustento: SupportingDocument[];
+
+  /** Bloque <infoAdicional>: Campos adicionales para información extra. */
+  infoAdicional?: AdditionalInfo;
+}
@@ -0,0 +1,45 @@
+/**
+ * @file src/baseData/retentionVoucher/retentionVoucherInfo.ts
+ * @description Define la interfaz para el bloque <infoCompRetencion> del comprobante de retención
+ * versión 2.0.0, con los datos del sujeto retenido y el período fiscal.
+ */
+
+// Códigos de tipo de identificación del sujeto retenido según la Ficha Técnica.
+export type TipoIdentificacionSujetoRetenido =
+  | '04' // RUC
+  | '05' // Cédula
+  | '06' // Pasaporte
+  | '08' // Identificación del Exterior
+;
+
+// Tipo de sujeto retenido, requerido cuando la identificación es del exterior.
+export type TipoSujetoRetenido =
+  | '01' // Persona natural
+  | '02' // Sociedad
+;
+
+/**
+ * Representa el bloque <infoCompRetencion> del XML.
+ */
+export interface RetentionVoucherInfo {
+  /** Fecha de emisión del comprobante de retención (formato dd/mm/aaaa). */
+  fechaEmision: string;
+  /** Dirección del establecimiento emisor. */
+  dirEstablecimiento?: string;
+  /** Número de resolución de Contribuyente Especial (si aplica). */
+  contribuyenteEspecial?: string;
+  /** Indica si el agente de retención está obligado a llevar contabilidad ('SI' o 'NO'). */
+  obligadoContabilidad?: 'SI' | 'NO';
+  /** Tipo de identificación del sujeto retenido. */
+  tipoIdentificacionSujetoRetenido: TipoIdentificacionSujetoRetenido;
+  /** Tipo de sujeto retenido (solo para identificaciones del exterior). */
+  tipoSujetoRetenido?: TipoSujetoRetenido;
+  /** Indica si el sujeto retenido es parte relacionada ('SI' o 'NO'). */
+  parteRel: 'SI' | 'NO';
+  /** Razón social o nombres y apellidos del sujeto retenido. */
+  razonSocialSujetoRetenido: string;
+  /** Número de identificación del sujeto retenido. */
+  identificacionSujetoRetenido: string;
+  /** Período fiscal al que corresponde la retención (formato mm/aaaa). */
+  periodoFiscal: string;
+}
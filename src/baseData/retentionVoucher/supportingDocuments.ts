@@ -0,0 +1,129 @@
+/**
+ * @file src/baseData/retentionVoucher/supportingDocuments.ts
+ * @description Define las interfaces para el bloque <docsSustento> del comprobante de retención
+ * versión 2.0.0: documentos de compra que sustentan la retención, sus impuestos, retenciones y pagos.
+ */
+
+import { FormaPago } from '../invoice/invoiceInfo';
+import { Amount } from '../../utils/decimal';
+
+// Códigos de impuesto a retener según la Ficha Técnica.
+export type CodigoImpuestoRetencion =
+  | '1' // Renta
+  | '2' // IVA
+  | '6' // ISD
+;
+
+/**
+ * Representa un impuesto del documento sustento (nodo <impuestoDocSustento>).
+ */
+export interface SupportingDocumentTax {
+  /** Código del impuesto del documento sustento (ej: '2' para IVA). */
+  codImpuestoDocSustento: string;
+  /** Código del porcentaje del impuesto. */
+  codigoPorcentaje: string;
+  /** Base imponible del impuesto. */
+  baseImponible: Amount;
+  /** Tarifa del impuesto. */
+  tarifa: number;
+  /** Valor del impuesto. */
+  valorImpuesto: Amount;
+}
+
+/**
+ * Información de dividendos, requerida para retenciones sobre utilidades distribuidas.
+ */
+export interface Dividendos {
+  /** Fecha de pago del dividendo (formato dd/mm/aaaa). */
+  fechaPagoDiv: string;
+  /** Impuesto a la renta pagado por la sociedad. */
+  imRentaSoc: Amount;
+  /** Ejercicio fiscal de las utilidades distribuidas (formato aaaa). */
+  ejerFisUtDiv: string;
+}
+
+/**
+ * Información de compra de cajas de banano, requerida para el impuesto a la renta único del sector bananero.
+ */
+export interface CompraCajBanano {
+  /** Número de cajas compradas. */
+  numCajBan: number;
+  /** Precio por caja. */
+  precCajBan: Amount;
+}
+
+/**
+ * Representa una retención aplicada sobre el documento sustento (nodo <retencion>).
+ */
+export interface Retention {
+  /** Código del impuesto retenido. */
+  codigo: CodigoImpuestoRetencion;
+  /** Código del concepto de retención (ej: '312' para renta, '9' para IVA 10%). */
+  codigoRetencion: string;
+  /** Base imponible de la retención. */
+  baseImponible: Amount;
+  /** Porcentaje a retener (ej: 1.75). */
+  porcentajeRetener: number;
+  /** Valor retenido. */
+  valorRetenido: Amount;
+  /** (Opcional) Información de dividendos. */
+  dividendos?: Dividendos;
+  /** (Opcional) Información de compra de cajas de banano. */
+  compraCajBanano?: CompraCajBanano;
+}
+
+/**
+ * Representa un pago del documento sustento. A diferencia de la factura, no admite plazo.
+ */
+export interface SupportingDocumentPayment {
+  /** Código de la forma de pago. */
+  formaPago: FormaPago;
+  /** Monto total pagado con esta forma. */
+  total: Amount;
+}
+
+/**
+ * Representa un documento sustento de la retención (nodo <docSustento>).
+ */
+export interface SupportingDocument {
+  /** Código de sustento tributario (Tabla 5 del ATS). */
+  codSustento: string;
+  /** Código del tipo de documento sustento (ej: '01' para factura). */
+  codDocSustento: string;
+  /** Número del documento sustento, 15 dígitos sin guiones (estab + ptoEmi + secuencial). */
+  numDocSustento: string;
+  /** Fecha de emisión del documento sustento (formato dd/mm/aaaa). */
+  fechaEmisionDocSustento: string;
+  /** (Opcional) Fecha de registro contable (formato dd/mm/aaaa). */
+  fechaRegistroContable?: string;
+  /** (Opcional) Número de autorización del documento sustento (10, 37 o 49 dígitos). */
+  numAutDocSustento?: string;
+  /** Indica si el pago es local ('01') o al exterior ('02'). */
+  pagoLocExt: '01' | '02';
+  /** (Opcional) Tipo de régimen fiscal del exterior. */
+  tipoRegi?: string;
+  /** (Opcional) País de efectivización del pago. */
+  paisEfecPago?: string;
+  /** (Opcional) Indica si aplica convenio de doble tributación ('SI' o 'NO'). */
+  aplicConvDobTrib?: 'SI' | 'NO';
+  /** (Opcional) Indica si el pago al exterior está sujeto a retención en aplicación de la norma legal ('SI' o 'NO'). */
+  pagExtSujRetNorLeg?: 'SI' | 'NO';
+  /** (Opcional) Indica si el pago es a un régimen fiscal preferente ('SI' o 'NO'). */
+  pagoRegFis?: 'SI' | 'NO';
+  /** (Opcional) Suma total de los comprobantes de reembolso. */
+  totalComprobantesReembolso?: Amount;
+  /** (Opcional) Suma de las bases imponibles de los comprobantes de reembolso. */
+  totalBaseImponibleReembolso?: Amount;
+  /** (Opcional) Suma de los impuestos de los comprobantes de reembolso. */
+  totalImpuestoReembolso?: Amount;
+  /** Total sin impuestos del documento sustento. */
+  totalSinImpuestos: Amount;
+  /** Importe total del documento sustento. */
+  importeTotal: Amount;
+  /** Bloque <impuestosDocSustento>: Impuestos del documento sustento. */
+  impuestosDocSustento: SupportingDocumentTax[];
+  /** Bloque <retenciones>: Retenciones aplicadas sobre el documento sustento. */
+  retenciones: Retention[];
+  /** Bloque <pagos>: Formas de pago del documento sustento. */
+  pagos: SupportingDocumentPayment[];
+}
@@ -0,0 +1,496 @@
+#!/usr/bin/env node
+/**
+ * @file src/cli.ts
+ * @description Herramienta de línea de comandos `open-factura`: genera, firma, envía y autoriza comprobantes,
+ * construye y descompone claves de acceso e inspecciona certificados. Escribe el resultado como JSON en la salida
+ * estándar, los errores como JSON en la salida de errores, y termina con un código de salida según el resultado del SRI.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { parseArgs, ParseArgsConfig } from 'util';
+import { OpenFactura } from './index';
+import { Ambiente, TipoComprobante } from './baseData/invoice/taxInfo';
+import { Invoice } from './baseData/invoice/invoice';
+import { CreditNote } from './baseData/creditNote/creditNote';
+import { DebitNote } from './baseData/debitNote/debitNote';
+import { RetentionVoucher } from './baseData/retentionVoucher/retentionVoucher';
+import { RemissionGuide } from './baseData/remissionGuide/remissionGuide';
+import { PurchaseSettlement } from './baseData/purchaseSettlement/purchaseSettlement';
+import { generateInvoiceXML } from './services/generateInvoice';
+import { generateCreditNoteXML } from './services/generateCreditNote';
+import { generateDebitNoteXML } from './services/generateDebitNote';
+import { generateRetentionVoucherXML } from './services/generateRetentionVoucher';
+import { generateRemissionGuideXML } from './services/generateRemissionGuide';
+import { generatePurchaseSettlementXML } from './services/generatePurchaseSettlement';
+import { assertValidSchema, VoucherDocType } from './services/schemaValidation';
+import { signXML } from './services/signing';
+import { createP12Signer } from './services/signers';
+import { assertCertificateCanSign, inspectCertificate, readCertificateInfo } from './services/certificate';
+import { sendSignedXml, readAccessKey } from './services/reception';
+import { checkAuthorization, waitForAuthorization } from './services/authorization';
+import { TransportOptions } from './services/transport';
+import { createFileOutboxStorage, Outbox } from './services/outbox';
+import { createFileSequenceProvider } from './services/sequence';
+import {
+  OpenFacturaError,
+  SigningError,
+  SriCommunicationError,
+  SriNotAuthorizedError,
+  SriPendingError,
+  SriReceptionError,
+  ValidationError,
+} from './services/errors';
+import { decodeAccessKey, getAccessKey, generateNumericCode, isValidAccessKey } from './utils/utils';
+
+/**
+ * Códigos de salida de la herramienta.
+ */
+const EXIT_CODES = {
+  /** Comando completado (RECIBIDA, AUTORIZADO). */
+  OK: 0,
+  /** Error inesperado. */
+  ERROR: 1,
+  /** Comando u opciones inválidos, o falta configuración. */
+  USAGE: 2,
+  /** Los datos o el XML no cumplen las reglas del SRI. */
+  VALIDATION: 3,
+  /** Certificado ilegible, vencido o de otro RUC; falla de firma. */
+  SIGNING: 4,
+  /** Recepción respondió DEVUELTA. */
+  DEVUELTA: 5,
+  /** Autorización respondió NO AUTORIZADO. */
+  NO_AUTORIZADO: 6,
+  /** El SRI aún no termina de procesar el comprobante. */
+  PENDIENTE: 7,
+  /** Falla de red, timeout, HTTP o SOAP Fault. */
+  COMMUNICATION: 8,
+} as const;
+
+const USAGE = `Uso: open-factura <comando> [opciones]
+
+Comandos:
+  generate <datos.json>        Genera el XML sin firmar de un comprobante (según infoTributaria.codDoc).
+      [--codigo-numerico N] [--validate] [--out archivo.xml]
+  sign <comprobante.xml>       Firma un XML con el certificado configurado.
+      [--out archivo.xml]
+  send <firmado.xml>           Envía un XML firmado al Web Service de Recepción del SRI.
+  authorize <claveAcceso>      Consulta la autorización de un comprobante.
+      [--wait] [--max-wait ms] [--out autorizado.xml]
+  emit <datos.json>            Genera, firma, envía y espera la autorización.
+      [--codigo-numerico N] [--max-wait ms] [--out-dir directorio]
+  access-key build             Construye una clave de acceso.
+      --fecha-emision dd/mm/yyyy --cod-doc 01 --ruc R --ambiente 1 --estab 001 --pto-emi 001
+      --secuencial 000000001 [--codigo-numerico N] [--tipo-emision 1]
+  access-key decode <clave>    Descompone una clave de acceso y verifica su dígito verificador.
+  inspect-cert [archivo.p12]   Muestra el titular, el RUC y la vigencia del certificado.
+
+Opciones generales:
+  --config archivo.json        Configuración (también OPEN_FACTURA_CONFIG).
+  --ambiente 1|2               Ambiente (también OPEN_FACTURA_AMBIENTE).
+  --p12 archivo.p12            Certificado de firma (también OPEN_FACTURA_P12_PATH).
+  --password clave             Contraseña del certificado (también OPEN_FACTURA_P12_PASSWORD).
+  -h, --help                   Muestra esta ayuda.
+
+Un archivo '-' se lee de la entrada estándar.
+Códigos de salida: 0 éxito, 1 error inesperado, 2 uso, 3 validación, 4 firma,
+5 DEVUELTA, 6 NO AUTORIZADO, 7 en procesamiento, 8 comunicación.`;
+
+/**
+ * Configuración de la herramienta, leída de un archivo JSON y de variables de entorno.
+ */
+interface CliConfig {
+  ambiente?: Ambiente;
+  p12Path?: string;
+  p12Password?: string;
+  /** Si es `true`, los comprobantes se validan contra su esquema XSD antes de firmarlos. */
+  validateSchema?: boolean;
+  /** Archivo de secuencias; si se indica, `emit` asigna el secuencial cuando se omite. */
+  sequenceFile?: string;
+  /** Directorio de la bandeja de salida; si se indica, `emit` registra cada cambio de estado. */
+  outboxDir?: string;
+  transport?: TransportOptions;
+}
+
+/**
+ * Error en el comando o sus opciones.
+ */
+class CliUsageError extends OpenFacturaError {
+  readonly name: string = 'CliUsageError';
+}
+
+/**
+ * Datos de cada tipo de comprobante, por su código (infoTributaria.codDoc).
+ */
+interface VoucherDataByCode {
+  '01': Invoice;
+  '03': PurchaseSettlement;
+  '04': CreditNote;
+  '05': DebitNote;
+  '06': RemissionGuide;
+  '07': RetentionVoucher;
+}
+
+/**
+ * Generador y método de `OpenFactura` de un tipo de comprobante.
+ */
+interface VoucherType<T> {
+  docType: VoucherDocType;
+  generate(data: T, codigoNumerico?: string): { xml: string; accessKey: string };
+  /** Los datos leídos pueden omitir `infoTributaria.secuencial`: lo asigna el `sequenceProvider` de `OpenFactura`. */
+  createAndSign(openFactura: OpenFactura, data: T, codigoNumerico?: string): Promise<{ accessKey: string; signedXml: string }>;
+}
+
+const VOUCHER_TYPES: { [K in TipoComprobante]: VoucherType<VoucherDataByCode[K]> } = {
+  '01': { docType: 'factura', generate: generateInvoiceXML, createAndSign: (o, d, c) => o.createAndSignInvoice(d, c) },
+  '03': { docType: 'liquidacionCompra', generate: generatePurchaseSettlementXML, createAndSign: (o, d, c) => o.createAndSignPurchaseSettlement(d, c) },
+  '04': { docType: 'notaCredito', generate: generateCreditNoteXML, createAndSign: (o, d, c) => o.createAndSignCreditNote(d, c) },
+  '05': { docType: 'notaDebito', generate: generateDebitNoteXML, createAndSign: (o, d, c) => o.createAndSignDebitNote(d, c) },
+  '06': { docType: 'guiaRemision', generate: generateRemissionGuideXML, createAndSign: (o, d, c) => o.createAndSignRemissionGuide(d, c) },
+  '07': { docType: 'comprobanteRetencion', generate: generateRetentionVoucherXML, createAndSign: (o, d, c) => o.createAndSignRetentionVoucher(d, c) },
+};
+
+/**
+ * Comprobante leído de un archivo JSON, con el generador y el método de `OpenFactura` de su tipo.
+ */
+interface Voucher {
+  docType: VoucherDocType;
+  data: VoucherDataByCode[TipoComprobante];
+  generate(codigoNumerico?: string): { xml: string; accessKey: string };
+  createAndSign(openFactura: OpenFactura, codigoNumerico?: string): Promise<{ accessKey: string; signedXml: string }>;
+}
+
+const GLOBAL_OPTIONS = {
+  config: { type: 'string' },
+  ambiente: { type: 'string' },
+  p12: { type: 'string' },
+  password: { type: 'string' },
+  help: { type: 'boolean', short: 'h' },
+} as const;
+
+type CommandOptions = NonNullable<ParseArgsConfig['options']>;
+type OptionValues = Record<string, string | boolean | undefined>;
+
+/**
+ * Un comando: sus opciones propias y su ejecución, que devuelve el resultado a escribir como JSON.
+ */
+interface Command {
+  options: CommandOptions;
+  run(values: OptionValues, positionals: string[], config: CliConfig): Promise<unknown>;
+}
+
+function readInput(file: string | undefined, description: string): string {
+  if (!file) throw new CliUsageError(`Falta ${description}.`);
+  if (file === '-') return fs.readFileSync(0, 'utf8');
+  if (!fs.existsSync(file)) throw new CliUsageError(`No se encontró el archivo ${file}.`);
+  return fs.readFileSync(file, 'utf8');
+}
+
+function readJson(file: string | undefined, description: string): unknown {
+  const content = readInput(file, description);
+  try {
+    return JSON.parse(content);
+  } catch (error) {
+    throw new ValidationError(`${file} no es un JSON válido: ${(error as Error).message}`);
+  }
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function parseAmbiente(value: string | undefined, source: string): Ambiente | undefined {
+  if (value === undefined || value === '') return undefined;
+  if (value !== '1' && value !== '2') throw new CliUsageError(`${source} debe ser '1' (pruebas) o '2' (producción).`);
+  return value;
+}
+
+function parseMilliseconds(value: string | undefined, option: string): number | undefined {
+  if (value === undefined) return undefined;
+  const ms = Number(value);
+  if (!Number.isInteger(ms) || ms < 0) throw new CliUsageError(`--${option} debe ser un número de milisegundos.`);
+  return ms;
+}
+
+/**
+ * Combina, en orden de prioridad, las opciones de la línea de comandos, las variables de entorno y el archivo de configuración.
+ * Las rutas relativas del archivo se resuelven desde su directorio.
+ */
+function loadConfig(values: OptionValues): CliConfig {
+  const env = process.env;
+  const file = (values.config as string | undefined) ?? env.OPEN_FACTURA_CONFIG;
+  let config: CliConfig = {};
+  if (file) {
+    const content = readJson(file, 'el archivo de configuración');
+    if (!isObject(content)) throw new CliUsageError(`${file} debe contener un objeto JSON.`);
+    config = content as CliConfig;
+    const base = path.dirname(path.resolve(file));
+    for (const key of ['p12Path', 'sequenceFile', 'outboxDir'] as const) {
+      if (config[key]) config[key] = path.resolve(base, config[key] as string);
+    }
+  }
+  return {
+    ...config,
+    ambiente: parseAmbiente(values.ambiente as string | undefined, '--ambiente')
+      ?? parseAmbiente(env.OPEN_FACTURA_AMBIENTE, 'OPEN_FACTURA_AMBIENTE')
+      ?? parseAmbiente(config.ambiente, 'ambiente'),
+    p12Path: (values.p12 as string | undefined) ?? env.OPEN_FACTURA_P12_PATH ?? config.p12Path,
+    p12Password: (values.password as string | undefined) ?? env.OPEN_FACTURA_P12_PASSWORD ?? config.p12Password,
+    sequenceFile: env.OPEN_FACTURA_SEQUENCE_FILE ?? config.sequenceFile,
+    outboxDir: env.OPEN_FACTURA_OUTBOX_DIR ?? config.outboxDir,
+  };
+}
+
+function requireCertificate(config: CliConfig): { p12Path: string; p12Password: string } {
+  const { p12Path, p12Password } = config;
+  if (!p12Path || p12Password === undefined) {
+    throw new CliUsageError('Falta el certificado: use --p12 y --password, OPEN_FACTURA_P12_PATH y OPEN_FACTURA_P12_PASSWORD, o p12Path y p12Password en el archivo de configuración.');
+  }
+  if (!fs.existsSync(p12Path)) {
+    throw new SigningError(`El archivo del certificado no se encontró en la ruta: ${p12Path}`);
+  }
+  return { p12Path, p12Password };
+}
+
+function isTipoComprobante(codDoc: unknown): codDoc is TipoComprobante {
+  return typeof codDoc === 'string' && Object.prototype.hasOwnProperty.call(VOUCHER_TYPES, codDoc);
+}
+
+function bindVoucher<K extends TipoComprobante>(codDoc: K, data: VoucherDataByCode[K]): Voucher {
+  const type: VoucherType<VoucherDataByCode[K]> = VOUCHER_TYPES[codDoc];
+  return {
+    docType: type.docType,
+    data,
+    generate: (codigoNumerico) => type.generate(data, codigoNumerico),
+    createAndSign: (openFactura, codigoNumerico) => type.createAndSign(openFactura, data, codigoNumerico),
+  };
+}
+
+/**
+ * Identifica el tipo de comprobante por `infoTributaria.codDoc`. El resto de los datos lo valida el generador.
+ */
+function voucherOf(data: unknown): Voucher {
+  const codDoc = isObject(data) && isObject(data.infoTributaria) ? data.infoTributaria.codDoc : undefined;
+  if (!isTipoComprobante(codDoc)) {
+    throw ValidationError.forField('infoTributaria.codDoc', `'${codDoc ?? ''}' no es un tipo de comprobante admitido (${Object.keys(VOUCHER_TYPES).join(', ')}).`);
+  }
+  return bindVoucher(codDoc, data as VoucherDataByCode[typeof codDoc]);
+}
+
+/**
+ * Devuelve la clave de acceso de un XML y el ambiente que indica (posición 24 de la clave).
+ */
+function accessKeyOf(xml: string): { accessKey: string; ambiente: Ambiente } {
+  const accessKey = readAccessKey(xml);
+  if (!accessKey) throw ValidationError.forField('claveAcceso', 'el XML no tiene una clave de acceso de 49 dígitos.');
+  return { accessKey, ambiente: accessKey.substring(23, 24) as Ambiente };
+}
+
+function writeOutput(file: string, content: string): string {
+  fs.mkdirSync(path.dirname(path.resolve(file)), { recursive: true });
+  fs.writeFileSync(file, content);
+  return file;
+}
+
+const string = { type: 'string' } as const;
+const flag = { type: 'boolean' } as const;
+
+const COMMANDS: Record<string, Command> = {
+  generate: {
+    options: { 'codigo-numerico': string, validate: flag, out: string },
+    async run(values, [file], config) {
+      const voucher = voucherOf(readJson(file, 'el archivo de datos del comprobante'));
+      if (config.ambiente) voucher.data.infoTributaria.ambiente = config.ambiente;
+      const { xml, accessKey } = voucher.generate(values['codigo-numerico'] as string | undefined);
+      if (values.validate || config.validateSchema) await assertValidSchema(xml, voucher.docType, voucher.data.version);
+      return values.out ? { accessKey, file: writeOutput(values.out as string, xml) } : { accessKey, xml };
+    },
+  },
+
+  sign: {
+    options: { out: string },
+    async run(values, [file], config) {
+      const xml = readInput(file, 'el XML a firmar');
+      const { accessKey } = accessKeyOf(xml);
+      const { p12Path, p12Password } = requireCertificate(config);
+      const signer = createP12Signer(fs.readFileSync(p12Path), p12Password);
+      assertCertificateCanSign(readCertificateInfo(signer.certificate), accessKey.substring(10, 23));
+      const signedXml = await signXML(xml, signer);
+      return values.out ? { accessKey, file: writeOutput(values.out as string, signedXml) } : { accessKey, signedXml };
+    },
+  },
+
+  send: {
+    options: {},
+    async run(_values, [file], config) {
+      const signedXml = readInput(file, 'el XML firmado');
+      const { accessKey, ambiente } = accessKeyOf(signedXml);
+      return { accessKey, ...(await sendSignedXml(signedXml, ambiente, config.transport)) };
+    },
+  },
+
+  authorize: {
+    options: { wait: flag, 'max-wait': string, out: string },
+    async run(values, [accessKey], config) {
+      if (!accessKey || !isValidAccessKey(accessKey)) throw new CliUsageError('Indique una clave de acceso válida de 49 dígitos.');
+      const ambiente = accessKey.substring(23, 24) as Ambiente;
+      const maxWaitMs = parseMilliseconds(values['max-wait'] as string | undefined, 'max-wait');
+      const autorizacion = values.wait || maxWaitMs !== undefined
+        ? await waitForAuthorization(accessKey, ambiente, { ...config.transport, maxWaitMs })
+        : await checkAuthorization(accessKey, ambiente, config.transport);
+      if (values.out && autorizacion.comprobante) {
+        const { comprobante, ...rest } = autorizacion;
+        return { accessKey, ...rest, file: writeOutput(values.out as string, comprobante) };
+      }
+      return { accessKey, ...autorizacion };
+    },
+  },
+
+  emit: {
+    options: { 'codigo-numerico': string, 'max-wait': string, 'out-dir': string },
+    async run(values, [file], config) {
+      const voucher = voucherOf(readJson(file, 'el archivo de datos del comprobante'));
+      const ambiente = config.ambiente ?? parseAmbiente(voucher.data.infoTributaria.ambiente, 'infoTributaria.ambiente');
+      if (!ambiente) throw new CliUsageError('Indique el ambiente con --ambiente, OPEN_FACTURA_AMBIENTE o infoTributaria.ambiente.');
+      const maxWaitMs = parseMilliseconds(values['max-wait'] as string | undefined, 'max-wait');
+      const outDir = values['out-dir'] as string | undefined;
+
+      const openFactura = new OpenFactura({
+        ...requireCertificate(config),
+        ambiente,
+        validateSchema: config.validateSchema,
+        transport: config.transport,
+        outbox: config.outboxDir ? new Outbox(createFileOutboxStorage(config.outboxDir)) : undefined,
+        sequenceProvider: config.sequenceFile ? createFileSequenceProvider(config.sequenceFile) : undefined,
+      });
+      const { accessKey, signedXml } = await voucher.createAndSign(openFactura, values['codigo-numerico'] as string | undefined);
+      if (outDir) writeOutput(path.join(outDir, `${accessKey}-firmado.xml`), signedXml);
+
+      let recepcion;
+      try {
+        recepcion = await openFactura.sendInvoice(signedXml);
+      } catch (error) {
+        // Si el SRI ya tiene el comprobante (43 o 70), se continúa con la autorización.
+        if (!(error instanceof SriReceptionError && error.alreadyReceived)) throw error;
+        recepcion = { estado: 'RECIBIDA', mensajes: error.sriMessages };
+      }
+      const { comprobante, ...autorizacion } = await openFactura.waitForAuthorization(accessKey, { maxWaitMs });
+      const authorizedFile = outDir && comprobante ? writeOutput(path.join(outDir, `${accessKey}-autorizado.xml`), comprobante) : undefined;
+      return { accessKey, recepcion, ...autorizacion, file: authorizedFile };
+    },
+  },
+
+  'access-key': {
+    options: {
+      'fecha-emision': string, 'cod-doc': string, ruc: string, estab: string, 'pto-emi': string,
+      secuencial: string, 'codigo-numerico': string, 'tipo-emision': string,
+    },
+    async run(values, [action, key]) {
+      if (action === 'decode') {
+        if (!key) throw new CliUsageError('Indique la clave de acceso a descomponer.');
+        const parts = decodeAccessKey(key);
+        return {
+          claveAcceso: key,
+          fechaEmision: parts.date,
+          codDoc: parts.voucherType,
+          ruc: parts.ruc,
+          ambiente: parts.environment,
+          estab: parts.series.substring(0, 3),
+          ptoEmi: parts.series.substring(3, 6),
+          secuencial: parts.sequence,
+          codigoNumerico: parts.numericCode,
+          tipoEmision: parts.emissionType,
+          digitoVerificador: key.substring(48),
+        };
+      }
+      if (action === 'build') {
+        const missing = ['fecha-emision', 'cod-doc', 'ruc', 'ambiente', 'estab', 'pto-emi', 'secuencial'].filter((name) => !values[name]);
+        if (missing.length > 0) throw new CliUsageError(`Faltan opciones: ${missing.map((name) => `--${name}`).join(', ')}.`);
+        const claveAcceso = getAccessKey({
+          date: values['fecha-emision'] as string,
+          voucherType: values['cod-doc'] as string,
+          ruc: values.ruc as string,
+          environment: parseAmbiente(values.ambiente as string, '--ambiente') as Ambiente,
+          series: `${values.estab}${values['pto-emi']}`,
+          sequence: values.secuencial as string,
+          numericCode: (values['codigo-numerico'] as string | undefined) ?? generateNumericCode(),
+          emissionType: (values['tipo-emision'] as string | undefined) ?? '1',
+        });
+        if (!isValidAccessKey(claveAcceso)) {
+          throw new ValidationError(`Las opciones no forman una clave de acceso de 49 dígitos (${claveAcceso}).`);
+        }
+        return { claveAcceso };
+      }
+      throw new CliUsageError("Use 'access-key build' o 'access-key decode <clave>'.");
+    },
+  },
+
+  'inspect-cert': {
+    options: {},
+    async run(_values, [file], config) {
+      const { p12Path, p12Password } = requireCertificate({ ...config, p12Path: file ?? config.p12Path });
+      const info = inspectCertificate(fs.readFileSync(p12Path), p12Password);
+      if (info.expired) {
+        throw new SigningError(`El certificado no está vigente (${info.validFrom.toISOString()} - ${info.validTo.toISOString()}).`);
+      }
+      return info;
+    },
+  },
+};
+
+function exitCodeOf(error: unknown): number {
+  if (error instanceof CliUsageError) return EXIT_CODES.USAGE;
+  if (error instanceof ValidationError) return EXIT_CODES.VALIDATION;
+  if (error instanceof SigningError) return EXIT_CODES.SIGNING;
+  if (error instanceof SriReceptionError) return EXIT_CODES.DEVUELTA;
+  if (error instanceof SriNotAuthorizedError) return EXIT_CODES.NO_AUTORIZADO;
+  if (error instanceof SriPendingError) return EXIT_CODES.PENDIENTE;
+  if (error instanceof SriCommunicationError) return EXIT_CODES.COMMUNICATION;
+  return EXIT_CODES.ERROR;
+}
+
+function describeError(error: unknown): Record<string, unknown> {
+  const description: Record<string, unknown> = error instanceof Error
+    ? { error: error.name, message: error.message }
+    : { error: 'Error', message: String(error) };
+  if (error instanceof OpenFacturaError) {
+    description.retryable = error.retryable;
+    if (error.accessKey) description.accessKey = error.accessKey;
+    if (error.sriMessages.length > 0) description.mensajes = error.sriMessages;
+  }
+  if (error instanceof ValidationError) description.issues = error.issues;
+  return description;
+}
+
+async function main(argv: string[]): Promise<number> {
+  const [name, ...args] = argv;
+  if (!name || name === '-h' || name === '--help' || name === 'help') {
+    console.log(USAGE);
+    return name ? EXIT_CODES.OK : EXIT_CODES.USAGE;
+  }
+  try {
+    const command = COMMANDS[name];
+    if (!command) throw new CliUsageError(`Comando desconocido: ${name}. Use --help para ver los comandos.`);
+    let parsed;
+    try {
+      parsed = parseArgs({ args, options: { ...GLOBAL_OPTIONS, ...command.options }, allowPositionals: true, strict: true });
+    } catch (error) {
+      throw new CliUsageError((error as Error).message);
+    }
+    const values = parsed.values as OptionValues;
+    if (values.help) {
+      console.log(USAGE);
+      return EXIT_CODES.OK;
+    }
+    const result = await command.run(values, parsed.positionals, loadConfig(values));
+    console.log(JSON.stringify(result, null, 2));
+    return EXIT_CODES.OK;
+  } catch (error) {
+    console.error(JSON.stringify(describeError(error), null, 2));
+    return exitCodeOf(error);
+  }
+}
+
+main(process.argv.slice(2)).then((code) => {
+  process.exitCode = code;
+});
@@ -4,23 +4,65 @@
  * VERSIÓN FINAL: Se corrigen las importaciones y se refina la clase principal.
  */
 
+import * as fs from 'fs';
 import { Invoice } from './baseData/invoice/invoice';
 import { generateInvoiceXML } from './services/generateInvoice';
+import { CreditNote } from './baseData/creditNote/creditNote';
+import { generateCreditNoteXML } from './services/generateCreditNote';
+import { DebitNote } from './baseData/debitNote/debitNote';
+import { generateDebitNoteXML } from './services/generateDebitNote';
+import { RetentionVoucher } from './baseData/retentionVoucher/retentionVoucher';
+import { generateRetentionVoucherXML } from './services/generateRetentionVoucher';
+import { RemissionGuide } from './baseData/remissionGuide/remissionGuide';
+import { generateRemissionGuideXML } from './services/generateRemissionGuide';
+import { PurchaseSettlement } from './baseData/purchaseSettlement/purchaseSettlement';
+import { generatePurchaseSettlementXML } from './services/generatePurchaseSettlement';
+import { assertValidSchema } from './services/schemaValidation';
 import { signXML } from './services/signing'; // CORREGIDO: de signXml a signXML
-import { sendSignedXml, ReceptionResponse } from './services/reception';
-import { checkAuthorization, Autorizacion } from './services/authorization'; // CORREGIDO: de AuthorizationResponse a Autorizacion
-import { Ambiente } from './baseData/invoice/taxInfo';
+import { createP12Signer, Signer } from './services/signers';
+import { assertCertificateCanSign, CertificateInfo, readCertificateInfo } from './services/certificate';
+import { SigningError, SriNotAuthorizedError, SriReceptionError, ValidationError } from './services/errors';
+import { Outbox, ReconcileOptions, ReconcileOutcome } from './services/outbox';
+import { sequenceKeyOf, SequenceProvider, WithOptionalSequential } from './services/sequence';
+import { sendSignedXml, ReceptionResponse, readAccessKey } from './services/reception';
+import { checkAuthorization, waitForAuthorization, Autorizacion, WaitForAuthorizationOptions } from './services/authorization'; // CORREGIDO: de AuthorizationResponse a Autorizacion
+import { TransportOptions } from './services/transport';
+import { BatchOptions, BatchReceptionResult, sendBatch } from './services/batch';
+import { Ambiente, TaxInfo } from './baseData/invoice/taxInfo';
+
+/** Secuencial con el que se validan los datos antes de tomar uno de `sequenceProvider`. */
+const PROVISIONAL_SEQUENTIAL = '000000001';
 
 /**
  * Configuración inicial para la clase OpenFactura.
  */
 export interface OpenFacturaConfig {
-  /** Ruta al archivo del certificado digital (.p12). */
-  p12Path: string;
-  /** Contraseña del certificado digital. */
-  p12Password: string;
+  /** Ruta al archivo del certificado digital (.p12). Se ignora si se indica `signer`. */
+  p12Path?: string;
+  /** Contraseña del certificado digital. Se ignora si se indica `signer`. */
+  p12Password?: string;
+  /** Firmante a usar en lugar de `p12Path`/`p12Password` (ej: `createPemSigner`, `createCallbackSigner`). */
+  signer?: Signer;
   /** Ambiente de la transacción ('1' para Pruebas, '2' para Producción). */
   ambiente: Ambiente;
+  /** Si es `true`, cada comprobante se valida contra el XSD oficial de su versión antes de firmarlo (ver `validateXmlAgainstSchema`). */
+  validateSchema?: boolean;
+  /** Días antes del vencimiento del certificado a partir de los cuales se emite una advertencia (por defecto 30). */
+  certificateWarningDays?: number;
+  /** Recibe la advertencia de vencimiento del certificado; sin este callback la librería no escribe nada. */
+  onCertificateExpiring?: (info: CertificateInfo) => void;
+  /** Endpoints, timeout, reintentos, limitación de frecuencia y proxy para los Web Services del SRI. */
+  transport?: TransportOptions;
+  /** Bandeja de salida donde se registra cada cambio de estado de los comprobantes. */
+  outbox?: Outbox;
+  /**
+   * Recibe los errores al registrar en la bandeja de salida el envío o la autorización de un comprobante
+   * (ej: un cambio de estado no permitido o una falla del almacenamiento). Esos errores no interrumpen el envío
+   * ni reemplazan la respuesta del SRI, que se devuelve o se lanza igual.
+   */
+  onOutboxError?: (error: Error, accessKey: string) => void;
+  /** Asigna `infoTributaria.secuencial` cuando se omite (ej: `createFileSequenceProvider('./secuencias.json')`). */
+  sequenceProvider?: SequenceProvider;
 }
 
 /**
@@ -28,32 +70,241 @@ export interface OpenFacturaConfig {
  */
 export class OpenFactura {
   private config: OpenFacturaConfig;
+  private signer?: Signer;
+  private expiryWarned = false;
 
   constructor(config: OpenFacturaConfig) {
-    if (!config.p12Path || !config.p12Password || !config.ambiente) {
-      throw new Error("La configuración debe incluir p12Path, p12Password y ambiente.");
+    if (!(config.signer || (config.p12Path && config.p12Password)) || !config.ambiente) {
+      throw new Error("La configuración debe incluir signer (o p12Path y p12Password) y ambiente.");
     }
     this.config = config;
+    this.signer = config.signer;
+  }
+
+  /**
+   * Devuelve el firmante configurado. El .p12 se lee y se parsea una sola vez, en la primera firma.
+   */
+  private getSigner(): Signer {
+    if (!this.signer) {
+      const { p12Path, p12Password } = this.config as Required<Pick<OpenFacturaConfig, 'p12Path' | 'p12Password'>>;
+      if (!fs.existsSync(p12Path)) {
+        throw new SigningError(`El archivo del certificado no se encontró en la ruta: ${p12Path}`);
+      }
+      this.signer = createP12Signer(fs.readFileSync(p12Path), p12Password);
+    }
+    return this.signer;
+  }
+
+  /**
+   * Devuelve los datos del certificado de firma, incluidos los días hasta su vencimiento (útil para monitoreo).
+   */
+  public getCertificateInfo(): CertificateInfo {
+    return readCertificateInfo(this.getSigner().certificate);
+  }
+
+  /**
+   * Firma un comprobante después de comprobar que el certificado esté vigente y pertenezca al RUC del emisor.
+   * Llama a `onCertificateExpiring` (una vez por instancia) cuando faltan pocos días para el vencimiento.
+   */
+  private async sign(unsignedXml: string, ruc: string): Promise<string> {
+    const info = this.getCertificateInfo();
+    assertCertificateCanSign(info, ruc);
+    const { onCertificateExpiring } = this.config;
+    if (onCertificateExpiring && !this.expiryWarned && info.daysUntilExpiry <= (this.config.certificateWarningDays ?? 30)) {
+      this.expiryWarned = true;
+      onCertificateExpiring(info);
+    }
+    return signXML(unsignedXml, this.getSigner());
+  }
+
+  /**
+   * Genera y firma un comprobante sobre una copia de los datos con el ambiente configurado.
+   * Si se omitió el secuencial, primero valida los datos y el certificado con un secuencial provisional
+   * y solo entonces toma el número de `sequenceProvider`; si la generación o la firma fallan después,
+   * lo devuelve con `release` para no dejar saltos en la numeración.
+   */
+  private async createAndSign<T extends { infoTributaria: TaxInfo }>(
+    data: WithOptionalSequential<T>,
+    generate: (voucher: T) => Promise<{ xml: string; accessKey: string }>,
+  ): Promise<{ accessKey: string; signedXml: string }> {
+    const withTaxInfo = (changes: Partial<TaxInfo>): T => (
+      { ...data, infoTributaria: { ...data.infoTributaria, ambiente: this.config.ambiente, ...changes } } as unknown as T
+    );
+    if (data.infoTributaria.secuencial) {
+      const voucher = withTaxInfo({});
+      const { xml, accessKey } = await generate(voucher);
+      return { accessKey, signedXml: await this.signAndRecord(xml, accessKey, voucher.infoTributaria.ruc) };
+    }
+
+    const provider = this.config.sequenceProvider;
+    if (!provider) {
+      throw ValidationError.forField('infoTributaria.secuencial', 'es obligatorio si no se configura sequenceProvider.');
+    }
+    const draft = withTaxInfo({ secuencial: PROVISIONAL_SEQUENTIAL });
+    await generate(draft);
+    assertCertificateCanSign(this.getCertificateInfo(), draft.infoTributaria.ruc);
+
+    const key = sequenceKeyOf(draft.infoTributaria);
+    const secuencial = await provider.next(key);
+    const voucher = withTaxInfo({ secuencial });
+    let recorded = false;
+    try {
+      const { xml, accessKey } = await generate(voucher);
+      await this.config.outbox?.recordGenerated(accessKey, xml);
+      // Desde aquí la bandeja de salida conserva el comprobante y `reconcileOutbox` lo retoma con su secuencial.
+      recorded = Boolean(this.config.outbox);
+      const signedXml = await this.sign(xml, voucher.infoTributaria.ruc);
+      await this.config.outbox?.recordSigned(accessKey, signedXml);
+      return { accessKey, signedXml };
+    } catch (error) {
+      if (!recorded) {
+        try {
+          await provider.release?.(key, secuencial);
+        } catch {
+          // Sin liberar, el secuencial queda como un salto; el error que se reporta es el de la generación o la firma.
+        }
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Firma un comprobante y, si hay bandeja de salida, registra los estados GENERATED y SIGNED.
+   */
+  private async signAndRecord(unsignedXml: string, accessKey: string, ruc: string): Promise<string> {
+    await this.config.outbox?.recordGenerated(accessKey, unsignedXml);
+    const signedXml = await this.sign(unsignedXml, ruc);
+    await this.config.outbox?.recordSigned(accessKey, signedXml);
+    return signedXml;
+  }
+
+  /**
+   * Aplica un registro en la bandeja de salida sin interrumpir la comunicación con el SRI: si falla,
+   * el error se entrega a `onOutboxError`.
+   */
+  private async track(accessKey: string, update: (outbox: Outbox) => Promise<unknown>): Promise<void> {
+    const outbox = this.config.outbox;
+    if (!outbox) return;
+    try {
+      await update(outbox);
+    } catch (error) {
+      this.config.onOutboxError?.(error as Error, accessKey);
+    }
+  }
+
+  /**
+   * Registra en la bandeja de salida el resultado de una consulta de autorización.
+   */
+  private async recordAuthorization(accessKey: string, query: Promise<Autorizacion>): Promise<Autorizacion> {
+    try {
+      const autorizacion = await query;
+      if (autorizacion.estado !== 'EN PROCESO') {
+        await this.track(accessKey, async (outbox) => {
+          if (await outbox.get(accessKey)) await outbox.recordAuthorization(accessKey, autorizacion);
+        });
+      }
+      return autorizacion;
+    } catch (error) {
+      if (error instanceof SriNotAuthorizedError) {
+        await this.track(accessKey, async (outbox) => {
+          if (!(await outbox.get(accessKey))) return;
+          await outbox.recordAuthorization(accessKey, {
+            estado: 'NO AUTORIZADO', numeroAutorizacion: null, fechaAutorizacion: null, ambiente: null, comprobante: null, mensajes: error.sriMessages,
+          });
+        });
+      }
+      throw error;
+    }
   }
 
   /**
    * Paso 1: Crea el XML, genera la clave de acceso y firma el comprobante.
    *
    * @param invoiceData - El objeto completo de la factura.
-   * @param codigoNumerico - Un código aleatorio de 8 dígitos para la clave de acceso.
+   * @param codigoNumerico - Un código de 8 dígitos para la clave de acceso. Si se omite, se genera uno aleatorio.
    * @returns Un objeto con la clave de acceso generada y el XML firmado.
    */
-  public async createAndSignInvoice(invoiceData: Invoice, codigoNumerico: string): Promise<{ accessKey: string; signedXml: string }> {
-    invoiceData.infoTributaria.ambiente = this.config.ambiente;
-
+  public async createAndSignInvoice(invoiceData: WithOptionalSequential<Invoice>, codigoNumerico?: string): Promise<{ accessKey: string; signedXml: string }> {
     // CORRECCIÓN: Se llama a generateInvoiceXML que ahora devuelve tanto el xml como la clave de acceso.
     // Esto asegura que la clave de acceso siempre sea consistente con el XML generado.
-    const { xml: unsignedXml, accessKey } = generateInvoiceXML(invoiceData, codigoNumerico);
+    return this.createAndSign<Invoice>(invoiceData, async (invoice) => (this.config.validateSchema
+      ? generateInvoiceXML(invoice, codigoNumerico, { validateSchema: true })
+      : generateInvoiceXML(invoice, codigoNumerico)));
+  }
 
-    // Se pasa el 'unsignedXml' (string) a la función de firma corregida 'signXML'.
-    const signedXml = await signXML(unsignedXml, this.config.p12Path, this.config.p12Password);
+  /**
+   * Paso 1 (nota de crédito): Crea el XML de la nota de crédito, genera la clave de acceso y lo firma.
+   *
+   * @param creditNoteData - El objeto completo de la nota de crédito.
+   * @param codigoNumerico - Un código de 8 dígitos para la clave de acceso. Si se omite, se genera uno aleatorio.
+   * @returns Un objeto con la clave de acceso generada y el XML firmado.
+   */
+  public async createAndSignCreditNote(creditNoteData: WithOptionalSequential<CreditNote>, codigoNumerico?: string): Promise<{ accessKey: string; signedXml: string }> {
+    return this.createAndSign<CreditNote>(creditNoteData, async (creditNote) => {
+      const generated = generateCreditNoteXML(creditNote, codigoNumerico);
+      if (this.config.validateSchema) await assertValidSchema(generated.xml, 'notaCredito', creditNote.version);
+      return generated;
+    });
+  }
 
-    return { accessKey, signedXml };
+  /**
+   * Paso 1 (nota de débito): Crea el XML de la nota de débito, genera la clave de acceso y lo firma.
+   *
+   * @param debitNoteData - El objeto completo de la nota de débito.
+   * @param codigoNumerico - Un código de 8 dígitos para la clave de acceso. Si se omite, se genera uno aleatorio.
+   * @returns Un objeto con la clave de acceso generada y el XML firmado.
+   */
+  public async createAndSignDebitNote(debitNoteData: WithOptionalSequential<DebitNote>, codigoNumerico?: string): Promise<{ accessKey: string; signedXml: string }> {
+    return this.createAndSign<DebitNote>(debitNoteData, async (debitNote) => {
+      const generated = generateDebitNoteXML(debitNote, codigoNumerico);
+      if (this.config.validateSchema) await assertValidSchema(generated.xml, 'notaDebito', debitNote.version);
+      return generated;
+    });
+  }
+
+  /**
+   * Paso 1 (comprobante de retención): Crea el XML del comprobante de retención, genera la clave de acceso y lo firma.
+   *
+   * @param voucherData - El objeto completo del comprobante de retención.
+   * @param codigoNumerico - Un código de 8 dígitos para la clave de acceso. Si se omite, se genera uno aleatorio.
+   * @returns Un objeto con la clave de acceso generada y el XML firmado.
+   */
+  public async createAndSignRetentionVoucher(voucherData: WithOptionalSequential<RetentionVoucher>, codigoNumerico?: string): Promise<{ accessKey: string; signedXml: string }> {
+    return this.createAndSign<RetentionVoucher>(voucherData, async (voucher) => {
+      const generated = generateRetentionVoucherXML(voucher, codigoNumerico);
+      if (this.config.validateSchema) await assertValidSchema(generated.xml, 'comprobanteRetencion', voucher.version);
+      return generated;
+    });
+  }
+
+  /**
+   * Paso 1 (guía de remisión): Crea el XML de la guía de remisión, genera la clave de acceso y lo firma.
+   *
+   * @param guideData - El objeto completo de la guía de remisión.
+   * @param codigoNumerico - Un código de 8 dígitos para la clave de acceso. Si se omite, se genera uno aleatorio.
+   * @returns Un objeto con la clave de acceso generada y el XML firmado.
+   */
+  public async createAndSignRemissionGuide(guideData: WithOptionalSequential<RemissionGuide>, codigoNumerico?: string): Promise<{ accessKey: string; signedXml: string }> {
+    return this.createAndSign<RemissionGuide>(guideData, async (guide) => {
+      const generated = generateRemissionGuideXML(guide, codigoNumerico);
+      if (this.config.validateSchema) await assertValidSchema(generated.xml, 'guiaRemision', guide.version);
+      return generated;
+    });
+  }
+
+  /**
+   * Paso 1 (liquidación de compra): Crea el XML de la liquidación de compra, genera la clave de acceso y lo firma.
+   *
+   * @param settlementData - El objeto completo de la liquidación de compra.
+   * @param codigoNumerico - Un código de 8 dígitos para la clave de acceso. Si se omite, se genera uno aleatorio.
+   * @returns Un objeto con la clave de acceso generada y el XML firmado.
+   */
+  public async createAndSignPurchaseSettlement(settlementData: WithOptionalSequential<PurchaseSettlement>, codigoNumerico?: string): Promise<{ accessKey: string; signedXml: string }> {
+    return this.createAndSign<PurchaseSettlement>(settlementData, async (settlement) => {
+      const generated = generatePurchaseSettlementXML(settlement, codigoNumerico);
+      if (this.config.validateSchema) await assertValidSchema(generated.xml, 'liquidacionCompra', settlement.version);
+      return generated;
+    });
   }
 
   /**
@@ -63,7 +314,50 @@ export class OpenFactura {
    * @returns La respuesta del servicio de recepción del SRI.
    */
   public async sendInvoice(signedXml: string): Promise<ReceptionResponse> {
-    return await sendSignedXml(signedXml, this.config.ambiente);
+    const accessKey = readAccessKey(signedXml);
+    if (!this.config.outbox || !accessKey) {
+      return await sendSignedXml(signedXml, this.config.ambiente, this.config.transport);
+    }
+    await this.track(accessKey, (outbox) => this.recordSent(outbox, accessKey, signedXml));
+    try {
+      const response = await sendSignedXml(signedXml, this.config.ambiente, this.config.transport);
+      await this.track(accessKey, (outbox) => outbox.recordReception(accessKey, response.estado, response.mensajes));
+      return response;
+    } catch (error) {
+      if (error instanceof SriReceptionError) {
+        const estado = error.alreadyReceived ? 'RECIBIDA' : 'DEVUELTA';
+        await this.track(accessKey, (outbox) => outbox.recordReception(accessKey, estado, error.sriMessages));
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Registra en la bandeja de salida el XML firmado que se va a enviar, salvo que sea el ya registrado
+   * o que el comprobante ya esté AUTORIZADO (que conserva su XML).
+   */
+  private async recordSent(outbox: Outbox, accessKey: string, signedXml: string): Promise<void> {
+    const record = await outbox.get(accessKey);
+    if (record && (record.state === 'AUTORIZADO' || record.signedXml === signedXml)) return;
+    await outbox.recordSigned(accessKey, signedXml);
+  }
+
+  /**
+   * Paso 2 (por lote): Envía varios comprobantes firmados al SRI en uno o varios lotes.
+   *
+   * @param signedXmls - Los XML firmados.
+   * @param options - Límites de tamaño y cantidad de cada lote; se combinan con la configuración de transporte.
+   * @returns Los lotes enviados y el resultado de la recepción de cada comprobante.
+   */
+  public async sendBatch(signedXmls: string[], options: BatchOptions = {}): Promise<BatchReceptionResult> {
+    const result = await sendBatch(signedXmls, this.config.ambiente, { ...this.config.transport, ...options });
+    for (const [index, voucher] of result.vouchers.entries()) {
+      await this.track(voucher.accessKey, async (outbox) => {
+        await this.recordSent(outbox, voucher.accessKey, signedXmls[index]);
+        await outbox.recordReception(voucher.accessKey, voucher.estado, voucher.mensajes);
+      });
+    }
+    return result;
   }
 
   /**
@@ -73,7 +367,38 @@ export class OpenFactura {
    * @returns La respuesta del servicio de autorización del SRI.
    */
   public async authorizeInvoice(accessKey: string): Promise<Autorizacion> {
-    return await checkAuthorization(accessKey, this.config.ambiente);
+    return await this.recordAuthorization(accessKey, checkAuthorization(accessKey, this.config.ambiente, this.config.transport));
+  }
+
+  /**
+   * Paso 3 (con espera): Consulta la autorización mientras el SRI reporte el comprobante como pendiente.
+   *
+   * @param accessKey - La clave de acceso del comprobante.
+   * @param options - Tiempo máximo de espera (`maxWaitMs`) e intervalo de consulta.
+   * @returns La respuesta definitiva del servicio de autorización del SRI.
+   */
+  public async waitForAuthorization(accessKey: string, options: WaitForAuthorizationOptions = {}): Promise<Autorizacion> {
+    return await this.recordAuthorization(accessKey, waitForAuthorization(accessKey, this.config.ambiente, { ...this.config.transport, ...options }));
+  }
+
+  /**
+   * Retoma los comprobantes de la bandeja de salida que quedaron en un estado intermedio
+   * (por ejemplo, si el proceso terminó entre `sendInvoice` y `authorizeInvoice`):
+   * firma los GENERATED, reenvía los SIGNED y consulta la autorización de los RECIBIDA.
+   *
+   * @param options - Antigüedad mínima de los comprobantes a retomar y opciones de transporte.
+   * @returns Un resultado por comprobante retomado.
+   * @throws Un error si no se configuró `outbox`.
+   */
+  public async reconcileOutbox(options: Omit<ReconcileOptions, 'sign'> = {}): Promise<ReconcileOutcome[]> {
+    if (!this.config.outbox) {
+      throw new Error('La configuración no incluye una bandeja de salida (outbox).');
+    }
+    return await this.config.outbox.reconcile(this.config.ambiente, {
+      ...this.config.transport,
+      ...options,
+      sign: (xml) => this.sign(xml, /<ruc>([0-9]{13})<\/ruc>/.exec(xml)?.[1] ?? ''),
+    });
   }
 }
 
@@ -87,7 +412,45 @@ export * from './baseData/invoice/reimbursements';
 export * from './baseData/invoice/remissionGuidesSustitutiveInfo';
 export * from './baseData/invoice/retentions';
 export * from './baseData/invoice/otherThirdPartyValues';
+export * from './baseData/creditNote/creditNote';
+export * from './baseData/creditNote/creditNoteInfo';
+export * from './baseData/creditNote/details';
+export * from './baseData/debitNote/debitNote';
+export * from './baseData/debitNote/debitNoteInfo';
+export * from './baseData/retentionVoucher/retentionVoucher';
+export * from './baseData/retentionVoucher/retentionVoucherInfo';
+export * from './baseData/retentionVoucher/supportingDocuments';
+export * from './baseData/remissionGuide/remissionGuide';
+export * from './baseData/remissionGuide/remissionGuideInfo';
+export * from './baseData/remissionGuide/recipients';
+export * from './baseData/purchaseSettlement/purchaseSettlement';
+export * from './baseData/purchaseSettlement/purchaseSettlementInfo';
+export * from './baseData/catalogs/taxCatalog';
+export * from './utils/identification';
+export * from './utils/decimal';
 export * from './services/reception';
 export * from './services/authorization';
-export { generateInvoiceXML } from './services/generateInvoice';
-export { signXML } from './services/signing';
\ No newline at end of file
+export * from './services/transport';
+export * from './services/errors';
+export * from './services/outbox';
+export * from './services/sequence';
+export * from './services/batch';
+export * from './services/mockSri';
+export { generateNumericCode, getAccessKey, decodeAccessKey, isValidAccessKey, type AccessKeyParts } from './utils/utils';
+export { generateInvoiceXML, type GenerateInvoiceOptions } from './services/generateInvoice';
+export * from './services/invoiceValidation';
+export * from './services/invoiceVersion';
+export { generateCreditNoteXML } from './services/generateCreditNote';
+export { generateDebitNoteXML } from './services/generateDebitNote';
+export { generateRetentionVoucherXML } from './services/generateRetentionVoucher';
+export { generateRemissionGuideXML } from './services/generateRemissionGuide';
+export { generatePurchaseSettlementXML } from './services/generatePurchaseSettlement';
+export * from './services/creditNoteFromInvoice';
+export * from './services/calculation';
+export * from './services/schemaValidation';
+export * from './services/ride';
+export * from './services/parseVoucher';
+export * from './services/signatureVerification';
+export { signXML, type SignOptions } from './services/signing';
+export * from './services/signers';
+export * from './services/certificate';
\ No newline at end of file
@@ -0,0 +1,30 @@
+/**
+ * @file src/schemas/official.ts
+ * @description Acceso a los esquemas XSD oficiales del SRI incluidos en la librería (carpeta `xsd`),
+ * junto con el esquema `xmldsig-core-schema.xsd` de la W3C que todos importan para la firma.
+ * Los archivos se publican tal cual en `dist/xsd` al compilar.
+ */
+
+import { readFileSync } from 'fs';
+import { join } from 'path';
+
+/** Nombre del esquema XMLDSig que importan los esquemas del SRI (atributo `schemaLocation`). */
+export const XMLDSIG_SCHEMA_FILE = 'xmldsig-core-schema.xsd';
+
+const cache = new Map<string, string>();
+
+/**
+ * Lee un esquema XSD oficial incluido en la librería.
+ *
+ * @param fileName El nombre del archivo (ej: 'factura_V1.1.0.xsd').
+ * @returns El documento XSD como texto.
+ */
+export function readOfficialSchema(fileName: string): string {
+  let contents = cache.get(fileName);
+  if (contents === undefined) {
+    // En desarrollo los archivos están junto a este módulo; en el paquete compilado, en dist/xsd junto al bundle.
+    contents = readFileSync(join(__dirname, 'xsd', fileName), 'utf8');
+    cache.set(fileName, contents);
+  }
+  return contents;
+}
@@ -5,22 +5,17 @@
  * del comprobante ('AUTORIZADO' o 'NO AUTORIZADO').
  */
 
-import axios from 'axios';
 import { DOMParser } from 'xmldom';
 import { Ambiente } from '../baseData/invoice/taxInfo';
-import { SriError } from './reception'; // Reutilizamos la interfaz de error
-
-// Endpoints del SRI según la Ficha Técnica (Sección 7.2)
-const authorizationEndpoints = {
-  pruebas: 'https://celcer.sri.gob.ec/comprobantes-electronicos-ws/AutorizacionComprobantesOffline?wsdl',
-  produccion: 'https://cel.sri.gob.ec/comprobantes-electronicos-ws/AutorizacionComprobantesOffline?wsdl'
-};
+import { readSriMessages, SriError } from './reception'; // Reutilizamos la interfaz de error
+import { SriCommunicationError, SriNotAuthorizedError, SriPendingError } from './errors';
+import { postSoap, resolveEndpoint, TransportOptions } from './transport';
 
 /**
  * Define la estructura de la respuesta de autorización del SRI para un comprobante.
  */
 export interface Autorizacion {
-  estado: 'AUTORIZADO' | 'NO AUTORIZADO';
+  estado: 'AUTORIZADO' | 'NO AUTORIZADO' | 'EN PROCESO';
   numeroAutorizacion: string | null;
   fechaAutorizacion: string | null;
   ambiente: string | null;
@@ -29,15 +24,20 @@ export interface Autorizacion {
 }
 
 /**
- * Consulta el estado de autorización de un comprobante electrónico en el SRI.
- *
- * @param accessKey La clave de acceso de 49 dígitos del comprobante a consultar.
- * @param ambiente El ambiente donde se realizó la emisión ('1' para pruebas, '2' para producción).
- * @returns Una promesa que se resuelve con la información de la autorización del SRI.
- * @throws Un error descriptivo si el estado es 'NO AUTORIZADO', si el comprobante no se encuentra, o si ocurre un problema de comunicación.
+ * Opciones de `waitForAuthorization`.
+ */
+export interface WaitForAuthorizationOptions extends TransportOptions {
+  /** Tiempo máximo total de espera, en milisegundos. Por defecto 60000. */
+  maxWaitMs?: number;
+  /** Espera inicial entre consultas, en milisegundos; crece 1.5 veces por consulta hasta 10 segundos. Por defecto 2000. */
+  pollIntervalMs?: number;
+}
+
+/**
+ * Consulta el Web Service de Autorización y devuelve la autorización, o null si el SRI aún no procesa el comprobante.
  */
-export async function checkAuthorization(accessKey: string, ambiente: Ambiente): Promise<Autorizacion> {
-  const endpoint = ambiente === '1' ? authorizationEndpoints.pruebas : authorizationEndpoints.produccion;
+async function queryAuthorization(accessKey: string, ambiente: Ambiente, options: TransportOptions): Promise<Autorizacion | null> {
+  const endpoint = resolveEndpoint('authorization', ambiente, options);
 
   const soapEnvelope = `
     <soap:Envelope xmlns:soap="http://schemas.xmlsoap.org/soap/envelope/" xmlns:ec="http://ec.gob.sri.ws.autorizacion">
@@ -50,57 +50,90 @@ export async function checkAuthorization(accessKey: string, ambiente: Ambiente):
     </soap:Envelope>
   `;
 
-  try {
-    const response = await axios.post(endpoint, soapEnvelope, {
-      headers: { 'Content-Type': 'text/xml;charset=UTF-8', 'SOAPAction': '' }
-    });
+  const responseXml = await postSoap(endpoint, soapEnvelope, 'Autorización', options, accessKey);
 
-    // Parsear la respuesta SOAP usando xmldom
-    const doc = new DOMParser().parseFromString(response.data, 'text/xml');
-    const autorizacionNode = doc.getElementsByTagName('autorizacion')[0];
+  // Parsear la respuesta SOAP usando xmldom
+  const doc = new DOMParser().parseFromString(responseXml, 'text/xml');
+  const autorizacionNode = doc.getElementsByTagName('autorizacion')[0];
 
-    // Manejo de caso donde el comprobante aún no se procesa
-    if (!autorizacionNode) {
-      const nroComprobantes = doc.getElementsByTagName('numeroComprobantes')[0]?.textContent;
-      if (nroComprobantes === '0') {
-        throw new Error(`El comprobante con clave ${accessKey} aún no ha sido procesado por el SRI. Intente de nuevo más tarde.`);
-      }
-      throw new Error('Respuesta inválida del SRI (Autorización): No se encontró el nodo "autorizacion".');
+  // Manejo de caso donde el comprobante aún no se procesa
+  if (!autorizacionNode) {
+    const nroComprobantes = doc.getElementsByTagName('numeroComprobantes')[0]?.textContent;
+    if (nroComprobantes === '0') {
+      return null;
     }
+    throw new SriCommunicationError('Respuesta inválida del SRI (Autorización): No se encontró el nodo "autorizacion".', { attempts: 1, retryable: true, accessKey });
+  }
 
-    const estado = autorizacionNode.getElementsByTagName('estado')[0]?.textContent as 'AUTORIZADO' | 'NO AUTORIZADO';
-    
-    const mensajesNodes = autorizacionNode.getElementsByTagName('mensaje');
-    const mensajes: SriError[] = Array.from(mensajesNodes).map(node => ({
-        identificador: node.getElementsByTagName('identificador')[0]?.textContent || null,
-        mensaje: node.getElementsByTagName('mensaje')[0]?.textContent || null,
-        informacionAdicional: node.getElementsByTagName('informacionAdicional')[0]?.textContent || null,
-        tipo: node.getElementsByTagName('tipo')[0]?.textContent || null,
-    }));
+  const estado = autorizacionNode.getElementsByTagName('estado')[0]?.textContent as Autorizacion['estado'];
 
-    // Si el estado es NO AUTORIZADO, se lanza un error con los detalles
-    if (estado === 'NO AUTORIZADO') {
-      const errorDetails = mensajes.map(e => `  - [${e.identificador}] ${e.mensaje} ${e.informacionAdicional || ''}`).join('\n');
-      throw new Error(`El SRI no autorizó el comprobante con clave ${accessKey}:\n${errorDetails}`);
-    }
+  const mensajes = readSriMessages(autorizacionNode);
+
+  // Construcción del objeto de respuesta
+  return {
+      estado,
+      numeroAutorizacion: autorizacionNode.getElementsByTagName('numeroAutorizacion')[0]?.textContent || null,
+      fechaAutorizacion: autorizacionNode.getElementsByTagName('fechaAutorizacion')[0]?.textContent || null,
+      ambiente: autorizacionNode.getElementsByTagName('ambiente')[0]?.textContent || null,
+      comprobante: autorizacionNode.getElementsByTagName('comprobante')[0]?.textContent || null,
+      mensajes
+  };
+}
 
-    // Construcción del objeto de respuesta exitosa
-    return {
-        estado,
-        numeroAutorizacion: autorizacionNode.getElementsByTagName('numeroAutorizacion')[0]?.textContent || null,
-        fechaAutorizacion: autorizacionNode.getElementsByTagName('fechaAutorizacion')[0]?.textContent || null,
-        ambiente: autorizacionNode.getElementsByTagName('ambiente')[0]?.textContent || null,
-        comprobante: autorizacionNode.getElementsByTagName('comprobante')[0]?.textContent || null,
-        mensajes
-    };
+/**
+ * Lanza un `SriNotAuthorizedError` con los mensajes del SRI si el comprobante no fue autorizado.
+ */
+function assertAuthorized(accessKey: string, autorizacion: Autorizacion): Autorizacion {
+  if (autorizacion.estado === 'NO AUTORIZADO') {
+    throw new SriNotAuthorizedError(accessKey, autorizacion.mensajes ?? []);
+  }
+  return autorizacion;
+}
 
-  } catch (error) {
-    if (axios.isAxiosError(error)) {
-      const faultString = error.response?.data?.match(/<faultstring>(.*?)<\/faultstring>/)?.[1];
-      const detail = faultString ? `\nDetalle del SRI: ${faultString}` : '';
-      throw new Error(`Error en la comunicación con el SRI (Autorización): ${error.message}${detail}`);
+/**
+ * Consulta el estado de autorización de un comprobante electrónico en el SRI.
+ *
+ * @param accessKey La clave de acceso de 49 dígitos del comprobante a consultar.
+ * @param ambiente El ambiente donde se realizó la emisión ('1' para pruebas, '2' para producción).
+ * @param options Endpoints, timeout, reintentos, limitación de frecuencia y proxy.
+ * @returns Una promesa que se resuelve con la información de la autorización del SRI.
+ * @throws Un `SriNotAuthorizedError` si el estado es 'NO AUTORIZADO', un `SriPendingError` si el comprobante aún no se procesa,
+ * o un `SriCommunicationError` si ocurre un problema de comunicación.
+ */
+export async function checkAuthorization(accessKey: string, ambiente: Ambiente, options: TransportOptions = {}): Promise<Autorizacion> {
+  const autorizacion = await queryAuthorization(accessKey, ambiente, options);
+  if (!autorizacion) {
+    throw new SriPendingError(accessKey, `El comprobante con clave ${accessKey} aún no ha sido procesado por el SRI. Intente de nuevo más tarde.`);
+  }
+  return assertAuthorized(accessKey, autorizacion);
+}
+
+/**
+ * Consulta la autorización de un comprobante repetidamente mientras el SRI lo reporte como pendiente
+ * (sin autorizaciones o 'EN PROCESO'), hasta obtener una respuesta definitiva o agotar `maxWaitMs`.
+ *
+ * @param accessKey La clave de acceso de 49 dígitos del comprobante a consultar.
+ * @param ambiente El ambiente donde se realizó la emisión ('1' para pruebas, '2' para producción).
+ * @param options Tiempo máximo de espera, intervalo de consulta y opciones de transporte.
+ * @returns Una promesa que se resuelve con la autorización del SRI.
+ * @throws Un `SriNotAuthorizedError` si el estado es 'NO AUTORIZADO', un `SriPendingError` si se agota el tiempo de espera,
+ * o un `SriCommunicationError` si ocurre un problema de comunicación.
+ */
+export async function waitForAuthorization(accessKey: string, ambiente: Ambiente, options: WaitForAuthorizationOptions = {}): Promise<Autorizacion> {
+  const maxWaitMs = options.maxWaitMs ?? 60000;
+  const deadline = Date.now() + maxWaitMs;
+  let interval = options.pollIntervalMs ?? 2000;
+
+  for (;;) {
+    const autorizacion = await queryAuthorization(accessKey, ambiente, options);
+    if (autorizacion && autorizacion.estado !== 'EN PROCESO') {
+      return assertAuthorized(accessKey, autorizacion);
+    }
+    const remaining = deadline - Date.now();
+    if (remaining <= 0) {
+      throw new SriPendingError(accessKey, `El SRI no terminó de procesar el comprobante con clave ${accessKey} en ${maxWaitMs} ms.`);
     }
-    // Re-lanzar el error si ya es descriptivo (ej. el de 'NO AUTORIZADO') o uno inesperado
-    throw error;
+    await new Promise((resolve) => setTimeout(resolve, Math.min(interval, remaining)));
+    interval = Math.min(interval * 1.5, 10000);
   }
 }
@@ -0,0 +1,240 @@
+/**
+ * @file src/services/batch.ts
+ * @description Envío de comprobantes por lote al Web Service de Recepción del SRI.
+ * Agrupa los comprobantes firmados en documentos <lote> con su propia clave de acceso, los divide según
+ * los límites de tamaño y cantidad, y devuelve el resultado de la recepción de cada comprobante.
+ */
+
+import { Ambiente } from '../baseData/invoice/taxInfo';
+import { generateNumericCode, getAccessKey } from '../utils/utils';
+import { SRI_MESSAGE_IDENTIFIERS, ValidationError } from './errors';
+import { readAccessKey, readSriMessages, ReceptionResponse, SriError, submitToReception } from './reception';
+import { TransportOptions } from './transport';
+
+/**
+ * Opciones del envío por lote.
+ */
+export interface BatchOptions extends TransportOptions {
+  /** Tamaño máximo del XML de cada lote, en bytes. Por defecto 500000. */
+  maxBatchBytes?: number;
+  /** Cantidad máxima de comprobantes por lote. Por defecto 50. */
+  maxVouchersPerBatch?: number;
+  /** Fecha de la clave de acceso de los lotes (dd/mm/yyyy). Por defecto, la fecha actual. */
+  fechaEmision?: string;
+}
+
+/**
+ * Resultado de la recepción de un comprobante enviado en un lote.
+ */
+export interface BatchVoucherResult {
+  accessKey: string;
+  /** Clave de acceso del lote en el que se envió. */
+  batchAccessKey: string;
+  /** RECIBIDA también si el SRI ya tenía el comprobante (43) o lo está procesando (70). */
+  estado: ReceptionResponse['estado'];
+  mensajes: SriError[];
+}
+
+/**
+ * Resultado de un lote enviado.
+ */
+export interface BatchResult {
+  accessKey: string;
+  estado: ReceptionResponse['estado'];
+  /** Claves de acceso de los comprobantes incluidos. */
+  vouchers: string[];
+  /** Mensajes del SRI que no corresponden a un comprobante en particular. */
+  mensajes: SriError[];
+}
+
+/**
+ * Resultado de `sendBatch`.
+ */
+export interface BatchReceptionResult {
+  batches: BatchResult[];
+  vouchers: BatchVoucherResult[];
+}
+
+const LOTE_OVERHEAD_BYTES = 300;
+
+/**
+ * Datos de un comprobante firmado tomados de su clave de acceso.
+ */
+interface BatchVoucher {
+  accessKey: string;
+  codDoc: string;
+  ruc: string;
+  ambiente: string;
+  series: string;
+  sequence: string;
+  xml: string;
+  bytes: number;
+}
+
+function todaySriDate(): string {
+  const now = new Date();
+  return `${String(now.getDate()).padStart(2, '0')}/${String(now.getMonth() + 1).padStart(2, '0')}/${now.getFullYear()}`;
+}
+
+function toCData(xml: string): string {
+  return `<![CDATA[${xml.replace(/]]>/g, ']]]]><![CDATA[>')}]]>`;
+}
+
+function readVoucher(xml: string, index: number): BatchVoucher {
+  const accessKey = readAccessKey(xml);
+  if (!accessKey) {
+    throw ValidationError.forField(`signedXmls[${index}]`, 'el comprobante no tiene una clave de acceso de 49 dígitos.');
+  }
+  const body = xml.replace(/^\s*<\?xml[^>]*\?>\s*/, '');
+  return {
+    accessKey,
+    codDoc: accessKey.substring(8, 10),
+    ruc: accessKey.substring(10, 23),
+    ambiente: accessKey.substring(23, 24),
+    series: accessKey.substring(24, 30),
+    sequence: accessKey.substring(30, 39),
+    xml: body,
+    bytes: Buffer.byteLength(toCData(body)) + '<comprobante></comprobante>'.length,
+  };
+}
+
+/**
+ * Construye el documento <lote> con los comprobantes firmados indicados.
+ * La clave de acceso del lote usa el tipo de comprobante, el RUC, el ambiente, la serie y el secuencial del primer comprobante,
+ * con un código numérico propio.
+ *
+ * @param signedXmls Los comprobantes firmados; deben ser del mismo RUC, tipo de comprobante y ambiente.
+ * @param fechaEmision La fecha de la clave de acceso del lote (dd/mm/yyyy). Por defecto, la fecha actual.
+ * @returns El XML del lote y su clave de acceso.
+ * @throws Un `ValidationError` si los comprobantes no comparten RUC, tipo de comprobante y ambiente.
+ */
+export function buildBatchXml(signedXmls: string[], fechaEmision: string = todaySriDate()): { xml: string; accessKey: string } {
+  if (signedXmls.length === 0) {
+    throw new ValidationError('El lote debe incluir al menos un comprobante.');
+  }
+  const vouchers = signedXmls.map(readVoucher);
+  const [first] = vouchers;
+  const mixed = vouchers.find((v) => v.ruc !== first.ruc || v.codDoc !== first.codDoc || v.ambiente !== first.ambiente);
+  if (mixed) {
+    throw new ValidationError(`Todos los comprobantes de un lote deben tener el mismo RUC, tipo de comprobante y ambiente (${mixed.accessKey}).`);
+  }
+  return buildLote(vouchers, fechaEmision);
+}
+
+function buildLote(vouchers: BatchVoucher[], fechaEmision: string): { xml: string; accessKey: string } {
+  const [first] = vouchers;
+  const accessKey = getAccessKey({
+    date: fechaEmision,
+    voucherType: first.codDoc,
+    ruc: first.ruc,
+    environment: first.ambiente,
+    series: first.series,
+    sequence: first.sequence,
+    numericCode: generateNumericCode(),
+    emissionType: '1',
+  });
+  const comprobantes = vouchers.map((v) => `    <comprobante>${toCData(v.xml)}</comprobante>`).join('\n');
+  const xml = `<?xml version="1.0" encoding="UTF-8"?>\n<lote version="1.0.0">\n  <claveAcceso>${accessKey}</claveAcceso>\n  <ruc>${first.ruc}</ruc>\n  <comprobantes>\n${comprobantes}\n  </comprobantes>\n</lote>`;
+  return { xml, accessKey };
+}
+
+/**
+ * Agrupa los comprobantes por RUC y tipo de comprobante y divide cada grupo según los límites del lote.
+ *
+ * @throws Un `ValidationError` si un comprobante por sí solo no cabe en un lote de `maxBytes`.
+ */
+function splitIntoBatches(vouchers: BatchVoucher[], maxBytes: number, maxVouchers: number): BatchVoucher[][] {
+  const oversized = vouchers.find((voucher) => LOTE_OVERHEAD_BYTES + voucher.bytes > maxBytes);
+  if (oversized) {
+    throw new ValidationError(
+      `El comprobante ${oversized.accessKey} ocupa ${LOTE_OVERHEAD_BYTES + oversized.bytes} bytes en un lote y supera el máximo de ${maxBytes} bytes; envíelo por separado con sendInvoice.`,
+    );
+  }
+  const groups = new Map<string, BatchVoucher[]>();
+  for (const voucher of vouchers) {
+    const group = `${voucher.ruc}-${voucher.codDoc}`;
+    groups.set(group, [...(groups.get(group) ?? []), voucher]);
+  }
+  const batches: BatchVoucher[][] = [];
+  for (const group of groups.values()) {
+    let current: BatchVoucher[] = [];
+    let bytes = LOTE_OVERHEAD_BYTES;
+    for (const voucher of group) {
+      if (current.length > 0 && (current.length >= maxVouchers || bytes + voucher.bytes > maxBytes)) {
+        batches.push(current);
+        current = [];
+        bytes = LOTE_OVERHEAD_BYTES;
+      }
+      current.push(voucher);
+      bytes += voucher.bytes;
+    }
+    if (current.length > 0) batches.push(current);
+  }
+  return batches;
+}
+
+/**
+ * Envía comprobantes firmados al SRI en uno o varios lotes y devuelve el resultado de la recepción de cada uno.
+ * Los comprobantes se agrupan por RUC y tipo de comprobante; cada lote respeta `maxBatchBytes` y `maxVouchersPerBatch`.
+ * Un lote DEVUELTA no lanza error: cada comprobante se reporta con sus propios mensajes. Las autorizaciones
+ * se consultan luego por la clave de acceso de cada comprobante (`checkAuthorization` o `waitForAuthorization`).
+ *
+ * @param signedXmls Los comprobantes firmados.
+ * @param ambiente El ambiente de destino ('1' para pruebas, '2' para producción).
+ * @param options Límites de los lotes, fecha de la clave de acceso y opciones de transporte.
+ * @returns Los lotes enviados y el resultado de cada comprobante, en el orden recibido.
+ * @throws Un `ValidationError` si un comprobante no tiene clave de acceso, es de otro ambiente o no cabe en un lote
+ * (antes de enviar nada), o un `SriCommunicationError` si ocurre un problema de comunicación.
+ */
+export async function sendBatch(signedXmls: string[], ambiente: Ambiente, options: BatchOptions = {}): Promise<BatchReceptionResult> {
+  const vouchers = signedXmls.map(readVoucher);
+  const foreign = vouchers.find((v) => v.ambiente !== ambiente);
+  if (foreign) {
+    throw new ValidationError(`El comprobante ${foreign.accessKey} no es del ambiente ${ambiente}.`);
+  }
+  const duplicate = vouchers.find((v, i) => vouchers.findIndex((o) => o.accessKey === v.accessKey) !== i);
+  if (duplicate) {
+    throw new ValidationError(`El comprobante ${duplicate.accessKey} está repetido en el lote.`);
+  }
+
+  const fechaEmision = options.fechaEmision ?? todaySriDate();
+  const batches: BatchResult[] = [];
+  const results = new Map<string, BatchVoucherResult>();
+
+  for (const group of splitIntoBatches(vouchers, options.maxBatchBytes ?? 500_000, options.maxVouchersPerBatch ?? 50)) {
+    const lote = buildLote(group, fechaEmision);
+    const { estado, doc } = await submitToReception(lote.xml, ambiente, options, lote.accessKey);
+
+    // Mensajes por comprobante: cada <comprobante> de la respuesta trae su <claveAcceso> y sus <mensajes>.
+    const byVoucher = new Map<string, SriError[]>();
+    for (const node of Array.from(doc.getElementsByTagName('comprobante'))) {
+      const key = node.getElementsByTagName('claveAcceso')[0]?.textContent?.trim();
+      if (key) byVoucher.set(key, [...(byVoucher.get(key) ?? []), ...readSriMessages(node)]);
+    }
+    const batchMessages = readSriMessages(doc).filter((m) => ![...byVoucher.values()].some((list) => list.some((o) => sameMessage(o, m))));
+
+    for (const voucher of group) {
+      const mensajes = byVoucher.get(voucher.accessKey) ?? [];
+      const received = estado === 'RECIBIDA' || (mensajes.length > 0 && mensajes.every(isAlreadyReceived));
+      results.set(voucher.accessKey, {
+        accessKey: voucher.accessKey,
+        batchAccessKey: lote.accessKey,
+        estado: received ? 'RECIBIDA' : 'DEVUELTA',
+        mensajes: mensajes.length > 0 || received ? mensajes : batchMessages,
+      });
+    }
+    batches.push({ accessKey: lote.accessKey, estado, vouchers: group.map((v) => v.accessKey), mensajes: batchMessages });
+  }
+
+  return { batches, vouchers: vouchers.map((v) => results.get(v.accessKey) as BatchVoucherResult) };
+}
+
+function sameMessage(a: SriError, b: SriError): boolean {
+  return a.identificador === b.identificador && a.mensaje === b.mensaje && a.informacionAdicional === b.informacionAdicional;
+}
+
+function isAlreadyReceived(message: SriError): boolean {
+  return message.identificador === SRI_MESSAGE_IDENTIFIERS.CLAVE_ACCESO_REGISTRADA
+    || message.identificador === SRI_MESSAGE_IDENTIFIERS.CLAVE_ACCESO_EN_PROCESAMIENTO
+    || message.tipo === 'ADVERTENCIA';
+}
@@ -0,0 +1,205 @@
+/**
+ * @file src/services/calculation.ts
+ * @description Motor de cálculo de totales e impuestos. A partir de líneas con cantidad, precio unitario,
+ * descuento y códigos de impuesto, completa todos los campos derivados de la factura aplicando las reglas
+ * de redondeo del SRI (2 decimales, redondeo simétrico hacia arriba). Los cálculos intermedios usan
+ * aritmética decimal exacta y solo se redondea al asignar cada campo.
+ */
+
+import { Detail, Tax } from '../baseData/invoice/details';
+import { Invoice, InvoiceV1, InvoiceV2 } from '../baseData/invoice/invoice';
+import { InvoiceInfo, Pago } from '../baseData/invoice/invoiceInfo';
+import { CodigoImpuesto, TotalTax } from '../baseData/invoice/taxInfo';
+import { Amount, Decimal, sumAmounts } from '../utils/decimal';
+import { roundTo } from '../utils/utils';
+import { ValidationError } from './errors';
+import { INVOICE_VERSION_FEATURES } from './invoiceVersion';
+
+// Códigos de impuesto con reglas de cálculo particulares (Tabla 16 de la Ficha Técnica).
+const IVA = '2';
+const ICE = '3';
+const IRBPNR = '5';
+
+/**
+ * Impuesto de una línea sin base imponible ni valor calculados.
+ */
+export interface TaxInput {
+  /** Código del impuesto ('2' IVA, '3' ICE, '5' IRBPNR). */
+  codigo: CodigoImpuesto;
+  /** Código del porcentaje del impuesto. */
+  codigoPorcentaje: string;
+  /**
+   * Tarifa del impuesto. Para IVA e ICE ad valorem es un porcentaje (ej: 15);
+   * para IRBPNR es el valor por unidad (ej: 0.02).
+   */
+  tarifa: number;
+  /** (Opcional) Valor específico por unidad, para ICE con tarifa específica. */
+  valorUnitario?: number;
+}
+
+/**
+ * Línea de detalle "cruda": solo cantidad, precio, descuento y códigos de impuesto.
+ */
+export interface DetailInput extends Omit<Detail, 'descuento' | 'precioTotalSinImpuesto' | 'impuestos'> {
+  /** Descuento total de la línea (por defecto 0). */
+  descuento?: Amount;
+  /** Impuestos que aplican a la línea. */
+  impuestos: TaxInput[];
+}
+
+/**
+ * Pago cuyo total puede omitirse; el motor lo completa con el saldo pendiente.
+ */
+export interface PagoInput extends Omit<Pago, 'total'> {
+  total?: Amount;
+}
+
+/**
+ * Factura de una versión con líneas crudas y sin totales.
+ */
+type WithRawLines<T extends Invoice> = Omit<T, 'detalles' | 'infoFactura'> & {
+  detalles: DetailInput[];
+  infoFactura: Omit<InvoiceInfo, 'totalSinImpuestos' | 'totalDescuento' | 'totalConImpuestos' | 'propina' | 'importeTotal' | 'pagos'> & {
+    /** Propina (por defecto 0). */
+    propina?: Amount;
+    /** Formas de pago. A lo sumo una puede omitir su total. */
+    pagos: PagoInput[];
+  };
+};
+
+/**
+ * Factura con líneas crudas y sin totales, tal como la envía un punto de venta.
+ * Al igual que `Invoice`, es una unión discriminada por `version`.
+ */
+export type InvoiceInput = WithRawLines<InvoiceV1> | WithRawLines<InvoiceV2>;
+
+/**
+ * Totales derivados de un conjunto de detalles.
+ */
+export interface CalculatedTotals {
+  totalSinImpuestos: number;
+  totalDescuento: number;
+  totalConImpuestos: TotalTax[];
+  importeTotal: number;
+}
+
+/**
+ * Calcula el precio total sin impuestos y los impuestos de una línea.
+ * El ICE forma parte de la base imponible del IVA y el IRBPNR se calcula por unidad.
+ * La cantidad y el precio unitario se redondean a los decimales que emite la versión del comprobante
+ * antes de multiplicarlos, para que el total de la línea sea el que resulta de los valores del XML.
+ *
+ * @param line La línea de detalle cruda.
+ * @param precision Decimales de cantidad y precio unitario en el XML (por defecto 6).
+ * @returns El detalle completo con `precioTotalSinImpuesto` e `impuestos` calculados.
+ */
+export function calculateDetail(line: DetailInput, precision: 2 | 6 = 6): Detail {
+  const cantidad = roundTo(line.cantidad, precision);
+  const precioUnitario = roundTo(line.precioUnitario, precision);
+  const descuento = roundTo(line.descuento ?? 0);
+  const precioTotalSinImpuesto = roundTo(Decimal.from(cantidad).times(precioUnitario).minus(descuento));
+  if (precioTotalSinImpuesto < 0) {
+    throw new ValidationError(`El descuento de la línea ${line.codigoPrincipal} supera su valor.`);
+  }
+
+  const iceValue = (tax: TaxInput): number => tax.valorUnitario !== undefined
+    ? roundTo(Decimal.from(cantidad).times(tax.valorUnitario))
+    : roundTo(Decimal.from(precioTotalSinImpuesto).times(tax.tarifa).shift(2));
+  // El ICE integra la base imponible del IVA, por eso se acumula antes de calcular el resto.
+  const valorIce = line.impuestos
+    .filter((tax) => tax.codigo === ICE)
+    .reduce((acc, tax) => acc.plus(iceValue(tax)), Decimal.ZERO);
+
+  const impuestos: Tax[] = line.impuestos.map((tax) => {
+    const codes = { codigo: tax.codigo, codigoPorcentaje: tax.codigoPorcentaje, tarifa: tax.tarifa };
+    switch (tax.codigo) {
+      case ICE:
+        return { ...codes, baseImponible: precioTotalSinImpuesto, valor: iceValue(tax) };
+      case IVA: {
+        const baseImponible = roundTo(valorIce.plus(precioTotalSinImpuesto));
+        return { ...codes, baseImponible, valor: roundTo(Decimal.from(baseImponible).times(tax.tarifa).shift(2)) };
+      }
+      case IRBPNR:
+        return { ...codes, baseImponible: precioTotalSinImpuesto, valor: roundTo(Decimal.from(cantidad).times(tax.tarifa)) };
+      default:
+        return { ...codes, baseImponible: precioTotalSinImpuesto, valor: roundTo(Decimal.from(precioTotalSinImpuesto).times(tax.tarifa).shift(2)) };
+    }
+  });
+
+  return { ...line, cantidad, precioUnitario, descuento, precioTotalSinImpuesto, impuestos };
+}
+
+/**
+ * Agrupa los impuestos de los detalles por código y código de porcentaje para el bloque <totalConImpuestos>.
+ *
+ * @param details Los detalles ya calculados.
+ * @returns La lista de impuestos totalizados.
+ */
+export function totalizeTaxes(details: { impuestos: Tax[] }[]): TotalTax[] {
+  const totals = new Map<string, TotalTax>();
+  details.forEach((detail) => {
+    detail.impuestos.forEach((tax) => {
+      const key = `${tax.codigo}-${tax.codigoPorcentaje}`;
+      const total = totals.get(key) ?? { codigo: tax.codigo, codigoPorcentaje: tax.codigoPorcentaje, baseImponible: 0, valor: 0 };
+      total.baseImponible = roundTo(sumAmounts([total.baseImponible, tax.baseImponible]));
+      total.valor = roundTo(sumAmounts([total.valor, tax.valor]));
+      totals.set(key, total);
+    });
+  });
+  return Array.from(totals.values());
+}
+
+/**
+ * Calcula los totales de cabecera a partir de detalles ya calculados.
+ *
+ * @param details Los detalles ya calculados.
+ * @param propina La propina (por defecto 0).
+ * @returns Los totales derivados.
+ */
+export function calculateTotals(details: Detail[], propina: Amount = 0): CalculatedTotals {
+  const totalSinImpuestos = roundTo(sumAmounts(details.map((det) => det.precioTotalSinImpuesto)));
+  const totalDescuento = roundTo(sumAmounts(details.map((det) => det.descuento)));
+  const totalConImpuestos = totalizeTaxes(details);
+  const totalImpuestos = sumAmounts(totalConImpuestos.map((tax) => tax.valor));
+  return {
+    totalSinImpuestos,
+    totalDescuento,
+    totalConImpuestos,
+    importeTotal: roundTo(sumAmounts([totalSinImpuestos, propina]).plus(totalImpuestos)),
+  };
+}
+
+/**
+ * Completa una factura a partir de sus líneas crudas: calcula cada detalle, los totales de cabecera
+ * y, si un pago no indica su total, le asigna el saldo pendiente del importe total.
+ *
+ * @param input La factura con líneas crudas.
+ * @returns Una factura completa, consistente con las verificaciones de `generateInvoiceXML`.
+ * @throws Un error si más de un pago omite su total o si los pagos no cubren el importe total.
+ */
+export function calculateInvoice(input: InvoiceInput): Invoice {
+  const { precision } = INVOICE_VERSION_FEATURES[input.version];
+  const detalles = input.detalles.map((line) => calculateDetail(line, precision));
+  const propina = roundTo(input.infoFactura.propina ?? 0);
+  const totals = calculateTotals(detalles, propina);
+
+  const pending = input.infoFactura.pagos.filter((pago) => pago.total === undefined);
+  if (pending.length > 1) {
+    throw new ValidationError('Solo una forma de pago puede omitir su total.');
+  }
+  const pagado = sumAmounts(input.infoFactura.pagos.map((pago) => pago.total ?? 0));
+  const saldo = Decimal.from(totals.importeTotal).minus(pagado);
+  if (pending.length === 0 && !saldo.isZero()) {
+    throw new ValidationError(`La suma de los pagos (${pagado.toFixed(2)}) no coincide con el importe total calculado (${totals.importeTotal.toFixed(2)}).`);
+  }
+  if (saldo.isNegative()) {
+    throw new ValidationError(`La suma de los pagos (${pagado.toFixed(2)}) supera el importe total calculado (${totals.importeTotal.toFixed(2)}).`);
+  }
+  const pagos: Pago[] = input.infoFactura.pagos.map((pago) => ({ ...pago, total: pago.total ?? saldo.toNumber() }));
+
+  return {
+    ...input,
+    infoFactura: { ...input.infoFactura, ...totals, propina, pagos },
+    detalles,
+  };
+}
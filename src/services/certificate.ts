@@ -0,0 +1,152 @@
+/**
+ * @file src/services/certificate.ts
+ * @description Inspección del certificado de firma: titular, entidad de certificación, vigencia,
+ * días hasta el vencimiento y el RUC/cédula registrados en las extensiones propias de cada entidad ecuatoriana.
+ */
+
+import * as forge from 'node-forge';
+import { SigningError } from './errors';
+import { createP12Signer } from './signers';
+
+/**
+ * Datos del certificado de firma.
+ */
+export interface CertificateInfo {
+  /** Sujeto del certificado (ej: 'CN=JUAN PEREZ, serialNumber=..., C=EC'). */
+  subject: string;
+  /** Nombre común del titular. */
+  commonName: string | null;
+  /** Emisor del certificado. */
+  issuer: string;
+  /** Entidad de certificación reconocida (ej: 'Security Data'), o null si no se reconoce. */
+  certificationAuthority: string | null;
+  /** Número de serie en hexadecimal. */
+  serialNumber: string;
+  /** RUC del titular, o null si el certificado no lo registra. */
+  ruc: string | null;
+  /** Cédula del titular, o null si el certificado no la registra. */
+  cedula: string | null;
+  /** Inicio de la vigencia. */
+  validFrom: Date;
+  /** Fin de la vigencia. */
+  validTo: Date;
+  /** Días completos que faltan para el vencimiento (negativo si ya venció). */
+  daysUntilExpiry: number;
+  /** `true` si el certificado ya venció o todavía no entra en vigencia. */
+  expired: boolean;
+}
+
+/**
+ * Entidades de certificación del Ecuador y el arco de OIDs de sus extensiones.
+ * Bajo ese arco, `.1` es la cédula del titular y `.11` el RUC.
+ */
+const CERTIFICATION_AUTHORITIES: { name: string; pattern: RegExp; arc: string }[] = [
+  { name: 'Security Data', pattern: /SECURITY DATA/i, arc: '1.3.6.1.4.1.37746.3' },
+  { name: 'Banco Central del Ecuador', pattern: /BANCO CENTRAL/i, arc: '1.3.6.1.4.1.37947.3' },
+  { name: 'ANF AC', pattern: /\bANF\b/i, arc: '1.3.6.1.4.1.37442.3' },
+  { name: 'Consejo de la Judicatura', pattern: /CONSEJO DE LA JUDICATURA/i, arc: '1.3.6.1.4.1.43745.1.3' },
+  { name: 'Uanataca', pattern: /UANATACA/i, arc: '1.3.6.1.4.1.47286.102.3' },
+  { name: 'Eclipsoft', pattern: /ECLIPSOFT/i, arc: '1.3.6.1.4.1.44986.2.1' },
+  { name: 'Datil', pattern: /DATIL/i, arc: '1.3.6.1.4.1.55468.1' },
+  { name: 'Lazzate', pattern: /LAZZATE/i, arc: '1.3.6.1.4.1.60169.1' },
+];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function formatName(attributes: forge.pki.CertificateField[]): string {
+  return attributes.map((attr) => `${attr.shortName ?? attr.name ?? attr.type}=${attr.value}`).join(', ');
+}
+
+/**
+ * Lee el valor de una extensión (normalmente un UTF8String o PrintableString codificado en DER).
+ */
+function extensionValue(certificate: forge.pki.Certificate, oid: string): string | null {
+  const extension = (certificate.extensions as { id: string; value: string }[]).find((ext) => ext.id === oid);
+  if (!extension) return null;
+  try {
+    const asn1 = forge.asn1.fromDer(extension.value);
+    if (typeof asn1.value === 'string') return asn1.value.trim();
+  } catch {
+    // El valor no está codificado en DER; se usa tal cual.
+  }
+  return extension.value.trim();
+}
+
+/**
+ * Lee los datos de un certificado X509.
+ *
+ * @param certificate El certificado en DER codificado en base64 (ej: `Signer.certificate`) o en PEM.
+ * @param now La fecha de referencia para calcular el vencimiento. Por defecto, la fecha actual.
+ * @returns Los datos del certificado.
+ * @throws Un error si el certificado no se puede leer.
+ */
+export function readCertificateInfo(certificate: string, now: Date = new Date()): CertificateInfo {
+  let cert: forge.pki.Certificate;
+  try {
+    cert = certificate.includes('-----BEGIN CERTIFICATE-----')
+      ? forge.pki.certificateFromPem(certificate)
+      : forge.pki.certificateFromAsn1(forge.asn1.fromDer(forge.util.decode64(certificate.replace(/\s+/g, ''))));
+  } catch (error: any) {
+    throw new SigningError(`No se pudo leer el certificado X509: ${error.message}`, error);
+  }
+
+  const issuer = formatName(cert.issuer.attributes);
+  const authority = CERTIFICATION_AUTHORITIES.find((ca) => ca.pattern.test(issuer))
+    ?? CERTIFICATION_AUTHORITIES.find((ca) => extensionValue(cert, `${ca.arc}.11`) || extensionValue(cert, `${ca.arc}.1`));
+
+  let ruc = authority ? extensionValue(cert, `${authority.arc}.11`) : null;
+  let cedula = authority ? extensionValue(cert, `${authority.arc}.1`) : null;
+  ruc = ruc && /^[0-9]{13}$/.test(ruc) ? ruc : null;
+  cedula = cedula && /^[0-9]{10}$/.test(cedula) ? cedula : null;
+  if (!ruc) {
+    // Respaldo: algunos certificados solo incluyen el RUC en los atributos del sujeto.
+    ruc = cert.subject.attributes.map((attr) => /\b[0-9]{10}001\b/.exec(String(attr.value))?.[0]).find(Boolean) ?? null;
+  }
+
+  const validTo = cert.validity.notAfter;
+  const validFrom = cert.validity.notBefore;
+  return {
+    subject: formatName(cert.subject.attributes),
+    commonName: (cert.subject.getField('CN')?.value as string | undefined) ?? null,
+    issuer,
+    certificationAuthority: authority && authority.pattern.test(issuer) ? authority.name : null,
+    serialNumber: cert.serialNumber,
+    ruc,
+    cedula,
+    validFrom,
+    validTo,
+    daysUntilExpiry: Math.floor((validTo.getTime() - now.getTime()) / DAY_MS),
+    expired: now > validTo || now < validFrom,
+  };
+}
+
+/**
+ * Inspecciona el certificado de un archivo PKCS#12 (.p12/.pfx).
+ *
+ * @param p12 El contenido del .p12 como `Buffer` o codificado en base64.
+ * @param password La contraseña del certificado.
+ * @returns Los datos del certificado, incluidos los días hasta su vencimiento.
+ * @throws Un error si la contraseña es incorrecta o el archivo no contiene un certificado.
+ */
+export function inspectCertificate(p12: Buffer | string, password: string): CertificateInfo {
+  return readCertificateInfo(createP12Signer(p12, password).certificate);
+}
+
+/**
+ * Comprueba que un certificado pueda firmar comprobantes del RUC indicado.
+ * Si el certificado solo registra la cédula, se acepta el RUC de persona natural (cédula + '001').
+ * Si no registra ninguna identificación, no se puede comprobar y se acepta.
+ *
+ * @param info Los datos del certificado.
+ * @param ruc El RUC del emisor (`infoTributaria.ruc`).
+ * @throws Un `SigningError` si el certificado está vencido o pertenece a otro contribuyente.
+ */
+export function assertCertificateCanSign(info: CertificateInfo, ruc: string): void {
+  if (info.expired) {
+    throw new SigningError(`El certificado de firma no está vigente (vigencia: ${info.validFrom.toISOString()} a ${info.validTo.toISOString()}).`);
+  }
+  const matches = info.ruc ? info.ruc === ruc : info.cedula ? `${info.cedula}001` === ruc : true;
+  if (!matches) {
+    throw new SigningError(`El certificado de firma pertenece al RUC ${info.ruc ?? `${info.cedula}001`}, pero el comprobante es del RUC ${ruc}.`);
+  }
+}
@@ -0,0 +1,192 @@
+/**
+ * @file src/services/creditNoteFromInvoice.ts
+ * @description Construye una nota de crédito total o parcial a partir de una factura existente,
+ * prorrateando los descuentos según las cantidades devueltas y recalculando impuestos y totales sobre esas cantidades.
+ */
+
+import { Invoice } from '../baseData/invoice/invoice';
+import { Detail } from '../baseData/invoice/details';
+import { AdditionalInfo } from '../baseData/invoice/additionalInfo';
+import { CreditNote, CreditNoteVersion } from '../baseData/creditNote/creditNote';
+import { CreditNoteDetail } from '../baseData/creditNote/details';
+import { Amount, Decimal, sameAmount, sumAmounts } from '../utils/decimal';
+import { roundTo } from '../utils/utils';
+import { calculateDetail, TaxInput, totalizeTaxes } from './calculation';
+import { ValidationError } from './errors';
+
+/**
+ * Ítem a acreditar en una nota de crédito parcial. El detalle de la factura se identifica por su posición
+ * (`linea`) o por su `codigoPrincipal`, que en ese caso debe ser único en la factura.
+ */
+export interface CreditNoteItem {
+  /** Posición del detalle en `invoice.detalles`, desde 0. */
+  linea?: number;
+  /** Código principal del detalle de la factura original (si también se indica `linea`, debe coincidir). */
+  codigoPrincipal?: string;
+  /** Cantidad a devolver o descontar (la suma por detalle no puede superar la cantidad facturada). */
+  cantidad: Amount;
+}
+
+/**
+ * Opciones para derivar una nota de crédito desde una factura.
+ */
+export interface CreditNoteFromInvoiceOptions {
+  /** Fecha de emisión de la nota de crédito (dd/mm/aaaa). */
+  fechaEmision: string;
+  /** Secuencial de la nota de crédito (9 dígitos). */
+  secuencial: string;
+  /** Motivo de la nota de crédito. */
+  motivo: string;
+  /** Versión del esquema de la nota de crédito (por defecto '1.1.0'). */
+  version?: CreditNoteVersion;
+  /** Establecimiento emisor (por defecto el de la factura). */
+  estab?: string;
+  /** Punto de emisión (por defecto el de la factura). */
+  ptoEmi?: string;
+  /** Ítems a acreditar. Si se omite, la nota de crédito es total. */
+  items?: CreditNoteItem[];
+  /** Campos adicionales de la nota de crédito. */
+  infoAdicional?: AdditionalInfo;
+}
+
+/**
+ * Prorratea un valor de la línea original según la cantidad acreditada (valor × acreditada / facturada),
+ * redondeando una sola vez al final.
+ */
+function prorate(value: Amount, cantidad: Amount, cantidadOriginal: Amount): number {
+  return roundTo(Decimal.from(value).times(cantidad).dividedBy(cantidadOriginal, 2));
+}
+
+/**
+ * Recalcula una línea acreditada parcialmente como lo hace el SRI: el descuento se prorratea según la cantidad
+ * y los impuestos se calculan de nuevo sobre el precio resultante con `calculateDetail`, en lugar de prorratear
+ * los valores de la factura (que pueden diferir en un centavo de la base × tarifa).
+ */
+function recalculateLine(original: Detail, cantidad: Amount, precision: 2 | 6): Detail {
+  const impuestos = original.impuestos.map((tax): TaxInput => {
+    const codes = { codigo: tax.codigo, codigoPorcentaje: tax.codigoPorcentaje, tarifa: tax.tarifa };
+    // El ICE específico es un valor por unidad que no se deriva de la tarifa.
+    const adValorem = sameAmount(tax.valor, Decimal.from(tax.baseImponible).times(tax.tarifa).shift(2));
+    return tax.codigo === '3' && !adValorem
+      ? { ...codes, valorUnitario: Decimal.from(tax.valor).dividedBy(original.cantidad, 6).toNumber() }
+      : codes;
+  });
+  return calculateDetail({ ...original, cantidad, descuento: prorate(original.descuento, cantidad, original.cantidad), impuestos }, precision);
+}
+
+/**
+ * Devuelve la posición del detalle de la factura al que corresponde un ítem.
+ *
+ * @throws Un `ValidationError` si el ítem no identifica exactamente un detalle.
+ */
+function findLine(invoice: Invoice, item: CreditNoteItem, path: string): number {
+  if (item.linea !== undefined) {
+    const original = invoice.detalles[item.linea];
+    if (!Number.isInteger(item.linea) || !original) {
+      throw ValidationError.forField(`${path}.linea`, `la factura no tiene un detalle en la posición ${item.linea}.`);
+    }
+    if (item.codigoPrincipal !== undefined && item.codigoPrincipal !== original.codigoPrincipal) {
+      throw ValidationError.forField(`${path}.codigoPrincipal`, `el detalle ${item.linea} de la factura tiene el código ${original.codigoPrincipal}, no ${item.codigoPrincipal}.`);
+    }
+    return item.linea;
+  }
+  if (!item.codigoPrincipal) {
+    throw ValidationError.forField(path, 'debe indicar la línea o el código principal del detalle a acreditar.');
+  }
+  const lines = invoice.detalles.flatMap((detail, linea) => (detail.codigoPrincipal === item.codigoPrincipal ? [linea] : []));
+  if (lines.length === 0) {
+    throw ValidationError.forField(`${path}.codigoPrincipal`, `el ítem ${item.codigoPrincipal} no existe en la factura original.`);
+  }
+  if (lines.length > 1) {
+    throw ValidationError.forField(`${path}.codigoPrincipal`, `el código ${item.codigoPrincipal} se repite en los detalles ${lines.join(', ')} de la factura; indique la línea.`);
+  }
+  return lines[0];
+}
+
+/**
+ * Deriva una nota de crédito a partir de una factura. Sin `items` se acredita la factura completa;
+ * con `items` se acreditan solo las cantidades indicadas, prorrateando el descuento y recalculando los impuestos
+ * de cada línea sobre su nueva base; `totalConImpuestos` y `valorModificacion` se suman a partir de esos valores.
+ *
+ * @param invoice La factura original (ya autorizada).
+ * @param options Datos propios de la nota de crédito y, opcionalmente, los ítems a acreditar.
+ * @returns Un objeto `CreditNote` listo para `generateCreditNoteXML`.
+ * @throws Un `ValidationError` si un ítem no identifica un único detalle de la factura o si la cantidad acreditada
+ * de un detalle (sumando todos sus ítems) supera la facturada.
+ */
+export function createCreditNoteFromInvoice(invoice: Invoice, options: CreditNoteFromInvoiceOptions): CreditNote {
+  const items: CreditNoteItem[] = options.items
+    ?? invoice.detalles.map((detail, linea) => ({ linea, cantidad: detail.cantidad }));
+  if (items.length === 0) {
+    throw new ValidationError('La nota de crédito debe acreditar al menos un ítem de la factura.');
+  }
+
+  const version = options.version ?? '1.1.0';
+  // Decimales de cantidad y precio unitario en el XML de la nota de crédito.
+  const precision = version === '1.1.0' ? 6 : 2;
+  // Cantidad acreditada por detalle de la factura, para que los ítems repetidos no superen la facturada.
+  const credited = new Map<number, Decimal>();
+  const detalles: CreditNoteDetail[] = items.map((item, index) => {
+    const path = `items[${index}]`;
+    const linea = findLine(invoice, item, path);
+    const original = invoice.detalles[linea];
+    const cantidad = Decimal.from(item.cantidad, `${path}.cantidad`);
+    const acumulada = (credited.get(linea) ?? Decimal.ZERO).plus(cantidad);
+    if (cantidad.compare(0) <= 0 || acumulada.compare(original.cantidad) > 0) {
+      throw ValidationError.forField(
+        `${path}.cantidad`,
+        `la cantidad a acreditar del detalle ${linea} (${original.codigoPrincipal}) debe ser mayor a 0 y, sumada a los demás ítems del mismo detalle, no superar ${original.cantidad}.`,
+      );
+    }
+    credited.set(linea, acumulada);
+    // Una línea acreditada completa conserva los valores de la factura.
+    const line = cantidad.equals(original.cantidad) ? original : recalculateLine(original, item.cantidad, precision);
+    return {
+      codigoInterno: original.codigoPrincipal,
+      codigoAdicional: original.codigoAuxiliar,
+      descripcion: original.descripcion,
+      cantidad: item.cantidad,
+      precioUnitario: original.precioUnitario,
+      descuento: line.descuento,
+      precioTotalSinImpuesto: line.precioTotalSinImpuesto,
+      detallesAdicionales: original.detallesAdicionales,
+      impuestos: line.impuestos.map(({ codigo, codigoPorcentaje, tarifa, baseImponible, valor }) => ({ codigo, codigoPorcentaje, tarifa, baseImponible, valor })),
+    };
+  });
+
+  const totalConImpuestos = totalizeTaxes(detalles);
+  const totalSinImpuestos = roundTo(sumAmounts(detalles.map((det) => det.precioTotalSinImpuesto)));
+  const totalImpuestos = sumAmounts(totalConImpuestos.map((tax) => tax.valor));
+  const { infoTributaria, infoFactura } = invoice;
+
+  return {
+    version,
+    infoTributaria: {
+      ...infoTributaria,
+      codDoc: '04',
+      estab: options.estab ?? infoTributaria.estab,
+      ptoEmi: options.ptoEmi ?? infoTributaria.ptoEmi,
+      secuencial: options.secuencial,
+      claveAcceso: '',
+    },
+    infoNotaCredito: {
+      fechaEmision: options.fechaEmision,
+      dirEstablecimiento: infoFactura.dirEstablecimiento,
+      tipoIdentificacionComprador: infoFactura.tipoIdentificacionComprador,
+      razonSocialComprador: infoFactura.razonSocialComprador,
+      identificacionComprador: infoFactura.identificacionComprador,
+      contribuyenteEspecial: infoFactura.contribuyenteEspecial,
+      obligadoContabilidad: infoFactura.obligadoContabilidad,
+      codDocModificado: infoTributaria.codDoc,
+      numDocModificado: `${infoTributaria.estab}-${infoTributaria.ptoEmi}-${infoTributaria.secuencial}`,
+      fechaEmisionDocSustento: infoFactura.fechaEmision,
+      totalSinImpuestos,
+      valorModificacion: roundTo(totalImpuestos.plus(totalSinImpuestos)),
+      moneda: infoFactura.moneda,
+      totalConImpuestos,
+      motivo: options.motivo,
+    },
+    detalles,
+    infoAdicional: options.infoAdicional,
+  };
+}
@@ -0,0 +1,198 @@
+/**
+ * @file src/services/errors.ts
+ * @description Clases de error de la librería. Cada error indica si conviene reintentar la operación (`retryable`)
+ * y, cuando el SRI responde, conserva la clave de acceso y los mensajes originales con sus identificadores,
+ * de modo que no es necesario interpretar el texto del mensaje.
+ */
+
+import type { SriError } from './reception';
+
+/**
+ * Identificadores de mensaje del SRI más frecuentes (Ficha Técnica, tabla de errores de los Web Services).
+ */
+export const SRI_MESSAGE_IDENTIFIERS = {
+  RUC_INACTIVO: '2',
+  ESTABLECIMIENTO_CLAUSURADO: '10',
+  TAMANO_MAXIMO_SUPERADO: '26',
+  DOCUMENTO_INVALIDO: '35',
+  VERSION_ESQUEMA_DESCONTINUADA: '36',
+  FIRMA_INVALIDA: '39',
+  ERROR_CERTIFICADO: '40',
+  CLAVE_ACCESO_REGISTRADA: '43',
+  SECUENCIAL_REGISTRADO: '45',
+  RUC_NO_EXISTE: '46',
+  ERROR_INTERNO_GENERAL: '50',
+  ERROR_EN_DIFERENCIAS: '52',
+  ESTABLECIMIENTO_CERRADO: '56',
+  ERROR_ESTRUCTURA_CLAVE_ACCESO: '58',
+  FECHA_EMISION_EXTEMPORANEA: '65',
+  CLAVE_ACCESO_EN_PROCESAMIENTO: '70',
+} as const;
+
+/**
+ * Identificadores con los que el mismo comprobante puede tener éxito si se reintenta más tarde.
+ */
+const RETRYABLE_IDENTIFIERS: string[] = [
+  SRI_MESSAGE_IDENTIFIERS.ERROR_INTERNO_GENERAL,
+  SRI_MESSAGE_IDENTIFIERS.CLAVE_ACCESO_EN_PROCESAMIENTO,
+];
+
+/**
+ * Gravedad de una falla de validación: 'error' impide emitir el comprobante; 'warning' no.
+ */
+export type ValidationSeverity = 'error' | 'warning';
+
+/**
+ * Detalle de una falla de validación.
+ */
+export interface ValidationIssue {
+  /** Ruta del campo (ej: 'infoFactura.identificacionComprador' o '/factura/detalles/detalle[1]/cantidad'). */
+  path: string;
+  message: string;
+  /** Línea del XML, cuando la falla proviene de la validación XSD. */
+  line?: number;
+  /** Código estable de la regla incumplida (ej: 'MAX_LENGTH'), cuando la falla proviene de `validateInvoice`. */
+  code?: string;
+  /** Gravedad de la falla, cuando la falla proviene de `validateInvoice`. */
+  severity?: ValidationSeverity;
+}
+
+/**
+ * Error base de la librería.
+ */
+export class OpenFacturaError extends Error {
+  readonly name: string = 'OpenFacturaError';
+
+  /** `true` si la misma operación puede tener éxito más tarde sin cambiar el comprobante. */
+  readonly retryable: boolean;
+  /** Clave de acceso del comprobante, si se conoce. */
+  readonly accessKey: string | null;
+  /** Mensajes originales del SRI. */
+  readonly sriMessages: SriError[];
+  /** Error original que provocó este error, si existe. */
+  readonly cause?: unknown;
+
+  constructor(message: string, options: { retryable?: boolean; accessKey?: string | null; sriMessages?: SriError[]; cause?: unknown } = {}) {
+    super(message);
+    if (options.cause !== undefined) this.cause = options.cause;
+    this.retryable = options.retryable ?? false;
+    this.accessKey = options.accessKey ?? null;
+    this.sriMessages = options.sriMessages ?? [];
+  }
+
+  /** Identificadores de los mensajes del SRI (ej: ['43']). */
+  get identifiers(): string[] {
+    return this.sriMessages.map((m) => m.identificador).filter((id): id is string => !!id);
+  }
+
+  /** Indica si el SRI devolvió el identificador indicado. */
+  hasIdentifier(identifier: string): boolean {
+    return this.identifiers.includes(identifier);
+  }
+}
+
+function formatSriMessages(messages: SriError[]): string {
+  return messages.map(e => `  - [${e.identificador}] ${e.mensaje} ${e.informacionAdicional || ''}`).join('\n');
+}
+
+/**
+ * El Web Service de Recepción devolvió el comprobante (estado 'DEVUELTA').
+ */
+export class SriReceptionError extends OpenFacturaError {
+  readonly name: string = 'SriReceptionError';
+
+  constructor(accessKey: string | null, sriMessages: SriError[]) {
+    super(`El SRI devolvió el comprobante con los siguientes errores:\n${formatSriMessages(sriMessages)}`, {
+      accessKey,
+      sriMessages,
+      retryable: sriMessages.some((m) => RETRYABLE_IDENTIFIERS.includes(m.identificador ?? '')),
+    });
+  }
+
+  /**
+   * `true` si el SRI ya había recibido esta clave de acceso (43) o la está procesando (70):
+   * el comprobante no debe reenviarse, sino consultarse en el servicio de Autorización.
+   */
+  get alreadyReceived(): boolean {
+    return this.hasIdentifier(SRI_MESSAGE_IDENTIFIERS.CLAVE_ACCESO_REGISTRADA)
+      || this.hasIdentifier(SRI_MESSAGE_IDENTIFIERS.CLAVE_ACCESO_EN_PROCESAMIENTO);
+  }
+}
+
+/**
+ * El Web Service de Autorización respondió 'NO AUTORIZADO'.
+ */
+export class SriNotAuthorizedError extends OpenFacturaError {
+  readonly name: string = 'SriNotAuthorizedError';
+
+  constructor(accessKey: string, sriMessages: SriError[]) {
+    super(`El SRI no autorizó el comprobante con clave ${accessKey}:\n${formatSriMessages(sriMessages)}`, {
+      accessKey,
+      sriMessages,
+      retryable: sriMessages.some((m) => RETRYABLE_IDENTIFIERS.includes(m.identificador ?? '')),
+    });
+  }
+}
+
+/**
+ * El SRI todavía no termina de procesar el comprobante; la consulta de autorización puede repetirse.
+ */
+export class SriPendingError extends OpenFacturaError {
+  readonly name: string = 'SriPendingError';
+
+  constructor(accessKey: string, message: string) {
+    super(message, { accessKey, retryable: true });
+  }
+}
+
+/**
+ * Falla de comunicación con un Web Service del SRI (red, timeout, HTTP o SOAP Fault).
+ */
+export class SriCommunicationError extends OpenFacturaError {
+  readonly name: string = 'SriCommunicationError';
+
+  /** Código HTTP de la respuesta, si hubo respuesta. */
+  readonly status: number | null;
+  /** Texto del SOAP Fault, si el SRI lo envió. */
+  readonly fault: string | null;
+  /** Número de intentos realizados. */
+  readonly attempts: number;
+
+  constructor(message: string, details: { status?: number | null; fault?: string | null; attempts: number; retryable: boolean; accessKey?: string | null; cause?: unknown }) {
+    super(message, details);
+    this.status = details.status ?? null;
+    this.fault = details.fault ?? null;
+    this.attempts = details.attempts;
+  }
+}
+
+/**
+ * Falla al leer el certificado o al firmar el comprobante.
+ */
+export class SigningError extends OpenFacturaError {
+  readonly name: string = 'SigningError';
+
+  constructor(message: string, cause?: unknown) {
+    super(message, { cause });
+  }
+}
+
+/**
+ * Los datos del comprobante no cumplen las reglas del SRI o el esquema XSD.
+ */
+export class ValidationError extends OpenFacturaError {
+  readonly name: string = 'ValidationError';
+
+  /** Fallas encontradas. */
+  readonly issues: ValidationIssue[];
+
+  constructor(message: string, issues: ValidationIssue[] = [{ path: '', message }]) {
+    super(message);
+    this.issues = issues;
+  }
+
+  /** Crea el error de un campo; el mensaje se antepone con la ruta (ej: 'infoFactura.identificacionComprador: ...'). */
+  static forField(path: string, message: string): ValidationError {
+    return new ValidationError(`${path}: ${message}`, [{ path, message }]);
+  }
+}
@@ -0,0 +1,114 @@
+/**
+ * @file src/services/generateCreditNote.ts
+ * @description Servicio para generar el archivo XML de una nota de crédito electrónica (codDoc 04) y su clave de acceso.
+ */
+
+import { create } from 'xmlbuilder2';
+import { assertTaxesInCatalog } from '../baseData/catalogs/taxCatalog';
+import { CreditNote } from '../baseData/creditNote/creditNote';
+import { assertValidIdentification, assertValidRuc } from '../utils/identification';
+import { getAccessKeyFromTaxInfo } from '../utils/utils';
+import { addAdditionalDetails, addAdditionalInfo, addTaxes, addTaxInfo, addTotalTaxes } from '../utils/xml';
+import { ValidationError } from './errors';
+import { Decimal, formatAmount, sameAmount, sumAmounts } from '../utils/decimal';
+
+/**
+ * Genera la representación XML de una nota de crédito electrónica.
+ * Al igual que la factura, la clave de acceso se genera internamente para asegurar la integridad del comprobante.
+ *
+ * @param creditNote El objeto de la nota de crédito que contiene todos los datos.
+ * @param codigoNumerico Un código de 8 dígitos, potestad del emisor, para la clave de acceso. Si se omite, se genera uno aleatorio.
+ * @returns Un objeto con el XML de la nota de crédito y la clave de acceso generada.
+ */
+export function generateCreditNoteXML(creditNote: CreditNote, codigoNumerico?: string): { xml: string; accessKey: string } {
+  // 1. Validar presencia de campos obligatorios
+  if (!creditNote.infoTributaria || !creditNote.infoNotaCredito || !creditNote.detalles || creditNote.detalles.length === 0) {
+    throw new ValidationError('Faltan bloques obligatorios: infoTributaria, infoNotaCredito o detalles.');
+  }
+  const info = creditNote.infoNotaCredito;
+  if (creditNote.infoTributaria.codDoc !== '04') {
+    throw new ValidationError('El codDoc de una nota de crédito debe ser 04.');
+  }
+  if (!/^[0-9]{3}-[0-9]{3}-[0-9]{9}$/.test(info.numDocModificado)) {
+    throw new ValidationError('El numDocModificado debe tener el formato 001-001-000000001.');
+  }
+  if (!info.motivo) {
+    throw new ValidationError('El motivo de la nota de crédito es obligatorio.');
+  }
+  assertValidRuc(creditNote.infoTributaria.ruc);
+  assertValidIdentification(info.tipoIdentificacionComprador, info.identificacionComprador, 'infoNotaCredito.identificacionComprador');
+  // 2. Validar totales
+  const sumaDetalles = sumAmounts(creditNote.detalles.map((det) => det.precioTotalSinImpuesto));
+  if (!sameAmount(sumaDetalles, info.totalSinImpuestos)) {
+    throw new ValidationError('La suma de los precios totales sin impuesto de los detalles no coincide con el totalSinImpuestos.');
+  }
+  const sumaImpuestos = sumAmounts(info.totalConImpuestos.map((tax) => tax.valor));
+  if (!sameAmount(sumaImpuestos.plus(Decimal.from(info.totalSinImpuestos).round(2)), info.valorModificacion)) {
+    throw new ValidationError('El valorModificacion no coincide con el totalSinImpuestos más los impuestos.');
+  }
+  creditNote.detalles.forEach((detail, index) => {
+    assertTaxesInCatalog(detail.impuestos, info.fechaEmision, `detalles[${index}].impuestos`);
+  });
+  assertTaxesInCatalog(info.totalConImpuestos, info.fechaEmision, 'infoNotaCredito.totalConImpuestos');
+  // 3. Validar campos según versión
+  if (info.compensaciones && creditNote.version !== '1.1.0') {
+    throw new ValidationError('El bloque compensaciones solo es válido para la versión 1.1.0.');
+  }
+
+  const accessKey = getAccessKeyFromTaxInfo(creditNote.infoTributaria, info.fechaEmision, codigoNumerico);
+
+  const xml = create({ version: '1.0', encoding: 'UTF-8' })
+    .ele('notaCredito', { id: 'comprobante', version: creditNote.version });
+
+  // Bloque <infoTributaria>
+  addTaxInfo(xml, creditNote.infoTributaria, accessKey);
+
+  // Bloque <infoNotaCredito>
+  const infoNotaCredito = xml.ele('infoNotaCredito');
+  infoNotaCredito.ele('fechaEmision').txt(info.fechaEmision);
+  if (info.dirEstablecimiento) infoNotaCredito.ele('dirEstablecimiento').txt(info.dirEstablecimiento);
+  infoNotaCredito.ele('tipoIdentificacionComprador').txt(info.tipoIdentificacionComprador);
+  infoNotaCredito.ele('razonSocialComprador').txt(info.razonSocialComprador);
+  infoNotaCredito.ele('identificacionComprador').txt(info.identificacionComprador);
+  if (info.contribuyenteEspecial) infoNotaCredito.ele('contribuyenteEspecial').txt(info.contribuyenteEspecial);
+  if (info.obligadoContabilidad) infoNotaCredito.ele('obligadoContabilidad').txt(info.obligadoContabilidad);
+  if (info.rise) infoNotaCredito.ele('rise').txt(info.rise);
+  infoNotaCredito.ele('codDocModificado').txt(info.codDocModificado);
+  infoNotaCredito.ele('numDocModificado').txt(info.numDocModificado);
+  infoNotaCredito.ele('fechaEmisionDocSustento').txt(info.fechaEmisionDocSustento);
+  infoNotaCredito.ele('totalSinImpuestos').txt(formatAmount(info.totalSinImpuestos, 2));
+  if (info.compensaciones && info.compensaciones.compensacion.length > 0) {
+    const compensaciones = infoNotaCredito.ele('compensaciones');
+    info.compensaciones.compensacion.forEach((comp) => {
+      const compensacion = compensaciones.ele('compensacion');
+      compensacion.ele('codigo').txt(comp.codigo);
+      compensacion.ele('tarifa').txt(comp.tarifa.toString());
+      compensacion.ele('valor').txt(formatAmount(comp.valor, 2));
+    });
+  }
+  infoNotaCredito.ele('valorModificacion').txt(formatAmount(info.valorModificacion, 2));
+  if (info.moneda) infoNotaCredito.ele('moneda').txt(info.moneda);
+  addTotalTaxes(infoNotaCredito, info.totalConImpuestos);
+  infoNotaCredito.ele('motivo').txt(info.motivo);
+
+  // Bloque <detalles>
+  const precision = creditNote.version === '1.1.0' ? 6 : 2;
+  const detalles = xml.ele('detalles');
+  creditNote.detalles.forEach((detail) => {
+    const detalle = detalles.ele('detalle');
+    if (detail.codigoInterno) detalle.ele('codigoInterno').txt(detail.codigoInterno);
+    if (detail.codigoAdicional) detalle.ele('codigoAdicional').txt(detail.codigoAdicional);
+    detalle.ele('descripcion').txt(detail.descripcion);
+    detalle.ele('cantidad').txt(formatAmount(detail.cantidad, precision));
+    detalle.ele('precioUnitario').txt(formatAmount(detail.precioUnitario, precision));
+    if (detail.descuento !== undefined) detalle.ele('descuento').txt(formatAmount(detail.descuento, 2));
+    detalle.ele('precioTotalSinImpuesto').txt(formatAmount(detail.precioTotalSinImpuesto, 2));
+    addAdditionalDetails(detalle, detail.detallesAdicionales);
+    addTaxes(detalle, detail.impuestos);
+  });
+
+  // Bloque <infoAdicional> (opcional)
+  addAdditionalInfo(xml, creditNote.infoAdicional);
+
+  return { xml: xml.end({ prettyPrint: true }), accessKey };
+}
@@ -0,0 +1,94 @@
+/**
+ * @file src/services/generateDebitNote.ts
+ * @description Servicio para generar el archivo XML de una nota de débito electrónica (codDoc 05) y su clave de acceso.
+ */
+
+import { create } from 'xmlbuilder2';
+import { assertTaxesInCatalog } from '../baseData/catalogs/taxCatalog';
+import { DebitNote } from '../baseData/debitNote/debitNote';
+import { assertValidIdentification, assertValidRuc } from '../utils/identification';
+import { getAccessKeyFromTaxInfo } from '../utils/utils';
+import { addAdditionalInfo, addPayments, addTaxes, addTaxInfo } from '../utils/xml';
+import { ValidationError } from './errors';
+import { Decimal, formatAmount, sameAmount, sumAmounts } from '../utils/decimal';
+
+/**
+ * Genera la representación XML de una nota de débito electrónica, con raíz `notaDebito` e
+ * `id="comprobante"`, lista para `signXML` y `sendSignedXml`.
+ *
+ * @param debitNote El objeto de la nota de débito que contiene todos los datos.
+ * @param codigoNumerico Un código de 8 dígitos, potestad del emisor, para la clave de acceso. Si se omite, se genera uno aleatorio.
+ * @returns Un objeto con el XML de la nota de débito y la clave de acceso generada.
+ */
+export function generateDebitNoteXML(debitNote: DebitNote, codigoNumerico?: string): { xml: string; accessKey: string } {
+  // 1. Validar presencia de campos obligatorios
+  if (!debitNote.infoTributaria || !debitNote.infoNotaDebito || !debitNote.motivos || debitNote.motivos.length === 0) {
+    throw new ValidationError('Faltan bloques obligatorios: infoTributaria, infoNotaDebito o motivos.');
+  }
+  const info = debitNote.infoNotaDebito;
+  if (debitNote.infoTributaria.codDoc !== '05') {
+    throw new ValidationError('El codDoc de una nota de débito debe ser 05.');
+  }
+  if (!/^[0-9]{3}-[0-9]{3}-[0-9]{9}$/.test(info.numDocModificado)) {
+    throw new ValidationError('El numDocModificado debe tener el formato 001-001-000000001.');
+  }
+  assertValidRuc(debitNote.infoTributaria.ruc);
+  assertValidIdentification(info.tipoIdentificacionComprador, info.identificacionComprador, 'infoNotaDebito.identificacionComprador');
+  // 2. Validar totales
+  const sumaMotivos = sumAmounts(debitNote.motivos.map((motivo) => motivo.valor));
+  if (!sameAmount(sumaMotivos, info.totalSinImpuestos)) {
+    throw new ValidationError('La suma de los valores de los motivos no coincide con el totalSinImpuestos.');
+  }
+  const sumaImpuestos = sumAmounts(info.impuestos.map((tax) => tax.valor));
+  if (!sameAmount(sumaImpuestos.plus(Decimal.from(info.totalSinImpuestos).round(2)), info.valorTotal)) {
+    throw new ValidationError('El valorTotal no coincide con el totalSinImpuestos más los impuestos.');
+  }
+  if (info.pagos && info.pagos.length > 0) {
+    const sumaPagos = sumAmounts(info.pagos.map((pago) => pago.total));
+    if (!sameAmount(sumaPagos, info.valorTotal)) {
+      throw new ValidationError('La suma de los pagos no coincide con el valorTotal de la nota de débito.');
+    }
+  }
+  assertTaxesInCatalog(info.impuestos, info.fechaEmision, 'infoNotaDebito.impuestos');
+
+  const accessKey = getAccessKeyFromTaxInfo(debitNote.infoTributaria, info.fechaEmision, codigoNumerico);
+
+  const xml = create({ version: '1.0', encoding: 'UTF-8' })
+    .ele('notaDebito', { id: 'comprobante', version: debitNote.version });
+
+  // Bloque <infoTributaria>
+  addTaxInfo(xml, debitNote.infoTributaria, accessKey);
+
+  // Bloque <infoNotaDebito>
+  const infoNotaDebito = xml.ele('infoNotaDebito');
+  infoNotaDebito.ele('fechaEmision').txt(info.fechaEmision);
+  if (info.dirEstablecimiento) infoNotaDebito.ele('dirEstablecimiento').txt(info.dirEstablecimiento);
+  infoNotaDebito.ele('tipoIdentificacionComprador').txt(info.tipoIdentificacionComprador);
+  infoNotaDebito.ele('razonSocialComprador').txt(info.razonSocialComprador);
+  infoNotaDebito.ele('identificacionComprador').txt(info.identificacionComprador);
+  if (info.contribuyenteEspecial) infoNotaDebito.ele('contribuyenteEspecial').txt(info.contribuyenteEspecial);
+  if (info.obligadoContabilidad) infoNotaDebito.ele('obligadoContabilidad').txt(info.obligadoContabilidad);
+  if (info.rise) infoNotaDebito.ele('rise').txt(info.rise);
+  infoNotaDebito.ele('codDocModificado').txt(info.codDocModificado);
+  infoNotaDebito.ele('numDocModificado').txt(info.numDocModificado);
+  infoNotaDebito.ele('fechaEmisionDocSustento').txt(info.fechaEmisionDocSustento);
+  infoNotaDebito.ele('totalSinImpuestos').txt(formatAmount(info.totalSinImpuestos, 2));
+  addTaxes(infoNotaDebito, info.impuestos);
+  infoNotaDebito.ele('valorTotal').txt(formatAmount(info.valorTotal, 2));
+  if (info.pagos && info.pagos.length > 0) {
+    addPayments(infoNotaDebito, info.pagos);
+  }
+
+  // Bloque <motivos>
+  const motivos = xml.ele('motivos');
+  debitNote.motivos.forEach((motivo) => {
+    const motivoNode = motivos.ele('motivo');
+    motivoNode.ele('razon').txt(motivo.razon);
+    motivoNode.ele('valor').txt(formatAmount(motivo.valor, 2));
+  });
+
+  // Bloque <infoAdicional> (opcional)
+  addAdditionalInfo(xml, debitNote.infoAdicional);
+
+  return { xml: xml.end({ prettyPrint: true }), accessKey };
+}
@@ -0,0 +1,99 @@
+/**
+ * @file src/services/generatePurchaseSettlement.ts
+ * @description Servicio para generar el archivo XML de una liquidación de compra electrónica (codDoc 03) y su clave de acceso.
+ */
+
+import { create } from 'xmlbuilder2';
+import { assertTaxesInCatalog } from '../baseData/catalogs/taxCatalog';
+import { PurchaseSettlement } from '../baseData/purchaseSettlement/purchaseSettlement';
+import { assertValidIdentification, assertValidRuc } from '../utils/identification';
+import { getAccessKeyFromTaxInfo } from '../utils/utils';
+import { addAdditionalInfo, addDetails, addPayments, addReimbursements, addTaxInfo, addTotalTaxes } from '../utils/xml';
+import { ValidationError } from './errors';
+import { Decimal, formatAmount, sameAmount, sumAmounts } from '../utils/decimal';
+
+/**
+ * Genera la representación XML de una liquidación de compra electrónica.
+ * Los detalles e impuestos se serializan igual que en la factura.
+ *
+ * @param settlement El objeto de la liquidación de compra que contiene todos los datos.
+ * @param codigoNumerico Un código de 8 dígitos, potestad del emisor, para la clave de acceso. Si se omite, se genera uno aleatorio.
+ * @returns Un objeto con el XML de la liquidación de compra y la clave de acceso generada.
+ */
+export function generatePurchaseSettlementXML(settlement: PurchaseSettlement, codigoNumerico?: string): { xml: string; accessKey: string } {
+  // 1. Validar presencia de campos obligatorios
+  if (!settlement.infoTributaria || !settlement.infoLiquidacionCompra || !settlement.detalles || settlement.detalles.length === 0) {
+    throw new ValidationError('Faltan bloques obligatorios: infoTributaria, infoLiquidacionCompra o detalles.');
+  }
+  const info = settlement.infoLiquidacionCompra;
+  if (settlement.infoTributaria.codDoc !== '03') {
+    throw new ValidationError('El codDoc de una liquidación de compra debe ser 03.');
+  }
+  assertValidRuc(settlement.infoTributaria.ruc);
+  assertValidIdentification(info.tipoIdentificacionProveedor, info.identificacionProveedor, 'infoLiquidacionCompra.identificacionProveedor');
+  // 2. Validar totales
+  const sumaPagos = sumAmounts(info.pagos.map((pago) => pago.total));
+  if (!sameAmount(sumaPagos, info.importeTotal)) {
+    throw new ValidationError('La suma de los pagos no coincide con el importe total de la liquidación de compra.');
+  }
+  const sumaDetalles = sumAmounts(settlement.detalles.map((det) => det.precioTotalSinImpuesto));
+  if (!sameAmount(sumaDetalles, info.totalSinImpuestos)) {
+    throw new ValidationError('La suma de los precios totales sin impuesto de los detalles no coincide con el totalSinImpuestos.');
+  }
+  settlement.detalles.forEach((detail, index) => {
+    assertTaxesInCatalog(detail.impuestos, info.fechaEmision, `detalles[${index}].impuestos`);
+  });
+  assertTaxesInCatalog(info.totalConImpuestos, info.fechaEmision, 'infoLiquidacionCompra.totalConImpuestos');
+  // 3. Validar campos opcionales según contexto
+  if (settlement.reembolsos && !info.codDocReembolso) {
+    throw new ValidationError('Si hay reembolsos, debe estar presente codDocReembolso en infoLiquidacionCompra.');
+  }
+
+  const accessKey = getAccessKeyFromTaxInfo(settlement.infoTributaria, info.fechaEmision, codigoNumerico);
+
+  const xml = create({ version: '1.0', encoding: 'UTF-8' })
+    .ele('liquidacionCompra', { id: 'comprobante', version: settlement.version });
+
+  // Bloque <infoTributaria>
+  addTaxInfo(xml, settlement.infoTributaria, accessKey);
+
+  // Bloque <infoLiquidacionCompra>
+  const infoLiquidacionCompra = xml.ele('infoLiquidacionCompra');
+  infoLiquidacionCompra.ele('fechaEmision').txt(info.fechaEmision);
+  if (info.dirEstablecimiento) infoLiquidacionCompra.ele('dirEstablecimiento').txt(info.dirEstablecimiento);
+  if (info.contribuyenteEspecial) infoLiquidacionCompra.ele('contribuyenteEspecial').txt(info.contribuyenteEspecial);
+  if (info.obligadoContabilidad) infoLiquidacionCompra.ele('obligadoContabilidad').txt(info.obligadoContabilidad);
+  infoLiquidacionCompra.ele('tipoIdentificacionProveedor').txt(info.tipoIdentificacionProveedor);
+  infoLiquidacionCompra.ele('razonSocialProveedor').txt(info.razonSocialProveedor);
+  infoLiquidacionCompra.ele('identificacionProveedor').txt(info.identificacionProveedor);
+  if (info.direccionProveedor) infoLiquidacionCompra.ele('direccionProveedor').txt(info.direccionProveedor);
+  infoLiquidacionCompra.ele('totalSinImpuestos').txt(formatAmount(info.totalSinImpuestos, 2));
+  infoLiquidacionCompra.ele('totalDescuento').txt(formatAmount(info.totalDescuento, 2));
+  if (info.codDocReembolso) infoLiquidacionCompra.ele('codDocReembolso').txt(info.codDocReembolso);
+  if (info.totalComprobantesReembolso !== undefined) {
+    infoLiquidacionCompra.ele('totalComprobantesReembolso').txt(formatAmount(info.totalComprobantesReembolso, 2));
+  }
+  if (info.totalBaseImponibleReembolso !== undefined) {
+    infoLiquidacionCompra.ele('totalBaseImponibleReembolso').txt(formatAmount(info.totalBaseImponibleReembolso, 2));
+  }
+  if (info.totalImpuestoReembolso !== undefined) {
+    infoLiquidacionCompra.ele('totalImpuestoReembolso').txt(formatAmount(info.totalImpuestoReembolso, 2));
+  }
+  addTotalTaxes(infoLiquidacionCompra, info.totalConImpuestos);
+  infoLiquidacionCompra.ele('importeTotal').txt(formatAmount(info.importeTotal, 2));
+  if (info.moneda) infoLiquidacionCompra.ele('moneda').txt(info.moneda);
+  addPayments(infoLiquidacionCompra, info.pagos);
+
+  // Bloque <detalles>
+  addDetails(xml, settlement.detalles, settlement.version === '1.1.0' ? 6 : 2);
+
+  // Bloque <reembolsos> (opcional)
+  if (settlement.reembolsos && settlement.reembolsos.reembolsoDetalle.length > 0) {
+    addReimbursements(xml, settlement.reembolsos.reembolsoDetalle);
+  }
+
+  // Bloque <infoAdicional> (opcional)
+  addAdditionalInfo(xml, settlement.infoAdicional);
+
+  return { xml: xml.end({ prettyPrint: true }), accessKey };
+}
@@ -0,0 +1,120 @@
+/**
+ * @file src/services/generateRemissionGuide.ts
+ * @description Servicio para generar el archivo XML de una guía de remisión electrónica (codDoc 06) y su clave de acceso.
+ */
+
+import { create } from 'xmlbuilder2';
+import { RemissionGuide } from '../baseData/remissionGuide/remissionGuide';
+import { TipoIdentificacionComprador } from '../baseData/invoice/invoiceInfo';
+import { assertValidIdentification, assertValidRuc } from '../utils/identification';
+import { getAccessKeyFromTaxInfo, parseSriDate } from '../utils/utils';
+import { addAdditionalDetails, addAdditionalInfo, addTaxInfo } from '../utils/xml';
+import { ValidationError } from './errors';
+import { formatAmount } from '../utils/decimal';
+
+/**
+ * Deduce el tipo de identificación de un destinatario, que el XSD no incluye: 13 dígitos son un RUC,
+ * 10 dígitos una cédula y cualquier otro valor un pasaporte o una identificación del exterior.
+ */
+function recipientIdentificationType(identificacion: string): TipoIdentificacionComprador {
+  if (/^[0-9]{13}$/.test(identificacion)) return '04';
+  if (/^[0-9]{10}$/.test(identificacion)) return '05';
+  return '06';
+}
+
+/**
+ * Genera la representación XML de una guía de remisión electrónica.
+ * La guía no tiene fecha de emisión propia: la clave de acceso se genera con la fecha de inicio del transporte.
+ *
+ * @param guide El objeto de la guía de remisión que contiene todos los datos.
+ * @param codigoNumerico Un código de 8 dígitos, potestad del emisor, para la clave de acceso. Si se omite, se genera uno aleatorio.
+ * @returns Un objeto con el XML de la guía de remisión y la clave de acceso generada.
+ */
+export function generateRemissionGuideXML(guide: RemissionGuide, codigoNumerico?: string): { xml: string; accessKey: string } {
+  // 1. Validar presencia de campos obligatorios
+  if (!guide.infoTributaria || !guide.infoGuiaRemision || !guide.destinatarios || guide.destinatarios.length === 0) {
+    throw new ValidationError('Faltan bloques obligatorios: infoTributaria, infoGuiaRemision o destinatarios.');
+  }
+  const info = guide.infoGuiaRemision;
+  if (guide.infoTributaria.codDoc !== '06') {
+    throw new ValidationError('El codDoc de una guía de remisión debe ser 06.');
+  }
+  if (parseSriDate(info.fechaFinTransporte) < parseSriDate(info.fechaIniTransporte)) {
+    throw new ValidationError('La fechaFinTransporte no puede ser anterior a la fechaIniTransporte.');
+  }
+  assertValidRuc(guide.infoTributaria.ruc);
+  assertValidIdentification(
+    info.tipoIdentificacionTransportista as TipoIdentificacionComprador,
+    info.rucTransportista,
+    'infoGuiaRemision.rucTransportista',
+  );
+  // 2. Validar cada destinatario
+  guide.destinatarios.forEach((destinatario, index) => {
+    const path = `destinatarios[${index}].identificacionDestinatario`;
+    if (!destinatario.identificacionDestinatario) {
+      throw ValidationError.forField(path, 'es obligatorio.');
+    }
+    assertValidIdentification(recipientIdentificationType(destinatario.identificacionDestinatario), destinatario.identificacionDestinatario, path);
+    if (!destinatario.detalles || destinatario.detalles.length === 0) {
+      throw new ValidationError(`El destinatario ${destinatario.razonSocialDestinatario} debe incluir al menos un detalle.`);
+    }
+    if (destinatario.numDocSustento && !/^[0-9]{3}-[0-9]{3}-[0-9]{9}$/.test(destinatario.numDocSustento)) {
+      throw new ValidationError('El numDocSustento debe tener el formato 001-001-000000001.');
+    }
+  });
+
+  const accessKey = getAccessKeyFromTaxInfo(guide.infoTributaria, info.fechaIniTransporte, codigoNumerico);
+
+  const xml = create({ version: '1.0', encoding: 'UTF-8' })
+    .ele('guiaRemision', { id: 'comprobante', version: guide.version });
+
+  // Bloque <infoTributaria>
+  addTaxInfo(xml, guide.infoTributaria, accessKey);
+
+  // Bloque <infoGuiaRemision>
+  const infoGuiaRemision = xml.ele('infoGuiaRemision');
+  if (info.dirEstablecimiento) infoGuiaRemision.ele('dirEstablecimiento').txt(info.dirEstablecimiento);
+  infoGuiaRemision.ele('dirPartida').txt(info.dirPartida);
+  infoGuiaRemision.ele('razonSocialTransportista').txt(info.razonSocialTransportista);
+  infoGuiaRemision.ele('tipoIdentificacionTransportista').txt(info.tipoIdentificacionTransportista);
+  infoGuiaRemision.ele('rucTransportista').txt(info.rucTransportista);
+  if (info.rise) infoGuiaRemision.ele('rise').txt(info.rise);
+  if (info.obligadoContabilidad) infoGuiaRemision.ele('obligadoContabilidad').txt(info.obligadoContabilidad);
+  if (info.contribuyenteEspecial) infoGuiaRemision.ele('contribuyenteEspecial').txt(info.contribuyenteEspecial);
+  infoGuiaRemision.ele('fechaIniTransporte').txt(info.fechaIniTransporte);
+  infoGuiaRemision.ele('fechaFinTransporte').txt(info.fechaFinTransporte);
+  infoGuiaRemision.ele('placa').txt(info.placa);
+
+  // Bloque <destinatarios>
+  const precision = guide.version === '1.1.0' ? 6 : 2;
+  const destinatarios = xml.ele('destinatarios');
+  guide.destinatarios.forEach((dest) => {
+    const destinatario = destinatarios.ele('destinatario');
+    destinatario.ele('identificacionDestinatario').txt(dest.identificacionDestinatario);
+    destinatario.ele('razonSocialDestinatario').txt(dest.razonSocialDestinatario);
+    destinatario.ele('dirDestinatario').txt(dest.dirDestinatario);
+    destinatario.ele('motivoTraslado').txt(dest.motivoTraslado);
+    if (dest.docAduaneroUnico) destinatario.ele('docAduaneroUnico').txt(dest.docAduaneroUnico);
+    if (dest.codEstabDestino) destinatario.ele('codEstabDestino').txt(dest.codEstabDestino);
+    if (dest.ruta) destinatario.ele('ruta').txt(dest.ruta);
+    if (dest.codDocSustento) destinatario.ele('codDocSustento').txt(dest.codDocSustento);
+    if (dest.numDocSustento) destinatario.ele('numDocSustento').txt(dest.numDocSustento);
+    if (dest.numAutDocSustento) destinatario.ele('numAutDocSustento').txt(dest.numAutDocSustento);
+    if (dest.fechaEmisionDocSustento) destinatario.ele('fechaEmisionDocSustento').txt(dest.fechaEmisionDocSustento);
+
+    const detalles = destinatario.ele('detalles');
+    dest.detalles.forEach((detail) => {
+      const detalle = detalles.ele('detalle');
+      if (detail.codigoInterno) detalle.ele('codigoInterno').txt(detail.codigoInterno);
+      if (detail.codigoAdicional) detalle.ele('codigoAdicional').txt(detail.codigoAdicional);
+      detalle.ele('descripcion').txt(detail.descripcion);
+      detalle.ele('cantidad').txt(formatAmount(detail.cantidad, precision));
+      addAdditionalDetails(detalle, detail.detallesAdicionales);
+    });
+  });
+
+  // Bloque <infoAdicional> (opcional)
+  addAdditionalInfo(xml, guide.infoAdicional);
+
+  return { xml: xml.end({ prettyPrint: true }), accessKey };
+}
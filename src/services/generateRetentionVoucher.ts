@@ -0,0 +1,161 @@
+/**
+ * @file src/services/generateRetentionVoucher.ts
+ * @description Servicio para generar el archivo XML de un comprobante de retención electrónico
+ * versión 2.0.0 (codDoc 07) y su clave de acceso.
+ */
+
+import { create } from 'xmlbuilder2';
+import { findRetentionConcept } from '../baseData/catalogs/taxCatalog';
+import { RetentionVoucher } from '../baseData/retentionVoucher/retentionVoucher';
+import { assertValidIdentification, assertValidRuc } from '../utils/identification';
+import { getAccessKeyFromTaxInfo } from '../utils/utils';
+import { addAdditionalInfo, addPayments, addTaxInfo } from '../utils/xml';
+import { ValidationError } from './errors';
+import { Decimal, formatAmount, sameAmount, sumAmounts } from '../utils/decimal';
+
+/**
+ * Genera la representación XML de un comprobante de retención versión 2.0.0.
+ * La clave de acceso se genera internamente para asegurar la integridad del comprobante.
+ *
+ * @param voucher El objeto del comprobante de retención que contiene todos los datos.
+ * @param codigoNumerico Un código de 8 dígitos, potestad del emisor, para la clave de acceso. Si se omite, se genera uno aleatorio.
+ * @returns Un objeto con el XML del comprobante de retención y la clave de acceso generada.
+ */
+export function generateRetentionVoucherXML(voucher: RetentionVoucher, codigoNumerico?: string): { xml: string; accessKey: string } {
+  // 1. Validar presencia de campos obligatorios
+  if (!voucher.infoTributaria || !voucher.infoCompRetencion || !voucher.docsSustento || voucher.docsSustento.length === 0) {
+    throw new ValidationError('Faltan bloques obligatorios: infoTributaria, infoCompRetencion o docsSustento.');
+  }
+  const info = voucher.infoCompRetencion;
+  if (voucher.infoTributaria.codDoc !== '07') {
+    throw new ValidationError('El codDoc de un comprobante de retención debe ser 07.');
+  }
+  if (!/^(0[1-9]|1[0-2])\/[0-9]{4}$/.test(info.periodoFiscal)) {
+    throw new ValidationError('El periodoFiscal debe tener el formato mm/aaaa.');
+  }
+  if (info.tipoIdentificacionSujetoRetenido === '08' && !info.tipoSujetoRetenido) {
+    throw new ValidationError('El tipoSujetoRetenido es obligatorio cuando la identificación del sujeto retenido es del exterior (08).');
+  }
+  assertValidRuc(voucher.infoTributaria.ruc);
+  assertValidIdentification(info.tipoIdentificacionSujetoRetenido, info.identificacionSujetoRetenido, 'infoCompRetencion.identificacionSujetoRetenido');
+  // 2. Validar cada documento sustento
+  voucher.docsSustento.forEach((doc) => {
+    if (!/^[0-9]{15}$/.test(doc.numDocSustento)) {
+      throw new ValidationError(`El numDocSustento ${doc.numDocSustento} debe tener 15 dígitos sin guiones.`);
+    }
+    if (!doc.retenciones || doc.retenciones.length === 0) {
+      throw new ValidationError(`El documento sustento ${doc.numDocSustento} debe incluir al menos una retención.`);
+    }
+    const sumaImpuestos = sumAmounts(doc.impuestosDocSustento.map((tax) => tax.valorImpuesto));
+    if (!sameAmount(sumaImpuestos.plus(Decimal.from(doc.totalSinImpuestos).round(2)), doc.importeTotal)) {
+      throw new ValidationError(`El importeTotal del documento sustento ${doc.numDocSustento} no coincide con el totalSinImpuestos más los impuestos.`);
+    }
+    const sumaPagos = sumAmounts(doc.pagos.map((pago) => pago.total));
+    if (!sameAmount(sumaPagos, doc.importeTotal)) {
+      throw new ValidationError(`La suma de los pagos del documento sustento ${doc.numDocSustento} no coincide con su importeTotal.`);
+    }
+    doc.retenciones.forEach((ret) => {
+      // El catálogo de retenciones de IVA es cerrado: el porcentaje debe coincidir con el concepto.
+      if (ret.codigo === '2') {
+        const concept = findRetentionConcept(ret.codigo, ret.codigoRetencion);
+        if (!concept) {
+          throw new ValidationError(`El código de retención de IVA ${ret.codigoRetencion} no existe en el catálogo del SRI.`);
+        }
+        if (concept.porcentaje !== ret.porcentajeRetener) {
+          throw new ValidationError(`El porcentaje ${ret.porcentajeRetener} no corresponde al código de retención de IVA ${ret.codigoRetencion} (${concept.porcentaje}%).`);
+        }
+      }
+      if (!sameAmount(Decimal.from(ret.baseImponible).round(2).times(ret.porcentajeRetener).shift(2), ret.valorRetenido)) {
+        throw new ValidationError(`El valorRetenido de la retención ${ret.codigoRetencion} no corresponde a la base imponible por el porcentaje a retener.`);
+      }
+    });
+  });
+
+  const accessKey = getAccessKeyFromTaxInfo(voucher.infoTributaria, info.fechaEmision, codigoNumerico);
+
+  const xml = create({ version: '1.0', encoding: 'UTF-8' })
+    .ele('comprobanteRetencion', { id: 'comprobante', version: voucher.version });
+
+  // Bloque <infoTributaria>
+  addTaxInfo(xml, voucher.infoTributaria, accessKey);
+
+  // Bloque <infoCompRetencion>
+  const infoCompRetencion = xml.ele('infoCompRetencion');
+  infoCompRetencion.ele('fechaEmision').txt(info.fechaEmision);
+  if (info.dirEstablecimiento) infoCompRetencion.ele('dirEstablecimiento').txt(info.dirEstablecimiento);
+  if (info.contribuyenteEspecial) infoCompRetencion.ele('contribuyenteEspecial').txt(info.contribuyenteEspecial);
+  if (info.obligadoContabilidad) infoCompRetencion.ele('obligadoContabilidad').txt(info.obligadoContabilidad);
+  infoCompRetencion.ele('tipoIdentificacionSujetoRetenido').txt(info.tipoIdentificacionSujetoRetenido);
+  if (info.tipoSujetoRetenido) infoCompRetencion.ele('tipoSujetoRetenido').txt(info.tipoSujetoRetenido);
+  infoCompRetencion.ele('parteRel').txt(info.parteRel);
+  infoCompRetencion.ele('razonSocialSujetoRetenido').txt(info.razonSocialSujetoRetenido);
+  infoCompRetencion.ele('identificacionSujetoRetenido').txt(info.identificacionSujetoRetenido);
+  infoCompRetencion.ele('periodoFiscal').txt(info.periodoFiscal);
+
+  // Bloque <docsSustento>
+  const docsSustento = xml.ele('docsSustento');
+  voucher.docsSustento.forEach((doc) => {
+    const docSustento = docsSustento.ele('docSustento');
+    docSustento.ele('codSustento').txt(doc.codSustento);
+    docSustento.ele('codDocSustento').txt(doc.codDocSustento);
+    docSustento.ele('numDocSustento').txt(doc.numDocSustento);
+    docSustento.ele('fechaEmisionDocSustento').txt(doc.fechaEmisionDocSustento);
+    if (doc.fechaRegistroContable) docSustento.ele('fechaRegistroContable').txt(doc.fechaRegistroContable);
+    if (doc.numAutDocSustento) docSustento.ele('numAutDocSustento').txt(doc.numAutDocSustento);
+    docSustento.ele('pagoLocExt').txt(doc.pagoLocExt);
+    if (doc.tipoRegi) docSustento.ele('tipoRegi').txt(doc.tipoRegi);
+    if (doc.paisEfecPago) docSustento.ele('paisEfecPago').txt(doc.paisEfecPago);
+    if (doc.aplicConvDobTrib) docSustento.ele('aplicConvDobTrib').txt(doc.aplicConvDobTrib);
+    if (doc.pagExtSujRetNorLeg) docSustento.ele('pagExtSujRetNorLeg').txt(doc.pagExtSujRetNorLeg);
+    if (doc.pagoRegFis) docSustento.ele('pagoRegFis').txt(doc.pagoRegFis);
+    if (doc.totalComprobantesReembolso !== undefined) {
+      docSustento.ele('totalComprobantesReembolso').txt(formatAmount(doc.totalComprobantesReembolso, 2));
+    }
+    if (doc.totalBaseImponibleReembolso !== undefined) {
+      docSustento.ele('totalBaseImponibleReembolso').txt(formatAmount(doc.totalBaseImponibleReembolso, 2));
+    }
+    if (doc.totalImpuestoReembolso !== undefined) {
+      docSustento.ele('totalImpuestoReembolso').txt(formatAmount(doc.totalImpuestoReembolso, 2));
+    }
+    docSustento.ele('totalSinImpuestos').txt(formatAmount(doc.totalSinImpuestos, 2));
+    docSustento.ele('importeTotal').txt(formatAmount(doc.importeTotal, 2));
+
+    const impuestosDocSustento = docSustento.ele('impuestosDocSustento');
+    doc.impuestosDocSustento.forEach((tax) => {
+      const impuesto = impuestosDocSustento.ele('impuestoDocSustento');
+      impuesto.ele('codImpuestoDocSustento').txt(tax.codImpuestoDocSustento);
+      impuesto.ele('codigoPorcentaje').txt(tax.codigoPorcentaje);
+      impuesto.ele('baseImponible').txt(formatAmount(tax.baseImponible, 2));
+      impuesto.ele('tarifa').txt(tax.tarifa.toString());
+      impuesto.ele('valorImpuesto').txt(formatAmount(tax.valorImpuesto, 2));
+    });
+
+    const retenciones = docSustento.ele('retenciones');
+    doc.retenciones.forEach((ret) => {
+      const retencion = retenciones.ele('retencion');
+      retencion.ele('codigo').txt(ret.codigo);
+      retencion.ele('codigoRetencion').txt(ret.codigoRetencion);
+      retencion.ele('baseImponible').txt(formatAmount(ret.baseImponible, 2));
+      retencion.ele('porcentajeRetener').txt(ret.porcentajeRetener.toString());
+      retencion.ele('valorRetenido').txt(formatAmount(ret.valorRetenido, 2));
+      if (ret.dividendos) {
+        const dividendos = retencion.ele('dividendos');
+        dividendos.ele('fechaPagoDiv').txt(ret.dividendos.fechaPagoDiv);
+        dividendos.ele('imRentaSoc').txt(formatAmount(ret.dividendos.imRentaSoc, 2));
+        dividendos.ele('ejerFisUtDiv').txt(ret.dividendos.ejerFisUtDiv);
+      }
+      if (ret.compraCajBanano) {
+        const compraCajBanano = retencion.ele('compraCajBanano');
+        compraCajBanano.ele('numCajBan').txt(ret.compraCajBanano.numCajBan.toString());
+        compraCajBanano.ele('precCajBan').txt(formatAmount(ret.compraCajBanano.precCajBan, 2));
+      }
+    });
+
+    addPayments(docSustento, doc.pagos);
+  });
+
+  // Bloque <infoAdicional> (opcional)
+  addAdditionalInfo(xml, voucher.infoAdicional);
+
+  return { xml: xml.end({ prettyPrint: true }), accessKey };
+}
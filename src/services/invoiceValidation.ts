@@ -0,0 +1,382 @@
+/**
+ * @file src/services/invoiceValidation.ts
+ * @description Validación completa de los datos de una factura antes de generar el XML: bloques obligatorios,
+ * longitudes y formatos de la Ficha Técnica, identificaciones, catálogo de impuestos, totales y bloques
+ * que dependen de la versión. Devuelve todas las fallas encontradas en lugar de detenerse en la primera.
+ */
+
+import { findTaxCatalogIssues } from '../baseData/catalogs/taxCatalog';
+import { Invoice } from '../baseData/invoice/invoice';
+import { Amount, Decimal } from '../utils/decimal';
+import { assertValidIdentification, assertValidRuc, CONSUMIDOR_FINAL, hasValidRucCheckDigit, isValidRuc } from '../utils/identification';
+import { parseSriDate } from '../utils/utils';
+import { ValidationError, ValidationIssue, ValidationSeverity } from './errors';
+import { INVOICE_VERSION_FEATURES, INVOICE_VERSIONS, isInvoiceV2Version, isInvoiceVersion } from './invoiceVersion';
+
+/**
+ * Regla incumplida por una falla de `validateInvoice`.
+ */
+export type InvoiceValidationCode =
+  | 'REQUIRED' // Falta un bloque o campo obligatorio
+  | 'FORMAT' // El valor no tiene el formato de la Ficha Técnica (ej: estab de 3 dígitos)
+  | 'MAX_LENGTH' // El texto supera la longitud máxima
+  | 'MAX_OCCURS' // El bloque supera la cantidad máxima de elementos
+  | 'INVALID_RUC' // El RUC del emisor no es válido
+  | 'RUC_CHECK_DIGIT' // El RUC de una sociedad privada no cumple el dígito verificador Módulo 11
+  | 'INVALID_IDENTIFICATION' // La identificación no corresponde a su tipo
+  | 'TAX_CATALOG' // El impuesto no existe o no está vigente en el catálogo del SRI
+  | 'TOTAL_MISMATCH' // Los totales no cuadran
+  | 'VERSION' // La versión no existe o no admite el bloque
+  | 'CONSUMIDOR_FINAL_LIMIT'; // Venta a consumidor final que supera el monto máximo
+
+/**
+ * Falla encontrada por `validateInvoice`.
+ */
+export interface InvoiceValidationIssue extends ValidationIssue {
+  code: InvoiceValidationCode;
+  severity: ValidationSeverity;
+}
+
+/** Cantidad máxima de campos de <infoAdicional> y de <detAdicional> por detalle. */
+const MAX_ADDITIONAL_FIELDS = 15;
+const MAX_ADDITIONAL_DETAILS = 3;
+
+/** Monto máximo de una factura a consumidor final (Resolución NAC-DGERCGC14-00790). */
+const CONSUMIDOR_FINAL_MAX_TOTAL = 50;
+
+/**
+ * Devuelve un monto redondeado a 2 decimales, como en el XML, o `undefined` si no es un número decimal
+ * (la falla se informa en el campo correspondiente).
+ */
+function parseAmount(value: Amount | undefined): Decimal | undefined {
+  try {
+    return Decimal.from(value as Amount).round(2);
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Compara cada impuesto de <totalConImpuestos> con la suma de los impuestos de los detalles del mismo código
+ * y código de porcentaje, con los valores redondeados a 2 decimales como en el XML.
+ */
+function checkTaxTotals(
+  totales: { key: string; baseImponible?: Decimal; valor?: Decimal }[],
+  detalles: Invoice['detalles'],
+  add: (path: string, code: InvoiceValidationCode, message: string) => void,
+): void {
+  const sumas = new Map<string, { baseImponible: Decimal; valor: Decimal } | null>();
+  detalles.forEach((detalle) => (detalle.impuestos ?? []).forEach((tax) => {
+    const key = `${tax.codigo}-${tax.codigoPorcentaje}`;
+    const suma = sumas.get(key);
+    if (suma === null) return;
+    try {
+      sumas.set(key, {
+        baseImponible: (suma?.baseImponible ?? Decimal.ZERO).plus(Decimal.from(tax.baseImponible).round(2)),
+        valor: (suma?.valor ?? Decimal.ZERO).plus(Decimal.from(tax.valor).round(2)),
+      });
+    } catch {
+      // Un valor inválido en un detalle impide comparar ese impuesto; la falla ya se informa en el detalle.
+      sumas.set(key, null);
+    }
+  }));
+
+  totales.forEach((total, index) => {
+    const path = `infoFactura.totalConImpuestos[${index}]`;
+    const suma = sumas.get(total.key);
+    if (suma === undefined) {
+      add(path, 'TOTAL_MISMATCH', `ningún detalle tiene el impuesto ${total.key.replace('-', ' con código de porcentaje ')}.`);
+      return;
+    }
+    if (suma === null) return;
+    (['baseImponible', 'valor'] as const).forEach((field) => {
+      const value = total[field];
+      if (value && !value.equals(suma[field])) {
+        add(`${path}.${field}`, 'TOTAL_MISMATCH', `el valor (${value.toFixed(2)}) no coincide con la suma de los impuestos de los detalles (${suma[field].toFixed(2)}).`);
+      }
+    });
+  });
+  const keys = new Set(totales.map((total) => total.key));
+  [...sumas.keys()].filter((key) => !keys.has(key)).forEach((key) => {
+    add('infoFactura.totalConImpuestos', 'TOTAL_MISMATCH', `falta el impuesto ${key.replace('-', ' con código de porcentaje ')} que tienen los detalles.`);
+  });
+}
+
+/**
+ * Valida los datos de una factura y devuelve todas las fallas encontradas, con su ruta, código, mensaje y gravedad.
+ * `generateInvoiceXML` usa esta misma validación y lanza un `ValidationError` con todas las fallas de gravedad 'error'.
+ * Útil para mostrar en un formulario todos los errores de una vez.
+ *
+ * @param invoice Los datos de la factura (pueden estar incompletos).
+ * @returns Las fallas encontradas; vacío si la factura es válida.
+ */
+export function validateInvoice(invoice: Invoice): InvoiceValidationIssue[] {
+  const issues: InvoiceValidationIssue[] = [];
+  const add = (path: string, code: InvoiceValidationCode, message: string, severity: ValidationSeverity = 'error') => {
+    issues.push({ path, code, message, severity });
+  };
+  // Reutiliza las verificaciones que lanzan un ValidationError y registra sus fallas con el código indicado.
+  const collect = (code: InvoiceValidationCode, check: () => void) => {
+    try {
+      check();
+    } catch (error) {
+      if (!(error instanceof ValidationError)) throw error;
+      error.issues.forEach((issue) => add(issue.path, code, issue.message));
+    }
+  };
+  // El SRI ha emitido RUC de sociedades sin dígito verificador Módulo 11: se advierte sin impedir la emisión.
+  const checkDigit = (path: string, ruc: string) => {
+    if (isValidRuc(ruc) && !hasValidRucCheckDigit(ruc)) {
+      add(path, 'RUC_CHECK_DIGIT', `el dígito verificador del RUC ${ruc} no cumple el Módulo 11; confirme que el RUC esté registrado en el SRI.`, 'warning');
+    }
+  };
+  const text = (path: string, value: string | undefined, maxLength: number, required = false) => {
+    if (value === undefined || value === null || value === '') {
+      if (required) add(path, 'REQUIRED', 'es obligatorio.');
+    } else if (value.length > maxLength) {
+      add(path, 'MAX_LENGTH', `no puede superar ${maxLength} caracteres (tiene ${value.length}).`);
+    }
+  };
+  const pattern = (path: string, value: string | undefined, regex: RegExp, description: string, required = true) => {
+    if (value === undefined || value === null || value === '') {
+      if (required) add(path, 'REQUIRED', 'es obligatorio.');
+    } else if (!regex.test(value)) {
+      add(path, 'FORMAT', `debe ser ${description} (valor: '${value}').`);
+    }
+  };
+  // Valida un valor monetario y lo devuelve redondeado a 2 decimales, tal como aparece en el XML.
+  const amount = (path: string, value: Amount | undefined): Decimal | undefined => {
+    if (value === undefined || value === null || value === '') {
+      add(path, 'REQUIRED', 'es obligatorio.');
+      return undefined;
+    }
+    try {
+      return Decimal.from(value).round(2);
+    } catch {
+      add(path, 'FORMAT', `debe ser un número decimal (valor: '${value}').`);
+      return undefined;
+    }
+  };
+
+  const features = isInvoiceVersion(invoice.version) ? INVOICE_VERSION_FEATURES[invoice.version] : undefined;
+  if (!features) {
+    add('version', 'VERSION', `la versión '${invoice.version}' no existe; use ${INVOICE_VERSIONS.join(', ')}.`);
+  }
+
+  // Bloques obligatorios
+  const { infoTributaria, infoFactura, detalles } = invoice;
+  if (!infoTributaria) add('infoTributaria', 'REQUIRED', 'el bloque es obligatorio.');
+  if (!infoFactura) add('infoFactura', 'REQUIRED', 'el bloque es obligatorio.');
+  if (!detalles || detalles.length === 0) add('detalles', 'REQUIRED', 'la factura debe tener al menos un detalle.');
+
+  // <infoTributaria>
+  if (infoTributaria) {
+    pattern('infoTributaria.ambiente', infoTributaria.ambiente, /^[12]$/, "'1' (pruebas) o '2' (producción)");
+    pattern('infoTributaria.tipoEmision', infoTributaria.tipoEmision, /^1$/, "'1' (emisión normal)");
+    text('infoTributaria.razonSocial', infoTributaria.razonSocial, 300, true);
+    text('infoTributaria.nombreComercial', infoTributaria.nombreComercial, 300);
+    if (!infoTributaria.ruc) {
+      add('infoTributaria.ruc', 'REQUIRED', 'es obligatorio.');
+    } else {
+      collect('INVALID_RUC', () => assertValidRuc(infoTributaria.ruc));
+      checkDigit('infoTributaria.ruc', infoTributaria.ruc);
+    }
+    if (infoTributaria.codDoc !== '01') {
+      add('infoTributaria.codDoc', infoTributaria.codDoc ? 'FORMAT' : 'REQUIRED', "debe ser '01' (factura).");
+    }
+    pattern('infoTributaria.estab', infoTributaria.estab, /^[0-9]{3}$/, 'un código de 3 dígitos');
+    pattern('infoTributaria.ptoEmi', infoTributaria.ptoEmi, /^[0-9]{3}$/, 'un código de 3 dígitos');
+    pattern('infoTributaria.secuencial', infoTributaria.secuencial, /^[0-9]{9}$/, 'un número de 9 dígitos');
+    text('infoTributaria.dirMatriz', infoTributaria.dirMatriz, 300, true);
+    pattern('infoTributaria.agenteRetencion', infoTributaria.agenteRetencion, /^[0-9]{1,8}$/, 'un número de resolución de hasta 8 dígitos', false);
+    text('infoTributaria.contribuyenteRimpe', infoTributaria.contribuyenteRimpe, 300);
+  }
+
+  // <infoFactura>
+  let fechaValida = false;
+  if (infoFactura) {
+    if (!infoFactura.fechaEmision) {
+      add('infoFactura.fechaEmision', 'REQUIRED', 'es obligatorio.');
+    } else {
+      try {
+        parseSriDate(infoFactura.fechaEmision);
+        fechaValida = true;
+      } catch {
+        add('infoFactura.fechaEmision', 'FORMAT', `debe ser una fecha válida en formato dd/mm/yyyy (valor: '${infoFactura.fechaEmision}').`);
+      }
+    }
+    text('infoFactura.dirEstablecimiento', infoFactura.dirEstablecimiento, 300);
+    pattern('infoFactura.contribuyenteEspecial', infoFactura.contribuyenteEspecial, /^[A-Za-z0-9]{3,13}$/, 'un número de resolución de 3 a 13 caracteres', false);
+    pattern('infoFactura.obligadoContabilidad', infoFactura.obligadoContabilidad, /^(SI|NO)$/, "'SI' o 'NO'", false);
+    text('infoFactura.razonSocialComprador', infoFactura.razonSocialComprador, 300, true);
+    if (!infoFactura.tipoIdentificacionComprador || !infoFactura.identificacionComprador) {
+      if (!infoFactura.tipoIdentificacionComprador) add('infoFactura.tipoIdentificacionComprador', 'REQUIRED', 'es obligatorio.');
+      if (!infoFactura.identificacionComprador) add('infoFactura.identificacionComprador', 'REQUIRED', 'es obligatorio.');
+    } else {
+      collect('INVALID_IDENTIFICATION', () => assertValidIdentification(
+        infoFactura.tipoIdentificacionComprador,
+        infoFactura.identificacionComprador,
+        'infoFactura.identificacionComprador',
+      ));
+      if (infoFactura.tipoIdentificacionComprador === '04') checkDigit('infoFactura.identificacionComprador', infoFactura.identificacionComprador);
+    }
+    text('infoFactura.direccionComprador', infoFactura.direccionComprador, 300);
+    text('infoFactura.moneda', infoFactura.moneda, 15);
+    text('infoFactura.placa', infoFactura.placa, 25);
+
+    const totalSinImpuestos = amount('infoFactura.totalSinImpuestos', infoFactura.totalSinImpuestos);
+    const totalDescuento = amount('infoFactura.totalDescuento', infoFactura.totalDescuento);
+    const propina = infoFactura.propina === undefined ? Decimal.ZERO : amount('infoFactura.propina', infoFactura.propina);
+    const importeTotal = amount('infoFactura.importeTotal', infoFactura.importeTotal);
+    if (!infoFactura.pagos || infoFactura.pagos.length === 0) {
+      add('infoFactura.pagos', 'REQUIRED', 'la factura debe tener al menos una forma de pago.');
+    } else {
+      const totales = infoFactura.pagos.map((pago, index) => {
+        pattern(`infoFactura.pagos[${index}].formaPago`, pago.formaPago, /^[0-9]{2}$/, 'un código de 2 dígitos (Tabla 24)');
+        text(`infoFactura.pagos[${index}].unidadTiempo`, pago.unidadTiempo, 25);
+        return amount(`infoFactura.pagos[${index}].total`, pago.total);
+      });
+      const sumaPagos = totales.every(Boolean) ? Decimal.sum(totales as Decimal[]) : undefined;
+      if (sumaPagos && importeTotal && !sumaPagos.equals(importeTotal)) {
+        add('infoFactura.pagos', 'TOTAL_MISMATCH', `la suma de los pagos (${sumaPagos.toFixed(2)}) no coincide con el importe total de la factura (${importeTotal.toFixed(2)}).`);
+      }
+    }
+    const preciosTotales = (detalles ?? []).map((det, index) => amount(`detalles[${index}].precioTotalSinImpuesto`, det.precioTotalSinImpuesto));
+    if (preciosTotales.length > 0 && preciosTotales.every(Boolean) && totalSinImpuestos) {
+      const sumaDetalles = Decimal.sum(preciosTotales as Decimal[]);
+      if (!sumaDetalles.equals(totalSinImpuestos)) {
+        add('infoFactura.totalSinImpuestos', 'TOTAL_MISMATCH', `la suma de los precios totales sin impuesto de los detalles (${sumaDetalles.toFixed(2)}) no coincide con el totalSinImpuestos (${totalSinImpuestos.toFixed(2)}).`);
+      }
+    }
+    const descuentos = (detalles ?? []).map((det) => (det.descuento === undefined ? Decimal.ZERO : parseAmount(det.descuento)));
+    if (descuentos.length > 0 && descuentos.every(Boolean) && totalDescuento) {
+      const sumaDescuentos = Decimal.sum(descuentos as Decimal[]);
+      if (!sumaDescuentos.equals(totalDescuento)) {
+        add('infoFactura.totalDescuento', 'TOTAL_MISMATCH', `la suma de los descuentos de los detalles (${sumaDescuentos.toFixed(2)}) no coincide con el totalDescuento (${totalDescuento.toFixed(2)}).`);
+      }
+    }
+    if (infoFactura.identificacionComprador === CONSUMIDOR_FINAL && importeTotal && importeTotal.compare(CONSUMIDOR_FINAL_MAX_TOTAL) > 0) {
+      add('infoFactura.importeTotal', 'CONSUMIDOR_FINAL_LIMIT', `una factura a consumidor final no debería superar USD ${CONSUMIDOR_FINAL_MAX_TOTAL}; identifique al comprador.`, 'warning');
+    }
+
+    if (!infoFactura.totalConImpuestos || infoFactura.totalConImpuestos.length === 0) {
+      add('infoFactura.totalConImpuestos', 'REQUIRED', 'debe incluir al menos un impuesto.');
+    } else {
+      if (fechaValida) {
+        findTaxCatalogIssues(infoFactura.totalConImpuestos, infoFactura.fechaEmision, 'infoFactura.totalConImpuestos')
+          .forEach((issue) => add(issue.path, 'TAX_CATALOG', issue.message));
+      }
+      const totales = infoFactura.totalConImpuestos.map((total, index) => ({
+        key: `${total.codigo}-${total.codigoPorcentaje}`,
+        baseImponible: amount(`infoFactura.totalConImpuestos[${index}].baseImponible`, total.baseImponible),
+        valor: amount(`infoFactura.totalConImpuestos[${index}].valor`, total.valor),
+      }));
+      const valores = totales.map((total) => total.valor);
+      if (totalSinImpuestos && propina && importeTotal && valores.every(Boolean)) {
+        const esperado = totalSinImpuestos.plus(Decimal.sum(valores as Decimal[])).plus(propina);
+        if (!esperado.equals(importeTotal)) {
+          add('infoFactura.importeTotal', 'TOTAL_MISMATCH', `el importe total (${importeTotal.toFixed(2)}) no coincide con totalSinImpuestos + impuestos + propina (${esperado.toFixed(2)}).`);
+        }
+      }
+      checkTaxTotals(totales, detalles ?? [], add);
+    }
+    if (invoice.reembolsos && !infoFactura.codDocReembolso) {
+      add('infoFactura.codDocReembolso', 'REQUIRED', 'es obligatorio si la factura tiene reembolsos.');
+    }
+  }
+
+  // <detalles>
+  (detalles ?? []).forEach((detalle, index) => {
+    const path = `detalles[${index}]`;
+    text(`${path}.codigoPrincipal`, detalle.codigoPrincipal, 25);
+    text(`${path}.codigoAuxiliar`, detalle.codigoAuxiliar, 25);
+    text(`${path}.descripcion`, detalle.descripcion, 300, true);
+    text(`${path}.unidadMedida`, detalle.unidadMedida, 25);
+    const adicionales = detalle.detallesAdicionales ?? [];
+    if (adicionales.length > MAX_ADDITIONAL_DETAILS) {
+      add(`${path}.detallesAdicionales`, 'MAX_OCCURS', `admite hasta ${MAX_ADDITIONAL_DETAILS} campos (tiene ${adicionales.length}).`);
+    }
+    adicionales.forEach((campo, i) => {
+      text(`${path}.detallesAdicionales[${i}].nombre`, campo.nombre, 300, true);
+      text(`${path}.detallesAdicionales[${i}].valor`, campo.valor, 300, true);
+    });
+    const descuento = detalle.descuento === undefined ? Decimal.ZERO : amount(`${path}.descuento`, detalle.descuento);
+    // Los mismos campos que considera requiredInvoicePrecision; precioSinSubsidio es opcional.
+    const exact: Partial<Record<'cantidad' | 'precioUnitario', Decimal>> = {};
+    const extraPrecision: { field: 'cantidad' | 'precioUnitario' | 'precioSinSubsidio'; decimals: number }[] = [];
+    (['cantidad', 'precioUnitario', 'precioSinSubsidio'] as const).forEach((field) => {
+      const raw = detalle[field];
+      if (field === 'precioSinSubsidio' && raw === undefined) return;
+      if (!amount(`${path}.${field}`, raw)) return;
+      const value = Decimal.from(raw as Amount);
+      if (field !== 'precioSinSubsidio') exact[field] = value;
+      if (features && value.decimalPlaces() > features.precision) extraPrecision.push({ field, decimals: value.decimalPlaces() });
+    });
+
+    // precioTotalSinImpuesto = cantidad × precioUnitario − descuento, con los valores tal como se emiten en el XML.
+    const precision = features?.precision ?? 6;
+    const { cantidad, precioUnitario } = exact;
+    const emitido = cantidad && precioUnitario && descuento
+      ? cantidad.round(precision).times(precioUnitario.round(precision)).minus(descuento).round(2)
+      : undefined;
+    const sinRedondeo = cantidad && precioUnitario && descuento ? cantidad.times(precioUnitario).minus(descuento).round(2) : undefined;
+    extraPrecision.forEach(({ field, decimals }) => {
+      const message = `tiene ${decimals} decimales y la versión ${invoice.version} admite ${precision}`;
+      if (field !== 'precioSinSubsidio' && emitido && sinRedondeo && !emitido.equals(sinRedondeo)) {
+        add(`${path}.${field}`, 'VERSION', `${message}; al redondearlo el precio total sin impuesto pasa de ${sinRedondeo.toFixed(2)} a ${emitido.toFixed(2)} (ver selectInvoiceVersion).`);
+      } else {
+        add(`${path}.${field}`, 'VERSION', `${message}; se redondeará (ver selectInvoiceVersion).`, 'warning');
+      }
+    });
+    const precioTotal = parseAmount(detalle.precioTotalSinImpuesto);
+    if (emitido && precioTotal && !precioTotal.equals(emitido)) {
+      add(`${path}.precioTotalSinImpuesto`, 'TOTAL_MISMATCH', `el valor (${precioTotal.toFixed(2)}) no coincide con cantidad × precioUnitario − descuento (${emitido.toFixed(2)}).`);
+    }
+    if (!detalle.impuestos || detalle.impuestos.length === 0) {
+      add(`${path}.impuestos`, 'REQUIRED', 'el detalle debe tener al menos un impuesto.');
+    } else {
+      detalle.impuestos.forEach((tax, i) => {
+        amount(`${path}.impuestos[${i}].baseImponible`, tax.baseImponible);
+        amount(`${path}.impuestos[${i}].valor`, tax.valor);
+      });
+      if (fechaValida && infoFactura) {
+        findTaxCatalogIssues(detalle.impuestos, infoFactura.fechaEmision, `${path}.impuestos`)
+          .forEach((issue) => add(issue.path, 'TAX_CATALOG', issue.message));
+      }
+    }
+  });
+
+  // Bloques que dependen de la versión
+  if (invoice.infoSustitutivaGuiaRemision && !isInvoiceV2Version(invoice.version)) {
+    add('infoSustitutivaGuiaRemision', 'VERSION', 'el bloque solo es válido para versiones >= 2.0.0.');
+  }
+  if (invoice.otrosRubrosTerceros && !isInvoiceV2Version(invoice.version)) {
+    add('otrosRubrosTerceros', 'VERSION', 'el bloque solo es válido para versiones >= 2.0.0.');
+  }
+
+  // <infoAdicional>
+  const campos = invoice.infoAdicional?.campos ?? [];
+  if (campos.length > MAX_ADDITIONAL_FIELDS) {
+    add('infoAdicional.campos', 'MAX_OCCURS', `admite hasta ${MAX_ADDITIONAL_FIELDS} campos (tiene ${campos.length}).`);
+  }
+  campos.forEach((campo, index) => {
+    text(`infoAdicional.campos[${index}].nombre`, campo.nombre, 300, true);
+    text(`infoAdicional.campos[${index}].valor`, campo.valor, 300, true);
+  });
+
+  return issues;
+}
+
+/**
+ * Verifica los datos de una factura con `validateInvoice`.
+ *
+ * @param invoice Los datos de la factura.
+ * @throws Un `ValidationError` con todas las fallas de gravedad 'error'.
+ */
+export function assertValidInvoice(invoice: Invoice): void {
+  const errors = validateInvoice(invoice).filter((issue) => issue.severity === 'error');
+  if (errors.length > 0) {
+    const details = errors.map((issue) => `- ${issue.path}: ${issue.message}`).join('\n');
+    throw new ValidationError(`La factura no cumple las validaciones del SRI:\n${details}`, errors);
+  }
+}
@@ -0,0 +1,96 @@
+/**
+ * @file src/services/invoiceVersion.ts
+ * @description Características de cada versión del esquema de factura (bloques y precisión decimal)
+ * y selección automática de la versión mínima que admite los datos de una factura.
+ */
+
+import { Invoice, InvoiceContent, InvoiceV2Version, InvoiceVersion } from '../baseData/invoice/invoice';
+import { Decimal } from '../utils/decimal';
+
+/**
+ * Lo que admite una versión del esquema de factura.
+ */
+export interface InvoiceVersionFeatures {
+  /** Decimales de cantidad, precio unitario y precio sin subsidio de los detalles. */
+  precision: 2 | 6;
+  /** Si admite los bloques <infoSustitutivaGuiaRemision> y <otrosRubrosTerceros>. */
+  v2Blocks: boolean;
+}
+
+/**
+ * Características de cada versión de factura según la Ficha Técnica, de menor a mayor.
+ */
+export const INVOICE_VERSION_FEATURES: Readonly<Record<InvoiceVersion, InvoiceVersionFeatures>> = {
+  '1.0.0': { precision: 2, v2Blocks: false },
+  '1.1.0': { precision: 6, v2Blocks: false },
+  '2.0.0': { precision: 2, v2Blocks: true },
+  '2.1.0': { precision: 6, v2Blocks: true },
+};
+
+/** Versiones de factura soportadas, de menor a mayor. */
+export const INVOICE_VERSIONS = Object.keys(INVOICE_VERSION_FEATURES) as readonly InvoiceVersion[];
+
+/**
+ * Indica si un texto es una versión de factura soportada.
+ */
+export function isInvoiceVersion(version: string): version is InvoiceVersion {
+  return (INVOICE_VERSIONS as readonly string[]).includes(version);
+}
+
+/**
+ * Indica si una versión de factura admite los bloques de la versión 2.
+ */
+export function isInvoiceV2Version(version: string): version is InvoiceV2Version {
+  return isInvoiceVersion(version) && INVOICE_VERSION_FEATURES[version].v2Blocks;
+}
+
+/**
+ * Indica si la factura usa bloques que solo existen en las versiones 2.x.
+ */
+export function usesInvoiceV2Blocks(invoice: InvoiceContent): boolean {
+  return Boolean(invoice.infoSustitutivaGuiaRemision || invoice.otrosRubrosTerceros);
+}
+
+/**
+ * Devuelve los decimales que necesitan la cantidad, el precio unitario y el precio sin subsidio de los detalles:
+ * 6 si alguno tiene más de 2 decimales significativos, 2 en otro caso.
+ *
+ * @throws Un `ValidationError` si alguno de esos valores no es un número decimal.
+ */
+export function requiredInvoicePrecision(invoice: InvoiceContent): 2 | 6 {
+  const needsSix = (invoice.detalles ?? []).some((detail, index) => {
+    const values = { cantidad: detail.cantidad, precioUnitario: detail.precioUnitario, precioSinSubsidio: detail.precioSinSubsidio };
+    return Object.entries(values).some(([field, value]) => (
+      value !== undefined && Decimal.from(value, `detalles[${index}].${field}`).decimalPlaces() > 2
+    ));
+  });
+  return needsSix ? 6 : 2;
+}
+
+/**
+ * Selecciona la versión de factura más baja que admite los bloques y la precisión decimal usados.
+ * Ej: sin bloques 2.x y con precios de 2 decimales, '1.0.0'; con `otrosRubrosTerceros` y cantidades de 3 decimales, '2.1.0'.
+ *
+ * @param invoice Los datos de la factura (la versión indicada, si la hay, se ignora).
+ * @returns La versión mínima.
+ */
+export function selectInvoiceVersion(invoice: InvoiceContent): InvoiceVersion {
+  const v2Blocks = usesInvoiceV2Blocks(invoice);
+  const precision = requiredInvoicePrecision(invoice);
+  // La última versión admite todo, por lo que siempre hay una.
+  return INVOICE_VERSIONS.find((version) => {
+    const features = INVOICE_VERSION_FEATURES[version];
+    return features.precision >= precision && (features.v2Blocks || !v2Blocks);
+  }) ?? INVOICE_VERSIONS[INVOICE_VERSIONS.length - 1];
+}
+
+/**
+ * Devuelve una copia de la factura con la versión mínima que admite sus datos (ver `selectInvoiceVersion`).
+ *
+ * @param invoice Los datos de la factura, con o sin versión.
+ * @returns La factura con `version` asignada.
+ */
+export function withMinimumInvoiceVersion(invoice: InvoiceContent & { version?: InvoiceVersion }): Invoice {
+  // La versión elegida admite los bloques presentes, por lo que el objeto corresponde a su rama de la unión.
+  return { ...invoice, version: selectInvoiceVersion(invoice) } as Invoice;
+}
@@ -0,0 +1,277 @@
+/**
+ * @file src/services/mockSri.ts
+ * @description Servidor SOAP local que simula los Web Services RecepcionComprobantesOffline y
+ * AutorizacionComprobantesOffline del SRI, para pruebas de integración sin conexión ni certificado del SRI.
+ * Decodifica el comprobante, valida la clave de acceso y la firma, y permite programar las respuestas.
+ */
+
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import { isValidAccessKey } from '../utils/utils';
+import { SRI_MESSAGE_IDENTIFIERS } from './errors';
+import { readAccessKey } from './reception';
+import { verifySignedXML } from './signatureVerification';
+import { SriEndpoints, TransportOptions } from './transport';
+
+/**
+ * Mensaje que devuelve el servidor simulado.
+ */
+export interface MockSriMessage {
+  identificador: string;
+  mensaje: string;
+  informacionAdicional?: string;
+  tipo?: 'ERROR' | 'ADVERTENCIA' | 'INFORMATIVO';
+}
+
+/**
+ * Falla de transporte simulada: un SOAP Fault o un código HTTP de error.
+ */
+export type MockSriFailure = { fault: string } | { httpStatus: number };
+
+/**
+ * Respuesta programada del servicio de Recepción.
+ */
+export type MockReceptionStep = { estado: 'RECIBIDA' | 'DEVUELTA'; mensajes?: MockSriMessage[] } | MockSriFailure;
+
+/**
+ * Respuesta programada del servicio de Autorización. 'PENDIENTE' responde sin autorizaciones (numeroComprobantes 0).
+ */
+export type MockAuthorizationStep =
+  | { estado: 'AUTORIZADO' | 'NO AUTORIZADO' | 'EN PROCESO'; mensajes?: MockSriMessage[] }
+  | { estado: 'PENDIENTE' }
+  | MockSriFailure;
+
+/**
+ * Opciones del servidor simulado.
+ */
+export interface MockSriOptions {
+  /** Puerto local. Por defecto 0 (un puerto libre). */
+  port?: number;
+  /** Si es `true`, los comprobantes con firma inválida se devuelven con el mensaje 39. Por defecto `true`. */
+  verifySignatures?: boolean;
+}
+
+/**
+ * Solicitud recibida por el servidor simulado.
+ */
+export interface MockSriRequest {
+  service: 'reception' | 'authorization';
+  accessKey: string | null;
+  /** XML recibido (comprobante o lote) en Recepción. */
+  xml?: string;
+}
+
+/**
+ * Servidor simulado en ejecución.
+ */
+export interface MockSri {
+  /** URL base del servidor (ej: 'http://127.0.0.1:40123'). */
+  url: string;
+  endpoints: SriEndpoints;
+  /** Opciones de transporte que apuntan al servidor simulado, para `sendSignedXml`, `checkAuthorization` u `OpenFactura`. */
+  transport: TransportOptions;
+  /** Solicitudes recibidas, en orden. */
+  requests: MockSriRequest[];
+  /** Comprobantes RECIBIDA, por clave de acceso. */
+  vouchers: Map<string, string>;
+  /**
+   * Programa las próximas respuestas de un servicio. Cada paso se usa una vez, en orden; luego se vuelve al comportamiento normal.
+   * @param accessKey Si se indica, los pasos solo se aplican a esa clave de acceso.
+   */
+  script(service: 'reception', steps: MockReceptionStep[], accessKey?: string): void;
+  script(service: 'authorization', steps: MockAuthorizationStep[], accessKey?: string): void;
+  /** Detiene el servidor. */
+  close(): Promise<void>;
+}
+
+interface ScriptedStep<T> {
+  step: T;
+  accessKey?: string;
+}
+
+interface VoucherCheck {
+  accessKey: string | null;
+  xml: string;
+  mensajes: MockSriMessage[];
+}
+
+function escapeXml(value: string): string {
+  return value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+function messagesXml(mensajes: MockSriMessage[]): string {
+  const items = mensajes.map((m) => '<mensaje>'
+    + `<identificador>${escapeXml(m.identificador)}</identificador>`
+    + `<mensaje>${escapeXml(m.mensaje)}</mensaje>`
+    + (m.informacionAdicional ? `<informacionAdicional>${escapeXml(m.informacionAdicional)}</informacionAdicional>` : '')
+    + `<tipo>${m.tipo ?? 'ERROR'}</tipo>`
+    + '</mensaje>').join('');
+  return `<mensajes>${items}</mensajes>`;
+}
+
+function envelope(body: string): string {
+  return `<?xml version="1.0" encoding="UTF-8"?><soap:Envelope xmlns:soap="http://schemas.xmlsoap.org/soap/envelope/"><soap:Body>${body}</soap:Body></soap:Envelope>`;
+}
+
+function receptionXml(estado: 'RECIBIDA' | 'DEVUELTA', comprobantes: { accessKey: string | null; mensajes: MockSriMessage[] }[]): string {
+  const items = comprobantes
+    .filter((c) => c.mensajes.length > 0)
+    .map((c) => `<comprobante><claveAcceso>${c.accessKey ?? ''}</claveAcceso>${messagesXml(c.mensajes)}</comprobante>`)
+    .join('');
+  return envelope('<ns2:validarComprobanteResponse xmlns:ns2="http://ec.gob.sri.ws.recepcion"><RespuestaRecepcionComprobante>'
+    + `<estado>${estado}</estado><comprobantes>${items}</comprobantes>`
+    + '</RespuestaRecepcionComprobante></ns2:validarComprobanteResponse>');
+}
+
+function authorizationXml(accessKey: string, autorizacion: string | null): string {
+  return envelope('<ns2:autorizacionComprobanteResponse xmlns:ns2="http://ec.gob.sri.ws.autorizacion"><RespuestaAutorizacionComprobante>'
+    + `<claveAccesoConsultada>${escapeXml(accessKey)}</claveAccesoConsultada>`
+    + `<numeroComprobantes>${autorizacion ? 1 : 0}</numeroComprobantes>`
+    + `<autorizaciones>${autorizacion ?? ''}</autorizaciones>`
+    + '</RespuestaAutorizacionComprobante></ns2:autorizacionComprobanteResponse>');
+}
+
+function faultXml(fault: string): string {
+  return envelope(`<soap:Fault><faultcode>soap:Server</faultcode><faultstring>${escapeXml(fault)}</faultstring></soap:Fault>`);
+}
+
+/**
+ * Extrae los comprobantes de un lote (cada uno en una sección CDATA).
+ */
+function loteVouchers(xml: string): string[] {
+  return [...xml.matchAll(/<comprobante>\s*<!\[CDATA\[([\s\S]*?)\]\]>\s*<\/comprobante>/g)].map((m) => m[1]);
+}
+
+/**
+ * Inicia el servidor SOAP simulado del SRI.
+ * Sin respuestas programadas: Recepción valida la clave de acceso (35, 58, 43) y la firma (39) y responde RECIBIDA;
+ * Autorización responde AUTORIZADO para los comprobantes recibidos y sin autorizaciones para los demás.
+ *
+ * @param options Puerto y verificación de firmas.
+ * @returns El servidor en ejecución; `mock.transport` apunta los servicios de la librería a él.
+ */
+export async function startMockSri(options: MockSriOptions = {}): Promise<MockSri> {
+  const verifySignatures = options.verifySignatures ?? true;
+  const receptionSteps: ScriptedStep<MockReceptionStep>[] = [];
+  const authorizationSteps: ScriptedStep<MockAuthorizationStep>[] = [];
+  const requests: MockSriRequest[] = [];
+  const vouchers = new Map<string, string>();
+  const authorizedAt = new Map<string, string>();
+
+  const takeStep = <T>(steps: ScriptedStep<T>[], accessKey: string | null): T | undefined => {
+    const index = steps.findIndex((s) => !s.accessKey || s.accessKey === accessKey);
+    return index === -1 ? undefined : steps.splice(index, 1)[0].step;
+  };
+
+  const checkVoucher = async (xml: string): Promise<VoucherCheck> => {
+    const accessKey = readAccessKey(xml);
+    if (!accessKey) {
+      return { accessKey, xml, mensajes: [{ identificador: SRI_MESSAGE_IDENTIFIERS.DOCUMENTO_INVALIDO, mensaje: 'ARCHIVO NO CUMPLE ESTRUCTURA XML', informacionAdicional: 'No se encontró la clave de acceso.' }] };
+    }
+    if (!isValidAccessKey(accessKey)) {
+      return { accessKey, xml, mensajes: [{ identificador: SRI_MESSAGE_IDENTIFIERS.ERROR_ESTRUCTURA_CLAVE_ACCESO, mensaje: 'ERROR EN LA ESTRUCTURA DE LA CLAVE DE ACCESO', informacionAdicional: 'El dígito verificador no es correcto.' }] };
+    }
+    if (vouchers.has(accessKey)) {
+      return { accessKey, xml, mensajes: [{ identificador: SRI_MESSAGE_IDENTIFIERS.CLAVE_ACCESO_REGISTRADA, mensaje: 'CLAVE ACCESO REGISTRADA' }] };
+    }
+    if (verifySignatures) {
+      const verification = await verifySignedXML(xml);
+      if (!verification.valid) {
+        return { accessKey, xml, mensajes: [{ identificador: SRI_MESSAGE_IDENTIFIERS.FIRMA_INVALIDA, mensaje: 'FIRMA INVALIDA', informacionAdicional: verification.errors.join(' ') }] };
+      }
+    }
+    return { accessKey, xml, mensajes: [] };
+  };
+
+  const handleReception = async (body: string): Promise<[number, string]> => {
+    const base64 = /<xml>\s*([A-Za-z0-9+/=\s]+?)\s*<\/xml>/.exec(body)?.[1];
+    const xml = base64 ? Buffer.from(base64, 'base64').toString('utf8') : '';
+    const isLote = /<lote[\s>]/.test(xml);
+    const accessKey = readAccessKey(xml);
+    requests.push({ service: 'reception', accessKey, xml });
+
+    const step = takeStep(receptionSteps, accessKey);
+    if (step && 'fault' in step) return [500, faultXml(step.fault)];
+    if (step && 'httpStatus' in step) return [step.httpStatus, ''];
+
+    const checks = await Promise.all((isLote ? loteVouchers(xml) : [xml]).map(checkVoucher));
+    if (step) {
+      if (step.estado === 'RECIBIDA') checks.forEach((c) => c.accessKey && vouchers.set(c.accessKey, c.xml));
+      return [200, receptionXml(step.estado, checks.map((c) => ({ accessKey: c.accessKey, mensajes: step.mensajes ?? [] })))];
+    }
+    if (checks.length === 0 || checks.some((c) => c.mensajes.length > 0)) {
+      return [200, receptionXml('DEVUELTA', checks.length > 0 ? checks : [{ accessKey, mensajes: [{ identificador: SRI_MESSAGE_IDENTIFIERS.DOCUMENTO_INVALIDO, mensaje: 'ARCHIVO NO CUMPLE ESTRUCTURA XML' }] }])];
+    }
+    checks.forEach((c) => vouchers.set(c.accessKey as string, c.xml));
+    return [200, receptionXml('RECIBIDA', [])];
+  };
+
+  const handleAuthorization = async (body: string): Promise<[number, string]> => {
+    const accessKey = /<claveAccesoComprobante>\s*([^<\s]*)\s*<\/claveAccesoComprobante>/.exec(body)?.[1] ?? '';
+    requests.push({ service: 'authorization', accessKey });
+
+    const step = takeStep(authorizationSteps, accessKey);
+    if (step && 'fault' in step) return [500, faultXml(step.fault)];
+    if (step && 'httpStatus' in step) return [step.httpStatus, ''];
+
+    const xml = vouchers.get(accessKey);
+    const estado = step ? step.estado : xml ? 'AUTORIZADO' : 'PENDIENTE';
+    if (estado === 'PENDIENTE') return [200, authorizationXml(accessKey, null)];
+
+    const authorized = estado === 'AUTORIZADO';
+    if (authorized && !authorizedAt.has(accessKey)) authorizedAt.set(accessKey, new Date().toISOString());
+    const mensajes = step && 'mensajes' in step ? step.mensajes ?? [] : [];
+    const ambiente = accessKey.substring(23, 24) === '2' ? 'PRODUCCIÓN' : 'PRUEBAS';
+    const autorizacion = `<autorizacion><estado>${estado}</estado>`
+      + (authorized ? `<numeroAutorizacion>${accessKey}</numeroAutorizacion><fechaAutorizacion>${authorizedAt.get(accessKey)}</fechaAutorizacion>` : '')
+      + `<ambiente>${ambiente}</ambiente>`
+      + (xml ? `<comprobante><![CDATA[${xml}]]></comprobante>` : '')
+      + `${messagesXml(mensajes)}</autorizacion>`;
+    return [200, authorizationXml(accessKey, autorizacion)];
+  };
+
+  const server = http.createServer((req, res) => {
+    const chunks: Buffer[] = [];
+    req.on('data', (chunk: Buffer) => chunks.push(chunk));
+    req.on('end', async () => {
+      const body = Buffer.concat(chunks).toString('utf8');
+      try {
+        const [status, payload] = body.includes('validarComprobante')
+          ? await handleReception(body)
+          : body.includes('autorizacionComprobante')
+            ? await handleAuthorization(body)
+            : [500, faultXml('Operación no soportada por el servidor simulado.')] as [number, string];
+        res.writeHead(status, { 'Content-Type': 'text/xml;charset=UTF-8' });
+        res.end(payload);
+      } catch (error: any) {
+        res.writeHead(500, { 'Content-Type': 'text/xml;charset=UTF-8' });
+        res.end(faultXml(error.message));
+      }
+    });
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    server.once('error', reject);
+    server.listen(options.port ?? 0, '127.0.0.1', () => resolve());
+  });
+  const url = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  const endpoints: SriEndpoints = {
+    reception: `${url}/comprobantes-electronicos-ws/RecepcionComprobantesOffline`,
+    authorization: `${url}/comprobantes-electronicos-ws/AutorizacionComprobantesOffline`,
+  };
+
+  return {
+    url,
+    endpoints,
+    transport: { endpoints, proxy: false, retryDelayMs: 10 },
+    requests,
+    vouchers,
+    script(service: 'reception' | 'authorization', steps: (MockReceptionStep | MockAuthorizationStep)[], accessKey?: string) {
+      const queue = (service === 'reception' ? receptionSteps : authorizationSteps) as ScriptedStep<typeof steps[number]>[];
+      queue.push(...steps.map((step) => ({ step, accessKey })));
+    },
+    close() {
+      return new Promise<void>((resolve, reject) => server.close((error) => (error ? reject(error) : resolve())));
+    },
+  };
+}
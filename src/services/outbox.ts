@@ -0,0 +1,326 @@
+/**
+ * @file src/services/outbox.ts
+ * @description Bandeja de salida persistente. Registra cada comprobante a lo largo de su ciclo de vida
+ * (GENERATED → SIGNED → RECIBIDA/DEVUELTA → AUTORIZADO/NO AUTORIZADO) con fechas y mensajes del SRI,
+ * y permite retomar los comprobantes que quedaron en un estado intermedio si el proceso se interrumpe.
+ */
+
+import { promises as fsp } from 'fs';
+import * as path from 'path';
+import { Ambiente } from '../baseData/invoice/taxInfo';
+import { Autorizacion, checkAuthorization } from './authorization';
+import { OpenFacturaError, SriNotAuthorizedError, SriPendingError, SriReceptionError } from './errors';
+import { ReceptionResponse, sendSignedXml, SriError } from './reception';
+import { TransportOptions } from './transport';
+
+/**
+ * Estado de un comprobante en la bandeja de salida.
+ */
+export type VoucherState = 'GENERATED' | 'SIGNED' | 'RECIBIDA' | 'DEVUELTA' | 'AUTORIZADO' | 'NO AUTORIZADO';
+
+/**
+ * Cambio de estado registrado en el historial de un comprobante.
+ */
+export interface OutboxTransition {
+  state: VoucherState;
+  /** Fecha del cambio en formato ISO 8601. */
+  at: string;
+  /** Mensajes del SRI asociados al cambio (advertencias, errores de recepción o de autorización). */
+  mensajes: SriError[];
+}
+
+/**
+ * Comprobante registrado en la bandeja de salida.
+ */
+export interface OutboxRecord {
+  accessKey: string;
+  state: VoucherState;
+  /** XML sin firmar. */
+  xml: string | null;
+  /** XML firmado, tal como se envía al SRI. */
+  signedXml: string | null;
+  numeroAutorizacion: string | null;
+  fechaAutorizacion: string | null;
+  /** Mensajes del SRI del último cambio de estado. */
+  mensajes: SriError[];
+  history: OutboxTransition[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * Almacenamiento de la bandeja de salida. Puede implementarse sobre una base de datos, Redis, etc.
+ */
+export interface OutboxStorage {
+  /** Devuelve el registro de una clave de acceso, o null si no existe. */
+  load(accessKey: string): Promise<OutboxRecord | null>;
+  /** Crea o reemplaza un registro. */
+  save(record: OutboxRecord): Promise<void>;
+  /** Devuelve los registros, opcionalmente solo los que están en alguno de los estados indicados. */
+  list(states?: VoucherState[]): Promise<OutboxRecord[]>;
+}
+
+/**
+ * Resultado de retomar un comprobante con `Outbox.reconcile`.
+ */
+export interface ReconcileOutcome {
+  accessKey: string;
+  from: VoucherState;
+  to: VoucherState;
+  /** Error que impidió avanzar el comprobante (ej: falla de comunicación); el estado se conserva. */
+  error?: Error;
+}
+
+/**
+ * Opciones de `Outbox.reconcile`.
+ */
+export interface ReconcileOptions extends TransportOptions {
+  /** Solo se retoman los comprobantes sin cambios en este tiempo, en milisegundos. Por defecto 0. */
+  olderThanMs?: number;
+  /** Firma el XML de los comprobantes que quedaron en GENERATED; si no se indica, esos comprobantes se omiten. */
+  sign?: (xml: string) => Promise<string>;
+}
+
+/**
+ * Cambios de estado permitidos, además de repetir el estado actual. Un comprobante que no llegó al SRI,
+ * DEVUELTA o NO AUTORIZADO puede corregirse y emitirse de nuevo con la misma clave de acceso; uno AUTORIZADO es definitivo
+ * (las respuestas posteriores del SRI no lo cambian).
+ */
+const TRANSITIONS: Record<VoucherState, VoucherState[]> = {
+  GENERATED: ['SIGNED'],
+  SIGNED: ['GENERATED', 'RECIBIDA', 'DEVUELTA', 'AUTORIZADO', 'NO AUTORIZADO'],
+  RECIBIDA: ['AUTORIZADO', 'NO AUTORIZADO'],
+  DEVUELTA: ['GENERATED', 'SIGNED'],
+  AUTORIZADO: [],
+  'NO AUTORIZADO': ['GENERATED', 'SIGNED'],
+};
+
+/**
+ * Crea un almacenamiento en memoria (útil para pruebas o procesos de corta duración).
+ */
+export function createMemoryOutboxStorage(): OutboxStorage {
+  const records = new Map<string, OutboxRecord>();
+  const copy = (record: OutboxRecord): OutboxRecord => JSON.parse(JSON.stringify(record));
+  return {
+    async load(accessKey) {
+      const record = records.get(accessKey);
+      return record ? copy(record) : null;
+    },
+    async save(record) {
+      records.set(record.accessKey, copy(record));
+    },
+    async list(states) {
+      return [...records.values()].filter((r) => !states || states.includes(r.state)).map(copy);
+    },
+  };
+}
+
+/**
+ * Crea un almacenamiento en archivos locales: un JSON por comprobante dentro del directorio indicado.
+ * Cada registro se escribe en un archivo temporal y luego se renombra, de modo que una interrupción
+ * no deja archivos a medio escribir.
+ *
+ * @param directory El directorio de la bandeja de salida; se crea si no existe.
+ */
+export function createFileOutboxStorage(directory: string): OutboxStorage {
+  const fileOf = (accessKey: string) => {
+    if (!/^[0-9]{49}$/.test(accessKey)) {
+      throw new OpenFacturaError(`La clave de acceso ${accessKey} no tiene 49 dígitos.`);
+    }
+    return path.join(directory, `${accessKey}.json`);
+  };
+  const read = async (file: string): Promise<OutboxRecord | null> => {
+    try {
+      return JSON.parse(await fsp.readFile(file, 'utf8')) as OutboxRecord;
+    } catch (error: any) {
+      if (error.code === 'ENOENT') return null;
+      throw error;
+    }
+  };
+  return {
+    async load(accessKey) {
+      return read(fileOf(accessKey));
+    },
+    async save(record) {
+      const file = fileOf(record.accessKey);
+      await fsp.mkdir(directory, { recursive: true });
+      const temp = `${file}.${process.pid}.tmp`;
+      await fsp.writeFile(temp, JSON.stringify(record, null, 2));
+      await fsp.rename(temp, file);
+    },
+    async list(states) {
+      let names: string[];
+      try {
+        names = await fsp.readdir(directory);
+      } catch (error: any) {
+        if (error.code === 'ENOENT') return [];
+        throw error;
+      }
+      const records = await Promise.all(names.filter((name) => /^[0-9]{49}\.json$/.test(name)).map((name) => read(path.join(directory, name))));
+      return records.filter((r): r is OutboxRecord => !!r && (!states || states.includes(r.state)));
+    },
+  };
+}
+
+/**
+ * Bandeja de salida: aplica la máquina de estados del comprobante y persiste cada cambio en el almacenamiento.
+ */
+export class Outbox {
+  private storage: OutboxStorage;
+
+  /**
+   * @param storage El almacenamiento; por ejemplo `createFileOutboxStorage('./outbox')`.
+   */
+  constructor(storage: OutboxStorage) {
+    this.storage = storage;
+  }
+
+  /** Devuelve el registro de un comprobante, o null si no está en la bandeja. */
+  public get(accessKey: string): Promise<OutboxRecord | null> {
+    return this.storage.load(accessKey);
+  }
+
+  /** Devuelve los comprobantes, opcionalmente filtrados por estado. */
+  public list(states?: VoucherState[]): Promise<OutboxRecord[]> {
+    return this.storage.list(states);
+  }
+
+  /** Devuelve los comprobantes que quedaron en un estado intermedio (GENERATED, SIGNED o RECIBIDA). */
+  public pending(): Promise<OutboxRecord[]> {
+    return this.storage.list(['GENERATED', 'SIGNED', 'RECIBIDA']);
+  }
+
+  /**
+   * Registra un comprobante recién generado.
+   * @throws Un `OpenFacturaError` si la clave de acceso ya está en la bandeja en un estado que no admite reemisión.
+   */
+  public recordGenerated(accessKey: string, xml: string): Promise<OutboxRecord> {
+    return this.transition(accessKey, 'GENERATED', [], { xml, signedXml: null });
+  }
+
+  /** Registra la firma del comprobante. Si la clave no estaba en la bandeja, se agrega. */
+  public recordSigned(accessKey: string, signedXml: string): Promise<OutboxRecord> {
+    return this.transition(accessKey, 'SIGNED', [], { signedXml });
+  }
+
+  /**
+   * Registra la respuesta del Web Service de Recepción. Un comprobante AUTORIZADO conserva su estado
+   * (ej: si se reenvía, el SRI responde con el error 43 de clave de acceso registrada).
+   */
+  public async recordReception(accessKey: string, estado: ReceptionResponse['estado'], mensajes: SriError[] = []): Promise<OutboxRecord> {
+    const current = await this.storage.load(accessKey);
+    if (current?.state === 'AUTORIZADO') return current;
+    return this.transition(accessKey, estado, mensajes);
+  }
+
+  /**
+   * Registra la respuesta definitiva del Web Service de Autorización. Un comprobante AUTORIZADO conserva
+   * su estado y sus datos de autorización.
+   */
+  public async recordAuthorization(accessKey: string, autorizacion: Autorizacion): Promise<OutboxRecord> {
+    if (autorizacion.estado === 'EN PROCESO') {
+      throw new OpenFacturaError(`El comprobante con clave ${accessKey} todavía está en proceso; no hay una autorización que registrar.`);
+    }
+    const current = await this.storage.load(accessKey);
+    if (current?.state === 'AUTORIZADO') return current;
+    return this.transition(accessKey, autorizacion.estado, autorizacion.mensajes ?? [], {
+      numeroAutorizacion: autorizacion.numeroAutorizacion,
+      fechaAutorizacion: autorizacion.fechaAutorizacion,
+    });
+  }
+
+  /**
+   * Retoma los comprobantes que quedaron en un estado intermedio:
+   * los GENERATED se firman (si se indica `sign`), los SIGNED se envían de nuevo (una respuesta 43 o 70
+   * se toma como RECIBIDA) y de los RECIBIDA se consulta la autorización.
+   *
+   * @param ambiente El ambiente de los comprobantes.
+   * @param options Antigüedad mínima, función de firma y opciones de transporte.
+   * @returns Un resultado por comprobante retomado.
+   */
+  public async reconcile(ambiente: Ambiente, options: ReconcileOptions = {}): Promise<ReconcileOutcome[]> {
+    const cutoff = Date.now() - (options.olderThanMs ?? 0);
+    const stuck = (await this.pending()).filter((r) => Date.parse(r.updatedAt) <= cutoff);
+    const outcomes: ReconcileOutcome[] = [];
+
+    for (const initial of stuck) {
+      let record = initial;
+      try {
+        if (record.state === 'GENERATED') {
+          if (!options.sign || !record.xml) {
+            outcomes.push({ accessKey: record.accessKey, from: initial.state, to: record.state });
+            continue;
+          }
+          record = await this.recordSigned(record.accessKey, await options.sign(record.xml));
+        }
+        if (record.state === 'SIGNED') {
+          record = await this.send(record, ambiente, options);
+        }
+        if (record.state === 'RECIBIDA') {
+          record = await this.authorize(record, ambiente, options);
+        }
+        outcomes.push({ accessKey: record.accessKey, from: initial.state, to: record.state });
+      } catch (error: any) {
+        outcomes.push({ accessKey: record.accessKey, from: initial.state, to: record.state, error });
+      }
+    }
+    return outcomes;
+  }
+
+  private async send(record: OutboxRecord, ambiente: Ambiente, options: TransportOptions): Promise<OutboxRecord> {
+    try {
+      const { estado, mensajes } = await sendSignedXml(record.signedXml as string, ambiente, options);
+      return await this.recordReception(record.accessKey, estado, mensajes);
+    } catch (error) {
+      if (!(error instanceof SriReceptionError)) throw error;
+      return await this.recordReception(record.accessKey, error.alreadyReceived ? 'RECIBIDA' : 'DEVUELTA', error.sriMessages);
+    }
+  }
+
+  private async authorize(record: OutboxRecord, ambiente: Ambiente, options: TransportOptions): Promise<OutboxRecord> {
+    try {
+      const autorizacion = await checkAuthorization(record.accessKey, ambiente, options);
+      return autorizacion.estado === 'EN PROCESO' ? record : await this.recordAuthorization(record.accessKey, autorizacion);
+    } catch (error) {
+      if (error instanceof SriPendingError) return record;
+      if (!(error instanceof SriNotAuthorizedError)) throw error;
+      return await this.transition(record.accessKey, 'NO AUTORIZADO', error.sriMessages);
+    }
+  }
+
+  /**
+   * Aplica un cambio de estado, lo agrega al historial y persiste el registro.
+   */
+  private async transition(
+    accessKey: string,
+    state: VoucherState,
+    mensajes: SriError[],
+    changes: Partial<Pick<OutboxRecord, 'xml' | 'signedXml' | 'numeroAutorizacion' | 'fechaAutorizacion'>> = {},
+  ): Promise<OutboxRecord> {
+    const now = new Date().toISOString();
+    const current = await this.storage.load(accessKey);
+    if (current && current.state !== state && !TRANSITIONS[current.state].includes(state)) {
+      throw new OpenFacturaError(`El comprobante con clave ${accessKey} no puede pasar de ${current.state} a ${state}.`, { accessKey });
+    }
+    if (!current && state !== 'GENERATED' && state !== 'SIGNED') {
+      throw new OpenFacturaError(`El comprobante con clave ${accessKey} no está registrado en la bandeja de salida.`, { accessKey });
+    }
+    const record: OutboxRecord = {
+      accessKey,
+      xml: null,
+      signedXml: null,
+      numeroAutorizacion: null,
+      fechaAutorizacion: null,
+      history: [],
+      createdAt: now,
+      ...current,
+      ...changes,
+      state,
+      mensajes,
+      updatedAt: now,
+    };
+    record.history = [...record.history, { state, at: now, mensajes }];
+    await this.storage.save(record);
+    return record;
+  }
+}
@@ -0,0 +1,697 @@
+/**
+ * @file src/services/parseVoucher.ts
+ * @description Convierte el XML de un comprobante (sin firmar, firmado o envuelto en la respuesta `<autorizacion>`
+ * del SRI) de vuelta en el objeto tipado correspondiente. La firma y los metadatos de autorización se devuelven
+ * por separado, y el resultado regenera el mismo contenido con el generador del tipo de comprobante.
+ */
+
+import { DOMParser, XMLSerializer } from 'xmldom';
+import { Invoice, InvoiceContent } from '../baseData/invoice/invoice';
+import { AdditionalDetail, Detail, Tax } from '../baseData/invoice/details';
+import { AdditionalInfo } from '../baseData/invoice/additionalInfo';
+import { FormaPago, Pago, TipoIdentificacionComprador } from '../baseData/invoice/invoiceInfo';
+import { ReimbursementDetail, TipoComprobanteReembolso, TipoProveedorReembolso } from '../baseData/invoice/reimbursements';
+import { RetentionCodeInInvoice } from '../baseData/invoice/retentions';
+import { Ambiente, CodigoImpuesto, TaxInfo, TipoEmision, TotalTax } from '../baseData/invoice/taxInfo';
+import { CreditNote, CreditNoteVersion } from '../baseData/creditNote/creditNote';
+import { DebitNote, DebitNoteVersion } from '../baseData/debitNote/debitNote';
+import { RetentionVoucher, RetentionVoucherVersion } from '../baseData/retentionVoucher/retentionVoucher';
+import { TipoIdentificacionSujetoRetenido, TipoSujetoRetenido } from '../baseData/retentionVoucher/retentionVoucherInfo';
+import { CodigoImpuestoRetencion } from '../baseData/retentionVoucher/supportingDocuments';
+import { RemissionGuide, RemissionGuideVersion } from '../baseData/remissionGuide/remissionGuide';
+import { PurchaseSettlement, PurchaseSettlementVersion } from '../baseData/purchaseSettlement/purchaseSettlement';
+import { TipoIdentificacionProveedor } from '../baseData/purchaseSettlement/purchaseSettlementInfo';
+import { Decimal } from '../utils/decimal';
+import { Autorizacion } from './authorization';
+import { ValidationError } from './errors';
+import { INVOICE_VERSIONS, isInvoiceV2Version } from './invoiceVersion';
+
+/**
+ * Metadatos de autorización presentes cuando el XML es la respuesta `<autorizacion>` del SRI.
+ */
+export type AuthorizationMetadata = Pick<Autorizacion, 'estado' | 'numeroAutorizacion' | 'fechaAutorizacion' | 'ambiente'>;
+
+/**
+ * Resultado de parsear un comprobante.
+ */
+export interface ParsedVoucher<T> {
+  /** El comprobante tipado, con los valores numéricos restaurados. */
+  voucher: T;
+  /** El código numérico (8 dígitos) contenido en la clave de acceso, para regenerar el mismo XML. */
+  codigoNumerico: string;
+  /** El elemento <ds:Signature> serializado, o null si el comprobante no está firmado. */
+  signature: string | null;
+  /** Los metadatos de autorización, o null si el XML no venía envuelto en <autorizacion>. */
+  authorization: AuthorizationMetadata | null;
+}
+
+// ---------------------------------------------------------------------------
+// Lectura genérica del DOM
+// ---------------------------------------------------------------------------
+
+/**
+ * Lee un XML y lanza un `ValidationError` con los mensajes de xmldom si no está bien formado
+ * (xmldom informa algunas etiquetas sin cerrar solo como advertencias, por lo que también se tienen en cuenta).
+ */
+function parseDocument(xml: string): Element {
+  const errors: string[] = [];
+  const collect = (message: string) => errors.push(message
+    .replace(/^\[xmldom [a-z ]+\]\s*/i, '')
+    .replace(/\s*@#\[line:(\d+),col:(\d+)\]/, ' (línea $1, columna $2)')
+    .replace(/\s*@#\[line:[^\]]*\]/, '')
+    .trim());
+  let doc: Document | undefined;
+  try {
+    doc = new DOMParser({ locator: {}, errorHandler: { warning: collect, error: collect, fatalError: collect } }).parseFromString(xml, 'text/xml');
+  } catch (error) {
+    errors.push((error as Error).message);
+  }
+  if (!doc?.documentElement && errors.length === 0) errors.push('el documento está vacío.');
+  if (errors.length > 0 || !doc?.documentElement) {
+    throw new ValidationError(`El XML del comprobante no está bien formado: ${errors.join('; ')}`, errors.map((message) => ({ path: '', message })));
+  }
+  return doc.documentElement;
+}
+
+/**
+ * Devuelve la ruta de un elemento desde la raíz del documento (ej: '/factura/detalles/detalle[2]'),
+ * con la posición solo cuando el elemento se repite.
+ */
+function pathOf(element: Element): string {
+  const parent = element.parentNode;
+  if (!parent || parent.nodeType !== 1) return `/${element.nodeName}`;
+  const sameName = children(parent as Element, element.nodeName);
+  const index = sameName.length > 1 ? `[${sameName.indexOf(element) + 1}]` : '';
+  return `${pathOf(parent as Element)}/${element.nodeName}${index}`;
+}
+
+function child(parent: Element | undefined, name: string): Element | undefined {
+  if (!parent) return undefined;
+  return Array.from(parent.childNodes).find((node): node is Element => node.nodeType === 1 && node.nodeName === name);
+}
+
+/**
+ * Devuelve un elemento obligatorio.
+ *
+ * @throws Un `ValidationError` con la ruta del elemento si no existe.
+ */
+function requiredChild(parent: Element, name: string): Element {
+  const element = child(parent, name);
+  if (!element) {
+    throw ValidationError.forField(`${pathOf(parent)}/${name}`, 'el elemento es obligatorio y no está en el XML.');
+  }
+  return element;
+}
+
+function children(parent: Element | undefined, name: string): Element[] {
+  if (!parent) return [];
+  return Array.from(parent.childNodes).filter((node): node is Element => node.nodeType === 1 && node.nodeName === name);
+}
+
+function optText(parent: Element | undefined, name: string): string | undefined {
+  const element = child(parent, name);
+  return element ? element.textContent ?? '' : undefined;
+}
+
+function text(parent: Element, name: string): string {
+  return requiredChild(parent, name).textContent ?? '';
+}
+
+function numberOf(element: Element): number {
+  return Decimal.from(element.textContent ?? '', pathOf(element)).toNumber();
+}
+
+function optNum(parent: Element | undefined, name: string): number | undefined {
+  const element = child(parent, name);
+  return element ? numberOf(element) : undefined;
+}
+
+function num(parent: Element, name: string): number {
+  return numberOf(requiredChild(parent, name));
+}
+
+/**
+ * Elimina las propiedades `undefined` para que el objeto solo contenga los campos presentes en el XML.
+ */
+function compact<T>(value: T): T {
+  if (Array.isArray(value)) return value.map(compact) as T;
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value).filter(([, v]) => v !== undefined).map(([k, v]) => [k, compact(v)]),
+    ) as T;
+  }
+  return value;
+}
+
+/**
+ * Separa el comprobante de la respuesta `<autorizacion>` del SRI, si el XML viene envuelto en ella.
+ */
+function unwrapAuthorization(xml: string): { xml: string; authorization: AuthorizationMetadata | null } {
+  const root = parseDocument(xml);
+  const autorizacion = root.nodeName === 'autorizacion' ? root : root.getElementsByTagName('autorizacion')[0];
+  if (!autorizacion) {
+    return { xml, authorization: null };
+  }
+  return {
+    xml: text(autorizacion, 'comprobante'),
+    authorization: {
+      estado: text(autorizacion, 'estado') as AuthorizationMetadata['estado'],
+      numeroAutorizacion: optText(autorizacion, 'numeroAutorizacion') ?? null,
+      fechaAutorizacion: optText(autorizacion, 'fechaAutorizacion') ?? null,
+      ambiente: optText(autorizacion, 'ambiente') ?? null,
+    },
+  };
+}
+
+/**
+ * Devuelve el XML del comprobante tal como fue firmado, extrayéndolo de la respuesta `<autorizacion>` si es necesario.
+ *
+ * @param xml El XML del comprobante o la respuesta `<autorizacion>` que lo contiene.
+ * @returns El XML del comprobante.
+ */
+export function extractVoucherXml(xml: string): string {
+  return unwrapAuthorization(xml).xml;
+}
+
+/**
+ * Carga el XML, desenvuelve la respuesta de autorización si existe y separa la firma.
+ */
+function loadVoucher<V extends string>(
+  xml: string,
+  rootName: string,
+  versions: readonly V[],
+): { root: Element; version: V; signature: string | null; authorization: AuthorizationMetadata | null } {
+  const unwrapped = unwrapAuthorization(xml);
+  const { authorization } = unwrapped;
+  const root = parseDocument(unwrapped.xml);
+  if (root.nodeName !== rootName) {
+    throw new ValidationError(`El XML no contiene un comprobante <${rootName}>.`);
+  }
+
+  const version = root.getAttribute('version') as V;
+  if (!versions.includes(version)) {
+    throw ValidationError.forField(`/${rootName}/@version`, `versión de ${rootName} no soportada: ${version || '(sin versión)'}.`);
+  }
+
+  const signatureNode = Array.from(root.childNodes)
+    .find((node): node is Element => node.nodeType === 1 && (node as Element).localName === 'Signature');
+  const signature = signatureNode ? new XMLSerializer().serializeToString(signatureNode) : null;
+
+  return { root, version, signature, authorization };
+}
+
+/**
+ * Extrae el código numérico (posiciones 40 a 47) de la clave de acceso.
+ */
+function codigoNumericoOf(taxInfo: TaxInfo): string {
+  return taxInfo.claveAcceso.substring(39, 47);
+}
+
+// ---------------------------------------------------------------------------
+// Bloques comunes
+// ---------------------------------------------------------------------------
+
+function parseTaxInfo(element: Element): TaxInfo {
+  return {
+    ambiente: text(element, 'ambiente') as Ambiente,
+    tipoEmision: text(element, 'tipoEmision') as TipoEmision,
+    razonSocial: text(element, 'razonSocial'),
+    nombreComercial: optText(element, 'nombreComercial'),
+    ruc: text(element, 'ruc'),
+    claveAcceso: text(element, 'claveAcceso'),
+    codDoc: text(element, 'codDoc'),
+    estab: text(element, 'estab'),
+    ptoEmi: text(element, 'ptoEmi'),
+    secuencial: text(element, 'secuencial'),
+    dirMatriz: text(element, 'dirMatriz'),
+    agenteRetencion: optText(element, 'agenteRetencion'),
+    contribuyenteRimpe: optText(element, 'contribuyenteRimpe'),
+  };
+}
+
+function parseTotalTaxes(element: Element | undefined): TotalTax[] {
+  return children(child(element, 'totalConImpuestos'), 'totalImpuesto').map((tax) => ({
+    codigo: text(tax, 'codigo') as CodigoImpuesto,
+    codigoPorcentaje: text(tax, 'codigoPorcentaje'),
+    baseImponible: num(tax, 'baseImponible'),
+    valor: num(tax, 'valor'),
+  }));
+}
+
+function parseTaxes(element: Element | undefined): Tax[] {
+  return children(child(element, 'impuestos'), 'impuesto').map((tax) => ({
+    codigo: text(tax, 'codigo') as CodigoImpuesto,
+    codigoPorcentaje: text(tax, 'codigoPorcentaje'),
+    tarifa: num(tax, 'tarifa'),
+    baseImponible: num(tax, 'baseImponible'),
+    valor: num(tax, 'valor'),
+  }));
+}
+
+function parsePayments(element: Element | undefined): Pago[] {
+  return children(child(element, 'pagos'), 'pago').map((pago) => ({
+    formaPago: text(pago, 'formaPago') as FormaPago,
+    total: num(pago, 'total'),
+    plazo: optNum(pago, 'plazo'),
+    unidadTiempo: optText(pago, 'unidadTiempo'),
+  }));
+}
+
+function parseAdditionalDetails(element: Element): AdditionalDetail[] | undefined {
+  const block = child(element, 'detallesAdicionales');
+  if (!block) return undefined;
+  return children(block, 'detAdicional').map((det) => ({
+    nombre: det.getAttribute('nombre') ?? '',
+    valor: det.getAttribute('valor') ?? '',
+  }));
+}
+
+function parseDetails(root: Element): Detail[] {
+  return children(child(root, 'detalles'), 'detalle').map((detalle) => ({
+    codigoPrincipal: text(detalle, 'codigoPrincipal'),
+    codigoAuxiliar: optText(detalle, 'codigoAuxiliar'),
+    descripcion: text(detalle, 'descripcion'),
+    unidadMedida: optText(detalle, 'unidadMedida'),
+    cantidad: num(detalle, 'cantidad'),
+    precioUnitario: num(detalle, 'precioUnitario'),
+    precioSinSubsidio: optNum(detalle, 'precioSinSubsidio'),
+    descuento: num(detalle, 'descuento'),
+    precioTotalSinImpuesto: num(detalle, 'precioTotalSinImpuesto'),
+    detallesAdicionales: parseAdditionalDetails(detalle),
+    impuestos: parseTaxes(detalle),
+  }));
+}
+
+function parseReimbursements(root: Element): { reembolsoDetalle: ReimbursementDetail[] } | undefined {
+  const block = child(root, 'reembolsos');
+  if (!block) return undefined;
+  return {
+    reembolsoDetalle: children(block, 'reembolsoDetalle').map((detalle) => ({
+      tipoIdentificacionProveedorReembolso: text(detalle, 'tipoIdentificacionProveedorReembolso'),
+      identificacionProveedorReembolso: text(detalle, 'identificacionProveedorReembolso'),
+      codPaisPagoProveedorReembolso: text(detalle, 'codPaisPagoProveedorReembolso'),
+      tipoProveedorReembolso: text(detalle, 'tipoProveedorReembolso') as TipoProveedorReembolso,
+      codDocReembolso: text(detalle, 'codDocReembolso') as TipoComprobanteReembolso,
+      estabDocReembolso: text(detalle, 'estabDocReembolso'),
+      ptoEmiDocReembolso: text(detalle, 'ptoEmiDocReembolso'),
+      secuencialDocReembolso: text(detalle, 'secuencialDocReembolso'),
+      fechaEmisionDocReembolso: text(detalle, 'fechaEmisionDocReembolso'),
+      numeroautorizacionDocReemb: text(detalle, 'numeroautorizacionDocReemb'),
+      detalleImpuestos: {
+        detalleImpuesto: children(child(detalle, 'detalleImpuestos'), 'detalleImpuesto').map((tax) => ({
+          codigo: text(tax, 'codigo'),
+          codigoPorcentaje: text(tax, 'codigoPorcentaje'),
+          tarifa: num(tax, 'tarifa'),
+          baseImponibleReembolso: num(tax, 'baseImponibleReembolso'),
+          impuestoReembolso: num(tax, 'impuestoReembolso'),
+        })),
+      },
+    })),
+  };
+}
+
+function parseAdditionalInfo(root: Element): AdditionalInfo | undefined {
+  const block = child(root, 'infoAdicional');
+  if (!block) return undefined;
+  return {
+    campos: children(block, 'campoAdicional').map((campo) => ({
+      nombre: campo.getAttribute('nombre') ?? '',
+      valor: campo.textContent ?? '',
+    })),
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Comprobantes
+// ---------------------------------------------------------------------------
+
+/**
+ * Convierte el XML de una factura en un objeto `Invoice`.
+ * Los elementos que el modelo no representa (ej: comercio exterior) se ignoran.
+ *
+ * @param xml El XML de la factura, firmado o no, o la respuesta `<autorizacion>` que lo contiene.
+ * @returns La factura, el código numérico de su clave de acceso, la firma y los metadatos de autorización.
+ * @throws Un `ValidationError` si el XML no está bien formado, no es una factura, le falta un elemento obligatorio,
+ * su versión no está soportada o, siendo 1.x, contiene bloques de la versión 2.x.
+ */
+export function parseInvoiceXML(xml: string): ParsedVoucher<Invoice> {
+  const { root, version, signature, authorization } = loadVoucher(xml, 'factura', INVOICE_VERSIONS);
+  const info = requiredChild(root, 'infoFactura');
+  const retenciones = child(root, 'retenciones');
+  const guia = child(root, 'infoSustitutivaGuiaRemision');
+  const rubros = child(root, 'otrosRubrosTerceros');
+
+  const content: InvoiceContent = {
+    infoTributaria: parseTaxInfo(requiredChild(root, 'infoTributaria')),
+    infoFactura: {
+      fechaEmision: text(info, 'fechaEmision'),
+      dirEstablecimiento: text(info, 'dirEstablecimiento'),
+      contribuyenteEspecial: optText(info, 'contribuyenteEspecial'),
+      obligadoContabilidad: text(info, 'obligadoContabilidad') as 'SI' | 'NO',
+      tipoIdentificacionComprador: text(info, 'tipoIdentificacionComprador') as TipoIdentificacionComprador,
+      razonSocialComprador: text(info, 'razonSocialComprador'),
+      identificacionComprador: text(info, 'identificacionComprador'),
+      direccionComprador: optText(info, 'direccionComprador'),
+      totalSinImpuestos: num(info, 'totalSinImpuestos'),
+      totalSubsidio: optNum(info, 'totalSubsidio'),
+      totalDescuento: num(info, 'totalDescuento'),
+      codDocReembolso: optText(info, 'codDocReembolso'),
+      totalComprobantesReembolso: optNum(info, 'totalComprobantesReembolso'),
+      totalBaseImponibleReembolso: optNum(info, 'totalBaseImponibleReembolso'),
+      totalImpuestoReembolso: optNum(info, 'totalImpuestoReembolso'),
+      totalConImpuestos: parseTotalTaxes(info),
+      propina: num(info, 'propina'),
+      importeTotal: num(info, 'importeTotal'),
+      moneda: text(info, 'moneda'),
+      placa: optText(info, 'placa'),
+      pagos: parsePayments(info),
+    },
+    detalles: parseDetails(root),
+    reembolsos: parseReimbursements(root),
+    retenciones: retenciones && {
+      retencion: children(retenciones, 'retencion').map((ret) => ({
+        codigo: text(ret, 'codigo') as RetentionCodeInInvoice,
+        codigoPorcentaje: text(ret, 'codigoPorcentaje'),
+        tarifa: num(ret, 'tarifa'),
+        valor: num(ret, 'valor'),
+      })),
+    },
+    infoSustitutivaGuiaRemision: guia && {
+      dirPartida: text(guia, 'dirPartida'),
+      dirDestinatario: text(guia, 'dirDestinatario'),
+      fechaIniTransporte: text(guia, 'fechaIniTransporte'),
+      fechaFinTransporte: text(guia, 'fechaFinTransporte'),
+      razonSocialTransportista: text(guia, 'razonSocialTransportista'),
+      tipoIdentificacionTransportista: text(guia, 'tipoIdentificacionTransportista'),
+      rucTransportista: text(guia, 'rucTransportista'),
+      placa: text(guia, 'placa'),
+      destinos: {
+        destino: children(child(guia, 'destinos'), 'destino').map((destino) => ({
+          motivoTraslado: text(destino, 'motivoTraslado'),
+          docAduaneroUnico: optText(destino, 'docAduaneroUnico'),
+          codEstabDestino: text(destino, 'codEstabDestino'),
+          ruta: text(destino, 'ruta'),
+        })),
+      },
+    },
+    otrosRubrosTerceros: rubros && {
+      rubro: children(rubros, 'rubro').map((rubro) => ({
+        concepto: text(rubro, 'concepto'),
+        total: num(rubro, 'total'),
+      })),
+    },
+    infoAdicional: parseAdditionalInfo(root),
+  };
+  let invoice: Invoice;
+  if (isInvoiceV2Version(version)) {
+    invoice = { ...content, version };
+  } else {
+    // Un XML 1.x con bloques 2.x no cumple su esquema: se rechaza en lugar de descartar los bloques.
+    const v2Blocks = (['infoSustitutivaGuiaRemision', 'otrosRubrosTerceros'] as const).filter((block) => content[block]);
+    if (v2Blocks.length > 0) {
+      throw new ValidationError(`La factura versión ${version} contiene ${v2Blocks.map((block) => `<${block}>`).join(' y ')}, que solo ${v2Blocks.length > 1 ? 'existen' : 'existe'} en las versiones 2.x.`);
+    }
+    invoice = { ...content, version, infoSustitutivaGuiaRemision: undefined, otrosRubrosTerceros: undefined };
+  }
+  return { voucher: compact(invoice), codigoNumerico: codigoNumericoOf(invoice.infoTributaria), signature, authorization };
+}
+
+/**
+ * Convierte el XML de una nota de crédito en un objeto `CreditNote`.
+ *
+ * @param xml El XML de la nota de crédito, firmado o no, o la respuesta `<autorizacion>` que lo contiene.
+ * @returns La nota de crédito, el código numérico de su clave de acceso, la firma y los metadatos de autorización.
+ * @throws Un `ValidationError` si el XML no está bien formado, no es una nota de crédito, le falta un elemento obligatorio
+ * o su versión no está soportada.
+ */
+export function parseCreditNoteXML(xml: string): ParsedVoucher<CreditNote> {
+  const versions: readonly CreditNoteVersion[] = ['1.0.0', '1.1.0'];
+  const { root, version, signature, authorization } = loadVoucher(xml, 'notaCredito', versions);
+  const info = requiredChild(root, 'infoNotaCredito');
+  const compensaciones = child(info, 'compensaciones');
+
+  const creditNote: CreditNote = {
+    version,
+    infoTributaria: parseTaxInfo(requiredChild(root, 'infoTributaria')),
+    infoNotaCredito: {
+      fechaEmision: text(info, 'fechaEmision'),
+      dirEstablecimiento: optText(info, 'dirEstablecimiento'),
+      tipoIdentificacionComprador: text(info, 'tipoIdentificacionComprador') as TipoIdentificacionComprador,
+      razonSocialComprador: text(info, 'razonSocialComprador'),
+      identificacionComprador: text(info, 'identificacionComprador'),
+      contribuyenteEspecial: optText(info, 'contribuyenteEspecial'),
+      obligadoContabilidad: optText(info, 'obligadoContabilidad') as 'SI' | 'NO' | undefined,
+      rise: optText(info, 'rise'),
+      codDocModificado: text(info, 'codDocModificado'),
+      numDocModificado: text(info, 'numDocModificado'),
+      fechaEmisionDocSustento: text(info, 'fechaEmisionDocSustento'),
+      totalSinImpuestos: num(info, 'totalSinImpuestos'),
+      compensaciones: compensaciones && {
+        compensacion: children(compensaciones, 'compensacion').map((comp) => ({
+          codigo: text(comp, 'codigo'),
+          tarifa: num(comp, 'tarifa'),
+          valor: num(comp, 'valor'),
+        })),
+      },
+      valorModificacion: num(info, 'valorModificacion'),
+      moneda: optText(info, 'moneda'),
+      totalConImpuestos: parseTotalTaxes(info),
+      motivo: text(info, 'motivo'),
+    },
+    detalles: children(child(root, 'detalles'), 'detalle').map((detalle) => ({
+      codigoInterno: optText(detalle, 'codigoInterno'),
+      codigoAdicional: optText(detalle, 'codigoAdicional'),
+      descripcion: text(detalle, 'descripcion'),
+      cantidad: num(detalle, 'cantidad'),
+      precioUnitario: num(detalle, 'precioUnitario'),
+      descuento: optNum(detalle, 'descuento'),
+      precioTotalSinImpuesto: num(detalle, 'precioTotalSinImpuesto'),
+      detallesAdicionales: parseAdditionalDetails(detalle),
+      impuestos: parseTaxes(detalle),
+    })),
+    infoAdicional: parseAdditionalInfo(root),
+  };
+  return { voucher: compact(creditNote), codigoNumerico: codigoNumericoOf(creditNote.infoTributaria), signature, authorization };
+}
+
+/**
+ * Convierte el XML de una nota de débito en un objeto `DebitNote`.
+ *
+ * @param xml El XML de la nota de débito, firmado o no, o la respuesta `<autorizacion>` que lo contiene.
+ * @returns La nota de débito, el código numérico de su clave de acceso, la firma y los metadatos de autorización.
+ * @throws Un `ValidationError` si el XML no está bien formado, no es una nota de débito, le falta un elemento obligatorio
+ * o su versión no está soportada.
+ */
+export function parseDebitNoteXML(xml: string): ParsedVoucher<DebitNote> {
+  const versions: readonly DebitNoteVersion[] = ['1.0.0'];
+  const { root, version, signature, authorization } = loadVoucher(xml, 'notaDebito', versions);
+  const info = requiredChild(root, 'infoNotaDebito');
+
+  const debitNote: DebitNote = {
+    version,
+    infoTributaria: parseTaxInfo(requiredChild(root, 'infoTributaria')),
+    infoNotaDebito: {
+      fechaEmision: text(info, 'fechaEmision'),
+      dirEstablecimiento: optText(info, 'dirEstablecimiento'),
+      tipoIdentificacionComprador: text(info, 'tipoIdentificacionComprador') as TipoIdentificacionComprador,
+      razonSocialComprador: text(info, 'razonSocialComprador'),
+      identificacionComprador: text(info, 'identificacionComprador'),
+      contribuyenteEspecial: optText(info, 'contribuyenteEspecial'),
+      obligadoContabilidad: optText(info, 'obligadoContabilidad') as 'SI' | 'NO' | undefined,
+      rise: optText(info, 'rise'),
+      codDocModificado: text(info, 'codDocModificado'),
+      numDocModificado: text(info, 'numDocModificado'),
+      fechaEmisionDocSustento: text(info, 'fechaEmisionDocSustento'),
+      totalSinImpuestos: num(info, 'totalSinImpuestos'),
+      impuestos: parseTaxes(info),
+      valorTotal: num(info, 'valorTotal'),
+      pagos: child(info, 'pagos') ? parsePayments(info) : undefined,
+    },
+    motivos: children(child(root, 'motivos'), 'motivo').map((motivo) => ({
+      razon: text(motivo, 'razon'),
+      valor: num(motivo, 'valor'),
+    })),
+    infoAdicional: parseAdditionalInfo(root),
+  };
+  return { voucher: compact(debitNote), codigoNumerico: codigoNumericoOf(debitNote.infoTributaria), signature, authorization };
+}
+
+/**
+ * Convierte el XML de un comprobante de retención 2.0.0 en un objeto `RetentionVoucher`.
+ *
+ * @param xml El XML del comprobante de retención, firmado o no, o la respuesta `<autorizacion>` que lo contiene.
+ * @returns El comprobante, el código numérico de su clave de acceso, la firma y los metadatos de autorización.
+ * @throws Un `ValidationError` si el XML no está bien formado, no es un comprobante de retención, le falta un elemento obligatorio
+ * o su versión no está soportada.
+ */
+export function parseRetentionVoucherXML(xml: string): ParsedVoucher<RetentionVoucher> {
+  const versions: readonly RetentionVoucherVersion[] = ['2.0.0'];
+  const { root, version, signature, authorization } = loadVoucher(xml, 'comprobanteRetencion', versions);
+  const info = requiredChild(root, 'infoCompRetencion');
+
+  const voucher: RetentionVoucher = {
+    version,
+    infoTributaria: parseTaxInfo(requiredChild(root, 'infoTributaria')),
+    infoCompRetencion: {
+      fechaEmision: text(info, 'fechaEmision'),
+      dirEstablecimiento: optText(info, 'dirEstablecimiento'),
+      contribuyenteEspecial: optText(info, 'contribuyenteEspecial'),
+      obligadoContabilidad: optText(info, 'obligadoContabilidad') as 'SI' | 'NO' | undefined,
+      tipoIdentificacionSujetoRetenido: text(info, 'tipoIdentificacionSujetoRetenido') as TipoIdentificacionSujetoRetenido,
+      tipoSujetoRetenido: optText(info, 'tipoSujetoRetenido') as TipoSujetoRetenido | undefined,
+      parteRel: text(info, 'parteRel') as 'SI' | 'NO',
+      razonSocialSujetoRetenido: text(info, 'razonSocialSujetoRetenido'),
+      identificacionSujetoRetenido: text(info, 'identificacionSujetoRetenido'),
+      periodoFiscal: text(info, 'periodoFiscal'),
+    },
+    docsSustento: children(child(root, 'docsSustento'), 'docSustento').map((doc) => ({
+      codSustento: text(doc, 'codSustento'),
+      codDocSustento: text(doc, 'codDocSustento'),
+      numDocSustento: text(doc, 'numDocSustento'),
+      fechaEmisionDocSustento: text(doc, 'fechaEmisionDocSustento'),
+      fechaRegistroContable: optText(doc, 'fechaRegistroContable'),
+      numAutDocSustento: optText(doc, 'numAutDocSustento'),
+      pagoLocExt: text(doc, 'pagoLocExt') as '01' | '02',
+      tipoRegi: optText(doc, 'tipoRegi'),
+      paisEfecPago: optText(doc, 'paisEfecPago'),
+      aplicConvDobTrib: optText(doc, 'aplicConvDobTrib') as 'SI' | 'NO' | undefined,
+      pagExtSujRetNorLeg: optText(doc, 'pagExtSujRetNorLeg') as 'SI' | 'NO' | undefined,
+      pagoRegFis: optText(doc, 'pagoRegFis') as 'SI' | 'NO' | undefined,
+      totalComprobantesReembolso: optNum(doc, 'totalComprobantesReembolso'),
+      totalBaseImponibleReembolso: optNum(doc, 'totalBaseImponibleReembolso'),
+      totalImpuestoReembolso: optNum(doc, 'totalImpuestoReembolso'),
+      totalSinImpuestos: num(doc, 'totalSinImpuestos'),
+      importeTotal: num(doc, 'importeTotal'),
+      impuestosDocSustento: children(child(doc, 'impuestosDocSustento'), 'impuestoDocSustento').map((tax) => ({
+        codImpuestoDocSustento: text(tax, 'codImpuestoDocSustento'),
+        codigoPorcentaje: text(tax, 'codigoPorcentaje'),
+        baseImponible: num(tax, 'baseImponible'),
+        tarifa: num(tax, 'tarifa'),
+        valorImpuesto: num(tax, 'valorImpuesto'),
+      })),
+      retenciones: children(child(doc, 'retenciones'), 'retencion').map((ret) => {
+        const dividendos = child(ret, 'dividendos');
+        const compraCajBanano = child(ret, 'compraCajBanano');
+        return {
+          codigo: text(ret, 'codigo') as CodigoImpuestoRetencion,
+          codigoRetencion: text(ret, 'codigoRetencion'),
+          baseImponible: num(ret, 'baseImponible'),
+          porcentajeRetener: num(ret, 'porcentajeRetener'),
+          valorRetenido: num(ret, 'valorRetenido'),
+          dividendos: dividendos && {
+            fechaPagoDiv: text(dividendos, 'fechaPagoDiv'),
+            imRentaSoc: num(dividendos, 'imRentaSoc'),
+            ejerFisUtDiv: text(dividendos, 'ejerFisUtDiv'),
+          },
+          compraCajBanano: compraCajBanano && {
+            numCajBan: num(compraCajBanano, 'numCajBan'),
+            precCajBan: num(compraCajBanano, 'precCajBan'),
+          },
+        };
+      }),
+      pagos: children(child(doc, 'pagos'), 'pago').map((pago) => ({
+        formaPago: text(pago, 'formaPago') as FormaPago,
+        total: num(pago, 'total'),
+      })),
+    })),
+    infoAdicional: parseAdditionalInfo(root),
+  };
+  return { voucher: compact(voucher), codigoNumerico: codigoNumericoOf(voucher.infoTributaria), signature, authorization };
+}
+
+/**
+ * Convierte el XML de una guía de remisión en un objeto `RemissionGuide`.
+ *
+ * @param xml El XML de la guía de remisión, firmado o no, o la respuesta `<autorizacion>` que lo contiene.
+ * @returns La guía, el código numérico de su clave de acceso, la firma y los metadatos de autorización.
+ * @throws Un `ValidationError` si el XML no está bien formado, no es una guía de remisión, le falta un elemento obligatorio
+ * o su versión no está soportada.
+ */
+export function parseRemissionGuideXML(xml: string): ParsedVoucher<RemissionGuide> {
+  const versions: readonly RemissionGuideVersion[] = ['1.0.0', '1.1.0'];
+  const { root, version, signature, authorization } = loadVoucher(xml, 'guiaRemision', versions);
+  const info = requiredChild(root, 'infoGuiaRemision');
+
+  const guide: RemissionGuide = {
+    version,
+    infoTributaria: parseTaxInfo(requiredChild(root, 'infoTributaria')),
+    infoGuiaRemision: {
+      dirEstablecimiento: optText(info, 'dirEstablecimiento'),
+      dirPartida: text(info, 'dirPartida'),
+      razonSocialTransportista: text(info, 'razonSocialTransportista'),
+      tipoIdentificacionTransportista: text(info, 'tipoIdentificacionTransportista'),
+      rucTransportista: text(info, 'rucTransportista'),
+      rise: optText(info, 'rise'),
+      obligadoContabilidad: optText(info, 'obligadoContabilidad') as 'SI' | 'NO' | undefined,
+      contribuyenteEspecial: optText(info, 'contribuyenteEspecial'),
+      fechaIniTransporte: text(info, 'fechaIniTransporte'),
+      fechaFinTransporte: text(info, 'fechaFinTransporte'),
+      placa: text(info, 'placa'),
+    },
+    destinatarios: children(child(root, 'destinatarios'), 'destinatario').map((dest) => ({
+      identificacionDestinatario: text(dest, 'identificacionDestinatario'),
+      razonSocialDestinatario: text(dest, 'razonSocialDestinatario'),
+      dirDestinatario: text(dest, 'dirDestinatario'),
+      motivoTraslado: text(dest, 'motivoTraslado'),
+      docAduaneroUnico: optText(dest, 'docAduaneroUnico'),
+      codEstabDestino: optText(dest, 'codEstabDestino'),
+      ruta: optText(dest, 'ruta'),
+      codDocSustento: optText(dest, 'codDocSustento'),
+      numDocSustento: optText(dest, 'numDocSustento'),
+      numAutDocSustento: optText(dest, 'numAutDocSustento'),
+      fechaEmisionDocSustento: optText(dest, 'fechaEmisionDocSustento'),
+      detalles: children(child(dest, 'detalles'), 'detalle').map((detalle) => ({
+        codigoInterno: optText(detalle, 'codigoInterno'),
+        codigoAdicional: optText(detalle, 'codigoAdicional'),
+        descripcion: text(detalle, 'descripcion'),
+        cantidad: num(detalle, 'cantidad'),
+        detallesAdicionales: parseAdditionalDetails(detalle),
+      })),
+    })),
+    infoAdicional: parseAdditionalInfo(root),
+  };
+  return { voucher: compact(guide), codigoNumerico: codigoNumericoOf(guide.infoTributaria), signature, authorization };
+}
+
+/**
+ * Convierte el XML de una liquidación de compra en un objeto `PurchaseSettlement`.
+ *
+ * @param xml El XML de la liquidación de compra, firmado o no, o la respuesta `<autorizacion>` que lo contiene.
+ * @returns La liquidación, el código numérico de su clave de acceso, la firma y los metadatos de autorización.
+ * @throws Un `ValidationError` si el XML no está bien formado, no es una liquidación de compra, le falta un elemento obligatorio
+ * o su versión no está soportada.
+ */
+export function parsePurchaseSettlementXML(xml: string): ParsedVoucher<PurchaseSettlement> {
+  const versions: readonly PurchaseSettlementVersion[] = ['1.0.0', '1.1.0'];
+  const { root, version, signature, authorization } = loadVoucher(xml, 'liquidacionCompra', versions);
+  const info = requiredChild(root, 'infoLiquidacionCompra');
+
+  const settlement: PurchaseSettlement = {
+    version,
+    infoTributaria: parseTaxInfo(requiredChild(root, 'infoTributaria')),
+    infoLiquidacionCompra: {
+      fechaEmision: text(info, 'fechaEmision'),
+      dirEstablecimiento: optText(info, 'dirEstablecimiento'),
+      contribuyenteEspecial: optText(info, 'contribuyenteEspecial'),
+      obligadoContabilidad: optText(info, 'obligadoContabilidad') as 'SI' | 'NO' | undefined,
+      tipoIdentificacionProveedor: text(info, 'tipoIdentificacionProveedor') as TipoIdentificacionProveedor,
+      razonSocialProveedor: text(info, 'razonSocialProveedor'),
+      identificacionProveedor: text(info, 'identificacionProveedor'),
+      direccionProveedor: optText(info, 'direccionProveedor'),
+      totalSinImpuestos: num(info, 'totalSinImpuestos'),
+      totalDescuento: num(info, 'totalDescuento'),
+      codDocReembolso: optText(info, 'codDocReembolso'),
+      totalComprobantesReembolso: optNum(info, 'totalComprobantesReembolso'),
+      totalBaseImponibleReembolso: optNum(info, 'totalBaseImponibleReembolso'),
+      totalImpuestoReembolso: optNum(info, 'totalImpuestoReembolso'),
+      totalConImpuestos: parseTotalTaxes(info),
+      importeTotal: num(info, 'importeTotal'),
+      moneda: optText(info, 'moneda'),
+      pagos: parsePayments(info),
+    },
+    detalles: parseDetails(root),
+    reembolsos: parseReimbursements(root),
+    infoAdicional: parseAdditionalInfo(root),
+  };
+  return { voucher: compact(settlement), codigoNumerico: codigoNumericoOf(settlement.infoTributaria), signature, authorization };
+}
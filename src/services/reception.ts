@@ -3,14 +3,10 @@
  * @description Servicio para enviar un comprobante electrónico firmado al Web Service de Recepción del SRI.
  */
 
-import axios from 'axios';
 import { DOMParser } from 'xmldom';
 import { Ambiente } from '../baseData/invoice/taxInfo';
-
-const receptionEndpoints = {
-  pruebas: 'https://celcer.sri.gob.ec/comprobantes-electronicos-ws/RecepcionComprobantesOffline?wsdl',
-  produccion: 'https://cel.sri.gob.ec/comprobantes-electronicos-ws/RecepcionComprobantesOffline?wsdl'
-};
+import { SriCommunicationError, SriReceptionError } from './errors';
+import { postSoap, resolveEndpoint, TransportOptions } from './transport';
 
 export interface SriError {
   identificador: string | null;
@@ -21,19 +17,49 @@ export interface SriError {
 
 export interface ReceptionResponse {
   estado: 'RECIBIDA' | 'DEVUELTA';
+  /** Mensajes que acompañan a un comprobante RECIBIDA (normalmente de tipo ADVERTENCIA). */
+  mensajes: SriError[];
 }
 
 /**
- * Envía un comprobante electrónico firmado al Web Service de Recepción del SRI.
+ * Lee los nodos `<mensaje>` de una respuesta del SRI.
+ * Solo se consideran los que tienen `identificador`, ya que el texto también viaja en un `<mensaje>` anidado.
+ */
+export function readSriMessages(parent: Document | Element): SriError[] {
+  return Array.from(parent.getElementsByTagName('mensaje'))
+    .filter(node => node.getElementsByTagName('identificador').length > 0)
+    .map(node => ({
+      identificador: node.getElementsByTagName('identificador')[0]?.textContent || null,
+      mensaje: node.getElementsByTagName('mensaje')[0]?.textContent || null,
+      informacionAdicional: node.getElementsByTagName('informacionAdicional')[0]?.textContent || null,
+      tipo: node.getElementsByTagName('tipo')[0]?.textContent || null,
+    }));
+}
+
+/**
+ * Lee la clave de acceso de un comprobante, o null si el XML no la incluye.
+ */
+export function readAccessKey(xml: string): string | null {
+  return /<claveAcceso>\s*([0-9]{49})\s*<\/claveAcceso>/.exec(xml)?.[1] ?? null;
+}
+
+/**
+ * Envía un documento (comprobante o lote) al Web Service de Recepción y devuelve su estado y la respuesta parseada.
  *
- * @param signedXml El string del XML del comprobante ya firmado digitalmente.
- * @param ambiente El ambiente de destino para la solicitud ('1' para pruebas, '2' para producción).
- * @returns Una promesa que se resuelve con un objeto `ReceptionResponse`.
- * @throws Un error si el comprobante es 'DEVUELTA' o si ocurre un problema de comunicación.
+ * @param xml El XML firmado del comprobante, o el XML del lote.
+ * @param ambiente El ambiente de destino.
+ * @param options Endpoints, timeout, reintentos, limitación de frecuencia y proxy.
+ * @param accessKey La clave de acceso del comprobante o del lote, para los errores.
+ * @throws Un `SriCommunicationError` si ocurre un problema de comunicación o la respuesta no tiene estado.
  */
-export async function sendSignedXml(signedXml: string, ambiente: Ambiente): Promise<ReceptionResponse> {
-  const endpoint = ambiente === '1' ? receptionEndpoints.pruebas : receptionEndpoints.produccion;
-  const xmlBase64 = Buffer.from(signedXml).toString('base64');
+export async function submitToReception(
+  xml: string,
+  ambiente: Ambiente,
+  options: TransportOptions,
+  accessKey: string | null,
+): Promise<{ estado: ReceptionResponse['estado']; doc: Document }> {
+  const endpoint = resolveEndpoint('reception', ambiente, options);
+  const xmlBase64 = Buffer.from(xml).toString('base64');
 
   const soapEnvelope = `
     <soapenv:Envelope xmlns:soapenv="http://schemas.xmlsoap.org/soap/envelope/" xmlns:ec="http://ec.gob.sri.ws.recepcion">
@@ -46,42 +72,34 @@ export async function sendSignedXml(signedXml: string, ambiente: Ambiente): Prom
     </soapenv:Envelope>
   `;
 
-  try {
-    const response = await axios.post(endpoint, soapEnvelope, {
-      headers: { 'Content-Type': 'text/xml;charset=UTF-8', 'SOAPAction': '' }
-    });
+  const responseXml = await postSoap(endpoint, soapEnvelope, 'Recepción', options, accessKey);
+  const doc = new DOMParser().parseFromString(responseXml, 'text/xml');
+  const estadoNode = doc.getElementsByTagName('estado')[0];
 
-    const doc = new DOMParser().parseFromString(response.data, 'text/xml');
-    const estadoNode = doc.getElementsByTagName('estado')[0];
-
-    if (!estadoNode) {
-      throw new Error('Respuesta inválida del SRI (Recepción): No se encontró el campo "estado".');
-    }
-
-    const estado = estadoNode.textContent as 'RECIBIDA' | 'DEVUELTA';
+  if (!estadoNode) {
+    throw new SriCommunicationError('Respuesta inválida del SRI (Recepción): No se encontró el campo "estado".', { attempts: 1, retryable: true, accessKey });
+  }
 
-    if (estado === 'DEVUELTA') {
-      const mensajesNodes = doc.getElementsByTagName('mensaje');
-      const errores: SriError[] = Array.from(mensajesNodes).map(node => ({
-        identificador: node.getElementsByTagName('identificador')[0]?.textContent || null,
-        mensaje: node.getElementsByTagName('mensaje')[0]?.textContent || null,
-        informacionAdicional: node.getElementsByTagName('informacionAdicional')[0]?.textContent || null,
-        tipo: node.getElementsByTagName('tipo')[0]?.textContent || null,
-      }));
-      
-      const errorDetails = errores.map(e => `  - [${e.identificador}] ${e.mensaje} ${e.informacionAdicional || ''}`).join('\n');
-      throw new Error(`El SRI devolvió el comprobante con los siguientes errores:\n${errorDetails}`);
-    }
+  return { estado: estadoNode.textContent as ReceptionResponse['estado'], doc };
+}
 
-    return { estado };
+/**
+ * Envía un comprobante electrónico firmado al Web Service de Recepción del SRI.
+ *
+ * @param signedXml El string del XML del comprobante ya firmado digitalmente.
+ * @param ambiente El ambiente de destino para la solicitud ('1' para pruebas, '2' para producción).
+ * @param options Endpoints, timeout, reintentos, limitación de frecuencia y proxy.
+ * @returns Una promesa que se resuelve con un objeto `ReceptionResponse`.
+ * @throws Un `SriReceptionError` si el comprobante es 'DEVUELTA', o un `SriCommunicationError` si ocurre un problema de comunicación.
+ */
+export async function sendSignedXml(signedXml: string, ambiente: Ambiente, options: TransportOptions = {}): Promise<ReceptionResponse> {
+  const accessKey = readAccessKey(signedXml);
+  const { estado, doc } = await submitToReception(signedXml, ambiente, options, accessKey);
+  const mensajes = readSriMessages(doc);
 
-  } catch (error) {
-    if (axios.isAxiosError(error)) {
-      const faultString = error.response?.data?.match(/<faultstring>(.*?)<\/faultstring>/)?.[1];
-      const detail = faultString ? `\nDetalle del SRI: ${faultString}` : '';
-      throw new Error(`Error en la comunicación con el SRI (Recepción): ${error.message}${detail}`);
-    }
-    // Re-lanzar el error si ya es descriptivo (ej. el de 'DEVUELTA') o uno inesperado
-    throw error;
+  if (estado === 'DEVUELTA') {
+    throw new SriReceptionError(accessKey, mensajes);
   }
+
+  return { estado, mensajes };
 }
@@ -0,0 +1,168 @@
+/**
+ * @file src/services/schemaValidation.ts
+ * @description Validación offline de comprobantes contra los esquemas XSD oficiales del SRI incluidos en la librería,
+ * sin modificar (con `xmldsig-core-schema.xsd` para la firma). Solo se valida una versión cuyo XSD oficial se incluye;
+ * para las demás se lanza un error en lugar de validar con otro esquema. Usa libxml2 compilado a WebAssembly (xmllint-wasm),
+ * por lo que no requiere binarios nativos ni red.
+ */
+
+import { validateXML } from 'xmllint-wasm';
+import { DOMParser } from 'xmldom';
+import { readOfficialSchema, XMLDSIG_SCHEMA_FILE } from '../schemas/official';
+import { ValidationError } from './errors';
+
+/**
+ * Tipo de comprobante a validar, identificado por el nombre de su elemento raíz.
+ */
+export type VoucherDocType =
+  | 'factura'
+  | 'notaCredito'
+  | 'notaDebito'
+  | 'comprobanteRetencion'
+  | 'guiaRemision'
+  | 'liquidacionCompra';
+
+/**
+ * Una violación del esquema XSD.
+ */
+export interface SchemaViolation {
+  /** Mensaje de libxml2, sin el nombre de archivo, la línea ni el prefijo 'Schemas validity error'. */
+  message: string;
+  /** Línea del XML donde se detectó la violación (null si no se pudo determinar). */
+  line: number | null;
+  /** Ruta del elemento afectado (ej: '/factura/detalles/detalle[2]/cantidad'), o null si no se pudo determinar. */
+  path: string | null;
+}
+
+/**
+ * Resultado de validar un comprobante contra su esquema XSD.
+ */
+export interface SchemaValidationResult {
+  /** `true` si el XML cumple el esquema. */
+  valid: boolean;
+  /** Todas las violaciones encontradas (vacío si el XML es válido). */
+  errors: SchemaViolation[];
+}
+
+/**
+ * Archivos XSD oficiales del SRI incluidos en la librería, por tipo de comprobante y versión. Cada versión se valida
+ * solo con su propio archivo: la factura 1.0.0 y 2.x, la nota de crédito, la guía de remisión y la liquidación de
+ * compra 1.0.0 no tienen uno incluido.
+ */
+const SCHEMA_FILES: Record<VoucherDocType, Record<string, string>> = {
+  factura: { '1.1.0': 'factura_V1.1.0.xsd' },
+  notaCredito: { '1.1.0': 'NotaCredito_V1.1.0.xsd' },
+  notaDebito: { '1.0.0': 'NotaDebito_V1.0.0.xsd' },
+  comprobanteRetencion: { '2.0.0': 'ComprobanteRetencion_V2.0.0.xsd' },
+  guiaRemision: { '1.1.0': 'GuiaRemision_V1.1.0.xsd' },
+  liquidacionCompra: { '1.1.0': 'LiquidacionCompra_V1.1.0.xsd' },
+};
+
+function findSchema(docType: VoucherDocType, version: string): string {
+  const fileName = SCHEMA_FILES[docType]?.[version];
+  if (!fileName) {
+    const available = Object.keys(SCHEMA_FILES[docType] ?? {}).join(', ') || 'ninguna';
+    throw new ValidationError(`La librería no incluye el XSD oficial del SRI para ${docType} versión ${version} (versiones disponibles: ${available}).`);
+  }
+  return fileName;
+}
+
+/**
+ * Devuelve el esquema XSD incluido en la librería para un tipo de comprobante y versión.
+ * Los esquemas importan `xmldsig-core-schema.xsd`, que se incluye junto a ellos.
+ *
+ * @param docType El tipo de comprobante (nombre del elemento raíz).
+ * @param version La versión del comprobante (ej: '2.1.0').
+ * @returns El documento XSD como texto.
+ * @throws Un `ValidationError` si la librería no incluye el XSD oficial para esa combinación.
+ */
+export function getSchema(docType: VoucherDocType, version: string): string {
+  return readOfficialSchema(findSchema(docType, version));
+}
+
+interface ElementLocation {
+  name: string;
+  line: number;
+  path: string;
+}
+
+/**
+ * Recorre el XML y registra la línea y la ruta de cada elemento, para ubicar los errores de libxml2.
+ */
+function locateElements(xml: string): ElementLocation[] {
+  const locations: ElementLocation[] = [];
+  // Los errores de sintaxis ya los reporta libxml2; aquí se ignoran.
+  const doc = new DOMParser({ locator: {}, errorHandler: () => undefined }).parseFromString(xml, 'text/xml');
+  const visit = (element: Element, path: string): void => {
+    locations.push({ name: element.localName || element.nodeName, line: (element as unknown as { lineNumber: number }).lineNumber, path });
+    const children = Array.from(element.childNodes).filter((node): node is Element => node.nodeType === 1);
+    children.forEach((child) => {
+      const sameName = children.filter((sibling) => sibling.nodeName === child.nodeName);
+      const index = sameName.length > 1 ? `[${sameName.indexOf(child) + 1}]` : '';
+      visit(child, `${path}/${child.nodeName}${index}`);
+    });
+  };
+  if (doc && doc.documentElement) {
+    visit(doc.documentElement, `/${doc.documentElement.nodeName}`);
+  }
+  return locations;
+}
+
+/**
+ * Valida un comprobante contra el XSD oficial del SRI de su tipo y versión, sin conexión al SRI.
+ * Devuelve todas las violaciones, cada una con su línea y la ruta del elemento afectado.
+ *
+ * @param xml El XML del comprobante (firmado o sin firmar).
+ * @param docType El tipo de comprobante (nombre del elemento raíz).
+ * @param version La versión del comprobante (ej: '2.1.0').
+ * @returns El resultado de la validación.
+ * @throws Un `ValidationError` si la librería no incluye el XSD oficial para esa combinación.
+ */
+export async function validateXmlAgainstSchema(xml: string, docType: VoucherDocType, version: string): Promise<SchemaValidationResult> {
+  const schemaFile = findSchema(docType, version);
+  const xmlFileName = `${docType}.xml`;
+  const result = await validateXML({
+    xml: { fileName: xmlFileName, contents: xml },
+    schema: { fileName: schemaFile, contents: readOfficialSchema(schemaFile) },
+    preload: [{ fileName: XMLDSIG_SCHEMA_FILE, contents: readOfficialSchema(XMLDSIG_SCHEMA_FILE) }],
+  });
+  if (result.valid) {
+    return { valid: true, errors: [] };
+  }
+
+  const locations = locateElements(xml);
+  // libxml2 también informa avisos sobre los propios XSD (ej: "Unsupported version '1.1'" en la declaración XML de
+  // algunos archivos oficiales) y líneas de contexto sin ubicación; solo interesan los errores del comprobante.
+  const xmlErrors = result.errors.filter((error) => error.loc?.fileName === xmlFileName);
+  const errors = (xmlErrors.length > 0 ? xmlErrors : result.errors).map((error): SchemaViolation => {
+    const line = error.loc ? error.loc.lineNumber : null;
+    const elementName = /Element '(?:\{[^}]*\})?([^']+)'/.exec(error.message)?.[1];
+    const onLine = locations.filter((location) => location.line === line);
+    const element = onLine.find((location) => location.name === elementName) ?? onLine[0];
+    const message = error.message.replace(/^\s*Schemas (validity|parser) error\s*:\s*/, '').trim();
+    return { message, line, path: element ? element.path : null };
+  });
+  return { valid: false, errors };
+}
+
+/**
+ * Valida un comprobante contra su esquema XSD y lanza un error con todas las violaciones si no lo cumple.
+ *
+ * @param xml El XML del comprobante.
+ * @param docType El tipo de comprobante (nombre del elemento raíz).
+ * @param version La versión del comprobante.
+ * @throws Un `ValidationError` que enumera cada violación con su línea y ruta, o si la librería no incluye el XSD
+ * oficial para esa combinación.
+ */
+export async function assertValidSchema(xml: string, docType: VoucherDocType, version: string): Promise<void> {
+  const { valid, errors } = await validateXmlAgainstSchema(xml, docType, version);
+  if (!valid) {
+    const details = errors
+      .map((error) => `- línea ${error.line ?? '?'}${error.path ? ` (${error.path})` : ''}: ${error.message}`)
+      .join('\n');
+    throw new ValidationError(
+      `El XML no cumple el esquema XSD de ${docType} versión ${version}:\n${details}`,
+      errors.map((error) => ({ path: error.path ?? '', message: error.message, line: error.line ?? undefined })),
+    );
+  }
+}
@@ -0,0 +1,231 @@
+/**
+ * @file src/services/sequence.ts
+ * @description Asignación de secuenciales por emisor, tipo de comprobante, establecimiento y punto de emisión.
+ * Cada secuencial se asigna de forma atómica, sin saltos, incluso entre varios procesos que comparten el archivo.
+ */
+
+import { randomUUID } from 'crypto';
+import { promises as fsp } from 'fs';
+import { TaxInfo } from '../baseData/invoice/taxInfo';
+import { OpenFacturaError } from './errors';
+
+/**
+ * Identifica una secuencia: el SRI exige secuenciales únicos por RUC, codDoc, estab y ptoEmi.
+ */
+export interface SequenceKey {
+  ruc: string;
+  codDoc: string;
+  estab: string;
+  ptoEmi: string;
+}
+
+/**
+ * Proveedor de secuenciales. Puede implementarse sobre una base de datos (ej: una fila por secuencia con `UPDATE ... RETURNING`).
+ */
+export interface SequenceProvider {
+  /** Asigna el siguiente secuencial de 9 dígitos (ej: '000000124'). */
+  next(key: SequenceKey): Promise<string>;
+  /** Devuelve el último secuencial asignado, o null si la secuencia no se ha usado. */
+  current(key: SequenceKey): Promise<string | null>;
+  /**
+   * (Opcional) Devuelve a la secuencia un secuencial asignado que no llegó a usarse (ej: falló la generación o la firma).
+   * Solo debe retroceder la secuencia si `sequential` sigue siendo el último asignado.
+   *
+   * @returns `true` si el secuencial se liberó.
+   */
+  release?(key: SequenceKey, sequential: string): Promise<boolean>;
+}
+
+/**
+ * Opciones de `createFileSequenceProvider`.
+ */
+export interface FileSequenceOptions {
+  /** Último secuencial ya emitido por secuencia, para continuar una numeración existente (ej: `{ '1790011674001-01-001-001': 123 }`). */
+  initial?: Record<string, number>;
+  /** Tiempo máximo de espera por el bloqueo del archivo, en milisegundos. Por defecto 10000. */
+  lockTimeoutMs?: number;
+  /** Antigüedad a partir de la cual un bloqueo se considera abandonado, en milisegundos. Por defecto 30000. */
+  staleLockMs?: number;
+}
+
+/**
+ * Datos de un comprobante cuyo `infoTributaria.secuencial` puede omitirse para que lo asigne un `SequenceProvider`.
+ */
+export type WithOptionalSequential<T extends { infoTributaria: TaxInfo }> = T extends unknown
+  ? Omit<T, 'infoTributaria'> & { infoTributaria: Omit<T['infoTributaria'], 'secuencial'> & { secuencial?: string } }
+  : never;
+
+const MAX_SEQUENTIAL = 999_999_999;
+
+const sleep = (ms: number) => new Promise<void>((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Devuelve el nombre de una secuencia (ej: '1790011674001-01-001-001').
+ */
+export function sequenceName(key: SequenceKey): string {
+  return `${key.ruc}-${key.codDoc}-${key.estab}-${key.ptoEmi}`;
+}
+
+/**
+ * Devuelve la secuencia de un comprobante a partir de su bloque <infoTributaria>.
+ */
+export function sequenceKeyOf(taxInfo: Pick<TaxInfo, 'ruc' | 'codDoc' | 'estab' | 'ptoEmi'>): SequenceKey {
+  return { ruc: taxInfo.ruc, codDoc: taxInfo.codDoc, estab: taxInfo.estab, ptoEmi: taxInfo.ptoEmi };
+}
+
+function formatSequential(key: SequenceKey, value: number): string {
+  if (value > MAX_SEQUENTIAL) {
+    throw new OpenFacturaError(`La secuencia ${sequenceName(key)} superó el secuencial máximo (${MAX_SEQUENTIAL}).`);
+  }
+  return value.toString().padStart(9, '0');
+}
+
+/**
+ * Crea un proveedor de secuenciales en memoria (útil para pruebas o un único proceso sin persistencia).
+ *
+ * @param initial Último secuencial ya emitido por secuencia.
+ */
+export function createMemorySequenceProvider(initial: Record<string, number> = {}): SequenceProvider {
+  const counters = new Map(Object.entries(initial));
+  return {
+    async next(key) {
+      const name = sequenceName(key);
+      const value = (counters.get(name) ?? 0) + 1;
+      const sequential = formatSequential(key, value);
+      counters.set(name, value);
+      return sequential;
+    },
+    async current(key) {
+      const value = counters.get(sequenceName(key));
+      return value === undefined ? null : formatSequential(key, value);
+    },
+    async release(key, sequential) {
+      const name = sequenceName(key);
+      if (counters.get(name) !== Number(sequential)) return false;
+      counters.set(name, Number(sequential) - 1);
+      return true;
+    },
+  };
+}
+
+/**
+ * Crea un proveedor de secuenciales persistido en un archivo JSON local.
+ * Cada asignación toma un bloqueo exclusivo (`<archivo>.lock`), lee el archivo, incrementa la secuencia
+ * y lo reemplaza de forma atómica, de modo que varios procesos (ej: varias cajas en el mismo servidor)
+ * nunca reciben el mismo secuencial.
+ *
+ * @param file La ruta del archivo de secuencias; se crea si no existe.
+ * @param options Numeración inicial y tiempos del bloqueo.
+ */
+export function createFileSequenceProvider(file: string, options: FileSequenceOptions = {}): SequenceProvider {
+  const lockFile = `${file}.lock`;
+  const lockTimeoutMs = options.lockTimeoutMs ?? 10000;
+  const staleLockMs = options.staleLockMs ?? 30000;
+  // Serializa las asignaciones del mismo proceso para no competir por el bloqueo consigo mismo.
+  let queue: Promise<unknown> = Promise.resolve();
+
+  const read = async (): Promise<Record<string, number>> => {
+    try {
+      return { ...options.initial, ...JSON.parse(await fsp.readFile(file, 'utf8')) };
+    } catch (error: any) {
+      if (error.code === 'ENOENT') return { ...options.initial };
+      throw error;
+    }
+  };
+
+  /**
+   * Retira el bloqueo solo si su contenido es `token`. El archivo se renombra primero a un nombre único,
+   * de modo que entre varios procesos solo uno lo retira; si resulta ser el bloqueo de otro (ej: otro proceso
+   * lo descartó por abandonado y tomó uno nuevo), se restaura sin sobrescribir un bloqueo tomado entretanto.
+   *
+   * @returns `true` si el bloqueo se retiró.
+   */
+  const removeLock = async (token: string): Promise<boolean> => {
+    const taken = `${lockFile}.${process.pid}.${randomUUID()}`;
+    try {
+      await fsp.rename(lockFile, taken);
+    } catch (error: any) {
+      if (error.code === 'ENOENT') return false;
+      throw error;
+    }
+    try {
+      if (await fsp.readFile(taken, 'utf8') === token) return true;
+      await fsp.link(taken, lockFile).catch((error) => {
+        if (error.code !== 'EEXIST') throw error;
+      });
+      return false;
+    } finally {
+      await fsp.rm(taken, { force: true });
+    }
+  };
+
+  const withLock = async <T>(action: () => Promise<T>): Promise<T> => {
+    const token = `${process.pid}-${randomUUID()}`;
+    const deadline = Date.now() + lockTimeoutMs;
+    for (;;) {
+      try {
+        await fsp.writeFile(lockFile, token, { flag: 'wx' });
+        break;
+      } catch (error: any) {
+        if (error.code !== 'EEXIST') throw error;
+        const stat = await fsp.stat(lockFile).catch(() => null);
+        if (stat && Date.now() - stat.mtimeMs > staleLockMs) {
+          const staleToken = await fsp.readFile(lockFile, 'utf8').catch(() => null);
+          if (staleToken !== null) await removeLock(staleToken);
+          continue;
+        }
+        if (Date.now() > deadline) {
+          throw new OpenFacturaError(`No se pudo obtener el bloqueo del archivo de secuencias ${lockFile} en ${lockTimeoutMs} ms.`, { retryable: true });
+        }
+        await sleep(10 + Math.random() * 40);
+      }
+    }
+    try {
+      return await action();
+    } finally {
+      // Si el bloqueo se descartó por abandonado, el archivo puede ser ya el bloqueo de otro proceso.
+      await removeLock(token);
+    }
+  };
+
+  const serialize = <T>(action: () => Promise<T>): Promise<T> => {
+    const result = queue.then(action, action);
+    queue = result.catch(() => undefined);
+    return result;
+  };
+
+  const write = async (counters: Record<string, number>): Promise<void> => {
+    const temp = `${file}.${process.pid}.tmp`;
+    await fsp.writeFile(temp, JSON.stringify(counters, null, 2));
+    await fsp.rename(temp, file);
+  };
+
+  return {
+    next(key) {
+      return serialize(() => withLock(async () => {
+        const counters = await read();
+        const name = sequenceName(key);
+        const value = (counters[name] ?? 0) + 1;
+        const sequential = formatSequential(key, value);
+        counters[name] = value;
+        await write(counters);
+        return sequential;
+      }));
+    },
+    async current(key) {
+      const value = (await read())[sequenceName(key)];
+      return value === undefined ? null : formatSequential(key, value);
+    },
+    release(key, sequential) {
+      return serialize(() => withLock(async () => {
+        const counters = await read();
+        const name = sequenceName(key);
+        // Si otro proceso ya asignó un secuencial posterior, retroceder produciría un duplicado.
+        if (counters[name] !== Number(sequential)) return false;
+        counters[name] = Number(sequential) - 1;
+        await write(counters);
+        return true;
+      }));
+    },
+  };
+}
@@ -0,0 +1,224 @@
+/**
+ * @file src/services/signatureVerification.ts
+ * @description Verificación de la firma XAdES-BES de un comprobante firmado o autorizado.
+ * Comprueba el digest de la referencia `#comprobante`, el valor de la firma y el certificado X509 incluido,
+ * y devuelve un resultado estructurado en lugar de lanzar errores.
+ */
+
+import { SignedXml } from 'xadesjs';
+import { DOMParser } from 'xmldom';
+import * as forge from 'node-forge';
+import { extractVoucherXml } from './parseVoucher';
+import { readCertificateInfo } from './certificate';
+import { useCryptoEngine } from '../utils/cryptoEngine';
+
+const XMLDSIG_NS = 'http://www.w3.org/2000/09/xmldsig#';
+
+/**
+ * Datos del certificado del firmante.
+ */
+export interface SignerCertificate {
+  /** Sujeto del certificado (ej: 'CN=JUAN PEREZ, SERIALNUMBER=..., C=EC'). */
+  subject: string;
+  /** Emisor del certificado (la entidad de certificación). */
+  issuer: string;
+  /** Número de serie en hexadecimal. */
+  serialNumber: string;
+  /** RUC del titular, tomado de las extensiones de las entidades de certificación ecuatorianas o del sujeto. */
+  ruc: string | null;
+  /** Inicio de la vigencia del certificado. */
+  validFrom: Date;
+  /** Fin de la vigencia del certificado. */
+  validTo: Date;
+}
+
+/**
+ * Resultado de verificar la firma de un comprobante.
+ */
+export interface SignatureVerificationResult {
+  /** `true` si el digest, el valor de la firma y el certificado son válidos. */
+  valid: boolean;
+  /** `true` si el digest de la referencia `#comprobante` (y de las demás referencias) coincide con el contenido. */
+  digestValid: boolean;
+  /** `true` si el valor de la firma corresponde a la clave pública del certificado incluido. */
+  signatureValid: boolean;
+  /** `true` si el certificado estaba vigente al momento de la firma. */
+  certificateValid: boolean;
+  /** El certificado del firmante, o null si no se encontró o no se pudo leer. */
+  certificate: SignerCertificate | null;
+  /** Fecha de firma declarada en las propiedades XAdES (SigningTime), o null si no existe. */
+  signingTime: Date | null;
+  /** Descripción de cada problema encontrado (vacío si la firma es válida). */
+  errors: string[];
+}
+
+/**
+ * Algoritmos de digest admitidos en SigningCertificate.
+ */
+const DIGEST_ALGORITHMS: Record<string, { create(): forge.md.MessageDigest }> = {
+  'http://www.w3.org/2000/09/xmldsig#sha1': forge.md.sha1,
+  'http://www.w3.org/2001/04/xmlenc#sha256': forge.md.sha256,
+  'http://www.w3.org/2001/04/xmlenc#sha512': forge.md.sha512,
+};
+
+/**
+ * Expone las comprobaciones internas de xmldsigjs para poder informar cada una por separado.
+ */
+class VerifiableSignedXml extends SignedXml {
+  /**
+   * Recalcula el digest de cada referencia y devuelve un mensaje por cada una que no coincide.
+   */
+  async checkReferences(content: Element): Promise<string[]> {
+    const errors: string[] = [];
+    for (const reference of this.XmlSignature.SignedInfo.References.GetIterator()) {
+      const digest = Buffer.from(await this.DigestReference(content.cloneNode(true) as Element, reference, false)).toString('base64');
+      const expected = reference.DigestValue ? Buffer.from(reference.DigestValue).toString('base64') : '';
+      if (digest !== expected) {
+        errors.push(`El digest de la referencia '${reference.Uri}' no coincide: calculado ${digest}, declarado ${expected}.`);
+      }
+    }
+    return errors;
+  }
+
+  /**
+   * Verifica el valor de la firma con las claves públicas del KeyInfo.
+   */
+  async checkSignatureValue(): Promise<boolean> {
+    return this.ValidateSignatureValue(await this.GetPublicKeys());
+  }
+}
+
+/**
+ * Lee un XML y devuelve el documento, o los mensajes de xmldom si no está bien formado
+ * (xmldom informa algunas etiquetas sin cerrar solo como advertencias, por lo que también se tienen en cuenta).
+ */
+function parseXml(xml: string): { doc: Document | null; errors: string[] } {
+  const errors: string[] = [];
+  const collect = (message: string) => errors.push(message
+    .replace(/^\[xmldom [a-z ]+\]\s*/i, '')
+    .replace(/\s*@#\[line:(\d+),col:(\d+)\]/, ' (línea $1, columna $2)')
+    .replace(/\s*@#\[line:[^\]]*\]/, '')
+    .trim());
+  let doc: Document | undefined;
+  try {
+    doc = new DOMParser({ locator: {}, errorHandler: { warning: collect, error: collect, fatalError: collect } }).parseFromString(xml, 'text/xml');
+  } catch (error) {
+    errors.push((error as Error).message);
+  }
+  if (!doc?.documentElement && errors.length === 0) errors.push('el documento está vacío.');
+  return { doc: doc?.documentElement && errors.length === 0 ? doc : null, errors };
+}
+
+function readCertificate(base64: string): { info: SignerCertificate; der: string } {
+  const { subject, issuer, serialNumber, ruc, validFrom, validTo } = readCertificateInfo(base64);
+  return { der: forge.util.decode64(base64), info: { subject, issuer, serialNumber, ruc, validFrom, validTo } };
+}
+
+/**
+ * Verifica la firma XAdES-BES de un comprobante.
+ * Nunca lanza errores: cualquier problema (XML mal formado, firma ausente, digest alterado, certificado ilegible o vencido)
+ * se informa en `errors` y en el indicador correspondiente.
+ *
+ * La cadena de confianza del certificado (entidad de certificación, revocación) no se verifica.
+ *
+ * @param xml El XML firmado, o la respuesta `<autorizacion>` del SRI que lo contiene.
+ * @returns El resultado de la verificación.
+ */
+export async function verifySignedXML(xml: string): Promise<SignatureVerificationResult> {
+  const result: SignatureVerificationResult = {
+    valid: false,
+    digestValid: false,
+    signatureValid: false,
+    certificateValid: false,
+    certificate: null,
+    signingTime: null,
+    errors: [],
+  };
+
+  // Se lee primero el XML recibido y luego el comprobante que contiene, si es una respuesta <autorizacion>.
+  let parsed = parseXml(xml);
+  if (parsed.doc) {
+    try {
+      parsed = parseXml(extractVoucherXml(xml));
+    } catch (error) {
+      // Una respuesta <autorizacion> sin <comprobante>.
+      parsed = { doc: null, errors: [(error as Error).message] };
+    }
+  }
+  const { doc } = parsed;
+  if (!doc) {
+    result.errors.push(...parsed.errors.map((message) => `El XML no está bien formado: ${message}`));
+    return result;
+  }
+  const root = doc.documentElement;
+  const signatureElement = root && Array.from(root.getElementsByTagNameNS(XMLDSIG_NS, 'Signature'))
+    .find((element) => element.parentNode === root);
+  if (!signatureElement) {
+    result.errors.push('El comprobante no contiene una firma <ds:Signature>.');
+    return result;
+  }
+
+  useCryptoEngine();
+  const signedXml = new VerifiableSignedXml(doc);
+  try {
+    signedXml.LoadXml(signatureElement);
+  } catch (error: any) {
+    result.errors.push(`La firma no tiene una estructura válida: ${error.message}`);
+    return result;
+  }
+
+  const references = Array.from(signedXml.XmlSignature.SignedInfo.References.GetIterator());
+  if (!references.some((reference) => reference.Uri === '#comprobante')) {
+    result.errors.push("La firma no incluye una referencia a '#comprobante'.");
+  }
+  try {
+    const digestErrors = await signedXml.checkReferences(root);
+    result.errors.push(...digestErrors);
+    result.digestValid = digestErrors.length === 0 && references.some((reference) => reference.Uri === '#comprobante');
+  } catch (error: any) {
+    result.errors.push(`No se pudo calcular el digest de las referencias: ${error.message}`);
+  }
+
+  try {
+    result.signatureValid = await signedXml.checkSignatureValue();
+    if (!result.signatureValid) {
+      result.errors.push('El valor de la firma no corresponde a la clave pública del certificado.');
+    }
+  } catch (error: any) {
+    result.errors.push(`No se pudo verificar el valor de la firma: ${error.message}`);
+  }
+
+  const signingTime = signedXml.Properties?.SignedProperties.SignedSignatureProperties.SigningTime.Value;
+  result.signingTime = signingTime instanceof Date && !isNaN(signingTime.getTime()) ? signingTime : null;
+
+  const certificateBase64 = signatureElement.getElementsByTagNameNS(XMLDSIG_NS, 'X509Certificate')[0]?.textContent;
+  if (!certificateBase64) {
+    result.errors.push('La firma no incluye el certificado X509 del firmante.');
+  } else {
+    try {
+      const { info, der } = readCertificate(certificateBase64.replace(/\s+/g, ''));
+      result.certificate = info;
+      const at = result.signingTime ?? new Date();
+      result.certificateValid = at >= info.validFrom && at <= info.validTo;
+      if (!result.certificateValid) {
+        result.errors.push(`El certificado no estaba vigente el ${at.toISOString()} (vigencia: ${info.validFrom.toISOString()} a ${info.validTo.toISOString()}).`);
+      }
+
+      const signingCertificates = signedXml.Properties?.SignedProperties.SignedSignatureProperties.SigningCertificate;
+      if (signingCertificates && signingCertificates.Count > 0) {
+        const certDigest = signingCertificates.Item(0)?.CertDigest;
+        const md = certDigest && DIGEST_ALGORITHMS[certDigest.DigestMethod.Algorithm];
+        const digest = md ? md.create().update(der).digest().getBytes() : '';
+        if (!certDigest?.DigestValue || forge.util.encode64(digest) !== Buffer.from(certDigest.DigestValue).toString('base64')) {
+          result.certificateValid = false;
+          result.errors.push('El digest de SigningCertificate no corresponde al certificado incluido.');
+        }
+      }
+    } catch (error: any) {
+      result.errors.push(`No se pudo leer el certificado X509: ${error.message}`);
+    }
+  }
+
+  result.valid = result.digestValid && result.signatureValid && result.certificateValid;
+  return result;
+}
@@ -0,0 +1,158 @@
+/**
+ * @file src/services/signers.ts
+ * @description Firmantes intercambiables para `signXML` y `OpenFactura`. Un `Signer` expone el certificado
+ * y firma el digest del SignedInfo, de modo que la clave privada puede vivir en un .p12 en memoria,
+ * en archivos PEM o en un almacén externo (HSM, KMS) al que solo se envía el digest.
+ */
+
+import * as forge from 'node-forge';
+import { SigningError } from './errors';
+
+/**
+ * Algoritmo de digest usado en las referencias, en SigningCertificate y en la firma RSA.
+ */
+export type SignatureAlgorithm = 'SHA-1' | 'SHA-256';
+
+/**
+ * Firmante de comprobantes. La firma es RSA PKCS#1 v1.5 sobre el digest recibido.
+ */
+export interface Signer {
+  /** Certificado X509 del firmante, en DER codificado en base64. */
+  readonly certificate: string;
+  /**
+   * Firma el digest del SignedInfo canonicalizado.
+   * @param digest El digest (20 bytes con SHA-1, 32 con SHA-256).
+   * @param algorithm El algoritmo con el que se calculó el digest.
+   * @returns La firma RSA PKCS#1 v1.5 (DigestInfo + digest).
+   */
+  signDigest(digest: Uint8Array, algorithm: SignatureAlgorithm): Promise<Uint8Array>;
+}
+
+/**
+ * Función que firma un digest en un almacén externo de claves.
+ */
+export type DigestSigningCallback = (digest: Uint8Array, algorithm: SignatureAlgorithm) => Promise<Uint8Array> | Uint8Array;
+
+const FORGE_DIGEST_NAMES: Record<SignatureAlgorithm, string> = {
+  'SHA-1': 'sha1',
+  'SHA-256': 'sha256',
+};
+
+function certificateToBase64(certificate: forge.pki.Certificate): string {
+  return forge.util.encode64(forge.asn1.toDer(forge.pki.certificateToAsn1(certificate)).getBytes());
+}
+
+/**
+ * Acepta un certificado en PEM o en DER codificado en base64 y lo devuelve en base64.
+ */
+function normalizeCertificate(certificate: string): string {
+  try {
+    if (certificate.includes('-----BEGIN CERTIFICATE-----')) {
+      return certificateToBase64(forge.pki.certificateFromPem(certificate));
+    }
+    const base64 = certificate.replace(/\s+/g, '');
+    forge.pki.certificateFromAsn1(forge.asn1.fromDer(forge.util.decode64(base64)));
+    return base64;
+  } catch (error: any) {
+    throw new SigningError(`El certificado no es un X509 válido en PEM o base64: ${error.message}`, error);
+  }
+}
+
+/**
+ * Crea un firmante a partir de una clave privada RSA de node-forge.
+ */
+function forgeKeySigner(privateKey: forge.pki.rsa.PrivateKey, certificate: string): Signer {
+  return {
+    certificate,
+    async signDigest(digest, algorithm) {
+      // node-forge solo necesita el nombre del algoritmo y los bytes del digest para armar el DigestInfo.
+      const md = {
+        algorithm: FORGE_DIGEST_NAMES[algorithm],
+        digest: () => forge.util.createBuffer(Buffer.from(digest).toString('binary')),
+      } as unknown as forge.md.MessageDigest;
+      return new Uint8Array(Buffer.from(privateKey.sign(md), 'binary'));
+    },
+  };
+}
+
+/**
+ * Crea un firmante a partir de un certificado PKCS#12 (.p12/.pfx) en memoria.
+ * El archivo se lee una sola vez, al crear el firmante.
+ *
+ * @param p12 El contenido del .p12 como `Buffer` o codificado en base64.
+ * @param password La contraseña del certificado.
+ * @returns El firmante.
+ * @throws Un error si la contraseña es incorrecta o el archivo no contiene certificado y clave privada.
+ */
+export function createP12Signer(p12: Buffer | string, password: string): Signer {
+  const p12Buffer = typeof p12 === 'string' ? Buffer.from(p12, 'base64') : p12;
+  let parsed: forge.pkcs12.Pkcs12Pfx;
+  try {
+    const p12Asn1 = forge.asn1.fromDer(forge.util.createBuffer(p12Buffer.toString('binary')));
+    parsed = forge.pkcs12.pkcs12FromAsn1(p12Asn1, password);
+  } catch (error: any) {
+    if (/mac (verify|could not be verified)/i.test(error.message ?? '')) {
+      throw new SigningError('La contraseña del certificado es incorrecta o el archivo P12 está dañado.', error);
+    }
+    throw new SigningError(`No se pudo leer el archivo P12: ${error.message}`, error);
+  }
+
+  // Extraer el certificado del certBag y la clave privada del bag PKCS#8 (o del keyBag PKCS#1 como respaldo)
+  const certBagArray = parsed.getBags({ bagType: forge.pki.oids.certBag })[forge.pki.oids.certBag];
+  const keyBagArray = parsed.getBags({ bagType: forge.pki.oids.pkcs8ShroudedKeyBag })[forge.pki.oids.pkcs8ShroudedKeyBag];
+  const altKeyBagArray = parsed.getBags({ bagType: forge.pki.oids.keyBag })[forge.pki.oids.keyBag];
+
+  const certificate = certBagArray?.[0]?.cert;
+  const privateKey = (keyBagArray?.[0]?.key ?? altKeyBagArray?.[0]?.key) as forge.pki.rsa.PrivateKey | undefined;
+  if (!certificate) {
+    throw new SigningError('No se encontró un certificado digital en el archivo P12.');
+  }
+  if (!privateKey) {
+    throw new SigningError('No se encontró una clave privada en el archivo P12. Si su certificado es antiguo, conviértalo a PKCS#8 usando OpenSSL.');
+  }
+  return forgeKeySigner(privateKey, certificateToBase64(certificate));
+}
+
+/**
+ * Crea un firmante a partir de una clave privada RSA y un certificado en formato PEM.
+ *
+ * @param privateKeyPem La clave privada en PEM (PKCS#1, PKCS#8 o PKCS#8 cifrada).
+ * @param certificatePem El certificado X509 en PEM.
+ * @param passphrase La contraseña de la clave privada, si está cifrada.
+ * @returns El firmante.
+ * @throws Un `SigningError` si la clave o el certificado no se pueden leer (ej: PEM dañado, contraseña incorrecta
+ * o la clave y el certificado intercambiados).
+ */
+export function createPemSigner(privateKeyPem: string, certificatePem: string, passphrase?: string): Signer {
+  let privateKey: forge.pki.rsa.PrivateKey | null;
+  try {
+    privateKey = (privateKeyPem.includes('ENCRYPTED')
+      ? forge.pki.decryptRsaPrivateKey(privateKeyPem, passphrase ?? '')
+      : forge.pki.privateKeyFromPem(privateKeyPem)) as forge.pki.rsa.PrivateKey | null;
+  } catch (error: any) {
+    // Con una contraseña incorrecta node-forge a veces descifra bytes que no son DER y lanza en lugar de devolver null.
+    throw new SigningError(`No se pudo leer la clave privada PEM. Verifique el archivo y la contraseña: ${error.message}`, error);
+  }
+  if (!privateKey) {
+    throw new SigningError('No se pudo leer la clave privada PEM. Verifique la contraseña.');
+  }
+  return forgeKeySigner(privateKey, normalizeCertificate(certificatePem));
+}
+
+/**
+ * Crea un firmante que delega la firma en una función externa (HSM, KMS, servicio remoto).
+ * La función solo recibe el digest a firmar; la clave privada nunca llega a la librería.
+ *
+ * @param certificate El certificado X509 del firmante, en PEM o en DER codificado en base64.
+ * @param sign La función que firma el digest con RSA PKCS#1 v1.5.
+ * @returns El firmante.
+ * @throws Un error si el certificado no es válido.
+ */
+export function createCallbackSigner(certificate: string, sign: DigestSigningCallback): Signer {
+  return {
+    certificate: normalizeCertificate(certificate),
+    async signDigest(digest, algorithm) {
+      return new Uint8Array(await sign(digest, algorithm));
+    },
+  };
+}
@@ -0,0 +1,156 @@
+/**
+ * @file src/services/transport.ts
+ * @description Capa de transporte compartida por los servicios de Recepción y Autorización del SRI:
+ * endpoints configurables, timeout por llamada, reintentos con backoff exponencial ante errores de red,
+ * respuestas 5xx y SOAP Faults, limitación de frecuencia y proxy.
+ */
+
+import axios, { AxiosProxyConfig } from 'axios';
+import { Ambiente } from '../baseData/invoice/taxInfo';
+import { SriCommunicationError } from './errors';
+
+/**
+ * URLs de los Web Services del SRI para un ambiente.
+ */
+export interface SriEndpoints {
+  reception: string;
+  authorization: string;
+}
+
+/**
+ * Endpoints oficiales del SRI según la Ficha Técnica (Sección 7.2).
+ */
+export const SRI_ENDPOINTS: Record<Ambiente, SriEndpoints> = {
+  '1': {
+    reception: 'https://celcer.sri.gob.ec/comprobantes-electronicos-ws/RecepcionComprobantesOffline?wsdl',
+    authorization: 'https://celcer.sri.gob.ec/comprobantes-electronicos-ws/AutorizacionComprobantesOffline?wsdl',
+  },
+  '2': {
+    reception: 'https://cel.sri.gob.ec/comprobantes-electronicos-ws/RecepcionComprobantesOffline?wsdl',
+    authorization: 'https://cel.sri.gob.ec/comprobantes-electronicos-ws/AutorizacionComprobantesOffline?wsdl',
+  },
+};
+
+/**
+ * Opciones de comunicación con el SRI.
+ */
+export interface TransportOptions {
+  /** Endpoints que reemplazan a los oficiales (ej: un proxy interno o un servidor simulado). */
+  endpoints?: Partial<SriEndpoints>;
+  /** Tiempo máximo de cada llamada, en milisegundos. Por defecto 30000. */
+  timeoutMs?: number;
+  /** Número de reintentos ante errores de red, respuestas 5xx o SOAP Faults. Por defecto 3. */
+  retries?: number;
+  /** Espera base del backoff exponencial, en milisegundos. Por defecto 500. */
+  retryDelayMs?: number;
+  /** Espera máxima entre reintentos, en milisegundos. Por defecto 10000. */
+  maxRetryDelayMs?: number;
+  /** Máximo de solicitudes por segundo a un mismo host del SRI. Por defecto sin límite. */
+  maxRequestsPerSecond?: number;
+  /** Proxy HTTP(S) a usar, o `false` para ignorar las variables de entorno de proxy. */
+  proxy?: AxiosProxyConfig | false;
+}
+
+/** Servicio del SRI, usado en los mensajes de error. */
+export type SriService = 'Recepción' | 'Autorización';
+
+/**
+ * Momento a partir del cual se puede enviar la siguiente solicitud a cada host (limitación de frecuencia).
+ */
+const nextSlotByHost = new Map<string, number>();
+
+const sleep = (ms: number) => new Promise<void>((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Resuelve el endpoint de un servicio según el ambiente y las opciones.
+ */
+export function resolveEndpoint(service: keyof SriEndpoints, ambiente: Ambiente, options: TransportOptions = {}): string {
+  return options.endpoints?.[service] ?? SRI_ENDPOINTS[ambiente === '1' ? '1' : '2'][service];
+}
+
+/**
+ * Espera el turno de la solicitud si hay un límite de solicitudes por segundo.
+ */
+async function throttle(endpoint: string, maxRequestsPerSecond?: number): Promise<void> {
+  if (!maxRequestsPerSecond || maxRequestsPerSecond <= 0) return;
+  const host = new URL(endpoint).host;
+  const now = Date.now();
+  const slot = Math.max(now, nextSlotByHost.get(host) ?? 0);
+  nextSlotByHost.set(host, slot + 1000 / maxRequestsPerSecond);
+  if (slot > now) await sleep(slot - now);
+}
+
+function faultString(body: unknown): string | undefined {
+  return typeof body === 'string' ? /<faultstring>([\s\S]*?)<\/faultstring>/.exec(body)?.[1] : undefined;
+}
+
+/**
+ * Indica si un error amerita reintentar: sin respuesta (red, timeout), 5xx o 429.
+ */
+function isRetryable(error: unknown): boolean {
+  if (!axios.isAxiosError(error)) return false;
+  const status = error.response?.status;
+  return status === undefined || status >= 500 || status === 429;
+}
+
+/**
+ * Envía un sobre SOAP al SRI y devuelve el cuerpo de la respuesta.
+ * Reintenta con backoff exponencial (con variación aleatoria) ante errores de red, respuestas 5xx y SOAP Faults.
+ *
+ * @param endpoint La URL del servicio.
+ * @param soapEnvelope El sobre SOAP a enviar.
+ * @param service El nombre del servicio, para los mensajes de error.
+ * @param options Opciones de timeout, reintentos, limitación y proxy.
+ * @param accessKey La clave de acceso del comprobante, para incluirla en el error.
+ * @returns El XML de la respuesta.
+ * @throws Un `SriCommunicationError` cuando se agotan los reintentos o el error no es recuperable.
+ */
+export async function postSoap(
+  endpoint: string,
+  soapEnvelope: string,
+  service: SriService,
+  options: TransportOptions = {},
+  accessKey: string | null = null,
+): Promise<string> {
+  const retries = options.retries ?? 3;
+  const baseDelay = options.retryDelayMs ?? 500;
+  const maxDelay = options.maxRetryDelayMs ?? 10000;
+
+  for (let attempt = 0; ; attempt++) {
+    await throttle(endpoint, options.maxRequestsPerSecond);
+    const attempts = attempt > 0 ? ` (tras ${attempt + 1} intentos)` : '';
+    try {
+      const response = await axios.post(endpoint, soapEnvelope, {
+        headers: { 'Content-Type': 'text/xml;charset=UTF-8', 'SOAPAction': '' },
+        timeout: options.timeoutMs ?? 30000,
+        proxy: options.proxy,
+        responseType: 'text',
+      });
+      const fault = faultString(response.data);
+      if (fault !== undefined) {
+        if (attempt < retries) {
+          await sleep(Math.min(maxDelay, baseDelay * 2 ** attempt) * (0.5 + Math.random() / 2));
+          continue;
+        }
+        throw new SriCommunicationError(`Error en la comunicación con el SRI (${service}): SOAP Fault${attempts}\nDetalle del SRI: ${fault}`, {
+          status: response.status, fault, attempts: attempt + 1, retryable: true, accessKey,
+        });
+      }
+      return response.data as string;
+    } catch (error) {
+      if (axios.isAxiosError(error)) {
+        const retryable = isRetryable(error);
+        if (retryable && attempt < retries) {
+          await sleep(Math.min(maxDelay, baseDelay * 2 ** attempt) * (0.5 + Math.random() / 2));
+          continue;
+        }
+        const fault = faultString(error.response?.data);
+        const detail = fault ? `\nDetalle del SRI: ${fault}` : '';
+        throw new SriCommunicationError(`Error en la comunicación con el SRI (${service}): ${error.message}${attempts}${detail}`, {
+          status: error.response?.status, fault, attempts: attempt + 1, retryable, accessKey, cause: error,
+        });
+      }
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,66 @@
+/**
+ * @file src/utils/barcode.ts
+ * @description Codificador Code-128 usado por el RIDE para imprimir la clave de acceso como código de barras.
+ * Las cadenas numéricas se codifican con el subconjunto C (dos dígitos por símbolo); el resto con el subconjunto B.
+ */
+
+/**
+ * Anchos (en módulos) de barra/espacio de los 107 símbolos Code-128, alternando barra y espacio.
+ * Índices 103-105 son los símbolos de inicio A, B y C; 106 es el símbolo de parada.
+ */
+const CODE128_PATTERNS = [
+  '212222', '222122', '222221', '121223', '121322', '131222', '122213', '122312', '132212', '221213',
+  '221312', '231212', '112232', '122132', '122231', '113222', '123122', '123221', '223211', '221132',
+  '221231', '213212', '223112', '312131', '311222', '321122', '321221', '312212', '322112', '322211',
+  '212123', '212321', '232121', '111323', '131123', '131321', '112313', '132113', '132311', '211313',
+  '231113', '231311', '112133', '112331', '132131', '113123', '113321', '133121', '313121', '211331',
+  '231131', '213113', '213311', '213131', '311123', '311321', '331121', '312113', '312311', '332111',
+  '314111', '221411', '431111', '111224', '111422', '121124', '121421', '141122', '141221', '112214',
+  '112412', '122114', '122411', '142112', '142211', '241211', '221114', '413111', '241112', '134111',
+  '111242', '121142', '121241', '114212', '124112', '124211', '411212', '421112', '421211', '212141',
+  '214121', '412121', '111143', '111341', '131141', '114113', '114311', '411113', '411311', '113141',
+  '114131', '311141', '411131', '211412', '211214', '211232', '2331112',
+];
+
+const START_B = 104;
+const START_C = 105;
+const CODE_B = 100;
+const STOP = 106;
+
+/**
+ * Convierte un texto en los valores de símbolo Code-128 (sin dígito de control ni parada).
+ */
+function toSymbols(data: string): number[] {
+  if (/^[0-9]+$/.test(data)) {
+    // Subconjunto C para los pares de dígitos; si sobra un dígito se cambia al subconjunto B.
+    const symbols = [START_C];
+    for (let i = 0; i + 1 < data.length; i += 2) {
+      symbols.push(Number(data.substring(i, i + 2)));
+    }
+    if (data.length % 2 === 1) {
+      symbols.push(CODE_B, data.charCodeAt(data.length - 1) - 32);
+    }
+    return symbols;
+  }
+  if (!/^[\x20-\x7E]*$/.test(data)) {
+    throw new Error('Code-128 (subconjunto B) solo admite caracteres ASCII imprimibles.');
+  }
+  return [START_B, ...Array.from(data).map((char) => char.charCodeAt(0) - 32)];
+}
+
+/**
+ * Codifica un texto en Code-128 e incluye el dígito de control Módulo 103 y el símbolo de parada.
+ *
+ * @param data El texto a codificar (ej: la clave de acceso de 49 dígitos).
+ * @returns Los anchos en módulos de cada barra y espacio, empezando por una barra.
+ * @throws Un error si el texto está vacío o contiene caracteres no codificables.
+ */
+export function encodeCode128(data: string): number[] {
+  if (data.length === 0) {
+    throw new Error('No se puede generar un código de barras vacío.');
+  }
+  const symbols = toSymbols(data);
+  const checksum = symbols.reduce((acc, symbol, i) => acc + symbol * (i === 0 ? 1 : i), 0) % 103;
+  return [...symbols, checksum, STOP]
+    .flatMap((symbol) => Array.from(CODE128_PATTERNS[symbol]).map(Number));
+}
@@ -0,0 +1,66 @@
+/**
+ * @file src/utils/cryptoEngine.ts
+ * @description Motor WebCrypto compartido por la firma y la verificación de XAdES.
+ * Las operaciones `sign` sobre claves registradas con `externalSigningKey` se delegan a un `Signer`,
+ * que solo recibe el digest; el resto de operaciones las resuelve @peculiar/webcrypto.
+ */
+
+import { Application } from 'xadesjs';
+import { Crypto } from '@peculiar/webcrypto';
+import { createHash } from 'crypto';
+import { SignatureAlgorithm, Signer } from '../services/signers';
+
+const webcrypto = new Crypto();
+const externalKeys = new WeakMap<object, Signer>();
+
+const NODE_HASH_NAMES: Record<SignatureAlgorithm, string> = {
+  'SHA-1': 'sha1',
+  'SHA-256': 'sha256',
+};
+
+const subtle = new Proxy(webcrypto.subtle, {
+  get(target, property) {
+    if (property === 'sign') {
+      return async (algorithm: AlgorithmIdentifier, key: CryptoKey, data: BufferSource): Promise<ArrayBuffer> => {
+        const signer = externalKeys.get(key);
+        if (!signer) {
+          return target.sign(algorithm, key, data);
+        }
+        const hash = (key.algorithm as RsaHashedKeyAlgorithm).hash.name as SignatureAlgorithm;
+        const bytes = ArrayBuffer.isView(data) ? Buffer.from(data.buffer, data.byteOffset, data.byteLength) : Buffer.from(data);
+        const signature = await signer.signDigest(new Uint8Array(createHash(NODE_HASH_NAMES[hash]).update(bytes).digest()), hash);
+        return signature.buffer.slice(signature.byteOffset, signature.byteOffset + signature.byteLength) as ArrayBuffer;
+      };
+    }
+    const value = Reflect.get(target, property);
+    return typeof value === 'function' ? value.bind(target) : value;
+  },
+});
+
+const engine = { subtle, getRandomValues: webcrypto.getRandomValues.bind(webcrypto) } as unknown as Crypto;
+
+/**
+ * Registra el motor compartido en xadesjs y lo devuelve.
+ */
+export function useCryptoEngine(): Crypto {
+  Application.setEngine('NodeJS', engine);
+  return engine;
+}
+
+/**
+ * Crea una clave de firma ficticia cuyas operaciones `sign` se delegan al firmante.
+ *
+ * @param signer El firmante que recibe el digest.
+ * @param algorithm El algoritmo de digest de la firma.
+ * @returns Un objeto compatible con `CryptoKey` para usar en `SignedXml.Sign`.
+ */
+export function externalSigningKey(signer: Signer, algorithm: SignatureAlgorithm): CryptoKey {
+  const key = {
+    type: 'private',
+    extractable: false,
+    usages: ['sign'],
+    algorithm: { name: 'RSASSA-PKCS1-v1_5', hash: { name: algorithm } },
+  } as unknown as CryptoKey;
+  externalKeys.set(key, signer);
+  return key;
+}
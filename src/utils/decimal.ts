@@ -0,0 +1,206 @@
+/**
+ * @file src/utils/decimal.ts
+ * @description Aritmética decimal exacta para los valores monetarios de los comprobantes.
+ * Los valores se representan como un entero (`bigint`) y una escala, por lo que sumas, restas y productos
+ * no acumulan errores de punto flotante, y el redondeo simétrico hacia arriba (half-up) es el que aplica el SRI.
+ */
+
+import { ValidationError } from '../services/errors';
+
+/**
+ * Valor monetario o cantidad de un comprobante: un número o un texto decimal (ej: 10.5 o '10.50').
+ * Con texto se evita cualquier representación binaria intermedia.
+ */
+export type Amount = number | string;
+
+const DECIMAL_PATTERN = /^([+-]?)([0-9]*)(?:\.([0-9]*))?(?:[eE]([+-]?[0-9]+))?$/;
+
+const pow10 = (exponent: number): bigint => 10n ** BigInt(exponent);
+
+/**
+ * Número decimal exacto e inmutable.
+ */
+export class Decimal {
+  static readonly ZERO = new Decimal(0n, 0);
+
+  /**
+   * @param units El valor sin el punto decimal (ej: 1005n para 1.005 con escala 3).
+   * @param scale La cantidad de decimales de `units`.
+   */
+  private constructor(private readonly units: bigint, private readonly scale: number) {}
+
+  /**
+   * Crea un decimal a partir de un número, un texto decimal u otro `Decimal`.
+   * Los números se interpretan por su representación más corta (ej: 1.005 es exactamente 1.005, no 1.00499999...).
+   *
+   * @param value El valor.
+   * @param path La ruta del campo para el mensaje de error (ej: 'detalles[0].cantidad').
+   * @throws Un `ValidationError` si el valor no es un número finito ni un texto decimal.
+   */
+  static from(value: Amount | Decimal, path?: string): Decimal {
+    if (value instanceof Decimal) return value;
+    const text = typeof value === 'number' ? (Number.isFinite(value) ? String(value) : '') : String(value ?? '').trim();
+    const match = DECIMAL_PATTERN.exec(text);
+    if (!match || (!match[2] && !match[3])) {
+      const message = `el valor '${value}' no es un número decimal válido.`;
+      throw path ? ValidationError.forField(path, message) : new ValidationError(`El valor '${value}' no es un número decimal válido.`);
+    }
+    const [, sign, integer, fraction = '', exponent = '0'] = match;
+    let units = BigInt(`${integer || '0'}${fraction}`);
+    let scale = fraction.length - Number(exponent);
+    if (scale < 0) {
+      units *= pow10(-scale);
+      scale = 0;
+    }
+    return new Decimal(sign === '-' ? -units : units, scale);
+  }
+
+  /**
+   * Suma valores con exactitud.
+   */
+  static sum(values: (Amount | Decimal)[]): Decimal {
+    return values.reduce<Decimal>((acc, value) => acc.plus(value), Decimal.ZERO);
+  }
+
+  private align(other: Decimal): [bigint, bigint, number] {
+    const scale = Math.max(this.scale, other.scale);
+    return [this.units * pow10(scale - this.scale), other.units * pow10(scale - other.scale), scale];
+  }
+
+  plus(value: Amount | Decimal): Decimal {
+    const [a, b, scale] = this.align(Decimal.from(value));
+    return new Decimal(a + b, scale);
+  }
+
+  minus(value: Amount | Decimal): Decimal {
+    const [a, b, scale] = this.align(Decimal.from(value));
+    return new Decimal(a - b, scale);
+  }
+
+  times(value: Amount | Decimal): Decimal {
+    const other = Decimal.from(value);
+    return new Decimal(this.units * other.units, this.scale + other.scale);
+  }
+
+  /**
+   * Divide por 10^decimals con exactitud (ej: `shift(2)` divide por 100 para aplicar un porcentaje).
+   */
+  shift(decimals: number): Decimal {
+    return decimals >= 0 ? new Decimal(this.units, this.scale + decimals) : new Decimal(this.units * pow10(-decimals), this.scale);
+  }
+
+  /**
+   * Divide por otro valor y redondea el cociente (half-up) a `decimals` decimales, ya que una división
+   * puede no tener representación decimal finita (ej: prorrateos 1/3).
+   *
+   * @throws Un `ValidationError` si el divisor es cero.
+   */
+  dividedBy(value: Amount | Decimal, decimals = 2): Decimal {
+    const other = Decimal.from(value);
+    if (other.isZero()) {
+      throw new ValidationError('No se puede dividir un valor para cero.');
+    }
+    // Se calcula con un decimal extra para decidir el redondeo sin perder exactitud.
+    const numerator = this.units * pow10(other.scale + decimals + 1);
+    const denominator = other.units * pow10(this.scale);
+    return new Decimal(numerator / denominator, decimals + 1).round(decimals);
+  }
+
+  /**
+   * Redondea a la cantidad de decimales indicada con redondeo simétrico hacia arriba (half-up):
+   * 1.005 → 1.01 y -1.005 → -1.01.
+   */
+  round(decimals = 2): Decimal {
+    if (this.scale <= decimals) return new Decimal(this.units * pow10(decimals - this.scale), decimals);
+    const divisor = pow10(this.scale - decimals);
+    const negative = this.units < 0n;
+    const absolute = negative ? -this.units : this.units;
+    let quotient = absolute / divisor;
+    if ((absolute % divisor) * 2n >= divisor) quotient += 1n;
+    return new Decimal(negative ? -quotient : quotient, decimals);
+  }
+
+  /** Compara con otro valor: -1 si es menor, 0 si es igual, 1 si es mayor. */
+  compare(value: Amount | Decimal): number {
+    const [a, b] = this.align(Decimal.from(value));
+    return a === b ? 0 : a < b ? -1 : 1;
+  }
+
+  equals(value: Amount | Decimal): boolean {
+    return this.compare(value) === 0;
+  }
+
+  isNegative(): boolean {
+    return this.units < 0n;
+  }
+
+  isZero(): boolean {
+    return this.units === 0n;
+  }
+
+  /** Cantidad de decimales significativos, sin contar ceros a la derecha (ej: 1 para '1.50000'). */
+  decimalPlaces(): number {
+    const fraction = this.toString().split('.')[1];
+    return fraction ? fraction.length : 0;
+  }
+
+  /**
+   * Devuelve el valor redondeado (half-up) con exactamente `decimals` decimales, como lo exige el XML del SRI.
+   */
+  toFixed(decimals: number): string {
+    const { units } = this.round(decimals);
+    const negative = units < 0n;
+    const digits = (negative ? -units : units).toString().padStart(decimals + 1, '0');
+    const integer = digits.slice(0, digits.length - decimals);
+    const fraction = decimals > 0 ? `.${digits.slice(-decimals)}` : '';
+    return `${negative ? '-' : ''}${integer}${fraction}`;
+  }
+
+  /** Devuelve el valor sin ceros innecesarios a la derecha (ej: '15', '0.02'). */
+  toString(): string {
+    const fixed = this.toFixed(this.scale);
+    return this.scale > 0 ? fixed.replace(/\.?0+$/, '') : fixed;
+  }
+
+  /** Devuelve el valor como número (solo para presentación o para valores ya redondeados). */
+  toNumber(): number {
+    return Number(this.toString());
+  }
+
+  toJSON(): string {
+    return this.toString();
+  }
+}
+
+/**
+ * Formatea un valor monetario o una cantidad con la cantidad de decimales indicada, con redondeo half-up.
+ *
+ * @param value El valor (número o texto decimal).
+ * @param decimals Los decimales (2 para valores, 2 o 6 para cantidad y precio unitario según la versión).
+ * @param path La ruta del campo para el mensaje de error.
+ */
+export function formatAmount(value: Amount, decimals = 2, path?: string): string {
+  return Decimal.from(value, path).toFixed(decimals);
+}
+
+/**
+ * Suma valores monetarios redondeando cada uno a `decimals` decimales, es decir, tal como aparecen en el XML
+ * y como los vuelve a sumar el SRI.
+ *
+ * @param values Los valores a sumar.
+ * @param decimals Los decimales de cada valor en el XML (por defecto 2).
+ */
+export function sumAmounts(values: Amount[], decimals = 2): Decimal {
+  return Decimal.sum(values.map((value) => Decimal.from(value).round(decimals)));
+}
+
+/**
+ * Indica si dos valores son iguales una vez redondeados a `decimals` decimales, es decir, tal como aparecen en el XML.
+ *
+ * @param a El primer valor.
+ * @param b El segundo valor.
+ * @param decimals Los decimales de la comparación (por defecto 2).
+ */
+export function sameAmount(a: Amount | Decimal, b: Amount | Decimal, decimals = 2): boolean {
+  return Decimal.from(a).round(decimals).equals(Decimal.from(b).round(decimals));
+}
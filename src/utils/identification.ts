@@ -0,0 +1,184 @@
+/**
+ * @file src/utils/identification.ts
+ * @description Validadores de identificaciones ecuatorianas: cédula (Módulo 10), RUC de persona natural,
+ * sociedad privada y entidad pública (variantes de Módulo 11, opcional para sociedades privadas), y la coherencia entre la identificación
+ * del comprador y su `TipoIdentificacionComprador`.
+ */
+
+import { TipoIdentificacionComprador } from '../baseData/invoice/invoiceInfo';
+import { ValidationError } from '../services/errors';
+
+/** Identificación reservada por el SRI para el consumidor final. */
+export const CONSUMIDOR_FINAL = '9999999999999';
+
+/**
+ * Tipo de contribuyente que se deduce del tercer dígito del RUC.
+ */
+export type RucType = 'natural' | 'publico' | 'privado';
+
+/**
+ * Verifica que los dos primeros dígitos correspondan a una provincia (01-24) o a ecuatorianos en el exterior (30).
+ */
+function hasValidProvince(id: string): boolean {
+  const province = Number(id.substring(0, 2));
+  return (province >= 1 && province <= 24) || province === 30;
+}
+
+/**
+ * Calcula el dígito verificador Módulo 11 con los coeficientes indicados.
+ */
+function module11CheckDigit(digits: string, weights: number[]): number {
+  const sum = weights.reduce((acc, weight, i) => acc + Number(digits[i]) * weight, 0);
+  const remainder = sum % 11;
+  return remainder === 0 ? 0 : 11 - remainder;
+}
+
+/**
+ * Valida una cédula de identidad ecuatoriana con el algoritmo Módulo 10.
+ *
+ * @param cedula La cédula de 10 dígitos.
+ * @returns `true` si la cédula es válida.
+ */
+export function isValidCedula(cedula: string): boolean {
+  if (!/^[0-9]{10}$/.test(cedula) || !hasValidProvince(cedula) || Number(cedula[2]) >= 6) {
+    return false;
+  }
+  const coefficients = [2, 1, 2, 1, 2, 1, 2, 1, 2];
+  const sum = coefficients.reduce((acc, coefficient, i) => {
+    const product = Number(cedula[i]) * coefficient;
+    return acc + (product >= 10 ? product - 9 : product);
+  }, 0);
+  const checkDigit = (10 - (sum % 10)) % 10;
+  return checkDigit === Number(cedula[9]);
+}
+
+/**
+ * Determina el tipo de RUC según su tercer dígito.
+ *
+ * @param ruc El RUC de 13 dígitos.
+ * @returns El tipo de contribuyente, o `undefined` si el tercer dígito no es válido (7 u 8).
+ */
+export function getRucType(ruc: string): RucType | undefined {
+  const third = Number(ruc[2]);
+  if (third < 6) return 'natural';
+  if (third === 6) return 'publico';
+  if (third === 9) return 'privado';
+  return undefined;
+}
+
+/**
+ * Opciones de la validación de un RUC.
+ */
+export interface RucValidationOptions {
+  /**
+   * Si se exige el dígito verificador Módulo 11 en el RUC de sociedades privadas (por defecto `false`).
+   * El SRI ha emitido RUC de sociedades cuyo décimo dígito no cumple el Módulo 11, por lo que por defecto
+   * solo se verifica su estructura; use `hasValidRucCheckDigit` para advertirlo.
+   */
+  strictCheckDigit?: boolean;
+}
+
+/**
+ * Indica si el dígito verificador de un RUC cumple el algoritmo de su tipo de contribuyente.
+ * - Persona natural: el de la cédula (Módulo 10, décimo dígito).
+ * - Entidad pública: Módulo 11 con coeficientes 3,2,7,6,5,4,3,2; el noveno dígito es el verificador.
+ * - Sociedad privada: Módulo 11 con coeficientes 4,3,2,7,6,5,4,3,2; el décimo dígito es el verificador.
+ *
+ * @param ruc El RUC de 13 dígitos.
+ * @returns `true` si el dígito verificador es correcto.
+ */
+export function hasValidRucCheckDigit(ruc: string): boolean {
+  if (!/^[0-9]{13}$/.test(ruc)) {
+    return false;
+  }
+  switch (getRucType(ruc)) {
+    case 'natural':
+      return isValidCedula(ruc.substring(0, 10));
+    case 'publico':
+      return module11CheckDigit(ruc, [3, 2, 7, 6, 5, 4, 3, 2]) === Number(ruc[8]);
+    case 'privado':
+      return module11CheckDigit(ruc, [4, 3, 2, 7, 6, 5, 4, 3, 2]) === Number(ruc[9]);
+    default:
+      return false;
+  }
+}
+
+/**
+ * Valida un RUC ecuatoriano de persona natural, sociedad privada o entidad pública.
+ * - Persona natural: los 10 primeros dígitos son una cédula válida y el establecimiento no es 000.
+ * - Entidad pública: dígito verificador correcto y el establecimiento no es 0000.
+ * - Sociedad privada: el establecimiento no es 000; el dígito verificador solo se exige con `strictCheckDigit`.
+ *
+ * @param ruc El RUC de 13 dígitos.
+ * @param options Opciones de la validación.
+ * @returns `true` si el RUC es válido.
+ */
+export function isValidRuc(ruc: string, options: RucValidationOptions = {}): boolean {
+  if (!/^[0-9]{13}$/.test(ruc) || !hasValidProvince(ruc)) {
+    return false;
+  }
+  switch (getRucType(ruc)) {
+    case 'natural':
+      return hasValidRucCheckDigit(ruc) && ruc.substring(10) !== '000';
+    case 'publico':
+      return hasValidRucCheckDigit(ruc) && ruc.substring(9) !== '0000';
+    case 'privado':
+      return (!options.strictCheckDigit || hasValidRucCheckDigit(ruc)) && ruc.substring(10) !== '000';
+    default:
+      return false;
+  }
+}
+
+/**
+ * Verifica el RUC del emisor.
+ *
+ * @param ruc El RUC del bloque <infoTributaria>.
+ * @param path La ruta del campo para el mensaje de error (por defecto 'infoTributaria.ruc').
+ * @param options Opciones de la validación.
+ * @throws Un error si el RUC no es válido.
+ */
+export function assertValidRuc(ruc: string, path = 'infoTributaria.ruc', options: RucValidationOptions = {}): void {
+  if (!isValidRuc(ruc, options)) {
+    throw ValidationError.forField(path, `el RUC ${ruc} no es válido.`);
+  }
+}
+
+/**
+ * Verifica que una identificación sea coherente con su tipo (Tabla 6 de la Ficha Técnica):
+ * - '04' RUC válido, '05' cédula válida.
+ * - '06' pasaporte y '08' identificación del exterior: alfanumérico de hasta 20 caracteres.
+ * - '07' consumidor final: exactamente 9999999999999 (y esa identificación solo con el tipo '07').
+ *
+ * @param tipo El tipo de identificación.
+ * @param identificacion El número de identificación.
+ * @param path La ruta del campo para el mensaje de error (ej: 'infoFactura.identificacionComprador').
+ * @param options Opciones de la validación del RUC.
+ * @throws Un error que indica el campo y el motivo si la identificación no es válida.
+ */
+export function assertValidIdentification(
+  tipo: TipoIdentificacionComprador,
+  identificacion: string,
+  path: string,
+  options: RucValidationOptions = {},
+): void {
+  if (identificacion === CONSUMIDOR_FINAL && tipo !== '07') {
+    throw ValidationError.forField(path, `la identificación ${CONSUMIDOR_FINAL} solo puede usarse con el tipo de identificación 07 (consumidor final).`);
+  }
+  switch (tipo) {
+    case '04':
+      if (!isValidRuc(identificacion, options)) throw ValidationError.forField(path, `el RUC ${identificacion} no es válido.`);
+      break;
+    case '05':
+      if (!isValidCedula(identificacion)) throw ValidationError.forField(path, `la cédula ${identificacion} no es válida.`);
+      break;
+    case '07':
+      if (identificacion !== CONSUMIDOR_FINAL) {
+        throw ValidationError.forField(path, `para consumidor final (07) la identificación debe ser ${CONSUMIDOR_FINAL}.`);
+      }
+      break;
+    default:
+      if (!/^[A-Za-z0-9]{1,20}$/.test(identificacion)) {
+        throw ValidationError.forField(path, `la identificación ${identificacion} debe ser alfanumérica de hasta 20 caracteres.`);
+      }
+  }
+}
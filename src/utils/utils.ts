@@ -4,10 +4,15 @@
  * implementando el algoritmo Módulo 11 según la Ficha Técnica del SRI.
  */
 
+import { randomInt } from 'crypto';
+import { TaxInfo } from '../baseData/invoice/taxInfo';
+import { ValidationError } from '../services/errors';
+import { Amount, Decimal } from './decimal';
+
 /**
  * Define la estructura de los componentes necesarios para generar la clave de acceso.
  */
-interface AccessKeyParts {
+export interface AccessKeyParts {
   date: string; // Formato: dd/mm/yyyy
   voucherType: string; // ej: '01' para factura
   ruc: string;
@@ -48,7 +53,7 @@ function getCheckDigit(key: string): number {
 export function getAccessKey(parts: AccessKeyParts): string {
   // La Ficha Técnica exige el formato ddmmyyyy para la clave de acceso.
   const dateParts = parts.date.split('/');
-  if (dateParts.length !== 3) throw new Error('El formato de la fecha debe ser dd/mm/yyyy');
+  if (dateParts.length !== 3) throw new ValidationError('El formato de la fecha debe ser dd/mm/yyyy');
   const formattedDate = `${dateParts[0]}${dateParts[1]}${dateParts[2]}`;
 
   // Se asegura que cada parte tenga la longitud correcta usando padStart.
@@ -64,10 +69,109 @@ export function getAccessKey(parts: AccessKeyParts): string {
   ].join('');
 
   if (keyWithoutCheckDigit.length !== 48) {
-    throw new Error(`Error de longitud al generar la clave de acceso. Se esperaban 48 dígitos y se obtuvieron ${keyWithoutCheckDigit.length}.`);
+    throw new ValidationError(`Error de longitud al generar la clave de acceso. Se esperaban 48 dígitos y se obtuvieron ${keyWithoutCheckDigit.length}.`);
   }
 
   const checkDigit = getCheckDigit(keyWithoutCheckDigit);
 
   return `${keyWithoutCheckDigit}${checkDigit}`;
 }
+
+/**
+ * Indica si una clave de acceso tiene 49 dígitos y su dígito verificador (Módulo 11) es correcto.
+ * @param accessKey La clave de acceso a validar.
+ */
+export function isValidAccessKey(accessKey: string): boolean {
+  return /^[0-9]{49}$/.test(accessKey) && getCheckDigit(accessKey.substring(0, 48)) === Number(accessKey[48]);
+}
+
+/**
+ * Descompone una clave de acceso en sus partes (la operación inversa de `getAccessKey`).
+ * @param accessKey La clave de acceso de 49 dígitos.
+ * @returns Las partes de la clave, con la fecha en formato dd/mm/yyyy.
+ * @throws Un `ValidationError` si la clave no tiene 49 dígitos o su dígito verificador no es correcto.
+ */
+export function decodeAccessKey(accessKey: string): AccessKeyParts {
+  if (!isValidAccessKey(accessKey)) {
+    throw ValidationError.forField('claveAcceso', 'debe tener 49 dígitos y un dígito verificador (Módulo 11) correcto.');
+  }
+  return {
+    date: `${accessKey.substring(0, 2)}/${accessKey.substring(2, 4)}/${accessKey.substring(4, 8)}`,
+    voucherType: accessKey.substring(8, 10),
+    ruc: accessKey.substring(10, 23),
+    environment: accessKey.substring(23, 24),
+    series: accessKey.substring(24, 30),
+    sequence: accessKey.substring(30, 39),
+    numericCode: accessKey.substring(39, 47),
+    emissionType: accessKey.substring(47, 48),
+  };
+}
+
+/**
+ * Valida que el código numérico de la clave de acceso sea un string de 8 dígitos.
+ * @param codigoNumerico El código numérico a validar.
+ * @throws Un error si el código no cumple el formato.
+ */
+export function assertNumericCode(codigoNumerico: string): void {
+  if (!codigoNumerico || typeof codigoNumerico !== 'string' || !/^[0-9]{8}$/.test(codigoNumerico)) {
+    throw new ValidationError('El código numérico debe ser un string de 8 dígitos numéricos. Ejemplo: "12345678"');
+  }
+}
+
+/**
+ * Genera un código numérico de 8 dígitos para la clave de acceso con un generador criptográficamente seguro.
+ * @returns El código numérico, con ceros a la izquierda si hace falta (ej: "04829173").
+ */
+export function generateNumericCode(): string {
+  return randomInt(0, 100_000_000).toString().padStart(8, '0');
+}
+
+/**
+ * Genera la clave de acceso de un comprobante a partir de su bloque <infoTributaria>.
+ * Es el punto común que usan todos los generadores para garantizar claves consistentes.
+ * @param taxInfo La información tributaria del comprobante.
+ * @param fechaEmision La fecha de emisión del comprobante (dd/mm/yyyy).
+ * @param codigoNumerico Código de 8 dígitos, potestad del emisor. Si se omite, se genera uno aleatorio.
+ * @returns La clave de acceso completa de 49 dígitos.
+ */
+export function getAccessKeyFromTaxInfo(taxInfo: TaxInfo, fechaEmision: string, codigoNumerico: string = generateNumericCode()): string {
+  assertNumericCode(codigoNumerico);
+  return getAccessKey({
+    date: fechaEmision,
+    voucherType: taxInfo.codDoc,
+    ruc: taxInfo.ruc,
+    environment: taxInfo.ambiente,
+    series: `${taxInfo.estab}${taxInfo.ptoEmi}`,
+    sequence: taxInfo.secuencial,
+    numericCode: codigoNumerico,
+    emissionType: taxInfo.tipoEmision,
+  });
+}
+
+/**
+ * Convierte una fecha en formato dd/mm/yyyy (formato del SRI) a un objeto Date.
+ * @param date La fecha en formato dd/mm/yyyy.
+ * @returns El objeto Date correspondiente (hora local 00:00).
+ * @throws Un error si la fecha no tiene el formato esperado o no es válida.
+ */
+export function parseSriDate(date: string): Date {
+  const match = /^([0-9]{2})\/([0-9]{2})\/([0-9]{4})$/.exec(date);
+  if (!match) throw new ValidationError(`La fecha ${date} debe tener el formato dd/mm/yyyy.`);
+  const [, day, month, year] = match;
+  const parsed = new Date(Number(year), Number(month) - 1, Number(day));
+  if (parsed.getDate() !== Number(day) || parsed.getMonth() !== Number(month) - 1) {
+    throw new ValidationError(`La fecha ${date} no es una fecha válida.`);
+  }
+  return parsed;
+}
+
+/**
+ * Redondea un valor a la cantidad de decimales indicada con redondeo simétrico hacia arriba (half-up),
+ * usando aritmética decimal exacta.
+ * @param value El valor a redondear (número, texto decimal o `Decimal`).
+ * @param decimals La cantidad de decimales (por defecto 2).
+ * @returns El valor redondeado.
+ */
+export function roundTo(value: Amount | Decimal, decimals = 2): number {
+  return Decimal.from(value).round(decimals).toNumber();
+}
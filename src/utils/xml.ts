@@ -0,0 +1,177 @@
+/**
+ * @file src/utils/xml.ts
+ * @description Funciones auxiliares compartidas por los generadores de comprobantes para
+ * serializar los bloques XML comunes (infoTributaria, impuestos, pagos, infoAdicional).
+ */
+
+import { XMLBuilder } from 'xmlbuilder2/lib/interfaces';
+import { TaxInfo, TotalTax } from '../baseData/invoice/taxInfo';
+import { AdditionalDetail, Detail, Tax } from '../baseData/invoice/details';
+import { Pago } from '../baseData/invoice/invoiceInfo';
+import { AdditionalInfo } from '../baseData/invoice/additionalInfo';
+import { ReimbursementDetail } from '../baseData/invoice/reimbursements';
+import { formatAmount } from './decimal';
+
+/**
+ * Añade el bloque <infoTributaria> al nodo raíz del comprobante.
+ * @param root El nodo raíz del comprobante (ej: 'factura', 'notaCredito').
+ * @param taxInfo La información tributaria del emisor.
+ * @param accessKey La clave de acceso generada para el comprobante.
+ */
+export function addTaxInfo(root: XMLBuilder, taxInfo: TaxInfo, accessKey: string): void {
+  const infoTributaria = root.ele('infoTributaria');
+  infoTributaria.ele('ambiente').txt(taxInfo.ambiente);
+  infoTributaria.ele('tipoEmision').txt(taxInfo.tipoEmision);
+  infoTributaria.ele('razonSocial').txt(taxInfo.razonSocial);
+  if (taxInfo.nombreComercial) {
+    infoTributaria.ele('nombreComercial').txt(taxInfo.nombreComercial);
+  }
+  infoTributaria.ele('ruc').txt(taxInfo.ruc);
+  infoTributaria.ele('claveAcceso').txt(accessKey); // Usar la clave generada
+  infoTributaria.ele('codDoc').txt(taxInfo.codDoc);
+  infoTributaria.ele('estab').txt(taxInfo.estab);
+  infoTributaria.ele('ptoEmi').txt(taxInfo.ptoEmi);
+  infoTributaria.ele('secuencial').txt(taxInfo.secuencial);
+  infoTributaria.ele('dirMatriz').txt(taxInfo.dirMatriz);
+  if (taxInfo.agenteRetencion) {
+    infoTributaria.ele('agenteRetencion').txt(taxInfo.agenteRetencion);
+  }
+  if (taxInfo.contribuyenteRimpe) {
+    infoTributaria.ele('contribuyenteRimpe').txt(taxInfo.contribuyenteRimpe);
+  }
+}
+
+/**
+ * Añade el bloque <totalConImpuestos> con un nodo <totalImpuesto> por cada impuesto totalizado.
+ * @param parentNode El nodo padre (ej: 'infoFactura', 'infoNotaCredito').
+ * @param taxes La lista de impuestos totalizados.
+ */
+export function addTotalTaxes(parentNode: XMLBuilder, taxes: TotalTax[]): void {
+  const totalConImpuestos = parentNode.ele('totalConImpuestos');
+  taxes.forEach((tax) => {
+    const totalImpuesto = totalConImpuestos.ele('totalImpuesto');
+    totalImpuesto.ele('codigo').txt(tax.codigo);
+    totalImpuesto.ele('codigoPorcentaje').txt(tax.codigoPorcentaje);
+    totalImpuesto.ele('baseImponible').txt(formatAmount(tax.baseImponible, 2));
+    totalImpuesto.ele('valor').txt(formatAmount(tax.valor, 2));
+  });
+}
+
+/**
+ * Añade el bloque <pagos> con las formas de pago utilizadas.
+ * @param parentNode El nodo padre (ej: 'infoFactura', 'infoNotaDebito').
+ * @param payments La lista de pagos.
+ */
+export function addPayments(parentNode: XMLBuilder, payments: Pago[]): void {
+  const pagos = parentNode.ele('pagos');
+  payments.forEach((pago) => {
+    const pagoNode = pagos.ele('pago');
+    pagoNode.ele('formaPago').txt(pago.formaPago);
+    pagoNode.ele('total').txt(formatAmount(pago.total, 2));
+    if (pago.plazo) pagoNode.ele('plazo').txt(pago.plazo.toString());
+    if (pago.unidadTiempo) pagoNode.ele('unidadTiempo').txt(pago.unidadTiempo);
+  });
+}
+
+/**
+ * Añade detalles adicionales a un nodo XML si existen.
+ * @param parentNode El nodo XML padre (ej: 'detalle').
+ * @param additionalDetails El array de detalles adicionales.
+ */
+export function addAdditionalDetails(parentNode: XMLBuilder, additionalDetails: AdditionalDetail[] | undefined): void {
+  if (additionalDetails && additionalDetails.length > 0) {
+    const detallesAdicionalesNode = parentNode.ele('detallesAdicionales');
+    additionalDetails.forEach((detail) => {
+      detallesAdicionalesNode.ele('detAdicional', { nombre: detail.nombre, valor: detail.valor });
+    });
+  }
+}
+
+/**
+ * Añade el bloque <impuestos> con un nodo <impuesto> por cada impuesto aplicado.
+ * @param parentNode El nodo padre (ej: 'detalle', 'infoNotaDebito').
+ * @param taxes La lista de impuestos.
+ */
+export function addTaxes(parentNode: XMLBuilder, taxes: Tax[]): void {
+  const impuestos = parentNode.ele('impuestos');
+  taxes.forEach((tax) => {
+    const impuesto = impuestos.ele('impuesto');
+    impuesto.ele('codigo').txt(tax.codigo);
+    impuesto.ele('codigoPorcentaje').txt(tax.codigoPorcentaje);
+    impuesto.ele('tarifa').txt(tax.tarifa.toString());
+    impuesto.ele('baseImponible').txt(formatAmount(tax.baseImponible, 2));
+    impuesto.ele('valor').txt(formatAmount(tax.valor, 2));
+  });
+}
+
+/**
+ * Añade el bloque <detalles> con los ítems en el formato de factura y liquidación de compra
+ * (codigoPrincipal, codigoAuxiliar, precios, descuentos e impuestos).
+ * @param root El nodo raíz del comprobante.
+ * @param details La lista de detalles.
+ * @param precision Decimales para cantidad y precio unitario (2 o 6 según la versión).
+ */
+export function addDetails(root: XMLBuilder, details: Detail[], precision: number): void {
+  const detalles = root.ele('detalles');
+  details.forEach((detail) => {
+    const detalle = detalles.ele('detalle');
+    detalle.ele('codigoPrincipal').txt(detail.codigoPrincipal);
+    if (detail.codigoAuxiliar) detalle.ele('codigoAuxiliar').txt(detail.codigoAuxiliar);
+    detalle.ele('descripcion').txt(detail.descripcion);
+    if (detail.unidadMedida) detalle.ele('unidadMedida').txt(detail.unidadMedida);
+    detalle.ele('cantidad').txt(formatAmount(detail.cantidad, precision));
+    detalle.ele('precioUnitario').txt(formatAmount(detail.precioUnitario, precision));
+    if (detail.precioSinSubsidio !== undefined) {
+      detalle.ele('precioSinSubsidio').txt(formatAmount(detail.precioSinSubsidio, precision));
+    }
+    detalle.ele('descuento').txt(formatAmount(detail.descuento, 2));
+    detalle.ele('precioTotalSinImpuesto').txt(formatAmount(detail.precioTotalSinImpuesto, 2));
+    addAdditionalDetails(detalle, detail.detallesAdicionales);
+    addTaxes(detalle, detail.impuestos);
+  });
+}
+
+/**
+ * Añade el bloque <reembolsos> con el detalle de cada comprobante de reembolso (Anexo 5).
+ * @param root El nodo raíz del comprobante.
+ * @param reimbursements La lista de comprobantes de reembolso.
+ */
+export function addReimbursements(root: XMLBuilder, reimbursements: ReimbursementDetail[]): void {
+  const reembolsos = root.ele('reembolsos');
+  reimbursements.forEach((reimbursement) => {
+    const detalle = reembolsos.ele('reembolsoDetalle');
+    detalle.ele('tipoIdentificacionProveedorReembolso').txt(reimbursement.tipoIdentificacionProveedorReembolso);
+    detalle.ele('identificacionProveedorReembolso').txt(reimbursement.identificacionProveedorReembolso);
+    detalle.ele('codPaisPagoProveedorReembolso').txt(reimbursement.codPaisPagoProveedorReembolso);
+    detalle.ele('tipoProveedorReembolso').txt(reimbursement.tipoProveedorReembolso);
+    detalle.ele('codDocReembolso').txt(reimbursement.codDocReembolso);
+    detalle.ele('estabDocReembolso').txt(reimbursement.estabDocReembolso);
+    detalle.ele('ptoEmiDocReembolso').txt(reimbursement.ptoEmiDocReembolso);
+    detalle.ele('secuencialDocReembolso').txt(reimbursement.secuencialDocReembolso);
+    detalle.ele('fechaEmisionDocReembolso').txt(reimbursement.fechaEmisionDocReembolso);
+    detalle.ele('numeroautorizacionDocReemb').txt(reimbursement.numeroautorizacionDocReemb);
+    const detalleImpuestos = detalle.ele('detalleImpuestos');
+    reimbursement.detalleImpuestos.detalleImpuesto.forEach((tax) => {
+      const detalleImpuesto = detalleImpuestos.ele('detalleImpuesto');
+      detalleImpuesto.ele('codigo').txt(tax.codigo);
+      detalleImpuesto.ele('codigoPorcentaje').txt(tax.codigoPorcentaje);
+      detalleImpuesto.ele('tarifa').txt(tax.tarifa.toString());
+      detalleImpuesto.ele('baseImponibleReembolso').txt(formatAmount(tax.baseImponibleReembolso, 2));
+      detalleImpuesto.ele('impuestoReembolso').txt(formatAmount(tax.impuestoReembolso, 2));
+    });
+  });
+}
+
+/**
+ * Añade el bloque <infoAdicional> (opcional) al nodo raíz del comprobante.
+ * @param root El nodo raíz del comprobante.
+ * @param additionalInfo Los campos adicionales, si existen.
+ */
+export function addAdditionalInfo(root: XMLBuilder, additionalInfo: AdditionalInfo | undefined): void {
+  if (additionalInfo && additionalInfo.campos.length > 0) {
+    const infoAdicional = root.ele('infoAdicional');
+    additionalInfo.campos.forEach((campo) => {
+      infoAdicional.ele('campoAdicional', { nombre: campo.nombre }).txt(campo.valor);
+    });
+  }
+}
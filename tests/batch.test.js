@@ -0,0 +1,85 @@
+/**
+ * @file tests/batch.test.js
+ * @description Pruebas del envío por lote (`npm run test:unit`): estructura del <lote>, división por cantidad,
+ * tamaño, RUC y tipo de comprobante, y validaciones previas al envío contra el SRI simulado.
+ */
+
+const test = require('node:test');
+const assert = require('assert');
+const { buildBatchXml, sendBatch, generateInvoiceXML, generateDebitNoteXML, startMockSri } = require('../dist');
+const { exampleInvoice, debitNote } = require('./fixtures');
+
+/** Genera una factura con el secuencial indicado (sin firmar: el SRI simulado no verifica firmas). */
+function invoiceXml(secuencial) {
+  const invoice = exampleInvoice();
+  invoice.infoTributaria.secuencial = String(secuencial).padStart(9, '0');
+  return generateInvoiceXML(invoice, '12345678');
+}
+
+/** Claves de acceso de los comprobantes de cada lote que recibió el SRI simulado. */
+const receivedLotes = (mock) => mock.requests
+  .filter((r) => r.service === 'reception')
+  .map((r) => [...r.xml.matchAll(/<claveAcceso>(\d{49})<\/claveAcceso>/g)].map((m) => m[1]).slice(1));
+
+let mock;
+test.before(async () => { mock = await startMockSri({ verifySignatures: false }); });
+test.after(() => mock.close());
+test.beforeEach(() => { mock.requests.length = 0; });
+
+test('construye el lote con la clave de acceso del primer comprobante y cada uno en CDATA', () => {
+  const vouchers = [invoiceXml(1), invoiceXml(2)];
+  const { xml, accessKey } = buildBatchXml(vouchers.map((v) => v.xml), '24/07/2025');
+  assert.strictEqual(accessKey.substring(0, 8), '24072025');
+  // Tipo de comprobante, RUC, ambiente, serie y secuencial del primer comprobante.
+  assert.strictEqual(accessKey.substring(8, 39), vouchers[0].accessKey.substring(8, 39));
+  assert.match(xml, new RegExp(`<lote version="1.0.0">\\s*<claveAcceso>${accessKey}</claveAcceso>\\s*<ruc>0602416612001</ruc>`));
+  assert.strictEqual(xml.match(/<comprobante><!\[CDATA\[<factura/g).length, 2);
+  assert.ok(!xml.includes('<?xml version="1.0" encoding="UTF-8"?>\n<factura'));
+
+  const withCData = buildBatchXml([vouchers[0].xml.replace('</factura>', '<!-- ]]> --></factura>')]).xml;
+  assert.ok(withCData.includes(']]]]><![CDATA[>'));
+});
+
+test('rechaza un lote vacío o con comprobantes de distinto tipo', () => {
+  assert.throws(() => buildBatchXml([]), { name: 'ValidationError' });
+  const { xml: note } = generateDebitNoteXML(debitNote(), '12345678');
+  assert.throws(() => buildBatchXml([invoiceXml(1).xml, note]), { name: 'ValidationError', message: /mismo RUC, tipo de comprobante/ });
+  assert.throws(() => buildBatchXml(['<factura/>']), { name: 'ValidationError', message: /signedXmls\[0\]/ });
+});
+
+test('divide los comprobantes según la cantidad máxima por lote y conserva el orden', async () => {
+  const vouchers = [1, 2, 3, 4, 5].map(invoiceXml);
+  const result = await sendBatch(vouchers.map((v) => v.xml), '1', { ...mock.transport, maxVouchersPerBatch: 2 });
+  const keys = vouchers.map((v) => v.accessKey);
+  assert.deepStrictEqual(receivedLotes(mock), [keys.slice(0, 2), keys.slice(2, 4), keys.slice(4)]);
+  assert.deepStrictEqual(result.batches.map((b) => b.vouchers), [keys.slice(0, 2), keys.slice(2, 4), keys.slice(4)]);
+  assert.deepStrictEqual(result.vouchers.map((v) => [v.accessKey, v.estado]), keys.map((key) => [key, 'RECIBIDA']));
+  assert.strictEqual(result.vouchers[2].batchAccessKey, result.batches[1].accessKey);
+});
+
+test('divide los comprobantes según el tamaño máximo del lote', async () => {
+  const vouchers = [11, 12, 13].map(invoiceXml);
+  const size = buildBatchXml([vouchers[0].xml, vouchers[1].xml]).xml.length;
+  const result = await sendBatch(vouchers.map((v) => v.xml), '1', { ...mock.transport, maxBatchBytes: size + 100 });
+  assert.deepStrictEqual(result.batches.map((b) => b.vouchers.length), [2, 1]);
+  assert.ok(mock.requests.every((r) => Buffer.byteLength(r.xml) <= size + 100));
+});
+
+test('envía en lotes separados los comprobantes de distinto tipo', async () => {
+  const invoices = [21, 22].map(invoiceXml);
+  const note = generateDebitNoteXML(debitNote(), '12345678');
+  const result = await sendBatch([invoices[0].xml, note.xml, invoices[1].xml], '1', mock.transport);
+  assert.deepStrictEqual(receivedLotes(mock), [[invoices[0].accessKey, invoices[1].accessKey], [note.accessKey]]);
+  assert.deepStrictEqual(result.vouchers.map((v) => v.accessKey), [invoices[0].accessKey, note.accessKey, invoices[1].accessKey]);
+});
+
+test('valida los comprobantes antes de enviar el primer lote', async () => {
+  const [first, second] = [31, 32].map(invoiceXml);
+  await assert.rejects(sendBatch([first.xml, second.xml, first.xml], '1', mock.transport), { name: 'ValidationError', message: /repetido/ });
+  await assert.rejects(sendBatch([first.xml], '2', mock.transport), { name: 'ValidationError', message: /ambiente 2/ });
+  await assert.rejects(
+    sendBatch([first.xml, second.xml], '1', { ...mock.transport, maxBatchBytes: 1000 }),
+    { name: 'ValidationError', message: new RegExp(`${first.accessKey}.*supera el máximo de 1000 bytes`) },
+  );
+  assert.deepStrictEqual(mock.requests, []);
+});
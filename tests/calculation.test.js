@@ -0,0 +1,97 @@
+/**
+ * @file tests/calculation.test.js
+ * @description Pruebas del motor de cálculo (`npm run test:unit`): redondeo half-up, ICE dentro de la base
+ * imponible del IVA e IRBPNR por unidad.
+ */
+
+const test = require('node:test');
+const assert = require('assert');
+const { calculateDetail, calculateTotals, generateInvoiceXML } = require('../dist');
+const { calculatedInvoice, IVA_15 } = require('./fixtures');
+
+const line = (overrides) => ({
+  codigoPrincipal: 'P001',
+  descripcion: 'Producto',
+  cantidad: 1,
+  precioUnitario: 10,
+  impuestos: [],
+  ...overrides,
+});
+
+test('redondea los valores calculados con half-up (1.005 → 1.01)', () => {
+  const detail = calculateDetail(line({ cantidad: 1, precioUnitario: 1.005 }));
+  assert.strictEqual(detail.precioTotalSinImpuesto, 1.01);
+
+  // 6.70 x 15% = 1.005 exacto; con aritmética binaria quedaría en 1.00.
+  const taxed = calculateDetail(line({ precioUnitario: 6.7, impuestos: [{ codigo: '2', codigoPorcentaje: '4', tarifa: 15 }] }));
+  assert.strictEqual(taxed.impuestos[0].valor, 1.01);
+});
+
+test('resta el descuento antes de calcular los impuestos y rechaza un descuento mayor que la línea', () => {
+  const detail = calculateDetail(line({ cantidad: 2, precioUnitario: 10, descuento: 5, impuestos: [{ codigo: '2', codigoPorcentaje: '4', tarifa: 15 }] }));
+  assert.strictEqual(detail.precioTotalSinImpuesto, 15);
+  assert.deepStrictEqual(detail.impuestos[0], { codigo: '2', codigoPorcentaje: '4', tarifa: 15, baseImponible: 15, valor: 2.25 });
+
+  assert.throws(() => calculateDetail(line({ descuento: 11 })), { name: 'ValidationError' });
+});
+
+test('suma el ICE a la base imponible del IVA', () => {
+  const detail = calculateDetail(line({
+    cantidad: 1,
+    precioUnitario: 100,
+    impuestos: [
+      { codigo: '2', codigoPorcentaje: '4', tarifa: 15 },
+      { codigo: '3', codigoPorcentaje: '3011', tarifa: 10 },
+    ],
+  }));
+  const [iva, ice] = detail.impuestos;
+  assert.deepStrictEqual(ice, { codigo: '3', codigoPorcentaje: '3011', tarifa: 10, baseImponible: 100, valor: 10 });
+  assert.strictEqual(iva.baseImponible, 110);
+  assert.strictEqual(iva.valor, 16.5);
+});
+
+test('calcula el ICE específico por unidad', () => {
+  const detail = calculateDetail(line({
+    cantidad: 3,
+    precioUnitario: 2,
+    impuestos: [{ codigo: '3', codigoPorcentaje: '3031', tarifa: 0, valorUnitario: 0.25 }],
+  }));
+  assert.strictEqual(detail.impuestos[0].valor, 0.75);
+});
+
+test('calcula el IRBPNR por unidad y no sobre el precio', () => {
+  const detail = calculateDetail(line({
+    cantidad: 3,
+    precioUnitario: 0.5,
+    impuestos: [{ codigo: '5', codigoPorcentaje: '5001', tarifa: 0.02 }],
+  }));
+  assert.strictEqual(detail.impuestos[0].baseImponible, 1.5);
+  assert.strictEqual(detail.impuestos[0].valor, 0.06);
+});
+
+test('totaliza los impuestos por código y porcentaje y suma la propina al importe total', () => {
+  const iva = { codigo: '2', codigoPorcentaje: '4', tarifa: 15 };
+  const details = [
+    calculateDetail(line({ precioUnitario: 10, impuestos: [iva] })),
+    calculateDetail(line({ precioUnitario: 20, descuento: 2, impuestos: [iva] })),
+  ];
+  const totals = calculateTotals(details, 1);
+  assert.strictEqual(totals.totalSinImpuestos, 28);
+  assert.strictEqual(totals.totalDescuento, 2);
+  assert.deepStrictEqual(totals.totalConImpuestos, [{ codigo: '2', codigoPorcentaje: '4', baseImponible: 28, valor: 4.2 }]);
+  assert.strictEqual(totals.importeTotal, 33.2);
+});
+
+test('calcula el total de la línea con la cantidad y el precio unitario que emite la versión', () => {
+  const invoice = calculatedInvoice([{ cantidad: 100, precioUnitario: 0.333, impuestos: [IVA_15] }], '1.0.0');
+  const [detail] = invoice.detalles;
+  // La versión 1.0.0 emite el precio unitario con 2 decimales: 100 x 0.33 = 33.00, no 33.30.
+  assert.strictEqual(detail.precioUnitario, 0.33);
+  assert.strictEqual(detail.precioTotalSinImpuesto, 33);
+  assert.deepStrictEqual(detail.impuestos[0], { ...IVA_15, baseImponible: 33, valor: 4.95 });
+  assert.strictEqual(invoice.infoFactura.importeTotal, 37.95);
+  assert.match(generateInvoiceXML(invoice, '12345678').xml, /<precioUnitario>0\.33<\/precioUnitario>\s*<descuento>0\.00<\/descuento>\s*<precioTotalSinImpuesto>33\.00</);
+
+  // Las versiones con 6 decimales conservan el precio exacto.
+  assert.strictEqual(calculatedInvoice([{ cantidad: 100, precioUnitario: 0.333, impuestos: [IVA_15] }], '1.1.0').detalles[0].precioTotalSinImpuesto, 33.3);
+});
@@ -0,0 +1,128 @@
+/**
+ * @file tests/cli.test.js
+ * @description Pruebas de la herramienta `open-factura` (`npm run test:unit`): cada comando termina con el código
+ * de salida que corresponde al resultado (uso, validación, firma, DEVUELTA, NO AUTORIZADO, en procesamiento,
+ * comunicación) y escribe el error como JSON en la salida de errores. Usa el SRI simulado.
+ */
+
+const test = require('node:test');
+const assert = require('assert');
+const fs = require('fs');
+const os = require('os');
+const path = require('path');
+const { execFile } = require('child_process');
+const { generateInvoiceXML, startMockSri } = require('../dist');
+const { exampleInvoice, throwawayIdentity } = require('./fixtures');
+
+const CLI = path.join(__dirname, '..', 'dist', 'cli.js');
+const DAY = 24 * 60 * 60 * 1000;
+
+let mock;
+let dir;
+test.before(async () => {
+  mock = await startMockSri({ verifySignatures: false });
+  dir = fs.mkdtempSync(path.join(os.tmpdir(), 'open-factura-cli-'));
+  fs.writeFileSync(path.join(dir, 'config.json'), JSON.stringify({ ambiente: '1', transport: { ...mock.transport, retries: 1 } }));
+});
+test.after(async () => {
+  await mock.close();
+  fs.rmSync(dir, { recursive: true, force: true });
+});
+
+/**
+ * Ejecuta la herramienta con la configuración del SRI simulado y devuelve el código de salida y las salidas.
+ * Las variables OPEN_FACTURA_* del entorno no se heredan.
+ */
+function cli(...args) {
+  const env = Object.fromEntries(Object.entries(process.env).filter(([name]) => !name.startsWith('OPEN_FACTURA_')));
+  env.OPEN_FACTURA_CONFIG = path.join(dir, 'config.json');
+  return new Promise((resolve) => {
+    execFile(process.execPath, [CLI, ...args], { env, timeout: 60000 }, (error, stdout, stderr) => {
+      resolve({ code: error ? error.code : 0, stdout, stderr });
+    });
+  });
+}
+
+/** Escribe en el directorio temporal una factura (sin firmar: el SRI simulado no verifica firmas) y devuelve su ruta. */
+function invoiceFile(secuencial) {
+  const invoice = exampleInvoice();
+  invoice.infoTributaria.secuencial = String(secuencial).padStart(9, '0');
+  const { xml, accessKey } = generateInvoiceXML(invoice, '12345678');
+  const file = path.join(dir, `${accessKey}.xml`);
+  fs.writeFileSync(file, xml);
+  return { file, accessKey };
+}
+
+test('termina con 2 ante un comando, una opción o un argumento inválidos', async () => {
+  assert.strictEqual((await cli()).code, 2);
+  assert.strictEqual((await cli('publicar')).code, 2);
+  assert.strictEqual((await cli('generate', '--no-existe')).code, 2);
+  const missing = await cli('authorize', '123');
+  assert.strictEqual(missing.code, 2);
+  assert.strictEqual(JSON.parse(missing.stderr).error, 'CliUsageError');
+  assert.strictEqual((await cli('--help')).code, 0);
+});
+
+test('termina con 0 y escribe el resultado como JSON', async () => {
+  const data = path.join(dir, 'factura.json');
+  fs.writeFileSync(data, JSON.stringify(exampleInvoice()));
+  const generated = await cli('generate', data, '--codigo-numerico', '12345678');
+  assert.strictEqual(generated.code, 0);
+  assert.match(JSON.parse(generated.stdout).accessKey, /^\d{49}$/);
+
+  const decoded = await cli('access-key', 'decode', JSON.parse(generated.stdout).accessKey);
+  assert.strictEqual(decoded.code, 0);
+  assert.strictEqual(JSON.parse(decoded.stdout).secuencial, '000000123');
+});
+
+test('termina con 3 si los datos no cumplen las reglas del SRI', async () => {
+  const data = path.join(dir, 'otro-tipo.json');
+  const invoice = exampleInvoice();
+  invoice.infoTributaria.codDoc = '99';
+  fs.writeFileSync(data, JSON.stringify(invoice));
+  const result = await cli('generate', data);
+  assert.strictEqual(result.code, 3);
+  assert.strictEqual(JSON.parse(result.stderr).error, 'ValidationError');
+  assert.strictEqual((await cli('access-key', 'build', '--fecha-emision', '24/07/2025', '--cod-doc', '01', '--ruc', '179', '--ambiente', '1',
+    '--estab', '001', '--pto-emi', '001', '--secuencial', '1')).code, 3);
+});
+
+test('termina con 4 si el certificado no existe o está vencido', async () => {
+  const { file } = invoiceFile(1);
+  assert.strictEqual((await cli('sign', file, '--p12', path.join(dir, 'no-existe.p12'), '--password', 'x')).code, 4);
+
+  const expired = path.join(dir, 'vencido.p12');
+  fs.writeFileSync(expired, throwawayIdentity('pruebas', { notBefore: new Date(Date.now() - 3 * DAY), notAfter: new Date(Date.now() - DAY) }).p12);
+  const result = await cli('inspect-cert', expired, '--password', 'pruebas');
+  assert.strictEqual(result.code, 4);
+  assert.match(JSON.parse(result.stderr).message, /no está vigente/);
+});
+
+test('termina con 5 si la recepción responde DEVUELTA, con los mensajes del SRI', async () => {
+  const { file, accessKey } = invoiceFile(2);
+  mock.script('reception', [{ estado: 'DEVUELTA', mensajes: [{ identificador: '65', mensaje: 'FECHA EMISION EXTEMPORANEA' }] }], accessKey);
+  const result = await cli('send', file);
+  assert.strictEqual(result.code, 5);
+  const error = JSON.parse(result.stderr);
+  assert.strictEqual(error.accessKey, accessKey);
+  assert.deepStrictEqual(error.mensajes.map((m) => m.identificador), ['65']);
+
+  const received = await cli('send', file);
+  assert.strictEqual(received.code, 0);
+  assert.strictEqual(JSON.parse(received.stdout).estado, 'RECIBIDA');
+});
+
+test('termina con 6, 7 u 8 según la respuesta de la autorización', async () => {
+  const { accessKey } = invoiceFile(3);
+  mock.script('authorization', [{ estado: 'NO AUTORIZADO', mensajes: [{ identificador: '56', mensaje: 'ESTABLECIMIENTO CERRADO' }] }], accessKey);
+  assert.strictEqual((await cli('authorize', accessKey)).code, 6);
+
+  const pending = await cli('authorize', accessKey);
+  assert.strictEqual(pending.code, 7);
+  assert.strictEqual(JSON.parse(pending.stderr).retryable, true);
+
+  mock.script('authorization', [{ fault: 'Error interno' }, { fault: 'Error interno' }], accessKey);
+  const failed = await cli('authorize', accessKey);
+  assert.strictEqual(failed.code, 8);
+  assert.strictEqual(JSON.parse(failed.stderr).error, 'SriCommunicationError');
+});
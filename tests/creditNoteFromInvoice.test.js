@@ -0,0 +1,84 @@
+/**
+ * @file tests/creditNoteFromInvoice.test.js
+ * @description Pruebas de la nota de crédito derivada de una factura (`npm run test:unit`): crédito total,
+ * crédito parcial con impuestos recalculados sobre la base prorrateada y selección de las líneas acreditadas.
+ */
+
+const test = require('node:test');
+const assert = require('assert');
+const { createCreditNoteFromInvoice, generateCreditNoteXML, validateXmlAgainstSchema } = require('../dist');
+const { calculatedInvoice, exampleInvoice, IVA_15 } = require('./fixtures');
+
+const OPTIONS = { fechaEmision: '24/07/2025', secuencial: '000000010', motivo: 'Devolución' };
+
+test('acredita la factura completa con los mismos valores', () => {
+  const invoice = exampleInvoice();
+  const note = createCreditNoteFromInvoice(invoice, OPTIONS);
+  assert.strictEqual(note.infoTributaria.codDoc, '04');
+  assert.strictEqual(note.infoNotaCredito.numDocModificado, '001-001-000000123');
+  assert.strictEqual(note.infoNotaCredito.totalSinImpuestos, 110);
+  assert.strictEqual(note.infoNotaCredito.valorModificacion, 125);
+  assert.deepStrictEqual(note.detalles.map((detalle) => detalle.impuestos), invoice.detalles.map((detalle) => detalle.impuestos));
+});
+
+test('recalcula el IVA de un crédito parcial sobre la base prorrateada', () => {
+  // 3 x 0.35 con 0.01 de descuento: la factura tiene base 1.04 e IVA 0.16.
+  const invoice = calculatedInvoice([{ cantidad: 3, precioUnitario: 0.35, descuento: 0.01, impuestos: [IVA_15] }]);
+  assert.strictEqual(invoice.detalles[0].impuestos[0].valor, 0.16);
+
+  const note = createCreditNoteFromInvoice(invoice, { ...OPTIONS, items: [{ linea: 0, cantidad: 2 }] });
+  const [detalle] = note.detalles;
+  assert.strictEqual(detalle.descuento, 0.01);
+  assert.strictEqual(detalle.precioTotalSinImpuesto, 0.69);
+  // 0.69 x 15% = 0.1035 → 0.10; prorratear el IVA de la factura (0.16 x 2/3) daría 0.11.
+  assert.deepStrictEqual(detalle.impuestos, [{ codigo: '2', codigoPorcentaje: '4', tarifa: 15, baseImponible: 0.69, valor: 0.1 }]);
+  assert.deepStrictEqual(note.infoNotaCredito.totalConImpuestos, [{ codigo: '2', codigoPorcentaje: '4', baseImponible: 0.69, valor: 0.1 }]);
+  assert.strictEqual(note.infoNotaCredito.valorModificacion, 0.79);
+});
+
+test('recalcula el ICE y lo incluye en la base del IVA de un crédito parcial', () => {
+  const invoice = calculatedInvoice([{
+    cantidad: 4,
+    precioUnitario: 10,
+    impuestos: [IVA_15, { codigo: '3', codigoPorcentaje: '3011', tarifa: 10 }, { codigo: '5', codigoPorcentaje: '5001', tarifa: 0.02 }],
+  }]);
+  const note = createCreditNoteFromInvoice(invoice, { ...OPTIONS, items: [{ linea: 0, cantidad: 1 }] });
+  const [iva, ice, irbpnr] = note.detalles[0].impuestos;
+  assert.strictEqual(ice.valor, 1);
+  assert.strictEqual(iva.baseImponible, 11);
+  assert.strictEqual(iva.valor, 1.65);
+  assert.strictEqual(irbpnr.valor, 0.02);
+});
+
+test('genera un XML de nota de crédito parcial que cumple el XSD oficial', async () => {
+  const invoice = calculatedInvoice([
+    { cantidad: 3, precioUnitario: 0.35, descuento: 0.01, impuestos: [IVA_15] },
+    { cantidad: 2, precioUnitario: 5, impuestos: [IVA_15] },
+  ]);
+  const note = createCreditNoteFromInvoice(invoice, { ...OPTIONS, items: [{ codigoPrincipal: 'P1', cantidad: 2 }] });
+  const { xml } = generateCreditNoteXML(note, '12345678');
+  const result = await validateXmlAgainstSchema(xml, 'notaCredito', '1.1.0');
+  assert.deepStrictEqual(result.errors, []);
+});
+
+test('identifica las líneas por posición o por código único', () => {
+  const invoice = calculatedInvoice([
+    { codigoPrincipal: 'A', cantidad: 1, precioUnitario: 1, impuestos: [IVA_15] },
+    { codigoPrincipal: 'A', cantidad: 1, precioUnitario: 2, impuestos: [IVA_15] },
+  ]);
+  const credit = (items) => createCreditNoteFromInvoice(invoice, { ...OPTIONS, items });
+  assert.strictEqual(credit([{ linea: 1, cantidad: 1 }]).detalles[0].precioUnitario, 2);
+  assert.throws(() => credit([{ codigoPrincipal: 'A', cantidad: 1 }]), { name: 'ValidationError', message: /indique la línea/ });
+  assert.throws(() => credit([{ codigoPrincipal: 'B', cantidad: 1 }]), { message: /no existe/ });
+  assert.throws(() => credit([{ linea: 2, cantidad: 1 }]), { message: /posición 2/ });
+  assert.throws(() => credit([{ linea: 0, codigoPrincipal: 'B', cantidad: 1 }]), { message: /tiene el código A/ });
+  assert.throws(() => credit([]), { name: 'ValidationError' });
+});
+
+test('no acredita más de la cantidad facturada sumando los ítems de la misma línea', () => {
+  const invoice = calculatedInvoice([{ cantidad: 3, precioUnitario: 1, impuestos: [IVA_15] }]);
+  const credit = (items) => createCreditNoteFromInvoice(invoice, { ...OPTIONS, items });
+  assert.strictEqual(credit([{ linea: 0, cantidad: 1 }, { linea: 0, cantidad: 2 }]).detalles.length, 2);
+  assert.throws(() => credit([{ linea: 0, cantidad: 2 }, { linea: 0, cantidad: 2 }]), { name: 'ValidationError', message: /items\[1\]\.cantidad/ });
+  assert.throws(() => credit([{ linea: 0, cantidad: 0 }]), { message: /items\[0\]\.cantidad/ });
+});
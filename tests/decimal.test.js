@@ -0,0 +1,68 @@
+/**
+ * @file tests/decimal.test.js
+ * @description Pruebas de la aritmética decimal exacta (`npm run test:unit`): lectura de números y textos,
+ * operaciones sin errores de punto flotante y redondeo half-up simétrico.
+ */
+
+const test = require('node:test');
+const assert = require('assert');
+const { Decimal, formatAmount, sumAmounts, sameAmount } = require('../dist');
+
+test('lee números por su representación más corta y textos sin pasar por binario', () => {
+  assert.strictEqual(Decimal.from(1.005).toString(), '1.005');
+  assert.strictEqual(Decimal.from('0010.500').toString(), '10.5');
+  assert.strictEqual(Decimal.from('-.5').toString(), '-0.5');
+  assert.strictEqual(Decimal.from('1e-7').toString(), '0.0000001');
+  assert.strictEqual(Decimal.from('1.5E3').toString(), '1500');
+  assert.strictEqual(Decimal.from(' 12345678901234567890.12 ').toString(), '12345678901234567890.12');
+});
+
+test('rechaza valores que no son números decimales e indica el campo', () => {
+  for (const value of ['', 'abc', '1.2.3', '.', NaN, Infinity, undefined]) {
+    assert.throws(() => Decimal.from(value), { name: 'ValidationError' }, String(value));
+  }
+  assert.throws(() => Decimal.from('1,5', 'detalles[0].cantidad'), { message: /detalles\[0\]\.cantidad/ });
+});
+
+test('suma, resta y multiplica sin errores de punto flotante', () => {
+  assert.strictEqual(Decimal.from(0.1).plus(0.2).toString(), '0.3');
+  assert.strictEqual(Decimal.from('1').minus('0.9').toString(), '0.1');
+  assert.strictEqual(Decimal.from(1.1).times(1.1).toString(), '1.21');
+  assert.strictEqual(Decimal.sum([0.1, 0.1, 0.1]).toString(), '0.3');
+  assert.strictEqual(Decimal.from(250).times(12).shift(2).toString(), '30');
+});
+
+test('redondea half-up de forma simétrica', () => {
+  assert.strictEqual(Decimal.from(1.005).round(2).toString(), '1.01');
+  assert.strictEqual(Decimal.from(-1.005).round(2).toString(), '-1.01');
+  assert.strictEqual(Decimal.from(1.004999).round(2).toString(), '1');
+  assert.strictEqual(Decimal.from(2.5).round(0).toString(), '3');
+  assert.strictEqual(formatAmount(1.005), '1.01');
+  assert.strictEqual(formatAmount('0.0000005', 6), '0.000001');
+  assert.strictEqual(formatAmount(-0.001), '0.00');
+  assert.strictEqual(formatAmount(7, 6), '7.000000');
+});
+
+test('divide redondeando el cociente y rechaza la división para cero', () => {
+  assert.strictEqual(Decimal.from(1).dividedBy(3).toString(), '0.33');
+  assert.strictEqual(Decimal.from(2).dividedBy(3, 4).toString(), '0.6667');
+  assert.strictEqual(Decimal.from('0.05').dividedBy(2).toString(), '0.03');
+  assert.throws(() => Decimal.from(1).dividedBy(0), { name: 'ValidationError' });
+});
+
+test('compara valores con escalas distintas', () => {
+  assert.ok(Decimal.from('1.50').equals(1.5));
+  assert.strictEqual(Decimal.from('1.49').compare('1.5'), -1);
+  assert.strictEqual(Decimal.from('-1').compare('-2'), 1);
+  assert.strictEqual(Decimal.from('1.50000').decimalPlaces(), 1);
+  assert.ok(Decimal.from('-0.00').isZero());
+});
+
+test('suma y compara montos tal como aparecen en el XML', () => {
+  // Cada valor se redondea a 2 decimales antes de sumar, como lo hace el SRI.
+  assert.strictEqual(sumAmounts([0.005, 0.005]).toString(), '0.02');
+  assert.strictEqual(sumAmounts([0.005, 0.005], 3).toString(), '0.01');
+  assert.ok(sameAmount(1.004, 1.001));
+  assert.ok(!sameAmount(1.005, 1.004));
+  assert.strictEqual(JSON.stringify({ total: Decimal.from('10.50') }), '{"total":"10.5"}');
+});
@@ -0,0 +1,83 @@
+/**
+ * @file tests/errors.test.js
+ * @description Pruebas de las clases de error (`npm run test:unit`): jerarquía, nombres, clave de acceso,
+ * mensajes del SRI con sus identificadores y la indicación de si conviene reintentar.
+ */
+
+const test = require('node:test');
+const assert = require('assert');
+const {
+  OpenFacturaError,
+  SriReceptionError,
+  SriNotAuthorizedError,
+  SriPendingError,
+  SriCommunicationError,
+  SigningError,
+  ValidationError,
+  SRI_MESSAGE_IDENTIFIERS,
+} = require('../dist');
+
+const ACCESS_KEY = '2307202501060241661200110010010000001231234567813';
+const message = (identificador, mensaje = 'MENSAJE') => ({ identificador, mensaje, tipo: 'ERROR' });
+
+test('todos los errores heredan de OpenFacturaError y de Error, con su propio nombre', () => {
+  const errors = [
+    new SriReceptionError(ACCESS_KEY, []),
+    new SriNotAuthorizedError(ACCESS_KEY, []),
+    new SriPendingError(ACCESS_KEY, 'en proceso'),
+    new SriCommunicationError('sin red', { attempts: 1, retryable: true }),
+    new SigningError('clave'),
+    new ValidationError('datos'),
+  ];
+  assert.deepStrictEqual(errors.map((error) => error.name), [
+    'SriReceptionError', 'SriNotAuthorizedError', 'SriPendingError', 'SriCommunicationError', 'SigningError', 'ValidationError',
+  ]);
+  errors.forEach((error) => {
+    assert.ok(error instanceof OpenFacturaError && error instanceof Error, error.name);
+    assert.ok(error.stack);
+  });
+});
+
+test('conserva la clave de acceso y los mensajes del SRI con sus identificadores', () => {
+  const error = new SriReceptionError(ACCESS_KEY, [message('43', 'CLAVE ACCESO REGISTRADA'), message('65')]);
+  assert.strictEqual(error.accessKey, ACCESS_KEY);
+  assert.deepStrictEqual(error.identifiers, ['43', '65']);
+  assert.ok(error.hasIdentifier(SRI_MESSAGE_IDENTIFIERS.CLAVE_ACCESO_REGISTRADA));
+  assert.ok(!error.hasIdentifier(SRI_MESSAGE_IDENTIFIERS.FIRMA_INVALIDA));
+  assert.match(error.message, /\[43\] CLAVE ACCESO REGISTRADA/);
+});
+
+test('solo los identificadores 50 y 70 hacen reintentable un comprobante devuelto o no autorizado', () => {
+  assert.strictEqual(new SriReceptionError(ACCESS_KEY, [message('39')]).retryable, false);
+  assert.strictEqual(new SriReceptionError(ACCESS_KEY, [message('39'), message('50')]).retryable, true);
+  assert.strictEqual(new SriNotAuthorizedError(ACCESS_KEY, [message('52')]).retryable, false);
+  assert.strictEqual(new SriNotAuthorizedError(ACCESS_KEY, [message('70')]).retryable, true);
+  assert.strictEqual(new SriPendingError(ACCESS_KEY, 'en proceso').retryable, true);
+  assert.strictEqual(new SigningError('clave').retryable, false);
+});
+
+test('indica cuando el SRI ya recibió la clave de acceso (43 o 70)', () => {
+  assert.ok(new SriReceptionError(ACCESS_KEY, [message('43')]).alreadyReceived);
+  assert.ok(new SriReceptionError(ACCESS_KEY, [message('70')]).alreadyReceived);
+  assert.ok(!new SriReceptionError(ACCESS_KEY, [message('45')]).alreadyReceived);
+});
+
+test('SriCommunicationError conserva el código HTTP, el SOAP Fault, los intentos y la causa', () => {
+  const cause = new Error('ECONNRESET');
+  const error = new SriCommunicationError('falló', { status: 503, fault: 'Servicio saturado', attempts: 4, retryable: true, accessKey: ACCESS_KEY, cause });
+  assert.deepStrictEqual(
+    { status: error.status, fault: error.fault, attempts: error.attempts, retryable: error.retryable, accessKey: error.accessKey, cause: error.cause },
+    { status: 503, fault: 'Servicio saturado', attempts: 4, retryable: true, accessKey: ACCESS_KEY, cause },
+  );
+  const network = new SriCommunicationError('sin red', { attempts: 1, retryable: true });
+  assert.deepStrictEqual([network.status, network.fault, network.accessKey, network.sriMessages], [null, null, null, []]);
+  assert.ok(!('cause' in network) || network.cause === undefined);
+});
+
+test('ValidationError enumera las fallas y forField antepone la ruta del campo', () => {
+  const error = ValidationError.forField('infoFactura.identificacionComprador', 'no es una cédula válida.');
+  assert.strictEqual(error.message, 'infoFactura.identificacionComprador: no es una cédula válida.');
+  assert.deepStrictEqual(error.issues, [{ path: 'infoFactura.identificacionComprador', message: 'no es una cédula válida.' }]);
+  assert.deepStrictEqual(new ValidationError('datos').issues, [{ path: '', message: 'datos' }]);
+  assert.strictEqual(new ValidationError('datos').retryable, false);
+});
@@ -0,0 +1,198 @@
+/**
+ * @file tests/fixtures.js
+ * @description Datos de prueba compartidos por las pruebas de `tests/*.test.js`: la factura de ejemplo,
+ * facturas calculadas a partir de líneas crudas con los datos de cabecera del ejemplo, un comprobante de cada tipo
+ * y certificados autofirmados desechables para firmar.
+ */
+
+const crypto = require('crypto');
+const path = require('path');
+const forge = require('node-forge');
+const { calculateInvoice } = require('../dist');
+
+const EXAMPLE_INVOICE = path.join(__dirname, '..', 'src', 'example', 'invoice-input.json');
+
+/**
+ * Devuelve una copia de la factura de ejemplo (versión 2.1.0).
+ */
+function exampleInvoice() {
+  return JSON.parse(JSON.stringify(require(EXAMPLE_INVOICE)));
+}
+
+/**
+ * Calcula una factura con la cabecera del ejemplo y las líneas crudas indicadas.
+ *
+ * @param detalles Las líneas crudas (ver `DetailInput`).
+ * @param version La versión de la factura (por defecto '1.1.0').
+ */
+function calculatedInvoice(detalles, version = '1.1.0') {
+  const { infoTributaria, infoFactura } = exampleInvoice();
+  const {
+    totalSinImpuestos, totalDescuento, totalConImpuestos, importeTotal, pagos, ...header
+  } = infoFactura;
+  return calculateInvoice({
+    version,
+    infoTributaria,
+    infoFactura: { ...header, pagos: [{ formaPago: '01' }] },
+    detalles: detalles.map((detalle, index) => ({ codigoPrincipal: `P${index + 1}`, descripcion: `Producto ${index + 1}`, ...detalle })),
+  });
+}
+
+/**
+ * Devuelve una nota de débito 1.0.0 con la cabecera del ejemplo: un cargo de 10.00 más IVA 15%.
+ */
+function debitNote() {
+  const { infoTributaria, infoFactura } = exampleInvoice();
+  return {
+    version: '1.0.0',
+    infoTributaria: { ...infoTributaria, codDoc: '05', secuencial: '000000020' },
+    infoNotaDebito: {
+      fechaEmision: '24/07/2025',
+      dirEstablecimiento: infoFactura.dirEstablecimiento,
+      tipoIdentificacionComprador: infoFactura.tipoIdentificacionComprador,
+      razonSocialComprador: infoFactura.razonSocialComprador,
+      identificacionComprador: infoFactura.identificacionComprador,
+      obligadoContabilidad: 'SI',
+      codDocModificado: '01',
+      numDocModificado: '001-001-000000123',
+      fechaEmisionDocSustento: infoFactura.fechaEmision,
+      totalSinImpuestos: 10,
+      impuestos: [{ codigo: '2', codigoPorcentaje: '4', tarifa: 15, baseImponible: 10, valor: 1.5 }],
+      valorTotal: 11.5,
+      pagos: [{ formaPago: '01', total: 11.5 }],
+    },
+    motivos: [{ razon: 'Intereses por mora', valor: 10 }],
+  };
+}
+
+/**
+ * Devuelve un comprobante de retención 2.0.0 sobre una factura de 100.00 más IVA 15%,
+ * con retención de renta del 10% (código 303) y de IVA del 30% (código 1).
+ */
+function retentionVoucher() {
+  const { infoTributaria, infoFactura } = exampleInvoice();
+  return {
+    version: '2.0.0',
+    infoTributaria: { ...infoTributaria, codDoc: '07', secuencial: '000000030' },
+    infoCompRetencion: {
+      fechaEmision: '24/07/2025',
+      dirEstablecimiento: infoFactura.dirEstablecimiento,
+      obligadoContabilidad: 'SI',
+      tipoIdentificacionSujetoRetenido: '04',
+      parteRel: 'NO',
+      razonSocialSujetoRetenido: 'PROVEEDOR S.A.',
+      identificacionSujetoRetenido: '1790000001001',
+      periodoFiscal: '07/2025',
+    },
+    docsSustento: [{
+      codSustento: '01',
+      codDocSustento: '01',
+      numDocSustento: '001001000000456',
+      fechaEmisionDocSustento: '23/07/2025',
+      pagoLocExt: '01',
+      totalSinImpuestos: 100,
+      importeTotal: 115,
+      impuestosDocSustento: [{ codImpuestoDocSustento: '2', codigoPorcentaje: '4', baseImponible: 100, tarifa: 15, valorImpuesto: 15 }],
+      retenciones: [
+        { codigo: '1', codigoRetencion: '303', baseImponible: 100, porcentajeRetener: 10, valorRetenido: 10 },
+        { codigo: '2', codigoRetencion: '1', baseImponible: 15, porcentajeRetener: 30, valorRetenido: 4.5 },
+      ],
+      pagos: [{ formaPago: '20', total: 115 }],
+    }],
+  };
+}
+
+/**
+ * Devuelve una guía de remisión 1.1.0 con un destinatario y un ítem trasladado.
+ */
+function remissionGuide() {
+  const { infoTributaria, infoFactura } = exampleInvoice();
+  return {
+    version: '1.1.0',
+    infoTributaria: { ...infoTributaria, codDoc: '06', secuencial: '000000040' },
+    infoGuiaRemision: {
+      dirEstablecimiento: infoFactura.dirEstablecimiento,
+      dirPartida: 'AV. AMAZONAS Y NACIONES UNIDAS. QUITO',
+      razonSocialTransportista: 'TRANSPORTES ANDINOS S.A.',
+      tipoIdentificacionTransportista: '04',
+      rucTransportista: '1790000001001',
+      obligadoContabilidad: 'SI',
+      fechaIniTransporte: '24/07/2025',
+      fechaFinTransporte: '25/07/2025',
+      placa: 'PBA-1234',
+    },
+    destinatarios: [{
+      identificacionDestinatario: '1720000007',
+      razonSocialDestinatario: 'Juan del Pueblo',
+      dirDestinatario: 'AV. 6 DE DICIEMBRE. QUITO',
+      motivoTraslado: 'Venta',
+      codDocSustento: '01',
+      numDocSustento: '001-001-000000123',
+      fechaEmisionDocSustento: '23/07/2025',
+      detalles: [{ codigoInterno: 'PROD-001', descripcion: 'Equipo', cantidad: 2.5 }],
+    }],
+  };
+}
+
+/**
+ * Devuelve una liquidación de compra 1.1.0 con los detalles y totales de la factura de ejemplo
+ * y una persona natural como proveedor.
+ */
+function purchaseSettlement() {
+  const { infoTributaria, infoFactura, detalles } = exampleInvoice();
+  return {
+    version: '1.1.0',
+    infoTributaria: { ...infoTributaria, codDoc: '03', secuencial: '000000050' },
+    infoLiquidacionCompra: {
+      fechaEmision: infoFactura.fechaEmision,
+      dirEstablecimiento: infoFactura.dirEstablecimiento,
+      obligadoContabilidad: 'SI',
+      tipoIdentificacionProveedor: '05',
+      razonSocialProveedor: 'Artesano Proveedor',
+      identificacionProveedor: '1720000007',
+      direccionProveedor: 'OTAVALO',
+      totalSinImpuestos: infoFactura.totalSinImpuestos,
+      totalDescuento: infoFactura.totalDescuento,
+      totalConImpuestos: infoFactura.totalConImpuestos,
+      importeTotal: infoFactura.importeTotal,
+      moneda: 'DOLAR',
+      pagos: infoFactura.pagos,
+    },
+    detalles,
+  };
+}
+
+const DAY = 24 * 60 * 60 * 1000;
+
+/**
+ * Crea una clave RSA y un certificado autofirmado, en PEM y en .p12, que no necesita el certificado de `certs/`.
+ *
+ * @param password La contraseña del .p12.
+ * @param validity Vigencia del certificado (por defecto, desde ayer hasta mañana).
+ */
+function throwawayIdentity(password = 'pruebas', { notBefore = new Date(Date.now() - DAY), notAfter = new Date(Date.now() + DAY) } = {}) {
+  const { privateKey, publicKey } = crypto.generateKeyPairSync('rsa', { modulusLength: 2048 });
+  const privateKeyPem = privateKey.export({ type: 'pkcs1', format: 'pem' });
+  const forgeKey = forge.pki.privateKeyFromPem(privateKeyPem);
+  const cert = forge.pki.createCertificate();
+  cert.publicKey = forge.pki.publicKeyFromPem(publicKey.export({ type: 'spki', format: 'pem' }));
+  cert.serialNumber = '01';
+  cert.validity.notBefore = notBefore;
+  cert.validity.notAfter = notAfter;
+  const attributes = [{ name: 'commonName', value: 'OPEN-FACTURA PRUEBAS' }, { name: 'countryName', value: 'EC' }];
+  cert.setSubject(attributes);
+  cert.setIssuer(attributes);
+  cert.sign(forgeKey, forge.md.sha256.create());
+  const p12 = forge.pkcs12.toPkcs12Asn1(forgeKey, [cert], password, { algorithm: '3des' });
+  return {
+    privateKey,
+    privateKeyPem,
+    certificatePem: forge.pki.certificateToPem(cert),
+    p12: Buffer.from(forge.asn1.toDer(p12).getBytes(), 'binary'),
+  };
+}
+
+/** Impuesto de IVA 15% (código 4) para las líneas crudas. */
+const IVA_15 = { codigo: '2', codigoPorcentaje: '4', tarifa: 15 };
+
+module.exports = { exampleInvoice, calculatedInvoice, debitNote, retentionVoucher, remissionGuide, purchaseSettlement, throwawayIdentity, IVA_15 };
@@ -0,0 +1,62 @@
+/**
+ * @file tests/generateDebitNote.test.js
+ * @description Pruebas del generador de notas de débito (`npm run test:unit`): el XML cumple el XSD oficial
+ * y se rechazan los datos con totales, documento modificado o impuestos inconsistentes.
+ */
+
+const test = require('node:test');
+const assert = require('assert');
+const { generateDebitNoteXML, validateXmlAgainstSchema, decodeAccessKey } = require('../dist');
+const { debitNote } = require('./fixtures');
+
+test('genera un XML que cumple NotaDebito_V1.0.0.xsd', async () => {
+  const { xml, accessKey } = generateDebitNoteXML(debitNote(), '12345678');
+  assert.match(xml, /<notaDebito id="comprobante" version="1\.0\.0">/);
+  assert.strictEqual(decodeAccessKey(accessKey).voucherType, '05');
+  const result = await validateXmlAgainstSchema(xml, 'notaDebito', '1.0.0');
+  assert.deepStrictEqual(result.errors, []);
+});
+
+test('omite el bloque de pagos cuando no se indica', async () => {
+  const note = debitNote();
+  delete note.infoNotaDebito.pagos;
+  const { xml } = generateDebitNoteXML(note, '12345678');
+  assert.doesNotMatch(xml, /<pagos>/);
+  assert.ok((await validateXmlAgainstSchema(xml, 'notaDebito', '1.0.0')).valid);
+});
+
+test('rechaza un codDoc distinto de 05 o un documento modificado mal formado', () => {
+  const wrongCode = debitNote();
+  wrongCode.infoTributaria.codDoc = '01';
+  assert.throws(() => generateDebitNoteXML(wrongCode), { name: 'ValidationError', message: /05/ });
+
+  const wrongNumber = debitNote();
+  wrongNumber.infoNotaDebito.numDocModificado = '001001000000123';
+  assert.throws(() => generateDebitNoteXML(wrongNumber), { name: 'ValidationError', message: /numDocModificado/ });
+
+  const noMotivos = debitNote();
+  noMotivos.motivos = [];
+  assert.throws(() => generateDebitNoteXML(noMotivos), { name: 'ValidationError' });
+});
+
+test('rechaza totales que no cuadran con los motivos, los impuestos o los pagos', () => {
+  const motivos = debitNote();
+  motivos.motivos.push({ razon: 'Gastos de cobranza', valor: 1 });
+  assert.throws(() => generateDebitNoteXML(motivos), { message: /motivos/ });
+
+  const valorTotal = debitNote();
+  valorTotal.infoNotaDebito.valorTotal = 11.49;
+  assert.throws(() => generateDebitNoteXML(valorTotal), { message: /valorTotal/ });
+
+  const pagos = debitNote();
+  pagos.infoNotaDebito.pagos[0].total = 10;
+  assert.throws(() => generateDebitNoteXML(pagos), { message: /pagos/ });
+});
+
+test('rechaza un código de IVA que no está vigente en la fecha de emisión', () => {
+  const note = debitNote();
+  note.infoNotaDebito.impuestos[0] = { codigo: '2', codigoPorcentaje: '2', tarifa: 12, baseImponible: 10, valor: 1.2 };
+  note.infoNotaDebito.valorTotal = 11.2;
+  note.infoNotaDebito.pagos[0].total = 11.2;
+  assert.throws(() => generateDebitNoteXML(note), { name: 'ValidationError', message: /infoNotaDebito\.impuestos\[0\]/ });
+});
@@ -0,0 +1,55 @@
+/**
+ * @file tests/generatePurchaseSettlement.test.js
+ * @description Pruebas del generador de liquidaciones de compra (`npm run test:unit`): el XML cumple el XSD oficial,
+ * serializa los detalles como la factura y se rechazan proveedores, totales o reembolsos inconsistentes.
+ */
+
+const test = require('node:test');
+const assert = require('assert');
+const { generatePurchaseSettlementXML, validateXmlAgainstSchema, decodeAccessKey } = require('../dist');
+const { purchaseSettlement } = require('./fixtures');
+
+test('genera un XML que cumple LiquidacionCompra_V1.1.0.xsd', async () => {
+  const { xml, accessKey } = generatePurchaseSettlementXML(purchaseSettlement(), '12345678');
+  assert.match(xml, /<liquidacionCompra id="comprobante" version="1\.1\.0">/);
+  assert.match(xml, /<precioUnitario>105\.000000<\/precioUnitario>/);
+  assert.strictEqual(decodeAccessKey(accessKey).voucherType, '03');
+  assert.deepStrictEqual((await validateXmlAgainstSchema(xml, 'liquidacionCompra', '1.1.0')).errors, []);
+});
+
+test('usa 2 decimales en cantidad y precio unitario de la versión 1.0.0', () => {
+  const settlement = purchaseSettlement();
+  settlement.version = '1.0.0';
+  const { xml } = generatePurchaseSettlementXML(settlement, '12345678');
+  assert.match(xml, /<precioUnitario>105\.00<\/precioUnitario>/);
+});
+
+test('valida la identificación del proveedor según su tipo', () => {
+  const settlement = purchaseSettlement();
+  settlement.infoLiquidacionCompra.identificacionProveedor = '1720000008';
+  assert.throws(() => generatePurchaseSettlementXML(settlement), { name: 'ValidationError', message: /infoLiquidacionCompra\.identificacionProveedor/ });
+});
+
+test('rechaza un codDoc distinto de 03 y totales que no cuadran con los detalles o los pagos', () => {
+  const codDoc = purchaseSettlement();
+  codDoc.infoTributaria.codDoc = '01';
+  assert.throws(() => generatePurchaseSettlementXML(codDoc), { message: /03/ });
+
+  const total = purchaseSettlement();
+  total.infoLiquidacionCompra.totalSinImpuestos = 100;
+  assert.throws(() => generatePurchaseSettlementXML(total), { message: /totalSinImpuestos/ });
+
+  const pagos = purchaseSettlement();
+  pagos.infoLiquidacionCompra.pagos[0].total = 120;
+  assert.throws(() => generatePurchaseSettlementXML(pagos), { message: /pagos/ });
+});
+
+test('exige codDocReembolso cuando hay reembolsos y valida el catálogo de impuestos', () => {
+  const reembolso = purchaseSettlement();
+  reembolso.reembolsos = { reembolsoDetalle: [] };
+  assert.throws(() => generatePurchaseSettlementXML(reembolso), { message: /codDocReembolso/ });
+
+  const impuesto = purchaseSettlement();
+  impuesto.detalles[0].impuestos[0].codigoPorcentaje = '2';
+  assert.throws(() => generatePurchaseSettlementXML(impuesto), { message: /detalles\[0\]\.impuestos\[0\]/ });
+});
@@ -0,0 +1,63 @@
+/**
+ * @file tests/generateRemissionGuide.test.js
+ * @description Pruebas del generador de guías de remisión (`npm run test:unit`): el XML cumple el XSD oficial,
+ * la identificación del destinatario es obligatoria y se validan las identificaciones del destinatario y del transportista.
+ */
+
+const test = require('node:test');
+const assert = require('assert');
+const { generateRemissionGuideXML, validateXmlAgainstSchema, decodeAccessKey } = require('../dist');
+const { remissionGuide } = require('./fixtures');
+
+test('genera un XML que cumple GuiaRemision_V1.1.0.xsd con la clave de acceso de la fecha de inicio del transporte', async () => {
+  const { xml, accessKey } = generateRemissionGuideXML(remissionGuide(), '12345678');
+  assert.match(xml, /<identificacionDestinatario>1720000007<\/identificacionDestinatario>/);
+  assert.match(xml, /<cantidad>2\.500000<\/cantidad>/);
+  const parts = decodeAccessKey(accessKey);
+  assert.strictEqual(parts.voucherType, '06');
+  assert.strictEqual(parts.date, '24/07/2025');
+  assert.deepStrictEqual((await validateXmlAgainstSchema(xml, 'guiaRemision', '1.1.0')).errors, []);
+});
+
+test('exige la identificación del destinatario', () => {
+  const guide = remissionGuide();
+  delete guide.destinatarios[0].identificacionDestinatario;
+  assert.throws(() => generateRemissionGuideXML(guide), { name: 'ValidationError', message: /destinatarios\[0\]\.identificacionDestinatario: es obligatorio/ });
+});
+
+test('valida la identificación del destinatario según su forma', () => {
+  const guide = (identificacionDestinatario) => {
+    const data = remissionGuide();
+    data.destinatarios[0].identificacionDestinatario = identificacionDestinatario;
+    return data;
+  };
+  assert.doesNotThrow(() => generateRemissionGuideXML(guide('1790000001001')));
+  assert.doesNotThrow(() => generateRemissionGuideXML(guide('AB123456')));
+  assert.throws(() => generateRemissionGuideXML(guide('1720000008')), { message: /destinatarios\[0\]\.identificacionDestinatario: la cédula/ });
+  assert.throws(() => generateRemissionGuideXML(guide('1790000001000')), { message: /el RUC 1790000001000 no es válido/ });
+  assert.throws(() => generateRemissionGuideXML(guide('AB-123')), { message: /alfanumérica/ });
+});
+
+test('valida la identificación del transportista según su tipo', () => {
+  const ruc = remissionGuide();
+  ruc.infoGuiaRemision.rucTransportista = '1720000007';
+  assert.throws(() => generateRemissionGuideXML(ruc), { name: 'ValidationError', message: /infoGuiaRemision\.rucTransportista/ });
+
+  const cedula = remissionGuide();
+  Object.assign(cedula.infoGuiaRemision, { tipoIdentificacionTransportista: '05', rucTransportista: '1720000007' });
+  assert.doesNotThrow(() => generateRemissionGuideXML(cedula));
+});
+
+test('rechaza fechas de transporte invertidas, un documento sustento mal formado o un destinatario sin detalles', () => {
+  const fechas = remissionGuide();
+  fechas.infoGuiaRemision.fechaFinTransporte = '23/07/2025';
+  assert.throws(() => generateRemissionGuideXML(fechas), { message: /fechaFinTransporte/ });
+
+  const sustento = remissionGuide();
+  sustento.destinatarios[0].numDocSustento = '001001000000123';
+  assert.throws(() => generateRemissionGuideXML(sustento), { message: /numDocSustento/ });
+
+  const detalles = remissionGuide();
+  detalles.destinatarios[0].detalles = [];
+  assert.throws(() => generateRemissionGuideXML(detalles), { message: /al menos un detalle/ });
+});
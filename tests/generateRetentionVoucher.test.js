@@ -0,0 +1,81 @@
+/**
+ * @file tests/generateRetentionVoucher.test.js
+ * @description Pruebas del generador de comprobantes de retención 2.0.0 (`npm run test:unit`): el XML cumple
+ * el XSD oficial y se rechazan documentos sustento, retenciones o sujetos retenidos inconsistentes.
+ */
+
+const test = require('node:test');
+const assert = require('assert');
+const { generateRetentionVoucherXML, validateXmlAgainstSchema, decodeAccessKey } = require('../dist');
+const { retentionVoucher } = require('./fixtures');
+
+test('genera un XML que cumple ComprobanteRetencion_V2.0.0.xsd', async () => {
+  const { xml, accessKey } = generateRetentionVoucherXML(retentionVoucher(), '12345678');
+  assert.match(xml, /<comprobanteRetencion id="comprobante" version="2\.0\.0">/);
+  assert.strictEqual(decodeAccessKey(accessKey).voucherType, '07');
+  const result = await validateXmlAgainstSchema(xml, 'comprobanteRetencion', '2.0.0');
+  assert.deepStrictEqual(result.errors, []);
+});
+
+test('genera dividendos y compra de cajas de banano que cumplen el XSD', async () => {
+  const voucher = retentionVoucher();
+  voucher.docsSustento[0].retenciones[0].dividendos = { fechaPagoDiv: '20/07/2025', imRentaSoc: 25, ejerFisUtDiv: '2024' };
+  voucher.docsSustento[0].retenciones[0].compraCajBanano = { numCajBan: 10, precCajBan: 7.25 };
+  const { xml } = generateRetentionVoucherXML(voucher, '12345678');
+  assert.match(xml, /<imRentaSoc>25\.00<\/imRentaSoc>/);
+  assert.deepStrictEqual((await validateXmlAgainstSchema(xml, 'comprobanteRetencion', '2.0.0')).errors, []);
+});
+
+test('rechaza el periodo fiscal, el codDoc o el documento sustento mal formados', () => {
+  const periodo = retentionVoucher();
+  periodo.infoCompRetencion.periodoFiscal = '2025-07';
+  assert.throws(() => generateRetentionVoucherXML(periodo), { name: 'ValidationError', message: /periodoFiscal/ });
+
+  const codDoc = retentionVoucher();
+  codDoc.infoTributaria.codDoc = '01';
+  assert.throws(() => generateRetentionVoucherXML(codDoc), { message: /07/ });
+
+  const numero = retentionVoucher();
+  numero.docsSustento[0].numDocSustento = '001-001-000000456';
+  assert.throws(() => generateRetentionVoucherXML(numero), { message: /15 dígitos/ });
+
+  const sinRetenciones = retentionVoucher();
+  sinRetenciones.docsSustento[0].retenciones = [];
+  assert.throws(() => generateRetentionVoucherXML(sinRetenciones), { message: /al menos una retención/ });
+});
+
+test('exige el tipo de sujeto retenido para identificaciones del exterior y valida el RUC del sujeto', () => {
+  const exterior = retentionVoucher();
+  Object.assign(exterior.infoCompRetencion, { tipoIdentificacionSujetoRetenido: '08', identificacionSujetoRetenido: 'US123456' });
+  assert.throws(() => generateRetentionVoucherXML(exterior), { message: /tipoSujetoRetenido/ });
+  exterior.infoCompRetencion.tipoSujetoRetenido = '02';
+  assert.doesNotThrow(() => generateRetentionVoucherXML(exterior));
+
+  const ruc = retentionVoucher();
+  ruc.infoCompRetencion.identificacionSujetoRetenido = '1790000001000';
+  assert.throws(() => generateRetentionVoucherXML(ruc), { name: 'ValidationError', message: /identificacionSujetoRetenido/ });
+});
+
+test('rechaza totales del documento sustento y valores retenidos inconsistentes', () => {
+  const importe = retentionVoucher();
+  importe.docsSustento[0].importeTotal = 114;
+  assert.throws(() => generateRetentionVoucherXML(importe), { message: /importeTotal/ });
+
+  const pagos = retentionVoucher();
+  pagos.docsSustento[0].pagos[0].total = 100;
+  assert.throws(() => generateRetentionVoucherXML(pagos), { message: /pagos/ });
+
+  const valor = retentionVoucher();
+  valor.docsSustento[0].retenciones[0].valorRetenido = 9.99;
+  assert.throws(() => generateRetentionVoucherXML(valor), { message: /valorRetenido/ });
+});
+
+test('exige que el porcentaje de una retención de IVA corresponda a su código', () => {
+  const porcentaje = retentionVoucher();
+  Object.assign(porcentaje.docsSustento[0].retenciones[1], { porcentajeRetener: 70, valorRetenido: 10.5 });
+  assert.throws(() => generateRetentionVoucherXML(porcentaje), { message: /no corresponde al código de retención de IVA 1/ });
+
+  const codigo = retentionVoucher();
+  codigo.docsSustento[0].retenciones[1].codigoRetencion = '99';
+  assert.throws(() => generateRetentionVoucherXML(codigo), { message: /no existe en el catálogo/ });
+});
@@ -0,0 +1,68 @@
+/**
+ * @file tests/identification.test.js
+ * @description Pruebas de la validación de identificaciones (`npm run test:unit`): cédulas (Módulo 10)
+ * y RUC de persona natural, entidad pública y sociedad privada.
+ */
+
+const test = require('node:test');
+const assert = require('assert');
+const {
+  isValidCedula,
+  getRucType,
+  hasValidRucCheckDigit,
+  isValidRuc,
+  assertValidRuc,
+  assertValidIdentification,
+  CONSUMIDOR_FINAL
+} = require('../dist');
+
+test('acepta cédulas con dígito verificador Módulo 10 correcto', () => {
+  assert.ok(isValidCedula('1720000007'));
+  assert.ok(isValidCedula('0602416612'));
+});
+
+test('rechaza cédulas con dígito verificador, provincia, tercer dígito o longitud inválidos', () => {
+  assert.ok(!isValidCedula('1720000008'));
+  assert.ok(!isValidCedula('2500000009'));
+  assert.ok(!isValidCedula('1770000009'));
+  assert.ok(!isValidCedula('172000000'));
+  assert.ok(!isValidCedula('17200000A7'));
+});
+
+test('determina el tipo de RUC por el tercer dígito', () => {
+  assert.strictEqual(getRucType('1720000007001'), 'natural');
+  assert.strictEqual(getRucType('1760013210001'), 'publico');
+  assert.strictEqual(getRucType('1790000001001'), 'privado');
+  assert.strictEqual(getRucType('1770000009001'), undefined);
+});
+
+test('valida el RUC de persona natural con la cédula y el establecimiento', () => {
+  assert.ok(isValidRuc('0602416612001'));
+  assert.ok(!isValidRuc('0602416612000'));
+  assert.ok(!isValidRuc('0602416613001'));
+});
+
+test('valida el RUC de entidad pública con Módulo 11 sobre el noveno dígito', () => {
+  assert.ok(isValidRuc('1760013210001'));
+  assert.ok(!isValidRuc('1760013220001'));
+  assert.ok(!isValidRuc('1760013210000'));
+});
+
+test('solo exige el Módulo 11 del RUC de sociedad privada con strictCheckDigit', () => {
+  assert.ok(isValidRuc('1790000001001', { strictCheckDigit: true }));
+  assert.ok(!hasValidRucCheckDigit('1790000000001'));
+  assert.ok(isValidRuc('1790000000001'));
+  assert.ok(!isValidRuc('1790000000001', { strictCheckDigit: true }));
+  assert.ok(!isValidRuc('1790000001000'));
+  assert.ok(!isValidRuc('9990000001001'));
+});
+
+test('reporta el campo del RUC o la identificación inválidos', () => {
+  assert.throws(() => assertValidRuc('1720000008001'), { name: 'ValidationError', message: /infoTributaria\.ruc/ });
+  assert.doesNotThrow(() => assertValidIdentification('05', '1720000007', 'infoFactura.identificacionComprador'));
+  assert.throws(() => assertValidIdentification('05', '1720000008', 'infoFactura.identificacionComprador'), { message: /cédula 1720000008/ });
+  assert.throws(() => assertValidIdentification('04', '1790000000001', 'infoFactura.identificacionComprador', { strictCheckDigit: true }), { message: /RUC/ });
+  assert.doesNotThrow(() => assertValidIdentification('07', CONSUMIDOR_FINAL, 'infoFactura.identificacionComprador'));
+  assert.throws(() => assertValidIdentification('05', CONSUMIDOR_FINAL, 'infoFactura.identificacionComprador'), { message: /consumidor final/ });
+  assert.throws(() => assertValidIdentification('06', 'AB-123', 'infoFactura.identificacionComprador'), { message: /alfanumérica/ });
+});
@@ -0,0 +1,127 @@
+/**
+ * @file tests/invoiceValidation.test.js
+ * @description Pruebas de la validación de los datos de la factura (`npm run test:unit`): cada regla se reporta con
+ * su ruta, código y gravedad, los totales se comparan con los valores tal como se emiten en el XML, y
+ * `assertValidInvoice` solo rechaza las fallas de gravedad 'error'.
+ */
+
+const test = require('node:test');
+const assert = require('assert');
+const { validateInvoice, assertValidInvoice } = require('../dist');
+const { exampleInvoice } = require('./fixtures');
+
+/** Devuelve las fallas como `ruta código gravedad` para compararlas de forma compacta. */
+const issuesOf = (invoice) => validateInvoice(invoice).map((issue) => `${issue.path} ${issue.code} ${issue.severity}`);
+
+test('la factura de ejemplo no tiene fallas', () => {
+  assert.deepStrictEqual(validateInvoice(exampleInvoice()), []);
+});
+
+test('reporta los campos obligatorios, los formatos y las longitudes', () => {
+  const invoice = exampleInvoice();
+  delete invoice.infoTributaria.razonSocial;
+  invoice.infoTributaria.estab = '1';
+  invoice.infoFactura.fechaEmision = '2025-07-23';
+  invoice.detalles[0].descripcion = 'x'.repeat(301);
+  invoice.infoAdicional.campos = Array.from({ length: 16 }, (_, i) => ({ nombre: `Campo ${i}`, valor: 'valor' }));
+  const issues = issuesOf(invoice);
+  assert.ok(issues.includes('infoTributaria.razonSocial REQUIRED error'));
+  assert.ok(issues.includes('infoTributaria.estab FORMAT error'));
+  assert.ok(issues.includes('infoFactura.fechaEmision FORMAT error'));
+  assert.ok(issues.includes('detalles[0].descripcion MAX_LENGTH error'));
+  assert.ok(issues.includes('infoAdicional.campos MAX_OCCURS error'));
+  assert.deepStrictEqual(issuesOf({ version: '1.1.0' }), [
+    'infoTributaria REQUIRED error', 'infoFactura REQUIRED error', 'detalles REQUIRED error',
+  ]);
+});
+
+test('reporta las identificaciones inválidas y advierte el dígito verificador y el consumidor final', () => {
+  const invoice = exampleInvoice();
+  invoice.infoTributaria.ruc = '1790000001000';
+  invoice.infoFactura.identificacionComprador = '0602045758';
+  assert.deepStrictEqual(issuesOf(invoice), [
+    'infoTributaria.ruc INVALID_RUC error',
+    'infoFactura.identificacionComprador INVALID_IDENTIFICATION error',
+  ]);
+
+  const warnings = exampleInvoice();
+  warnings.infoTributaria.ruc = '1790000000001';
+  warnings.infoFactura.tipoIdentificacionComprador = '07';
+  warnings.infoFactura.identificacionComprador = '9999999999999';
+  assert.deepStrictEqual(issuesOf(warnings), [
+    'infoTributaria.ruc RUC_CHECK_DIGIT warning',
+    'infoFactura.importeTotal CONSUMIDOR_FINAL_LIMIT warning',
+  ]);
+  assert.doesNotThrow(() => assertValidInvoice(warnings));
+});
+
+test('reporta los impuestos fuera del catálogo vigente', () => {
+  const invoice = exampleInvoice();
+  invoice.infoFactura.fechaEmision = '23/07/2023';
+  assert.ok(issuesOf(invoice).includes('detalles[0].impuestos[0] TAX_CATALOG error'));
+});
+
+test('compara el precio total de cada detalle con cantidad × precioUnitario − descuento', () => {
+  const invoice = exampleInvoice();
+  invoice.detalles[0].precioTotalSinImpuesto = 101;
+  const issues = validateInvoice(invoice).filter((issue) => issue.path.startsWith('detalles'));
+  assert.deepStrictEqual(issues.map((issue) => `${issue.path} ${issue.code}`), ['detalles[0].precioTotalSinImpuesto TOTAL_MISMATCH']);
+  assert.match(issues[0].message, /\(100\.00\)/);
+
+  // 1 × 1 − 0.005 = 0.995 → 1.00, pero el descuento se emite con 2 decimales (0.01) y el total queda en 0.99.
+  const rounded = exampleInvoice();
+  Object.assign(rounded.detalles[1], { cantidad: 1, precioUnitario: 1, descuento: 0.005, precioTotalSinImpuesto: 1 });
+  assert.ok(issuesOf(rounded).includes('detalles[1].precioTotalSinImpuesto TOTAL_MISMATCH error'));
+});
+
+test('compara totalDescuento con la suma de los descuentos de los detalles', () => {
+  const invoice = exampleInvoice();
+  invoice.infoFactura.totalDescuento = 4;
+  assert.deepStrictEqual(issuesOf(invoice), ['infoFactura.totalDescuento TOTAL_MISMATCH error']);
+  delete invoice.detalles[0].descuento;
+  invoice.infoFactura.totalDescuento = 0;
+  invoice.detalles[0].precioTotalSinImpuesto = 105;
+  assert.ok(!issuesOf(invoice).includes('infoFactura.totalDescuento TOTAL_MISMATCH error'));
+});
+
+test('compara los totales de la factura con los impuestos y los pagos', () => {
+  const invoice = exampleInvoice();
+  invoice.infoFactura.totalSinImpuestos = 111;
+  invoice.infoFactura.totalConImpuestos[0].valor = 15.01;
+  invoice.infoFactura.pagos[0].total = 124;
+  assert.deepStrictEqual(issuesOf(invoice), [
+    'infoFactura.pagos TOTAL_MISMATCH error',
+    'infoFactura.totalSinImpuestos TOTAL_MISMATCH error',
+    'infoFactura.importeTotal TOTAL_MISMATCH error',
+    'infoFactura.totalConImpuestos[0].valor TOTAL_MISMATCH error',
+  ]);
+});
+
+test('los decimales de más son un error solo si el redondeo cambia el precio total del detalle', () => {
+  const invoice = exampleInvoice();
+  invoice.version = '1.0.0';
+  // 1 × 10.001 se emite como 1 × 10.00: el precio total no cambia.
+  invoice.detalles[1].precioUnitario = '10.001';
+  assert.deepStrictEqual(issuesOf(invoice), ['detalles[1].precioUnitario VERSION warning']);
+
+  // 100 × 0.1004 = 10.04 se emite como 100 × 0.10 = 10.00.
+  Object.assign(invoice.detalles[1], { cantidad: 100, precioUnitario: '0.1004' });
+  const [issue] = validateInvoice(invoice);
+  assert.deepStrictEqual([issue.path, issue.code, issue.severity], ['detalles[1].precioUnitario', 'VERSION', 'error']);
+  assert.match(issue.message, /pasa de 10\.04 a 10\.00/);
+  assert.throws(() => assertValidInvoice(invoice), { name: 'ValidationError', message: /detalles\[1\]\.precioUnitario/ });
+
+  // En 1.1.0 se emite 100 × 0.1004: el precio total debe ser 10.04.
+  invoice.version = '1.1.0';
+  assert.deepStrictEqual(issuesOf(invoice), ['detalles[1].precioTotalSinImpuesto TOTAL_MISMATCH error']);
+});
+
+test('reporta la versión inexistente y los bloques que la versión no admite', () => {
+  const invoice = exampleInvoice();
+  invoice.version = '3.0.0';
+  assert.deepStrictEqual(issuesOf(invoice), ['version VERSION error']);
+  const v1 = exampleInvoice();
+  v1.version = '1.1.0';
+  v1.otrosRubrosTerceros = { rubro: [{ concepto: 'Flete', total: 1 }] };
+  assert.deepStrictEqual(issuesOf(v1), ['otrosRubrosTerceros VERSION error']);
+});
@@ -0,0 +1,49 @@
+/**
+ * @file tests/invoiceVersion.test.js
+ * @description Pruebas de la selección de la versión de factura (`npm run test:unit`): la versión mínima según
+ * los bloques 2.x y los decimales de cantidad, precio unitario y precio sin subsidio, y el rechazo de los bloques
+ * 2.x en una factura 1.x.
+ */
+
+const test = require('node:test');
+const assert = require('assert');
+const { selectInvoiceVersion, withMinimumInvoiceVersion, requiredInvoicePrecision, generateInvoiceXML } = require('../dist');
+const { exampleInvoice } = require('./fixtures');
+
+const RUBROS = { rubro: [{ concepto: 'Flete', total: 1 }] };
+
+/** La factura de ejemplo sin versión, con los cambios indicados en su primer detalle. */
+function invoiceWith(detalle = {}, blocks = {}) {
+  const { version, ...invoice } = exampleInvoice();
+  invoice.detalles[0] = { ...invoice.detalles[0], ...detalle };
+  return { ...invoice, ...blocks };
+}
+
+test('selecciona la versión más baja que admite los bloques y los decimales', () => {
+  assert.strictEqual(selectInvoiceVersion(invoiceWith()), '1.0.0');
+  assert.strictEqual(selectInvoiceVersion(invoiceWith({ precioUnitario: '105.000001' })), '1.1.0');
+  assert.strictEqual(selectInvoiceVersion(invoiceWith({}, { otrosRubrosTerceros: RUBROS })), '2.0.0');
+  assert.strictEqual(selectInvoiceVersion(invoiceWith({ cantidad: 1.125 }, { otrosRubrosTerceros: RUBROS })), '2.1.0');
+});
+
+test('cuenta solo los decimales significativos de cantidad, precio unitario y precio sin subsidio', () => {
+  assert.strictEqual(requiredInvoicePrecision(invoiceWith({ cantidad: '1.500000', precioUnitario: '105.00' })), 2);
+  assert.strictEqual(requiredInvoicePrecision(invoiceWith({ precioSinSubsidio: 0.125 })), 6);
+  // El descuento y el precio total siempre se emiten con 2 decimales.
+  assert.strictEqual(requiredInvoicePrecision(invoiceWith({ descuento: 5.125 })), 2);
+  assert.throws(() => requiredInvoicePrecision(invoiceWith({ cantidad: '1,5' })), { name: 'ValidationError', message: /detalles\[0\]\.cantidad/ });
+});
+
+test('asigna la versión mínima sin modificar los datos originales', () => {
+  const invoice = { ...invoiceWith(), version: '2.1.0' };
+  const selected = withMinimumInvoiceVersion(invoice);
+  assert.strictEqual(selected.version, '1.0.0');
+  assert.strictEqual(invoice.version, '2.1.0');
+  assert.match(generateInvoiceXML(selected, '12345678').xml, /<factura id="comprobante" version="1\.0\.0">/);
+});
+
+test('rechaza los bloques 2.x en una factura 1.x', () => {
+  const invoice = { ...invoiceWith({}, { otrosRubrosTerceros: RUBROS }), version: '1.1.0' };
+  assert.throws(() => generateInvoiceXML(invoice, '12345678'), { name: 'ValidationError', message: /otrosRubrosTerceros/ });
+  assert.doesNotThrow(() => generateInvoiceXML(withMinimumInvoiceVersion(invoice), '12345678'));
+});
@@ -7,14 +7,21 @@
  * 3. Firma digital del XML con un certificado de pruebas.
  * 4. Envío del comprobante al Web Service de Recepción del SRI (ambiente de pruebas).
  * 5. Consulta del estado en el Web Service de Autorización del SRI (ambiente de pruebas).
+ *
+ * Con SRI_MOCK=1 (`npm run test:mock`) usa un servidor SRI simulado y un certificado autofirmado desechable,
+ * verifica los resultados y termina con código de salida 1 si alguno no es el esperado.
  */
 
+import * as assert from 'assert';
 import * as fs from 'fs';
 import * as path from 'path';
+import * as forge from 'node-forge';
 import { generateInvoiceXML } from '../src/services/generateInvoice';
 import { signXML } from '../src/services/signing';
+import { createP12Signer } from '../src/services/signers';
 import { sendSignedXml } from '../src/services/reception';
-import { checkAuthorization } from '../src/services/authorization';
+import { waitForAuthorization } from '../src/services/authorization';
+import { MockSri, startMockSri } from '../src/services/mockSri';
 import { Invoice } from '../src/baseData/invoice/invoice';
 
 // --- CONFIGURACIÓN DE LA PRUEBA ---
@@ -25,15 +32,43 @@ const CERTIFICATE_PATH = path.join(__dirname, '..', 'certs', 'certificado_prueba
 const CERTIFICATE_PASS = 'tu_contraseña_aqui';
 // 3. Utiliza el archivo de datos de ejemplo o crea uno propio.
 const INVOICE_DATA_PATH = path.join(__dirname, '..', 'src', 'example', 'invoice-input.json');
+// 4. Con SRI_MOCK=1 el comprobante se envía a un servidor SRI simulado local en lugar del ambiente de pruebas del SRI.
+const USE_MOCK_SRI = Boolean(process.env.SRI_MOCK);
 // ------------------------------------
 
+/**
+ * Genera en memoria un certificado autofirmado desechable en formato P12, para firmar en modo simulado
+ * sin necesitar un certificado real.
+ */
+function createThrowawayP12(password: string): Buffer {
+  const keys = forge.pki.rsa.generateKeyPair(2048);
+  const cert = forge.pki.createCertificate();
+  cert.publicKey = keys.publicKey;
+  cert.serialNumber = '01';
+  cert.validity.notBefore = new Date(Date.now() - 24 * 60 * 60 * 1000);
+  cert.validity.notAfter = new Date(Date.now() + 24 * 60 * 60 * 1000);
+  const attributes = [{ name: 'commonName', value: 'OPEN-FACTURA PRUEBAS' }, { name: 'countryName', value: 'EC' }];
+  cert.setSubject(attributes);
+  cert.setIssuer(attributes);
+  cert.sign(keys.privateKey, forge.md.sha256.create());
+  const p12 = forge.pkcs12.toPkcs12Asn1(keys.privateKey, [cert], password, { algorithm: '3des' });
+  return Buffer.from(forge.asn1.toDer(p12).getBytes(), 'binary');
+}
+
 /**
  * Función principal asíncrona para ejecutar el flujo de prueba completo.
  */
 async function runEndToEndTest() {
   console.log('--- INICIO DE LA PRUEBA DE FACTURACIÓN ELECTRÓNICA ---');
+  let mock: MockSri | null = null;
 
   try {
+    if (USE_MOCK_SRI) {
+      mock = await startMockSri();
+      console.log(`[PASO 0] Servidor SRI simulado en ${mock.url}`);
+    }
+    const transport = mock ? mock.transport : {};
+
     // PASO 1: Cargar datos de la factura desde el JSON de entrada
     if (!fs.existsSync(INVOICE_DATA_PATH)) {
       throw new Error(`No se encuentra el archivo de datos de la factura en: ${INVOICE_DATA_PATH}`);
@@ -44,26 +79,29 @@ async function runEndToEndTest() {
     // PASO 2: Generar el XML sin firmar y la clave de acceso
     const { xml, accessKey } = generateInvoiceXML(invoiceData);
     console.log(`[PASO 2] XML generado con Clave de Acceso: ${accessKey}`);
-    fs.writeFileSync(path.join(__dirname, 'factura_generada.xml'), xml);
+    if (!mock) fs.writeFileSync(path.join(__dirname, 'factura_generada.xml'), xml);
 
-    // PASO 3: Firmar el XML con el certificado digital
-    if (!fs.existsSync(CERTIFICATE_PATH)) {
-      throw new Error(`No se encuentra el certificado en: ${CERTIFICATE_PATH}. Por favor, configura la ruta y el nombre del archivo correctamente en tests/main.ts`);
+    // PASO 3: Firmar el XML con el certificado digital (en modo simulado, uno autofirmado desechable)
+    let signedXml: string;
+    if (mock) {
+      signedXml = await signXML(xml, createP12Signer(createThrowawayP12('pruebas'), 'pruebas'));
+    } else {
+      if (!fs.existsSync(CERTIFICATE_PATH)) {
+        throw new Error(`No se encuentra el certificado en: ${CERTIFICATE_PATH}. Por favor, configura la ruta y el nombre del archivo correctamente en tests/main.ts`);
+      }
+      signedXml = await signXML(xml, CERTIFICATE_PATH, CERTIFICATE_PASS);
     }
-    const signedXml = await signXML(xml, CERTIFICATE_PATH, CERTIFICATE_PASS);
     console.log('[PASO 3] XML firmado digitalmente con éxito.');
-    fs.writeFileSync(path.join(__dirname, 'factura_firmada.xml'), signedXml);
+    if (!mock) fs.writeFileSync(path.join(__dirname, 'factura_firmada.xml'), signedXml);
 
     // PASO 4: Enviar el comprobante al SRI (Ambiente de Pruebas)
     console.log('[PASO 4] Enviando comprobante al SRI (ambiente de pruebas)...');
-    const receptionResponse = await sendSignedXml(signedXml, '1'); // '1' para ambiente de pruebas
+    const receptionResponse = await sendSignedXml(signedXml, '1', transport); // '1' para ambiente de pruebas
     console.log(`[PASO 4] Respuesta de Recepción del SRI: ${receptionResponse.estado}`);
 
-    // PASO 5: Consultar la autorización después de una pausa prudencial
-    console.log('[PASO 5] Esperando 3 segundos antes de consultar la autorización...');
-    await new Promise(resolve => setTimeout(resolve, 3000));
-    console.log(`[PASO 5] Consultando autorización para la clave ${accessKey}...`);
-    const authResponse = await checkAuthorization(accessKey, '1'); // '1' para ambiente de pruebas
+    // PASO 5: Consultar la autorización hasta que el SRI termine de procesar el comprobante
+    console.log(`[PASO 5] Esperando la autorización para la clave ${accessKey}...`);
+    const authResponse = await waitForAuthorization(accessKey, '1', { ...transport, maxWaitMs: 60000 }); // '1' para ambiente de pruebas
 
     console.log('\n----------------------------------------------------');
     console.log('--- RESULTADO FINAL DE LA AUTORIZACIÓN ---');
@@ -72,7 +110,14 @@ async function runEndToEndTest() {
     console.log(`Fecha y Hora: ${authResponse.fechaAutorizacion}`);
     console.log('----------------------------------------------------');
 
-    if (authResponse.estado === 'AUTORIZADO' && authResponse.comprobante) {
+    if (mock) {
+      assert.strictEqual(receptionResponse.estado, 'RECIBIDA');
+      assert.strictEqual(authResponse.estado, 'AUTORIZADO');
+      assert.strictEqual(authResponse.numeroAutorizacion, accessKey);
+      assert.ok(authResponse.comprobante && authResponse.comprobante.includes(accessKey), 'el comprobante autorizado no contiene la clave de acceso');
+      assert.deepStrictEqual(mock.requests.map((request) => [request.service, request.accessKey]).slice(0, 2), [['reception', accessKey], ['authorization', accessKey]]);
+      console.log('✅ ¡ÉXITO! El flujo completo contra el SRI simulado dio los resultados esperados.');
+    } else if (authResponse.estado === 'AUTORIZADO' && authResponse.comprobante) {
       fs.writeFileSync(path.join(__dirname, 'factura_autorizada.xml'), authResponse.comprobante);
       console.log('✅ ¡ÉXITO! El comprobante fue autorizado por el SRI.');
       console.log('El XML con la autorización ha sido guardado en: tests/factura_autorizada.xml');
@@ -85,7 +130,9 @@ async function runEndToEndTest() {
     console.error('\n--- ❌ !!! OCURRIÓ UN ERROR DURANTE EL PROCESO !!! ---');
     console.error(error.message);
     console.error('---------------------------------------------------------');
+    process.exitCode = 1;
   } finally {
+    if (mock) await mock.close();
     console.log('\n--- PRUEBA DE FACTURACIÓN FINALIZADA ---');
   }
 }
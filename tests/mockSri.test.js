@@ -0,0 +1,136 @@
+/**
+ * @file tests/mockSri.test.js
+ * @description Pruebas de las respuestas del SRI contra el servidor simulado (`npm run test:unit`): comprobantes
+ * DEVUELTA con sus códigos, autorizaciones EN PROCESO y NO AUTORIZADO, y fallas SOAP en la recepción individual,
+ * la espera de la autorización y el envío por lote.
+ */
+
+const test = require('node:test');
+const assert = require('assert');
+const { sendSignedXml, waitForAuthorization, sendBatch, generateInvoiceXML, startMockSri } = require('../dist');
+const { exampleInvoice } = require('./fixtures');
+
+/** Genera una factura con el secuencial indicado (sin firmar: el SRI simulado no verifica firmas). */
+function invoiceXml(secuencial) {
+  const invoice = exampleInvoice();
+  invoice.infoTributaria.secuencial = String(secuencial).padStart(9, '0');
+  return generateInvoiceXML(invoice, '12345678');
+}
+
+const EXTEMPORANEA = { identificador: '65', mensaje: 'FECHA EMISION EXTEMPORANEA', tipo: 'ERROR' };
+const WAIT = { maxWaitMs: 2000, pollIntervalMs: 10 };
+
+let mock;
+test.before(async () => { mock = await startMockSri({ verifySignatures: false }); });
+test.after(() => mock.close());
+
+test('sendSignedXml lanza SriReceptionError con los códigos de un comprobante DEVUELTA', async () => {
+  const { xml, accessKey } = invoiceXml(1);
+  mock.script('reception', [{ estado: 'DEVUELTA', mensajes: [EXTEMPORANEA] }], accessKey);
+  await assert.rejects(sendSignedXml(xml, '1', mock.transport), (error) => {
+    assert.strictEqual(error.name, 'SriReceptionError');
+    assert.strictEqual(error.accessKey, accessKey);
+    assert.deepStrictEqual(error.identifiers, ['65']);
+    assert.strictEqual(error.alreadyReceived, false);
+    assert.strictEqual(error.retryable, false);
+    assert.match(error.message, /FECHA EMISION EXTEMPORANEA/);
+    return true;
+  });
+  assert.ok(!mock.vouchers.has(accessKey));
+});
+
+test('sendSignedXml marca como ya recibido un DEVUELTA con el código 43', async () => {
+  const { xml, accessKey } = invoiceXml(2);
+  assert.strictEqual((await sendSignedXml(xml, '1', mock.transport)).estado, 'RECIBIDA');
+  await assert.rejects(sendSignedXml(xml, '1', mock.transport), { name: 'SriReceptionError', alreadyReceived: true, accessKey });
+});
+
+test('sendSignedXml reintenta una falla SOAP y reporta la última si no se recupera', async () => {
+  const first = invoiceXml(3);
+  mock.script('reception', [{ fault: 'Servicio no disponible' }], first.accessKey);
+  assert.strictEqual((await sendSignedXml(first.xml, '1', mock.transport)).estado, 'RECIBIDA');
+
+  const second = invoiceXml(4);
+  mock.script('reception', [{ fault: 'Servicio no disponible' }, { fault: 'Servicio no disponible' }], second.accessKey);
+  await assert.rejects(
+    sendSignedXml(second.xml, '1', { ...mock.transport, retries: 1 }),
+    { name: 'SriCommunicationError', fault: /Servicio no disponible/, attempts: 2, retryable: true },
+  );
+});
+
+test('waitForAuthorization espera mientras el comprobante está EN PROCESO', async () => {
+  const { xml, accessKey } = invoiceXml(5);
+  await sendSignedXml(xml, '1', mock.transport);
+  mock.script('authorization', [{ estado: 'PENDIENTE' }, { estado: 'EN PROCESO' }, { estado: 'EN PROCESO' }], accessKey);
+  const before = mock.requests.length;
+  const autorizacion = await waitForAuthorization(accessKey, '1', { ...mock.transport, ...WAIT });
+  assert.strictEqual(autorizacion.estado, 'AUTORIZADO');
+  assert.strictEqual(autorizacion.numeroAutorizacion, accessKey);
+  assert.strictEqual(mock.requests.slice(before).filter((r) => r.service === 'authorization').length, 4);
+});
+
+test('waitForAuthorization lanza SriPendingError si el comprobante sigue EN PROCESO', async () => {
+  const { xml, accessKey } = invoiceXml(6);
+  await sendSignedXml(xml, '1', mock.transport);
+  mock.script('authorization', Array.from({ length: 50 }, () => ({ estado: 'EN PROCESO' })), accessKey);
+  await assert.rejects(
+    waitForAuthorization(accessKey, '1', { ...mock.transport, maxWaitMs: 50, pollIntervalMs: 10 }),
+    { name: 'SriPendingError', retryable: true, accessKey },
+  );
+  mock.script('authorization', [], accessKey);
+});
+
+test('waitForAuthorization lanza SriNotAuthorizedError con los mensajes de un NO AUTORIZADO', async () => {
+  const { xml, accessKey } = invoiceXml(7);
+  await sendSignedXml(xml, '1', mock.transport);
+  const mensaje = { identificador: '56', mensaje: 'ESTABLECIMIENTO CERRADO', tipo: 'ERROR' };
+  mock.script('authorization', [{ estado: 'EN PROCESO' }, { estado: 'NO AUTORIZADO', mensajes: [mensaje] }], accessKey);
+  await assert.rejects(waitForAuthorization(accessKey, '1', { ...mock.transport, ...WAIT }), (error) => {
+    assert.strictEqual(error.name, 'SriNotAuthorizedError');
+    assert.strictEqual(error.accessKey, accessKey);
+    assert.deepStrictEqual(error.identifiers, ['56']);
+    return true;
+  });
+});
+
+test('waitForAuthorization no reintenta indefinidamente una falla SOAP', async () => {
+  const { xml, accessKey } = invoiceXml(8);
+  await sendSignedXml(xml, '1', mock.transport);
+  mock.script('authorization', [{ fault: 'Error interno' }, { fault: 'Error interno' }], accessKey);
+  await assert.rejects(
+    waitForAuthorization(accessKey, '1', { ...mock.transport, ...WAIT, retries: 1 }),
+    { name: 'SriCommunicationError', fault: /Error interno/ },
+  );
+});
+
+test('sendBatch reporta cada comprobante de un lote DEVUELTA con sus códigos', async () => {
+  const vouchers = [11, 12].map(invoiceXml);
+  const registered = invoiceXml(13);
+  await sendSignedXml(registered.xml, '1', mock.transport);
+  mock.script('reception', [{ estado: 'DEVUELTA', mensajes: [EXTEMPORANEA] }]);
+  const devuelto = await sendBatch(vouchers.map((v) => v.xml), '1', mock.transport);
+  assert.deepStrictEqual(devuelto.batches.map((b) => b.estado), ['DEVUELTA']);
+  for (const [index, result] of devuelto.vouchers.entries()) {
+    assert.strictEqual(result.accessKey, vouchers[index].accessKey);
+    assert.strictEqual(result.estado, 'DEVUELTA');
+    assert.deepStrictEqual(result.mensajes.map((m) => m.identificador), ['65']);
+  }
+
+  // Un comprobante que el SRI ya tenía (43) se reporta RECIBIDA aunque el lote se devuelva; los demás deben reenviarse.
+  const mixed = await sendBatch([registered.xml, vouchers[0].xml], '1', mock.transport);
+  assert.strictEqual(mixed.batches[0].estado, 'DEVUELTA');
+  assert.deepStrictEqual(mixed.vouchers.map((v) => v.estado), ['RECIBIDA', 'DEVUELTA']);
+  assert.deepStrictEqual(mixed.vouchers[0].mensajes.map((m) => m.identificador), ['43']);
+});
+
+test('sendBatch no envía los lotes restantes si uno falla por comunicación', async () => {
+  const vouchers = [21, 22].map(invoiceXml);
+  mock.script('reception', [{ fault: 'Servicio no disponible' }, { fault: 'Servicio no disponible' }]);
+  const before = mock.requests.length;
+  await assert.rejects(
+    sendBatch(vouchers.map((v) => v.xml), '1', { ...mock.transport, retries: 1, maxVouchersPerBatch: 1 }),
+    { name: 'SriCommunicationError', fault: /Servicio no disponible/ },
+  );
+  assert.strictEqual(mock.requests.length - before, 2);
+  assert.ok(!mock.vouchers.has(vouchers[1].accessKey));
+});
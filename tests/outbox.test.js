@@ -0,0 +1,121 @@
+/**
+ * @file tests/outbox.test.js
+ * @description Pruebas de la bandeja de salida (`npm run test:unit`): transiciones permitidas y rechazadas,
+ * persistencia en memoria y en archivos, y `reconcile` contra el SRI simulado.
+ */
+
+const test = require('node:test');
+const assert = require('assert');
+const fs = require('fs');
+const os = require('os');
+const path = require('path');
+const { Outbox, createMemoryOutboxStorage, createFileOutboxStorage, generateInvoiceXML, startMockSri } = require('../dist');
+const { exampleInvoice } = require('./fixtures');
+
+/** Genera una factura con el secuencial indicado; el XML sin firmar sirve como "firmado" para el SRI simulado sin verificación de firmas. */
+function voucher(secuencial) {
+  const invoice = exampleInvoice();
+  invoice.infoTributaria.secuencial = String(secuencial).padStart(9, '0');
+  return generateInvoiceXML(invoice, '12345678');
+}
+
+const authorized = (accessKey) => ({
+  estado: 'AUTORIZADO', numeroAutorizacion: accessKey, fechaAutorizacion: '2025-07-23T10:15:00-05:00', ambiente: 'PRUEBAS', comprobante: null, mensajes: [],
+});
+
+test('registra el ciclo de vida completo con su historial', async () => {
+  const outbox = new Outbox(createMemoryOutboxStorage());
+  const { xml, accessKey } = voucher(1);
+  await outbox.recordGenerated(accessKey, xml);
+  await outbox.recordSigned(accessKey, `${xml}<!-- firmado -->`);
+  const warning = { identificador: '60', mensaje: 'ESTE PROCESO FUE REALIZADO EN EL AMBIENTE DE PRUEBAS', tipo: 'INFORMATIVO' };
+  await outbox.recordReception(accessKey, 'RECIBIDA', [warning]);
+  const record = await outbox.recordAuthorization(accessKey, authorized(accessKey));
+
+  assert.strictEqual(record.state, 'AUTORIZADO');
+  assert.strictEqual(record.xml, xml);
+  assert.strictEqual(record.signedXml, `${xml}<!-- firmado -->`);
+  assert.strictEqual(record.numeroAutorizacion, accessKey);
+  assert.deepStrictEqual(record.history.map((h) => h.state), ['GENERATED', 'SIGNED', 'RECIBIDA', 'AUTORIZADO']);
+  assert.deepStrictEqual(record.history[2].mensajes, [warning]);
+  assert.deepStrictEqual(await outbox.pending(), []);
+});
+
+test('rechaza los cambios de estado no permitidos y las claves no registradas', async () => {
+  const outbox = new Outbox(createMemoryOutboxStorage());
+  const { xml, accessKey } = voucher(2);
+  await assert.rejects(outbox.recordReception(accessKey, 'RECIBIDA'), { name: 'OpenFacturaError', message: /no está registrado/ });
+  await outbox.recordGenerated(accessKey, xml);
+  await assert.rejects(outbox.recordReception(accessKey, 'RECIBIDA'), { name: 'OpenFacturaError', accessKey, message: /GENERATED a RECIBIDA/ });
+  await assert.rejects(outbox.recordAuthorization(accessKey, { ...authorized(accessKey), estado: 'EN PROCESO' }), { message: /en proceso/ });
+  assert.strictEqual((await outbox.get(accessKey)).state, 'GENERATED');
+});
+
+test('un comprobante AUTORIZADO es definitivo y uno DEVUELTA puede emitirse de nuevo', async () => {
+  const outbox = new Outbox(createMemoryOutboxStorage());
+  const first = voucher(3);
+  await outbox.recordSigned(first.accessKey, first.xml);
+  await outbox.recordReception(first.accessKey, 'RECIBIDA');
+  await outbox.recordAuthorization(first.accessKey, authorized(first.accessKey));
+  const after = await outbox.recordReception(first.accessKey, 'DEVUELTA', [{ identificador: '43', mensaje: 'CLAVE ACCESO REGISTRADA' }]);
+  assert.strictEqual(after.state, 'AUTORIZADO');
+  assert.strictEqual((await outbox.recordAuthorization(first.accessKey, { ...authorized(first.accessKey), estado: 'NO AUTORIZADO' })).state, 'AUTORIZADO');
+  await assert.rejects(outbox.recordGenerated(first.accessKey, first.xml), { message: /AUTORIZADO a GENERATED/ });
+
+  const second = voucher(4);
+  await outbox.recordSigned(second.accessKey, second.xml);
+  await outbox.recordReception(second.accessKey, 'DEVUELTA', [{ identificador: '65', mensaje: 'FECHA EMISION EXTEMPORANEA' }]);
+  const regenerated = await outbox.recordGenerated(second.accessKey, second.xml);
+  assert.deepStrictEqual(regenerated.history.map((h) => h.state), ['SIGNED', 'DEVUELTA', 'GENERATED']);
+  assert.strictEqual(regenerated.signedXml, null);
+  assert.deepStrictEqual((await outbox.list(['DEVUELTA'])).length, 0);
+});
+
+test('el almacenamiento en archivos persiste los registros sin dejar temporales', async (t) => {
+  const directory = fs.mkdtempSync(path.join(os.tmpdir(), 'open-factura-outbox-'));
+  t.after(() => fs.rmSync(directory, { recursive: true, force: true }));
+  const { xml, accessKey } = voucher(5);
+  await new Outbox(createFileOutboxStorage(directory)).recordGenerated(accessKey, xml);
+
+  const reopened = new Outbox(createFileOutboxStorage(directory));
+  assert.strictEqual((await reopened.get(accessKey)).xml, xml);
+  assert.deepStrictEqual((await reopened.pending()).map((r) => r.accessKey), [accessKey]);
+  assert.deepStrictEqual(await reopened.list(['AUTORIZADO']), []);
+  assert.deepStrictEqual(fs.readdirSync(directory), [`${accessKey}.json`]);
+  await assert.rejects(reopened.get('../secuencias'), { name: 'OpenFacturaError' });
+  assert.deepStrictEqual(await new Outbox(createFileOutboxStorage(path.join(directory, 'no-existe'))).list(), []);
+});
+
+test('reconcile envía los firmados, consulta los recibidos y conserva el estado ante una falla', async (t) => {
+  const mock = await startMockSri({ verifySignatures: false });
+  t.after(() => mock.close());
+  const outbox = new Outbox(createMemoryOutboxStorage());
+  const [signed, received, pending, generated, duplicated, failing] = [6, 7, 8, 9, 10, 11].map(voucher);
+
+  for (const v of [signed, received, pending, duplicated, failing]) await outbox.recordSigned(v.accessKey, v.xml);
+  for (const v of [received, pending]) {
+    mock.vouchers.set(v.accessKey, v.xml);
+    await outbox.recordReception(v.accessKey, 'RECIBIDA');
+  }
+  // Un envío anterior llegó al SRI pero su respuesta se perdió.
+  mock.vouchers.set(duplicated.accessKey, duplicated.xml);
+  await outbox.recordGenerated(generated.accessKey, generated.xml);
+  mock.script('authorization', [{ estado: 'PENDIENTE' }], pending.accessKey);
+  mock.script('reception', [{ estado: 'DEVUELTA', mensajes: [{ identificador: '43', mensaje: 'CLAVE ACCESO REGISTRADA' }] }], duplicated.accessKey);
+  mock.script('reception', [{ httpStatus: 503 }, { httpStatus: 503 }], failing.accessKey);
+
+  const outcomes = await outbox.reconcile('1', { ...mock.transport, retries: 1 });
+  const byKey = Object.fromEntries(outcomes.map((o) => [o.accessKey, o]));
+  assert.deepStrictEqual([byKey[signed.accessKey].from, byKey[signed.accessKey].to], ['SIGNED', 'AUTORIZADO']);
+  assert.strictEqual(byKey[received.accessKey].to, 'AUTORIZADO');
+  assert.strictEqual(byKey[pending.accessKey].to, 'RECIBIDA');
+  assert.strictEqual(byKey[generated.accessKey].to, 'GENERATED');
+  // El SRI ya tenía la clave (43): se toma como RECIBIDA y se consulta la autorización.
+  assert.strictEqual(byKey[duplicated.accessKey].to, 'AUTORIZADO');
+  assert.strictEqual(byKey[failing.accessKey].to, 'SIGNED');
+  assert.strictEqual(byKey[failing.accessKey].error.name, 'SriCommunicationError');
+  assert.strictEqual((await outbox.get(signed.accessKey)).numeroAutorizacion, signed.accessKey);
+
+  const signedLater = await outbox.reconcile('1', { ...mock.transport, sign: async (xml) => xml });
+  assert.deepStrictEqual(signedLater.find((o) => o.accessKey === generated.accessKey).to, 'AUTORIZADO');
+});
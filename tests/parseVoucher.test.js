@@ -0,0 +1,70 @@
+/**
+ * @file tests/parseVoucher.test.js
+ * @description Pruebas del parser de comprobantes (`npm run test:unit`): el XML de cada tipo se convierte en su objeto
+ * y regenera el mismo XML, y un XML incompleto o mal formado se rechaza con un `ValidationError`.
+ */
+
+const test = require('node:test');
+const assert = require('assert');
+const d = require('../dist');
+const { exampleInvoice, debitNote, retentionVoucher, remissionGuide, purchaseSettlement } = require('./fixtures');
+
+const creditNote = () => d.createCreditNoteFromInvoice(exampleInvoice(), { fechaEmision: '24/07/2025', secuencial: '000000010', motivo: 'Devolución' });
+
+const ROUND_TRIPS = {
+  factura: [exampleInvoice, d.generateInvoiceXML, d.parseInvoiceXML],
+  notaCredito: [creditNote, d.generateCreditNoteXML, d.parseCreditNoteXML],
+  notaDebito: [debitNote, d.generateDebitNoteXML, d.parseDebitNoteXML],
+  comprobanteRetencion: [retentionVoucher, d.generateRetentionVoucherXML, d.parseRetentionVoucherXML],
+  guiaRemision: [remissionGuide, d.generateRemissionGuideXML, d.parseRemissionGuideXML],
+  liquidacionCompra: [purchaseSettlement, d.generatePurchaseSettlementXML, d.parsePurchaseSettlementXML],
+};
+
+for (const [docType, [voucher, generate, parse]] of Object.entries(ROUND_TRIPS)) {
+  test(`el XML de ${docType} se convierte en su objeto y regenera el mismo XML`, () => {
+    const { xml } = generate(voucher(), '12345678');
+    const parsed = parse(xml);
+    assert.strictEqual(parsed.codigoNumerico, '12345678');
+    assert.strictEqual(parsed.signature, null);
+    assert.strictEqual(generate(parsed.voucher, parsed.codigoNumerico).xml, xml);
+  });
+}
+
+test('separa el comprobante y los metadatos de la respuesta <autorizacion>', () => {
+  const { xml, accessKey } = d.generateInvoiceXML(exampleInvoice(), '12345678');
+  const response = `<autorizacion><estado>AUTORIZADO</estado><numeroAutorizacion>${accessKey}</numeroAutorizacion>`
+    + `<fechaAutorizacion>2025-07-23T10:15:00-05:00</fechaAutorizacion><ambiente>PRUEBAS</ambiente>`
+    + `<comprobante><![CDATA[${xml}]]></comprobante></autorizacion>`;
+  const parsed = d.parseInvoiceXML(response);
+  assert.deepStrictEqual(parsed.authorization, {
+    estado: 'AUTORIZADO', numeroAutorizacion: accessKey, fechaAutorizacion: '2025-07-23T10:15:00-05:00', ambiente: 'PRUEBAS',
+  });
+  assert.strictEqual(d.extractVoucherXml(response), xml);
+  assert.throws(() => d.parseInvoiceXML('<autorizacion><estado>AUTORIZADO</estado></autorizacion>'), { name: 'ValidationError', message: /\/autorizacion\/comprobante/ });
+});
+
+test('rechaza un XML truncado o mal formado sin escribir en la consola', (t) => {
+  const warn = t.mock.method(console, 'warn', () => undefined);
+  const error = t.mock.method(console, 'error', () => undefined);
+  for (const xml of ['<factura version="1.1.0"><infoTributaria>', '', 'factura']) {
+    assert.throws(() => d.parseInvoiceXML(xml), { name: 'ValidationError', message: /no está bien formado/ }, xml);
+  }
+  assert.strictEqual(warn.mock.callCount() + error.mock.callCount(), 0);
+});
+
+test('rechaza un comprobante al que le falta un elemento obligatorio o tiene un número inválido', () => {
+  const { xml } = d.generateInvoiceXML(exampleInvoice(), '12345678');
+  const without = (name) => xml.replace(new RegExp(`<${name}>[^<]*</${name}>`), '');
+  assert.throws(() => d.parseInvoiceXML(without('importeTotal')), { name: 'ValidationError', message: /^\/factura\/infoFactura\/importeTotal: / });
+  assert.throws(() => d.parseInvoiceXML(without('ruc')), (error) => error.issues[0].path === '/factura/infoTributaria/ruc');
+  assert.throws(() => d.parseInvoiceXML(xml.replace('<cantidad>1.000000</cantidad>', '<cantidad></cantidad>')), { message: /\/factura\/detalles\/detalle\[1\]\/cantidad/ });
+  assert.throws(() => d.parseInvoiceXML(xml.replace(/<infoFactura>[\s\S]*<\/infoFactura>/, '')), { message: /\/factura\/infoFactura: / });
+});
+
+test('rechaza otro tipo de comprobante, una versión no soportada y bloques 2.x en una factura 1.x', () => {
+  const { xml } = d.generateInvoiceXML(exampleInvoice(), '12345678');
+  assert.throws(() => d.parseCreditNoteXML(xml), { name: 'ValidationError', message: /<notaCredito>/ });
+  assert.throws(() => d.parseInvoiceXML(xml.replace('version="2.1.0"', 'version="3.0.0"')), { name: 'ValidationError', message: /3\.0\.0/ });
+  const withV2Block = xml.replace('version="2.1.0"', 'version="1.1.0"').replace('</detalles>', '</detalles><otrosRubrosTerceros><rubro><concepto>Flete</concepto><total>1.00</total></rubro></otrosRubrosTerceros>');
+  assert.throws(() => d.parseInvoiceXML(withV2Block), { name: 'ValidationError', message: /otrosRubrosTerceros/ });
+});
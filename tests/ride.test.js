@@ -0,0 +1,33 @@
+/**
+ * @file tests/ride.test.js
+ * @description Pruebas del RIDE en PDF (`npm run test:unit`): se genera desde el objeto o el XML de la factura
+ * y los datos faltantes rechazan la promesa con un `ValidationError` en lugar de lanzar al llamar.
+ */
+
+const test = require('node:test');
+const assert = require('assert');
+const { generateInvoiceRide, generateInvoiceXML } = require('../dist');
+const { exampleInvoice } = require('./fixtures');
+
+const { xml, accessKey } = generateInvoiceXML(exampleInvoice(), '12345678');
+const FECHA_AUTORIZACION = '2025-07-23T10:15:00-05:00';
+
+test('genera el PDF desde el objeto de la factura y desde su XML', async () => {
+  const invoice = exampleInvoice();
+  invoice.infoTributaria.claveAcceso = accessKey;
+  for (const source of [invoice, xml]) {
+    const pdf = await generateInvoiceRide(source, { fechaAutorizacion: FECHA_AUTORIZACION });
+    assert.strictEqual(pdf.subarray(0, 5).toString(), '%PDF-');
+  }
+});
+
+test('rechaza la promesa con un ValidationError si faltan datos de autorización o el XML no se puede leer', async () => {
+  const call = (...args) => {
+    let promise;
+    assert.doesNotThrow(() => { promise = generateInvoiceRide(...args); });
+    return promise;
+  };
+  await assert.rejects(call(xml), { name: 'ValidationError', message: /fechaAutorizacion/ });
+  await assert.rejects(call(exampleInvoice(), { fechaAutorizacion: FECHA_AUTORIZACION }), { name: 'ValidationError', message: /claveAcceso/ });
+  await assert.rejects(call('<factura version="1.1.0">', { fechaAutorizacion: FECHA_AUTORIZACION }));
+});
@@ -0,0 +1,47 @@
+/**
+ * @file tests/schemaValidation.test.js
+ * @description Pruebas de la validación contra los XSD oficiales del SRI (`npm run test:unit`): violaciones con su línea
+ * y ruta, comprobantes firmados y versiones cuyo XSD oficial no se incluye.
+ */
+
+const test = require('node:test');
+const assert = require('assert');
+const { validateXmlAgainstSchema, assertValidSchema, getSchema, generateInvoiceXML } = require('../dist');
+const { calculatedInvoice, IVA_15 } = require('./fixtures');
+
+const { xml } = generateInvoiceXML(calculatedInvoice([
+  { cantidad: 2, precioUnitario: 10, impuestos: [IVA_15] },
+  { cantidad: 1, precioUnitario: 5, impuestos: [IVA_15] },
+]), '12345678');
+
+test('una factura 1.1.0 generada cumple factura_V1.1.0.xsd', async () => {
+  assert.deepStrictEqual(await validateXmlAgainstSchema(xml, 'factura', '1.1.0'), { valid: true, errors: [] });
+  await assertValidSchema(xml, 'factura', '1.1.0');
+});
+
+test('informa cada violación con su línea y la ruta del elemento', async () => {
+  const invalid = xml.replace('<cantidad>1.000000</cantidad>', '<cantidad>uno</cantidad>');
+  const result = await validateXmlAgainstSchema(invalid, 'factura', '1.1.0');
+  assert.strictEqual(result.valid, false);
+  const [violation] = result.errors;
+  assert.strictEqual(violation.path, '/factura/detalles/detalle[2]/cantidad');
+  assert.strictEqual(violation.line, invalid.split('\n').findIndex((line) => line.includes('<cantidad>uno')) + 1);
+  assert.match(violation.message, /cantidad/);
+  await assert.rejects(assertValidSchema(invalid, 'factura', '1.1.0'), { name: 'ValidationError', message: /detalle\[2\]\/cantidad/ });
+});
+
+test('valida la firma de un comprobante firmado con xmldsig-core-schema.xsd', async () => {
+  const signature = '<ds:Signature xmlns:ds="http://www.w3.org/2000/09/xmldsig#" Id="Signature"><ds:SignedInfo/></ds:Signature>';
+  const result = await validateXmlAgainstSchema(xml.replace('</factura>', `${signature}</factura>`), 'factura', '1.1.0');
+  assert.strictEqual(result.valid, false);
+  assert.match(result.errors[0].message, /SignedInfo|CanonicalizationMethod/);
+});
+
+test('lanza un error para las versiones cuyo XSD oficial no se incluye, en lugar de validar con otro esquema', async () => {
+  for (const version of ['1.0.0', '2.0.0', '2.1.0']) {
+    await assert.rejects(validateXmlAgainstSchema(xml, 'factura', version), { name: 'ValidationError', message: /no incluye el XSD oficial/ });
+  }
+  assert.throws(() => getSchema('notaCredito', '1.0.0'), { name: 'ValidationError', message: /versiones disponibles: 1\.1\.0/ });
+  await assert.rejects(generateInvoiceXML(calculatedInvoice([{ cantidad: 1, precioUnitario: 1, impuestos: [IVA_15] }], '2.1.0'), '12345678', { validateSchema: true }), { name: 'ValidationError' });
+  assert.match(getSchema('factura', '1.1.0'), /<xsd:element name="factura">/);
+});
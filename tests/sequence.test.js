@@ -0,0 +1,131 @@
+/**
+ * @file tests/sequence.test.js
+ * @description Pruebas del proveedor de secuenciales en archivo (`npm run test:unit`): varios procesos y varias
+ * instancias que compiten por el bloqueo nunca reciben el mismo secuencial ni dejan saltos.
+ */
+
+const test = require('node:test');
+const assert = require('assert');
+const fs = require('fs');
+const os = require('os');
+const path = require('path');
+const { execFile } = require('child_process');
+const { promisify } = require('util');
+const {
+  OpenFactura, createCallbackSigner, createFileSequenceProvider, createMemorySequenceProvider, sequenceName,
+} = require('../dist');
+const { exampleInvoice, throwawayIdentity } = require('./fixtures');
+
+const KEY = { ruc: '1790000001001', codDoc: '01', estab: '001', ptoEmi: '001' };
+
+const tempDirs = [];
+const tempFile = () => {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'open-factura-seq-'));
+  tempDirs.push(dir);
+  return path.join(dir, 'secuencias.json');
+};
+test.after(() => tempDirs.forEach((dir) => fs.rmSync(dir, { recursive: true, force: true })));
+
+/**
+ * Pide `count` secuenciales desde un proceso hijo y devuelve los asignados.
+ */
+async function nextInChildProcess(file, count) {
+  const script = `
+    const { createFileSequenceProvider } = require(${JSON.stringify(path.join(__dirname, '..', 'dist'))});
+    const provider = createFileSequenceProvider(${JSON.stringify(file)});
+    (async () => {
+      const assigned = [];
+      for (let i = 0; i < ${count}; i++) assigned.push(await provider.next(${JSON.stringify(KEY)}));
+      process.stdout.write(JSON.stringify(assigned));
+    })();
+  `;
+  const { stdout } = await promisify(execFile)(process.execPath, ['-e', script], { timeout: 60000 });
+  return JSON.parse(stdout);
+}
+
+const expectedSequentials = (count) => Array.from({ length: count }, (_, i) => String(i + 1).padStart(9, '0'));
+
+test('varios procesos que comparten el archivo reciben secuenciales únicos y consecutivos', async () => {
+  const file = tempFile();
+  const results = await Promise.all([nextInChildProcess(file, 15), nextInChildProcess(file, 15), nextInChildProcess(file, 15)]);
+  const assigned = results.flat().sort();
+  assert.deepStrictEqual(assigned, expectedSequentials(45));
+  assert.strictEqual(JSON.parse(fs.readFileSync(file, 'utf8'))[sequenceName(KEY)], 45);
+  assert.ok(!fs.existsSync(`${file}.lock`));
+});
+
+test('varias instancias del mismo proceso compiten por el bloqueo sin duplicar secuenciales', async () => {
+  const file = tempFile();
+  const providers = [createFileSequenceProvider(file), createFileSequenceProvider(file), createFileSequenceProvider(file)];
+  const assigned = await Promise.all(Array.from({ length: 30 }, (_, i) => providers[i % providers.length].next(KEY)));
+  assert.deepStrictEqual([...assigned].sort(), expectedSequentials(30));
+  assert.strictEqual(await providers[0].current(KEY), '000000030');
+});
+
+test('continúa la numeración inicial', async () => {
+  const provider = createFileSequenceProvider(tempFile(), { initial: { [sequenceName(KEY)]: 123 } });
+  assert.strictEqual(await provider.current(KEY), '000000123');
+  assert.strictEqual(await provider.next(KEY), '000000124');
+});
+
+test('falla con un error reintentable si el bloqueo no se libera a tiempo', async () => {
+  const file = tempFile();
+  fs.writeFileSync(`${file}.lock`, '');
+  const provider = createFileSequenceProvider(file, { lockTimeoutMs: 100 });
+  await assert.rejects(provider.next(KEY), { retryable: true, message: /bloqueo/ });
+});
+
+test('descarta un bloqueo abandonado', async () => {
+  const file = tempFile();
+  fs.writeFileSync(`${file}.lock`, '');
+  const old = new Date(Date.now() - 60000);
+  fs.utimesSync(`${file}.lock`, old, old);
+  const provider = createFileSequenceProvider(file, { lockTimeoutMs: 100, staleLockMs: 1000 });
+  assert.strictEqual(await provider.next(KEY), '000000001');
+});
+
+test('solo libera el último secuencial asignado', async () => {
+  for (const provider of [createFileSequenceProvider(tempFile()), createMemorySequenceProvider()]) {
+    const first = await provider.next(KEY);
+    const second = await provider.next(KEY);
+    assert.strictEqual(await provider.release(KEY, first), false);
+    assert.strictEqual(await provider.release(KEY, second), true);
+    assert.strictEqual(await provider.next(KEY), second);
+  }
+});
+
+test('varias instancias que descartan el mismo bloqueo abandonado no duplican secuenciales', async () => {
+  const file = tempFile();
+  fs.writeFileSync(`${file}.lock`, 'proceso-caido');
+  const old = new Date(Date.now() - 60000);
+  fs.utimesSync(`${file}.lock`, old, old);
+  const providers = Array.from({ length: 6 }, () => createFileSequenceProvider(file, { staleLockMs: 1000 }));
+  const assigned = await Promise.all(providers.map((provider) => provider.next(KEY)));
+  assert.deepStrictEqual([...assigned].sort(), expectedSequentials(6));
+  assert.deepStrictEqual(fs.readdirSync(path.dirname(file)), ['secuencias.json']);
+});
+
+test('no borra un bloqueo que ya no es suyo', async (t) => {
+  const file = tempFile();
+  const readFile = fs.promises.readFile;
+  // Mientras la instancia tiene el bloqueo, otro proceso lo descarta por abandonado y toma el suyo.
+  t.mock.method(fs.promises, 'readFile', async (target, ...rest) => {
+    if (target === file) fs.writeFileSync(`${file}.lock`, 'otro-proceso');
+    return readFile(target, ...rest);
+  });
+  assert.strictEqual(await createFileSequenceProvider(file).next(KEY), '000000001');
+  assert.strictEqual(fs.readFileSync(`${file}.lock`, 'utf8'), 'otro-proceso');
+});
+
+test('una falla al liberar el secuencial no oculta el error de la firma', async () => {
+  const identity = throwawayIdentity();
+  const memory = createMemorySequenceProvider();
+  const openFactura = new OpenFactura({
+    ambiente: '1',
+    signer: createCallbackSigner(identity.certificatePem, () => { throw new Error('HSM no disponible'); }),
+    sequenceProvider: { ...memory, release: async () => { throw new Error('almacenamiento no disponible'); } },
+  });
+  const invoice = exampleInvoice();
+  delete invoice.infoTributaria.secuencial;
+  await assert.rejects(openFactura.createAndSignInvoice(invoice), { name: 'SigningError', message: /HSM no disponible/ });
+});
@@ -0,0 +1,85 @@
+/**
+ * @file tests/signatureVerification.test.js
+ * @description Pruebas de la verificación de firmas XAdES-BES (`npm run test:unit`): cualquier alteración del
+ * comprobante, de las propiedades firmadas, del valor de la firma o del certificado se detecta y se informa en el
+ * resultado sin lanzar errores.
+ */
+
+const test = require('node:test');
+const assert = require('assert');
+const { generateInvoiceXML, signXML, verifySignedXML, createPemSigner } = require('../dist');
+const { exampleInvoice, throwawayIdentity } = require('./fixtures');
+
+const SIGNING_TIME = new Date('2025-07-23T15:00:00.000Z');
+const identity = throwawayIdentity('pruebas', { notBefore: new Date('2025-01-01T00:00:00Z'), notAfter: new Date('2026-01-01T00:00:00Z') });
+const other = throwawayIdentity();
+const { xml, accessKey } = generateInvoiceXML(exampleInvoice(), '12345678');
+const signed = signXML(xml, createPemSigner(identity.privateKeyPem, identity.certificatePem), { signingTime: SIGNING_TIME });
+
+const base64Of = (pem) => pem.replace(/-----[A-Z ]+-----|\s/g, '');
+
+test('verifica un comprobante firmado, también dentro de la respuesta <autorizacion>', async () => {
+  const signedXml = await signed;
+  const result = await verifySignedXML(signedXml);
+  assert.deepStrictEqual(result.errors, []);
+  assert.deepStrictEqual(
+    [result.valid, result.digestValid, result.signatureValid, result.certificateValid],
+    [true, true, true, true],
+  );
+  assert.deepStrictEqual(result.signingTime, SIGNING_TIME);
+  assert.match(result.certificate.subject, /OPEN-FACTURA PRUEBAS/);
+
+  const response = `<autorizacion><estado>AUTORIZADO</estado><numeroAutorizacion>${accessKey}</numeroAutorizacion>`
+    + `<comprobante><![CDATA[${signedXml}]]></comprobante></autorizacion>`;
+  assert.ok((await verifySignedXML(response)).valid);
+});
+
+test('detecta un cambio en el comprobante firmado', async () => {
+  const result = await verifySignedXML((await signed).replace('<razonSocialComprador>Juan', '<razonSocialComprador>Juana'));
+  assert.deepStrictEqual([result.valid, result.digestValid, result.signatureValid], [false, false, true]);
+  assert.ok(result.errors.length > 0);
+});
+
+test('detecta un cambio en las propiedades firmadas (SigningTime)', async () => {
+  const result = await verifySignedXML((await signed).replace('2025-07-23T15:00:00', '2025-07-22T15:00:00'));
+  assert.strictEqual(result.valid, false);
+  assert.strictEqual(result.digestValid, false);
+});
+
+test('detecta un digest o un valor de firma alterados', async () => {
+  const signedXml = await signed;
+  // Sustituir el digest del comprobante invalida el SignedInfo firmado.
+  const digest = /<ds:DigestValue>([^<]+)<\/ds:DigestValue>/.exec(signedXml)[1];
+  const withDigest = await verifySignedXML(signedXml.replace(digest, Buffer.alloc(32).toString('base64')));
+  assert.deepStrictEqual([withDigest.valid, withDigest.digestValid, withDigest.signatureValid], [false, false, false]);
+
+  const signatureValue = /<ds:SignatureValue>([^<]+)<\/ds:SignatureValue>/.exec(signedXml)[1];
+  const tampered = `${signatureValue[0] === 'A' ? 'B' : 'A'}${signatureValue.slice(1)}`;
+  const withValue = await verifySignedXML(signedXml.replace(signatureValue, tampered));
+  assert.deepStrictEqual([withValue.valid, withValue.digestValid, withValue.signatureValid], [false, true, false]);
+  assert.ok(withValue.errors.some((error) => /valor de la firma/.test(error)));
+});
+
+test('detecta un certificado sustituido por otro', async () => {
+  const result = await verifySignedXML((await signed).replace(base64Of(identity.certificatePem), base64Of(other.certificatePem)));
+  // La firma referencia el KeyInfo y las propiedades firmadas guardan el digest del certificado del firmante.
+  assert.deepStrictEqual([result.valid, result.digestValid, result.certificateValid], [false, false, false]);
+  assert.ok(result.errors.some((error) => /SigningCertificate/.test(error)));
+});
+
+test('rechaza un certificado que no estaba vigente en la fecha de firma', async () => {
+  const signedXml = await signXML(xml, createPemSigner(identity.privateKeyPem, identity.certificatePem), { signingTime: new Date('2026-06-01T00:00:00Z') });
+  const result = await verifySignedXML(signedXml);
+  assert.deepStrictEqual([result.valid, result.digestValid, result.signatureValid, result.certificateValid], [false, true, true, false]);
+  assert.ok(result.errors.some((error) => /no estaba vigente/.test(error)));
+});
+
+test('informa sin lanzar errores un comprobante sin firma o un XML mal formado', async () => {
+  assert.deepStrictEqual((await verifySignedXML(xml)).errors, ['El comprobante no contiene una firma <ds:Signature>.']);
+  const truncated = await verifySignedXML((await signed).slice(0, 200));
+  assert.strictEqual(truncated.valid, false);
+  assert.match(truncated.errors[0], /no está bien formado/);
+  const empty = await verifySignedXML('<autorizacion><estado>AUTORIZADO</estado></autorizacion>');
+  assert.strictEqual(empty.valid, false);
+  assert.match(empty.errors[0], /comprobante/);
+});
@@ -0,0 +1,46 @@
+/**
+ * @file tests/taxCatalog.test.js
+ * @description Pruebas del catálogo de impuestos (`npm run test:unit`): vigencia de los códigos de IVA
+ * según la fecha de emisión (código 2 con 12% hasta marzo de 2024, código 4 con 15% desde abril).
+ */
+
+const test = require('node:test');
+const assert = require('assert');
+const { resolveIvaRate, getIvaCodeForRate, findTaxCatalogIssues, assertTaxesInCatalog } = require('../dist');
+
+const iva = (codigoPorcentaje, tarifa) => ({ codigo: '2', codigoPorcentaje, tarifa, baseImponible: 100, valor: tarifa });
+
+test('resuelve el código 2 (12%) hasta el 31/03/2024 y lo rechaza después', () => {
+  assert.strictEqual(resolveIvaRate('2', '31/03/2024'), 12);
+  assert.throws(() => resolveIvaRate('2', '01/04/2024'), { name: 'ValidationError', message: /no está vigente al 01\/04\/2024/ });
+});
+
+test('resuelve el código 4 (15%) desde el 01/04/2024 y lo rechaza antes', () => {
+  assert.strictEqual(resolveIvaRate('4', '01/04/2024'), 15);
+  assert.throws(() => resolveIvaRate('4', '31/03/2024'), { name: 'ValidationError' });
+});
+
+test('rechaza un código de IVA que no existe', () => {
+  assert.throws(() => resolveIvaRate('99', '01/04/2024'), { name: 'ValidationError', message: /no existe/ });
+});
+
+test('obtiene el código vigente de cada tarifa según la fecha', () => {
+  assert.strictEqual(getIvaCodeForRate(12, '15/03/2024'), '2');
+  assert.strictEqual(getIvaCodeForRate(15, '15/04/2024'), '4');
+  assert.strictEqual(getIvaCodeForRate(0, '15/04/2024'), '0');
+  assert.throws(() => getIvaCodeForRate(12, '15/04/2024'), { name: 'ValidationError' });
+  assert.throws(() => getIvaCodeForRate(15, '15/03/2024'), { name: 'ValidationError' });
+});
+
+test('reporta los impuestos fuera de vigencia o con una tarifa distinta a la del catálogo', () => {
+  assert.deepStrictEqual(findTaxCatalogIssues([iva('4', 15)], '01/04/2024', 'detalles[0].impuestos'), []);
+
+  const [expired] = findTaxCatalogIssues([iva('2', 12)], '01/04/2024', 'detalles[0].impuestos');
+  assert.strictEqual(expired.path, 'detalles[0].impuestos[0]');
+  assert.match(expired.message, /no está vigente/);
+
+  const [wrongRate] = findTaxCatalogIssues([iva('4', 12)], '01/04/2024', 'detalles[0].impuestos');
+  assert.match(wrongRate.message, /no corresponde/);
+
+  assert.throws(() => assertTaxesInCatalog([iva('2', 12)], '01/04/2024', 'detalles[0].impuestos'), { name: 'ValidationError' });
+});
@@ -0,0 +1,98 @@
+/**
+ * @file tests/transport.test.js
+ * @description Pruebas del transporte SOAP (`npm run test:unit`): reintentos con backoff exponencial ante errores
+ * de red, respuestas 5xx/429 y SOAP Faults, sin reintentar los errores del cliente, y limitación de frecuencia.
+ * Usa un servidor HTTP local que responde según una lista programada.
+ */
+
+const test = require('node:test');
+const assert = require('assert');
+const http = require('http');
+const { postSoap } = require('../dist');
+
+const OK = '<soap:Envelope><soap:Body><respuesta>OK</respuesta></soap:Body></soap:Envelope>';
+const FAULT = '<soap:Envelope><soap:Body><soap:Fault><faultcode>soap:Server</faultcode><faultstring>Servicio saturado</faultstring></soap:Fault></soap:Body></soap:Envelope>';
+
+/**
+ * Inicia un servidor que responde con los pasos indicados, en orden (el último se repite),
+ * y registra el momento de cada solicitud. Un paso `null` no responde nunca.
+ */
+async function startServer(steps) {
+  const times = [];
+  const server = http.createServer((req, res) => {
+    req.resume();
+    req.on('end', () => {
+      const step = steps[Math.min(times.length, steps.length - 1)];
+      times.push(Date.now());
+      if (step === null) return;
+      res.writeHead(step.status, { 'Content-Type': 'text/xml' });
+      res.end(step.body ?? '');
+    });
+  });
+  await new Promise((resolve) => server.listen(0, '127.0.0.1', resolve));
+  return {
+    url: `http://127.0.0.1:${server.address().port}/ws`,
+    times,
+    close: () => new Promise((resolve) => { server.closeAllConnections(); server.close(resolve); }),
+  };
+}
+
+const FAST = { retryDelayMs: 1, proxy: false };
+
+test('reintenta ante respuestas 5xx, 429 y SOAP Faults y devuelve la primera respuesta correcta', async (t) => {
+  const server = await startServer([{ status: 503 }, { status: 429 }, { status: 200, body: FAULT }, { status: 200, body: OK }]);
+  t.after(server.close);
+  assert.strictEqual(await postSoap(server.url, '<sobre/>', 'Recepción', FAST), OK);
+  assert.strictEqual(server.times.length, 4);
+});
+
+test('falla con un SriCommunicationError reintentable al agotar los reintentos', async (t) => {
+  const server = await startServer([{ status: 200, body: FAULT }]);
+  t.after(server.close);
+  const accessKey = '2307202501060241661200110010010000001231234567813';
+  await assert.rejects(postSoap(server.url, '<sobre/>', 'Autorización', { ...FAST, retries: 2 }, accessKey), {
+    name: 'SriCommunicationError', retryable: true, attempts: 3, status: 200, fault: 'Servicio saturado', accessKey,
+    message: /Autorización.*tras 3 intentos[\s\S]*Servicio saturado/,
+  });
+  assert.strictEqual(server.times.length, 3);
+});
+
+test('no reintenta los errores del cliente (4xx)', async (t) => {
+  const server = await startServer([{ status: 400, body: FAULT }]);
+  t.after(server.close);
+  await assert.rejects(postSoap(server.url, '<sobre/>', 'Recepción', FAST), {
+    name: 'SriCommunicationError', retryable: false, attempts: 1, status: 400, fault: 'Servicio saturado',
+  });
+  assert.strictEqual(server.times.length, 1);
+});
+
+test('reintenta una llamada que supera el timeout', async (t) => {
+  const server = await startServer([null, { status: 200, body: OK }]);
+  t.after(server.close);
+  assert.strictEqual(await postSoap(server.url, '<sobre/>', 'Recepción', { ...FAST, timeoutMs: 100 }), OK);
+
+  const silent = await startServer([null]);
+  t.after(silent.close);
+  await assert.rejects(postSoap(silent.url, '<sobre/>', 'Recepción', { ...FAST, timeoutMs: 50, retries: 1 }), {
+    name: 'SriCommunicationError', retryable: true, attempts: 2, status: null,
+  });
+});
+
+test('duplica la espera entre reintentos y la limita a maxRetryDelayMs', async (t) => {
+  const server = await startServer([{ status: 503 }, { status: 503 }, { status: 503 }, { status: 200, body: OK }]);
+  t.after(server.close);
+  await postSoap(server.url, '<sobre/>', 'Recepción', { retryDelayMs: 100, maxRetryDelayMs: 300, proxy: false });
+  const gaps = server.times.slice(1).map((time, i) => time - server.times[i]);
+  // Cada espera es la base (100, 200, 400 → 300) multiplicada por un factor aleatorio entre 0.5 y 1.
+  [[50, 100], [100, 200], [150, 300]].forEach(([min, max], i) => {
+    assert.ok(gaps[i] >= min - 5 && gaps[i] <= max + 150, `espera ${i + 1}: ${gaps[i]} ms`);
+  });
+});
+
+test('limita las solicitudes por segundo a un mismo host', async (t) => {
+  const server = await startServer([{ status: 200, body: OK }]);
+  t.after(server.close);
+  const options = { ...FAST, maxRequestsPerSecond: 10 };
+  await Promise.all([1, 2, 3].map(() => postSoap(server.url, '<sobre/>', 'Recepción', options)));
+  assert.ok(server.times[2] - server.times[0] >= 190, `${server.times[2] - server.times[0]} ms`);
+});
@@ -1,11 +1,17 @@
+import { cp } from 'fs/promises';
 import { defineConfig } from 'tsup';
 
 export default defineConfig({
-  entry: ['src/index.ts'],
+  entry: ['src/index.ts', 'src/cli.ts'], // cli.ts es el ejecutable 'open-factura' (campo "bin" de package.json)
   format: ['cjs', 'esm'], // Genera tanto CommonJS (.js) como ES Modules (.mjs)
   dts: true, // Genera los archivos de declaración de tipos (.d.ts)
   splitting: false,
   sourcemap: true,
   clean: true, // Limpia la carpeta /dist antes de cada compilación
   minify: true,
+  shims: true, // Define __dirname en el build ESM, usado para leer los XSD
+  // Copia los esquemas XSD oficiales del SRI a dist/xsd, junto al bundle
+  onSuccess: async () => {
+    await cp('src/schemas/xsd', 'dist/xsd', { recursive: true });
+  },
 });